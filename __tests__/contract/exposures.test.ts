@@ -75,8 +75,8 @@ describe('Exposures Contract Tests', () => {
       // Should fail validation
       const validExposureTypes = [
         'silica_dust',
-        'asbestos_a',
-        'asbestos_b',
+        'asbestos_class_a',
+        'asbestos_class_b',
         'hazardous_chemicals',
         'noise',
         'meth_contamination',
@@ -202,24 +202,28 @@ describe('Exposures Contract Tests', () => {
   });
 
   describe('exposures:list query', () => {
-    it('should support pagination with limit and cursor', () => {
+    it('should support pagination with numItems and cursor', () => {
       const queryParams = {
-        limit: 50,
-        cursor: null,
+        paginationOpts: {
+          numItems: 50,
+          cursor: null,
+        },
       };
 
-      expect(queryParams.limit).toBeLessThanOrEqual(100); // Max limit
-      expect(queryParams.limit).toBeGreaterThan(0);
+      expect(queryParams.paginationOpts.numItems).toBeLessThanOrEqual(100); // Max page size
+      expect(queryParams.paginationOpts.numItems).toBeGreaterThan(0);
     });
 
-    it('should filter by userId', () => {
-      const queryParams = {
-        userId: 'user_123',
-        limit: 50,
-        cursor: null,
+    it('should return a page with a continue cursor', () => {
+      const result = {
+        page: [],
+        isDone: false,
+        continueCursor: 'cursor_abc',
       };
 
-      expect(queryParams.userId).toBeTruthy();
+      expect(Array.isArray(result.page)).toBe(true);
+      expect(typeof result.isDone).toBe('boolean');
+      expect(typeof result.continueCursor).toBe('string');
     });
   });
 
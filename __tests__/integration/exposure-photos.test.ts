@@ -0,0 +1,154 @@
+/**
+ * Integration test for photos captured with a new exposure
+ * Drives useExposures.createExposure through the photo queue to completeUpload
+ *
+ * Run with: npm test __tests__/integration/exposure-photos.test.ts
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { act, renderHook } from '@testing-library/react-native';
+import { useMutation } from 'convex/react';
+import { useExposures } from '../../src/hooks/useExposures';
+import { offlineQueue } from '../../src/lib/offlineQueue';
+import { photoQueue, PhotoUploadTransport } from '../../src/lib/photoQueue';
+import { ExposureDraft } from '../../src/types/exposure';
+
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(() => jest.fn()),
+  fetch: jest.fn(() => Promise.resolve({ isConnected: true, type: 'wifi' })),
+}));
+
+// The upload path reads no files here; the fake transport stands in for storage
+jest.mock('expo-image-manipulator', () => ({}));
+
+jest.mock('convex/react', () => ({
+  useMutation: jest.fn(),
+  useQuery: jest.fn(),
+  usePaginatedQuery: jest.fn(() => ({ results: [], status: 'Exhausted', loadMore: jest.fn() })),
+}));
+
+const draft: Omit<ExposureDraft, 'clientId'> = {
+  timestamp: Date.now(),
+  exposureType: 'silica_dust',
+  duration: { hours: 2, minutes: 0 },
+  location: {
+    latitude: -36.8485,
+    longitude: 174.7633,
+    accuracy: 10,
+    address: null,
+    siteName: null,
+  },
+  severity: 'medium',
+  ppe: [],
+  workActivity: 'Cutting concrete',
+  notes: null,
+  chemicalName: null,
+  sdsReference: null,
+  controlMeasures: null,
+  photos: [
+    {
+      localUri: 'file:///photos/site.jpg',
+      fileName: 'site.jpg',
+      fileSize: 1000,
+      mimeType: 'image/jpeg',
+      width: 1920,
+      height: 1080,
+      exif: null,
+      contentHash: 'capture-hash',
+    },
+  ],
+  voiceTranscription: null,
+};
+
+/**
+ * Fake Convex server holding exposures by clientId and the photos completed on them
+ */
+function createFakeServer() {
+  const exposures = new Map<string, string>();
+  const completed: { exposureId: string; contentHash: string | null }[] = [];
+  const uploads = new Map<string, { exposureId: string; contentHash: string | null }>();
+
+  const transport: PhotoUploadTransport = {
+    async resolveExposureId(exposureClientId) {
+      return exposures.get(exposureClientId) ?? null;
+    },
+    async startUpload({ exposureId, contentHash }) {
+      const uploadId = `upload_${uploads.size + 1}`;
+      uploads.set(uploadId, { exposureId, contentHash });
+      return { status: 'started', uploadId, receivedBytes: 0 };
+    },
+    async getReceivedBytes() {
+      return null;
+    },
+    async uploadChunk(_uploadId, _localUri, offset, length) {
+      return offset + length;
+    },
+    async completeUpload(uploadId) {
+      completed.push(uploads.get(uploadId)!);
+      return `photo_${completed.length}`;
+    },
+  };
+
+  const create = (clientId: string) => {
+    const id = `exp_${exposures.size + 1}`;
+    exposures.set(clientId, id);
+    return id;
+  };
+
+  return { transport, completed, create };
+}
+
+describe('Photos captured with an exposure', () => {
+  beforeEach(() => {
+    photoQueue.clear();
+    offlineQueue.clear();
+  });
+
+  it('should upload them with the capture-time hash once the exposure is created', async () => {
+    const server = createFakeServer();
+    photoQueue.setTransport(server.transport);
+    jest
+      .mocked(useMutation)
+      .mockReturnValue((async (args: { clientId: string }) => server.create(args.clientId)) as any);
+
+    const { result } = renderHook(() => useExposures());
+    await act(async () => {
+      await result.current.createExposure(draft);
+    });
+    await photoQueue.processQueue();
+
+    expect(server.completed).toEqual([{ exposureId: 'exp_1', contentHash: 'capture-hash' }]);
+    expect(photoQueue.count()).toBe(0);
+  });
+
+  it('should upload them after an exposure queued offline syncs', async () => {
+    const server = createFakeServer();
+    photoQueue.setTransport(server.transport);
+    jest.mocked(useMutation).mockReturnValue((async () => {
+      throw new Error('Network request failed');
+    }) as any);
+
+    const { result } = renderHook(() => useExposures());
+    await act(async () => {
+      await result.current.createExposure(draft);
+    });
+    await photoQueue.processQueue();
+    expect(server.completed).toHaveLength(0);
+    expect(photoQueue.getAll()[0].uploadStatus).toBe('pending');
+
+    offlineQueue.setTransport({
+      async syncBatch(items) {
+        return items.map(item => ({
+          clientId: item.draft.clientId,
+          status: 'created' as const,
+          id: server.create(item.draft.clientId),
+        }));
+      },
+    });
+    await offlineQueue.processQueue();
+    await photoQueue.processQueue();
+
+    expect(server.completed).toEqual([{ exposureId: 'exp_1', contentHash: 'capture-hash' }]);
+    expect(photoQueue.count()).toBe(0);
+  });
+});
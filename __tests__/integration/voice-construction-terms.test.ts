@@ -34,8 +34,8 @@ describe('Voice Recognition - Construction Industry Terminology', () => {
 
       expect(result.exposureType).toBe('silica_dust');
       expect(result.workActivity?.toLowerCase()).toContain('cutting');
-      expect(result.ppe).toContain('P2_RESPIRATOR');
-      expect(result.ppe).toContain('SAFETY_GLASSES');
+      expect(result.ppe).toContain('p2_respirator');
+      expect(result.ppe).toContain('safety_glasses');
     });
 
     it('should parse: "Welding steel beams for three hours, used welding helmet and gloves"', () => {
@@ -45,8 +45,8 @@ describe('Voice Recognition - Construction Industry Terminology', () => {
       expect(result.exposureType).toBe('welding_fumes');
       expect(result.duration).toEqual({ hours: 3, minutes: 0 });
       expect(result.workActivity?.toLowerCase()).toContain('welding');
-      expect(result.ppe).toContain('WELDING_MASK');
-      expect(result.ppe).toContain('GLOVES');
+      expect(result.ppe).toContain('welding_helmet');
+      expect(result.ppe).toContain('gloves');
     });
 
     it('should parse: "Demo work on friable asbestos class A, hour and a half, full face respirator"', () => {
@@ -55,7 +55,7 @@ describe('Voice Recognition - Construction Industry Terminology', () => {
 
       expect(result.exposureType).toBe('asbestos_class_a');
       expect(result.duration).toEqual({ hours: 1, minutes: 30 });
-      expect(result.ppe).toContain('FULL_FACE_RESPIRATOR');
+      expect(result.ppe).toContain('full_face_respirator');
     });
 
     it('should parse: "Mixing concrete, couple of hours, moderate dust"', () => {
@@ -75,7 +75,7 @@ describe('Voice Recognition - Construction Industry Terminology', () => {
       expect(result.chemicalName).toBe('paint thinner');
       expect(result.duration).toEqual({ hours: 0, minutes: 30 });
       expect(result.workActivity?.toLowerCase()).toContain('using');
-      expect(result.ppe).toContain('GLOVES');
+      expect(result.ppe).toContain('gloves');
     });
 
     it('should parse: "Grinding metal, heavy welding fumes, two hours with half mask and ear plugs"', () => {
@@ -86,8 +86,8 @@ describe('Voice Recognition - Construction Industry Terminology', () => {
       expect(result.severity).toBe('high');
       expect(result.duration).toEqual({ hours: 2, minutes: 0 });
       expect(result.workActivity?.toLowerCase()).toContain('grinding');
-      expect(result.ppe).toContain('HALF_FACE_RESPIRATOR');
-      expect(result.ppe).toContain('HEARING_PROTECTION');
+      expect(result.ppe).toContain('half_face_respirator');
+      expect(result.ppe).toContain('hearing_protection');
     });
   });
 
@@ -113,25 +113,25 @@ describe('Voice Recognition - Construction Industry Terminology', () => {
   describe('Common PPE terminology variations', () => {
     it('should recognize "mask" as respirator', () => {
       const result = parsePPE('wearing P2 mask');
-      expect(result).toContain('P2_RESPIRATOR');
+      expect(result).toContain('p2_respirator');
     });
 
     it('should recognize "ear plugs" and "ear muffs"', () => {
       const result1 = parsePPE('wearing ear plugs');
       const result2 = parsePPE('wearing ear muffs');
 
-      expect(result1).toContain('HEARING_PROTECTION');
-      expect(result2).toContain('HEARING_PROTECTION');
+      expect(result1).toContain('hearing_protection');
+      expect(result2).toContain('hearing_protection');
     });
 
     it('should recognize "hi vis"', () => {
       const result = parsePPE('wearing hi vis vest');
-      expect(result).toContain('HI_VIS_CLOTHING');
+      expect(result).toContain('hi_vis_clothing');
     });
 
     it('should recognize "steel toe boots"', () => {
       const result = parsePPE('wearing steel toe boots');
-      expect(result).toContain('STEEL_CAP_BOOTS');
+      expect(result).toContain('safety_boots');
     });
   });
 
@@ -147,10 +147,10 @@ describe('Voice Recognition - Construction Industry Terminology', () => {
       expect(result.duration).toBeDefined();
       // Should detect multiple PPE items
       expect(result.ppe?.length).toBeGreaterThan(2);
-      expect(result.ppe).toContain('P2_RESPIRATOR');
-      expect(result.ppe).toContain('WELDING_MASK');
-      expect(result.ppe).toContain('HARD_HAT');
-      expect(result.ppe).toContain('GLOVES');
+      expect(result.ppe).toContain('p2_respirator');
+      expect(result.ppe).toContain('welding_helmet');
+      expect(result.ppe).toContain('hard_hat');
+      expect(result.ppe).toContain('gloves');
       // Should detect severity
       expect(result.severity).toBe('high');
     });
@@ -171,7 +171,7 @@ describe('Voice Recognition - Construction Industry Terminology', () => {
 
       expect(result.exposureType).toBe('silica_dust');
       expect(result.duration).toBeDefined();
-      expect(result.ppe).toContain('P2_RESPIRATOR');
+      expect(result.ppe).toContain('p2_respirator');
       expect(result.severity).toBe('high');
     });
 
@@ -0,0 +1,64 @@
+/**
+ * Unit test for the claim pack chronology and readiness checks
+ *
+ * Run with: npm test __tests__/unit/lib/claimPack.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildClaimChronology,
+  claimPackProblems,
+  EMPTY_CLAIM_PACK_DETAILS,
+} from '../../../convex/claimPack';
+
+describe('buildClaimChronology', () => {
+  it('numbers exposures oldest first with a running total of hours', () => {
+    const chronology = buildClaimChronology([
+      { id: 'c', timestamp: 3000, duration: { hours: 0, minutes: 20 } },
+      { id: 'a', timestamp: 1000, duration: { hours: 2, minutes: 30 } },
+      { id: 'b', timestamp: 2000, duration: { hours: 1, minutes: 0 } },
+    ]);
+
+    expect(
+      chronology.map(entry => [entry.exposure.id, entry.number, entry.hours, entry.cumulativeHours])
+    ).toEqual([
+      ['a', 1, 2.5, 2.5],
+      ['b', 2, 1, 3.5],
+      ['c', 3, 0.3, 3.8],
+    ]);
+  });
+
+  it('returns an empty chronology for no exposures', () => {
+    expect(buildClaimChronology([])).toEqual([]);
+  });
+});
+
+describe('claimPackProblems', () => {
+  it('lists every missing part of an empty pack', () => {
+    expect(claimPackProblems(EMPTY_CLAIM_PACK_DETAILS, 0)).toEqual([
+      'Select at least one exposure',
+      'Write your personal statement',
+      "Add your employer's name",
+    ]);
+  });
+
+  it('is empty once exposures, statement and employer are in', () => {
+    const details = {
+      ...EMPTY_CLAIM_PACK_DETAILS,
+      employer: { name: 'Acme Demolition', contact: '', address: '' },
+      statement: 'I cut concrete without extraction for three years.',
+    };
+
+    expect(claimPackProblems(details, 2)).toEqual([]);
+  });
+
+  it('treats a blank statement as missing', () => {
+    const details = {
+      ...EMPTY_CLAIM_PACK_DETAILS,
+      employer: { name: 'Acme Demolition', contact: '', address: '' },
+      statement: '   ',
+    };
+
+    expect(claimPackProblems(details, 1)).toEqual(['Write your personal statement']);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit test for the shared CSV export
+ *
+ * Run with: npm test __tests__/unit/lib/csv.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_CSV_OPTIONS,
+  escapeCSVField,
+  ExposureForCSV,
+  generateCSV,
+  generateCSVSummary,
+  normalizeCsvColumns,
+  toggleCsvColumn,
+} from '../../../convex/csv';
+
+const exposure: ExposureForCSV = {
+  _id: 'exposure-1',
+  exposureType: 'silica_dust',
+  timestamp: Date.UTC(2024, 0, 1, 22, 30),
+  duration: { hours: 1, minutes: 30 },
+  location: { latitude: -36.8485, longitude: 174.7633, address: null, siteName: 'Site A' },
+  severity: 'high',
+  ppe: ['p2_respirator', 'gloves'],
+  workActivity: 'Cutting "hard" concrete, dry',
+  notes: null,
+  chemicalName: null,
+  sdsReference: null,
+  controlMeasures: null,
+  photoIds: ['photo-1', 'photo-2'],
+  _creationTime: Date.UTC(2024, 0, 1, 23, 0),
+  updatedAt: Date.UTC(2024, 0, 1, 23, 0),
+};
+
+describe('escapeCSVField', () => {
+  it('quotes commas, quotes and line breaks per RFC 4180', () => {
+    expect(escapeCSVField('plain')).toBe('plain');
+    expect(escapeCSVField('a, b')).toBe('"a, b"');
+    expect(escapeCSVField('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCSVField('line\nbreak')).toBe('"line\nbreak"');
+    expect(escapeCSVField(null)).toBe('');
+  });
+});
+
+describe('generateCSV', () => {
+  it('writes the chosen columns in schema order', () => {
+    const csv = generateCSV(
+      [exposure],
+      { ...DEFAULT_CSV_OPTIONS, columns: ['photoCount', 'exposureType', 'ppe', 'workActivity'] },
+      780
+    );
+
+    expect(csv.split('\n')).toEqual([
+      'Exposure Type,Work Activity,PPE Used,Photo Count',
+      'Silica Dust,"Cutting ""hard"" concrete, dry",p2_respirator; gloves,2',
+    ]);
+  });
+
+  it('formats dates as NZ or ISO 8601 in the given time zone', () => {
+    const columns: typeof DEFAULT_CSV_OPTIONS.columns = ['date', 'time', 'createdAt'];
+
+    expect(generateCSV([exposure], { ...DEFAULT_CSV_OPTIONS, columns }, 780).split('\n')[1]).toBe(
+      '02/01/2024,11:30,02/01/2024 12:00'
+    );
+    expect(
+      generateCSV([exposure], { ...DEFAULT_CSV_OPTIONS, columns, dateFormat: 'iso' }, 780).split(
+        '\n'
+      )[1]
+    ).toBe('2024-01-02,11:30,2024-01-02T12:00');
+  });
+
+  it('starts with a byte order mark only when asked', () => {
+    expect(generateCSV([exposure], DEFAULT_CSV_OPTIONS, 0).startsWith('\uFEFF')).toBe(false);
+    expect(
+      generateCSV([exposure], { ...DEFAULT_CSV_OPTIONS, includeBom: true }, 0).startsWith(
+        '\uFEFFID,'
+      )
+    ).toBe(true);
+  });
+});
+
+describe('column choice', () => {
+  it('drops unknown and repeated columns', () => {
+    expect(normalizeCsvColumns(['notes', 'retired', 'id', 'notes'])).toEqual(['id', 'notes']);
+  });
+
+  it('turns a column back on in schema order', () => {
+    const options = { ...DEFAULT_CSV_OPTIONS, columns: normalizeCsvColumns(['id', 'notes']) };
+
+    expect(toggleCsvColumn(options, 'severity').columns).toEqual(['id', 'severity', 'notes']);
+    expect(toggleCsvColumn(options, 'id').columns).toEqual(['notes']);
+  });
+});
+
+describe('generateCSVSummary', () => {
+  it('counts photos and exposures without adequate PPE', () => {
+    const lines = generateCSVSummary([exposure, { ...exposure, _id: 'exposure-2', ppe: [] }]).split(
+      '\n'
+    );
+
+    expect(lines).toContain('Total Photos,4');
+    expect(lines).toContain('Exposures Without Adequate PPE,1');
+    expect(lines).toContain('Silica Dust,2');
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit test for export scoping by date, type, severity, site and picked records
+ *
+ * Run with: npm test __tests__/unit/lib/exportScope.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyExportScope,
+  applySymptomScope,
+  EMPTY_EXPORT_SCOPE,
+  estimateExportBytes,
+  formatEstimatedSize,
+  presetDateRange,
+  ScopeSite,
+} from '../../../convex/exportScope';
+
+function makeExposure(id: string, overrides: Record<string, any> = {}) {
+  return {
+    _id: id,
+    timestamp: new Date(2024, 4, 10, 9, 0).getTime(),
+    exposureType: 'silica_dust',
+    severity: 'medium',
+    location: { latitude: -36.8485, longitude: 174.7633, siteName: null as string | null },
+    photoIds: [] as string[],
+    ...overrides,
+  };
+}
+
+const site: ScopeSite = {
+  _id: 'site-1',
+  siteName: 'Harbour Bridge',
+  address: '1 Shore Rd',
+  latitude: -36.8,
+  longitude: 174.7,
+};
+
+describe('applyExportScope', () => {
+  const exposures = [
+    makeExposure('early', { timestamp: new Date(2024, 0, 5).getTime() }),
+    makeExposure('noise', { exposureType: 'noise', severity: 'high' }),
+    makeExposure('named', { location: { latitude: 0, longitude: 0, siteName: 'harbour bridge ' } }),
+    makeExposure('nearby', {
+      location: { latitude: -36.8002, longitude: 174.7, siteName: 'Other' },
+    }),
+  ];
+  const ids = (scope: Partial<typeof EMPTY_EXPORT_SCOPE>) =>
+    applyExportScope(exposures, { ...EMPTY_EXPORT_SCOPE, ...scope }, [site]).map(e => e._id);
+
+  it('keeps everything for the empty scope', () => {
+    expect(ids({})).toEqual(['early', 'noise', 'named', 'nearby']);
+  });
+
+  it('filters by date range, type and severity together', () => {
+    expect(ids({ dateFrom: new Date(2024, 1, 1).getTime() })).toEqual(['noise', 'named', 'nearby']);
+    expect(ids({ exposureTypes: ['noise'] })).toEqual(['noise']);
+    expect(ids({ severities: ['medium'], dateTo: new Date(2024, 1, 1).getTime() })).toEqual([
+      'early',
+    ]);
+  });
+
+  it('matches saved sites by name or distance, and unknown sites match nothing', () => {
+    expect(ids({ siteIds: ['site-1'] })).toEqual(['named', 'nearby']);
+    expect(ids({ siteIds: ['deleted-site'] })).toEqual([]);
+  });
+
+  it('keeps only picked records that also match the filters', () => {
+    expect(ids({ exposureIds: ['early', 'noise'], exposureTypes: ['noise'] })).toEqual(['noise']);
+  });
+});
+
+describe('applySymptomScope', () => {
+  const symptoms = [
+    { _id: 'linked', onsetAt: new Date(2024, 6, 1).getTime(), exposureIds: ['noise'] },
+    { _id: 'other', onsetAt: new Date(2024, 4, 11).getTime(), exposureIds: ['early'] },
+    { _id: 'in-range', onsetAt: new Date(2024, 4, 12).getTime(), exposureIds: [] },
+    { _id: 'before', onsetAt: new Date(2024, 0, 2).getTime(), exposureIds: [] },
+  ];
+
+  it('keeps symptoms linked to exported exposures or begun within the date range', () => {
+    const scope = {
+      dateFrom: new Date(2024, 4, 1).getTime(),
+      dateTo: new Date(2024, 4, 31).getTime(),
+    };
+    expect(applySymptomScope(symptoms, [makeExposure('noise')], scope).map(s => s._id)).toEqual([
+      'linked',
+      'in-range',
+    ]);
+  });
+});
+
+describe('presetDateRange', () => {
+  it('covers the previous calendar quarter', () => {
+    const range = presetDateRange('lastQuarter', new Date(2024, 4, 10).getTime());
+    expect(range.dateFrom).toBe(new Date(2024, 0, 1).getTime());
+    expect(range.dateTo).toBe(new Date(2024, 3, 1).getTime() - 1);
+    expect(presetDateRange('all')).toEqual({ dateFrom: null, dateTo: null });
+  });
+});
+
+describe('estimateExportBytes', () => {
+  it('grows with records and photos', () => {
+    const withPhotos = [makeExposure('a', { photoIds: ['p1', 'p2'] })];
+    expect(estimateExportBytes(withPhotos, 'pdf')).toBeGreaterThan(
+      estimateExportBytes([makeExposure('a')], 'pdf')
+    );
+    expect(formatEstimatedSize(estimateExportBytes(withPhotos, 'pdf'))).toBe('~279 KB');
+    expect(formatEstimatedSize(estimateExportBytes([], 'csv'))).toBe('~1 KB');
+  });
+});
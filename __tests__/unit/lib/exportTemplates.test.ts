@@ -0,0 +1,81 @@
+/**
+ * Unit test for export templates
+ *
+ * Run with: npm test __tests__/unit/lib/exportTemplates.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  BUILT_IN_TEMPLATES,
+  EXPORT_SECTIONS,
+  ExportTemplate,
+  enabledSections,
+  moveSection,
+  normalizeTemplate,
+  toggleSection,
+} from '../../../convex/exportTemplates';
+
+const gp = BUILT_IN_TEMPLATES.find(template => template.id === 'gp') as ExportTemplate;
+
+describe('built-in templates', () => {
+  it('list every section once', () => {
+    for (const template of BUILT_IN_TEMPLATES) {
+      expect(template.sections.map(section => section.id).sort()).toEqual(
+        EXPORT_SECTIONS.map(section => section.id).sort()
+      );
+    }
+  });
+
+  it('enable the sections of the GP layout in order', () => {
+    expect(enabledSections(gp)).toEqual(['cover', 'summary', 'chronology', 'symptoms']);
+  });
+});
+
+describe('toggleSection and moveSection', () => {
+  it('turns a section on where it sits in the order', () => {
+    expect(enabledSections(toggleSection(gp, 'toc'))).toEqual([
+      'cover',
+      'summary',
+      'chronology',
+      'symptoms',
+      'toc',
+    ]);
+  });
+
+  it('swaps a section with its neighbour', () => {
+    expect(enabledSections(moveSection(gp, 'chronology', -1))).toEqual([
+      'cover',
+      'chronology',
+      'summary',
+      'symptoms',
+    ]);
+  });
+
+  it('leaves the template unchanged when moving past either end', () => {
+    expect(moveSection(gp, 'cover', -1)).toBe(gp);
+    const last = gp.sections[gp.sections.length - 1].id;
+    expect(moveSection(gp, last, 1)).toBe(gp);
+  });
+});
+
+describe('normalizeTemplate', () => {
+  it('appends missing sections disabled and drops unknown and repeated ones', () => {
+    const saved = {
+      id: 'custom-1',
+      name: 'Mine',
+      description: '',
+      builtIn: false,
+      sections: [
+        { id: 'summary', enabled: true },
+        { id: 'retired', enabled: true },
+        { id: 'summary', enabled: false },
+      ],
+    } as unknown as ExportTemplate;
+
+    const normalized = normalizeTemplate(saved);
+
+    expect(normalized.sections[0]).toEqual({ id: 'summary', enabled: true });
+    expect(normalized.sections).toHaveLength(EXPORT_SECTIONS.length);
+    expect(enabledSections(normalized)).toEqual(['summary']);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Unit test for daily exposure dose calculations
+ *
+ * Run with: npm test __tests__/unit/lib/exposureDose.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  calculateDailyTWA,
+  calculateNoiseDose,
+  calculateVibrationDose,
+  summarizeVibrationWeeks,
+  twaUnitMismatch,
+} from '../../../convex/exposureDose';
+import {
+  findExposureStandard,
+  respiratorProtectionFactor,
+} from '../../../convex/exposureStandards';
+
+describe('calculateNoiseDose', () => {
+  it('gives 100% at 85 dB(A) for 8 hours', () => {
+    const dose = calculateNoiseDose([{ levelDbA: 85, durationMinutes: 480 }]);
+    expect(dose).toEqual({ lexDbA: 85, dosePercent: 100, exceedsLex: false, exceedsPeak: false });
+  });
+
+  it('doubles the dose every 3 dB', () => {
+    const dose = calculateNoiseDose([{ levelDbA: 88, durationMinutes: 480 }]);
+    expect(dose?.dosePercent).toBe(200);
+    expect(dose?.exceedsLex).toBe(true);
+  });
+
+  it('normalises shorter exposures to 8 hours', () => {
+    // 4 hours at 91 dB(A) carries the same energy as 8 hours at 88 dB(A)
+    const dose = calculateNoiseDose([{ levelDbA: 91, durationMinutes: 240 }]);
+    expect(dose?.lexDbA).toBe(88);
+  });
+
+  it('combines segments by energy', () => {
+    const dose = calculateNoiseDose([
+      { levelDbA: 95, durationMinutes: 60 },
+      { levelDbA: 80, durationMinutes: 420 },
+    ]);
+    expect(dose?.lexDbA).toBe(86.8);
+    expect(dose?.dosePercent).toBe(153);
+  });
+
+  it('flags peaks over 140 dB(C)', () => {
+    const segments = [{ levelDbA: 80, durationMinutes: 60 }];
+    expect(calculateNoiseDose(segments, 140)?.exceedsPeak).toBe(false);
+    expect(calculateNoiseDose(segments, 142)?.exceedsPeak).toBe(true);
+  });
+
+  it('returns null without timed segments', () => {
+    expect(calculateNoiseDose([])).toBeNull();
+    expect(calculateNoiseDose([{ levelDbA: 90, durationMinutes: 0 }])).toBeNull();
+  });
+});
+
+describe('calculateVibrationDose', () => {
+  const grinder = { tool: 'Angle Grinder', source: 'catalogue' as const };
+
+  it('gives A(8) equal to the magnitude for 8 hours of trigger time', () => {
+    const dose = calculateVibrationDose([{ ...grinder, magnitude: 4, triggerMinutes: 480 }]);
+    expect(dose?.a8).toBe(4);
+    expect(dose?.exceedsAction).toBe(true);
+    expect(dose?.exceedsLimit).toBe(false);
+  });
+
+  it('scores 100 points at the action value and 400 at the limit value', () => {
+    const action = calculateVibrationDose([{ ...grinder, magnitude: 5, triggerMinutes: 120 }]);
+    expect(action?.a8).toBe(2.5);
+    expect(action?.points).toBe(100);
+    expect(action?.exceedsAction).toBe(false);
+
+    const limit = calculateVibrationDose([{ ...grinder, magnitude: 10, triggerMinutes: 120 }]);
+    expect(limit?.points).toBe(400);
+  });
+
+  it('combines tools by energy and keeps each partial A(8)', () => {
+    const dose = calculateVibrationDose([
+      { ...grinder, magnitude: 4, triggerMinutes: 120 },
+      { tool: 'Road Breaker', magnitude: 12, triggerMinutes: 30, source: 'measured' },
+    ]);
+    expect(dose?.partials).toEqual([
+      { tool: 'Angle Grinder', a8: 2 },
+      { tool: 'Road Breaker', a8: 3 },
+    ]);
+    expect(dose?.a8).toBe(3.61);
+    expect(dose?.exceedsAction).toBe(true);
+  });
+
+  it('returns null without trigger time', () => {
+    expect(calculateVibrationDose([])).toBeNull();
+    expect(calculateVibrationDose([{ ...grinder, magnitude: 4, triggerMinutes: 0 }])).toBeNull();
+  });
+});
+
+describe('summarizeVibrationWeeks', () => {
+  const breaker = { tool: 'Road Breaker', magnitude: 10, source: 'catalogue' as const };
+  // Monday 6 January 2025, 09:00 NZDT (UTC+13)
+  const monday = Date.UTC(2025, 0, 5, 20, 0);
+  const nzdt = 13 * 60;
+
+  it('combines tool uses on the same local day before summing the week', () => {
+    const weeks = summarizeVibrationWeeks(
+      [
+        { timestamp: monday, vibrationTools: [{ ...breaker, triggerMinutes: 60 }] },
+        { timestamp: monday + 3 * 3600000, vibrationTools: [{ ...breaker, triggerMinutes: 60 }] },
+        { timestamp: monday + 86400000, vibrationTools: [{ ...breaker, triggerMinutes: 30 }] },
+      ],
+      nzdt
+    );
+
+    expect(weeks).toHaveLength(1);
+    expect(weeks[0].weekStart).toBe(Date.UTC(2025, 0, 5, 11, 0));
+    expect(weeks[0].points).toBe(400 + 100);
+    expect(weeks[0].triggerMinutes).toBe(150);
+    expect(weeks[0].maxDailyA8).toBe(5);
+    expect(weeks[0].daysAboveAction).toBe(1);
+    expect(weeks[0].daysAboveLimit).toBe(0);
+  });
+
+  it('lists weeks newest first', () => {
+    const weeks = summarizeVibrationWeeks(
+      [
+        { timestamp: monday, vibrationTools: [{ ...breaker, triggerMinutes: 30 }] },
+        { timestamp: monday + 7 * 86400000, vibrationTools: [{ ...breaker, triggerMinutes: 30 }] },
+      ],
+      nzdt
+    );
+    expect(weeks.map(week => week.weekStart)).toEqual([
+      Date.UTC(2025, 0, 12, 11, 0),
+      Date.UTC(2025, 0, 5, 11, 0),
+    ]);
+  });
+});
+
+describe('calculateDailyTWA', () => {
+  // 09:00 and 13:00 NZST (UTC+12) on 2 June 2025
+  const morning = Date.UTC(2025, 5, 1, 21, 0);
+  const afternoon = Date.UTC(2025, 5, 2, 1, 0);
+  const nzst = 12 * 60;
+
+  function silica(id: string, timestamp: number, value: number, hours: number, ppe: string[] = []) {
+    return {
+      id,
+      timestamp,
+      exposureType: 'silica_dust',
+      chemicalName: null,
+      duration: { hours, minutes: 0 },
+      ppe,
+      concentration: { value, unit: 'mg/m3' as const, source: 'measured' as const },
+    };
+  }
+
+  it('time-weights exposures on the same local day over 8 hours', () => {
+    const [result] = calculateDailyTWA(
+      [silica('a', morning, 0.04, 2), silica('b', afternoon, 0.02, 4)],
+      nzst
+    );
+    expect(result.standard.id).toBe('respirable_crystalline_silica');
+    expect(result.twa).toBe(0.02);
+    expect(result.percentOfWes).toBe(80);
+    expect(result.status).toBe('approaching');
+    expect(result.exposureIds).toEqual(['a', 'b']);
+  });
+
+  it('divides by the protection factor of the respirator worn', () => {
+    const [result] = calculateDailyTWA([silica('a', morning, 0.5, 8, ['p2_respirator'])], nzst);
+    expect(result.twa).toBe(0.05);
+    expect(result.status).toBe('exceeds');
+  });
+
+  it('keeps different days and substances apart and skips other units', () => {
+    const results = calculateDailyTWA(
+      [
+        silica('a', morning, 0.01, 8),
+        silica('b', morning + 24 * 3600000, 0.01, 8),
+        {
+          ...silica('c', morning, 100, 8),
+          exposureType: 'hazardous_chemicals',
+          chemicalName: 'Toluene',
+        },
+        {
+          ...silica('d', morning, 10, 8),
+          exposureType: 'hazardous_chemicals',
+          chemicalName: 'toluene',
+          concentration: { value: 10, unit: 'ppm' as const, source: 'estimated' as const },
+        },
+      ],
+      nzst
+    );
+    expect(results.map(result => result.exposureIds)).toEqual([['a'], ['b'], ['d']]);
+    expect(results[2].status).toBe('below');
+    expect(results[2].skippedExposureIds).toEqual(['c']);
+  });
+
+  it('flags a concentration recorded in another unit than the standard', () => {
+    const toluene = { exposureType: 'hazardous_chemicals', chemicalName: 'Toluene' };
+    const mgm3 = { value: 100, unit: 'mg/m3' as const, source: 'measured' as const };
+    expect(twaUnitMismatch({ ...toluene, concentration: mgm3 })?.unit).toBe('ppm');
+    expect(twaUnitMismatch({ ...toluene, concentration: { ...mgm3, unit: 'ppm' } })).toBeNull();
+    expect(twaUnitMismatch({ ...toluene, concentration: null })).toBeNull();
+  });
+});
+
+describe('exposure standards', () => {
+  it('finds a standard from the exposure type or chemical name', () => {
+    expect(findExposureStandard('welding_fumes', null)?.id).toBe('welding_fumes');
+    expect(findExposureStandard('hazardous_chemicals', ' Methylene Chloride ')?.id).toBe(
+      'dichloromethane'
+    );
+    expect(findExposureStandard('hazardous_chemicals', 'unknown solvent')).toBeNull();
+    expect(findExposureStandard('noise', 'toluene')).toBeNull();
+  });
+
+  it('uses the best respirator worn', () => {
+    expect(respiratorProtectionFactor(['hard_hat'])).toBe(1);
+    expect(respiratorProtectionFactor(['p2_respirator', 'powered_respirator'])).toBe(50);
+    expect(respiratorProtectionFactor(['full_face_respirator', 'p3_respirator'])).toBe(100);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Unit test for importing exposures from JSON exports and spreadsheets
+ *
+ * Run with: npm test __tests__/unit/lib/exposureImport.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildImportPreview,
+  missingImportFields,
+  parseCSV,
+  readImportFile,
+  setColumnField,
+  suggestColumnMapping,
+} from '../../../src/lib/exposureImport';
+import { DEFAULT_CSV_OPTIONS, ExposureForCSV, generateCSV } from '../../../convex/csv';
+import { buildJSONExport } from '../../../convex/structuredExport';
+
+const exposure: ExposureForCSV = {
+  _id: 'exposure-1',
+  exposureType: 'silica_dust',
+  timestamp: new Date(2024, 0, 2, 11, 30).getTime(),
+  duration: { hours: 1, minutes: 20 },
+  location: { latitude: -36.8485, longitude: 174.7633, address: null, siteName: 'Site A' },
+  severity: 'high',
+  ppe: ['p2_respirator', 'gloves'],
+  workActivity: 'Cutting "hard" concrete, dry',
+  notes: 'Line one\nline two',
+  chemicalName: null,
+  sdsReference: null,
+  controlMeasures: null,
+  concentration: { value: 0.08, unit: 'mg/m3', source: 'measured' },
+  photoIds: [],
+  _creationTime: 0,
+  updatedAt: 0,
+};
+
+const userInfo = {
+  name: null,
+  email: 'worker@example.com',
+  phoneNumber: null,
+  occupation: null,
+  employer: null,
+};
+
+describe('parseCSV', () => {
+  it('reads quoted fields, line breaks and a byte order mark', () => {
+    expect(parseCSV('\uFEFFa,b\r\n"x, ""y""","1\n2"\n\n')).toEqual([
+      ['a', 'b'],
+      ['x, "y"', '1\n2'],
+    ]);
+  });
+});
+
+describe('CSV import', () => {
+  it('reads back a CSV exported by the app', () => {
+    const file = readImportFile(generateCSV([exposure], DEFAULT_CSV_OPTIONS));
+    if (file.kind !== 'csv') throw new Error('Expected a CSV');
+    const mapping = suggestColumnMapping(file.headers);
+
+    expect(missingImportFields(mapping)).toEqual([]);
+
+    const [row] = buildImportPreview(file, mapping, []);
+    expect(row.status).toBe('ready');
+    expect(row.draft).toMatchObject({
+      exposureType: 'silica_dust',
+      timestamp: exposure.timestamp,
+      duration: { hours: 1, minutes: 20 },
+      severity: 'high',
+      ppe: ['p2_respirator', 'gloves'],
+      workActivity: exposure.workActivity,
+      notes: exposure.notes,
+      concentration: exposure.concentration,
+    });
+  });
+
+  it('skips rows matching an existing record or an earlier row', () => {
+    const csv = generateCSV([exposure, { ...exposure, _id: 'exposure-2' }], DEFAULT_CSV_OPTIONS);
+    const file = readImportFile(csv);
+    if (file.kind !== 'csv') throw new Error('Expected a CSV');
+    const mapping = suggestColumnMapping(file.headers);
+
+    expect(buildImportPreview(file, mapping, []).map(row => row.status)).toEqual([
+      'ready',
+      'duplicate',
+    ]);
+    expect(buildImportPreview(file, mapping, [exposure]).map(row => row.status)).toEqual([
+      'duplicate',
+      'duplicate',
+    ]);
+  });
+
+  it('maps a foreign spreadsheet and reports invalid rows', () => {
+    const file = readImportFile(
+      [
+        'When,Start,Hazard,Hours,Lat,Lng,Severity,Task,Gear',
+        '2/1/2024,7:00 am,Asbestos (Class A),2.5,-36.85,174.76,Moderate,Removal,"P2 Respirator, Gloves"',
+        '31/02/2024,7:00,Dust,0,-36.85,174.76,low,,',
+      ].join('\n')
+    );
+    if (file.kind !== 'csv') throw new Error('Expected a CSV');
+    let mapping = suggestColumnMapping(file.headers);
+
+    expect(missingImportFields(mapping)).toEqual(['Date']);
+    mapping = setColumnField(mapping, 0, 'date');
+    mapping = setColumnField(mapping, 1, 'time');
+    mapping = setColumnField(mapping, 8, 'ppe');
+
+    const [valid, invalid] = buildImportPreview(file, mapping, []);
+    expect(valid.status).toBe('ready');
+    expect(valid.draft).toMatchObject({
+      exposureType: 'asbestos_class_a',
+      timestamp: new Date(2024, 0, 2, 7, 0).getTime(),
+      duration: { hours: 2, minutes: 30 },
+      severity: 'medium',
+      ppe: ['p2_respirator', 'gloves'],
+    });
+    expect(invalid.status).toBe('invalid');
+    expect(invalid.errors).toEqual(
+      expect.arrayContaining([
+        'Date or time is missing or not recognised',
+        'Invalid exposure type',
+        'Duration must be greater than 0',
+        'Work activity is required',
+      ])
+    );
+  });
+});
+
+describe('JSON import', () => {
+  it('reads back a JSON export', () => {
+    const document = buildJSONExport([exposure], userInfo, new Map(), Date.now());
+    const file = readImportFile(JSON.stringify(document));
+
+    const [row] = buildImportPreview(file, [], []);
+    expect(row.status).toBe('ready');
+    expect(row.draft).toMatchObject({
+      timestamp: exposure.timestamp,
+      duration: exposure.duration,
+      location: exposure.location,
+      concentration: exposure.concentration,
+    });
+  });
+
+  it('rejects FHIR bundles and unknown schema versions', () => {
+    expect(() => readImportFile('{"resourceType":"Bundle","entry":[]}')).toThrow('FHIR');
+    expect(() => readImportFile('{"schemaVersion":"2.0","exposures":[]}')).toThrow('not supported');
+  });
+});
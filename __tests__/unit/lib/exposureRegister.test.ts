@@ -0,0 +1,122 @@
+/**
+ * Unit test for the cumulative exposure register
+ *
+ * Run with: npm test __tests__/unit/lib/exposureRegister.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildExposureRegister,
+  buildSiteSummary,
+  hasAdequatePPE,
+} from '../../../convex/exposureRegister';
+
+function exposure(overrides: Partial<Parameters<typeof buildExposureRegister>[0][number]> = {}) {
+  return {
+    exposureType: 'silica_dust',
+    chemicalName: null,
+    timestamp: Date.UTC(2024, 0, 10),
+    duration: { hours: 2, minutes: 0 },
+    ppe: [] as string[],
+    location: { latitude: -36.8485, longitude: 174.7633, address: null, siteName: 'Site A' },
+    ...overrides,
+  };
+}
+
+describe('hasAdequatePPE', () => {
+  it('accepts any respirator for silica dust', () => {
+    expect(hasAdequatePPE('silica_dust', ['gloves', 'p2_respirator'])).toBe(true);
+    expect(hasAdequatePPE('silica_dust', ['gloves'])).toBe(false);
+  });
+
+  it('requires P3 or better for friable asbestos', () => {
+    expect(hasAdequatePPE('asbestos_class_a', ['p2_respirator'])).toBe(false);
+    expect(hasAdequatePPE('asbestos_class_a', ['p3_respirator'])).toBe(true);
+  });
+
+  it('returns null for agents without a PPE requirement', () => {
+    expect(hasAdequatePPE('heat_stress', [])).toBeNull();
+  });
+});
+
+describe('buildExposureRegister', () => {
+  it('totals hours, unprotected hours and dates per agent', () => {
+    const [entry] = buildExposureRegister([
+      exposure({ ppe: ['p2_respirator'] }),
+      exposure({ timestamp: Date.UTC(2022, 5, 1), duration: { hours: 1, minutes: 30 } }),
+      exposure({ timestamp: Date.UTC(2025, 2, 3), duration: { hours: 0, minutes: 20 } }),
+    ]);
+
+    expect(entry).toEqual({
+      exposureType: 'silica_dust',
+      substance: null,
+      exposureCount: 3,
+      totalHours: 3.8,
+      hoursWithoutAdequatePPE: 1.8,
+      firstExposure: Date.UTC(2022, 5, 1),
+      lastExposure: Date.UTC(2025, 2, 3),
+      siteCount: 1,
+    });
+  });
+
+  it('counts sites by name, address or coordinates', () => {
+    const [entry] = buildExposureRegister([
+      exposure(),
+      exposure({ location: { latitude: 0, longitude: 0, address: null, siteName: 'site a ' } }),
+      exposure({ location: { latitude: 0, longitude: 0, address: '1 Queen St', siteName: null } }),
+      exposure({
+        location: { latitude: -41.2865, longitude: 174.7762, address: null, siteName: null },
+      }),
+    ]);
+
+    expect(entry.siteCount).toBe(3);
+  });
+
+  it('splits chemical exposures by substance and sorts by hours', () => {
+    const register = buildExposureRegister([
+      exposure({ exposureType: 'hazardous_chemicals', chemicalName: 'Toluene' }),
+      exposure({ exposureType: 'hazardous_chemicals', chemicalName: 'toluene' }),
+      exposure({ exposureType: 'hazardous_chemicals', chemicalName: 'Acetone' }),
+    ]);
+
+    expect(register.map(entry => [entry.substance, entry.totalHours])).toEqual([
+      ['Toluene', 4],
+      ['Acetone', 2],
+    ]);
+  });
+
+  it('leaves unprotected hours empty for agents without a PPE requirement', () => {
+    const [entry] = buildExposureRegister([exposure({ exposureType: 'heat_stress' })]);
+    expect(entry.hoursWithoutAdequatePPE).toBeNull();
+  });
+});
+
+describe('buildSiteSummary', () => {
+  it('totals each site with its hazards and unprotected hours', () => {
+    const [siteA, siteB] = buildSiteSummary([
+      exposure({ timestamp: Date.UTC(2024, 1, 1), ppe: ['p2_respirator'] }),
+      exposure({ exposureType: 'noise', duration: { hours: 1, minutes: 30 } }),
+      exposure({
+        timestamp: Date.UTC(2024, 2, 1),
+        location: { latitude: -36.9, longitude: 174.8, address: '1 Queen St', siteName: null },
+      }),
+    ]);
+
+    expect(siteA).toMatchObject({
+      site: 'Site A',
+      exposureTypes: ['noise', 'silica_dust'],
+      exposureCount: 2,
+      totalHours: 3.5,
+      hoursWithoutAdequatePPE: 1.5,
+      firstExposure: Date.UTC(2024, 0, 10),
+      lastExposure: Date.UTC(2024, 1, 1),
+    });
+    expect(siteB).toMatchObject({
+      site: '1 Queen St',
+      latitude: -36.9,
+      exposureCount: 1,
+      totalHours: 2,
+      hoursWithoutAdequatePPE: 2,
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Unit test for the exposure hash chain staying valid through photo changes and migrations
+ *
+ * Run with: npm test __tests__/unit/lib/hashChain.test.ts
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { appendToChain, verifyChain } from '../../../convex/hashChain';
+import { migrateTaxonomy } from '../../../convex/exposures';
+import { confirmUpload, remove } from '../../../convex/photos';
+
+type Row = Record<string, any>;
+
+/**
+ * In-memory stand-in for a Convex mutation ctx
+ * Index queries match on eq() conditions and return rows in insertion order
+ */
+function createCtx(clerkId: string) {
+  const tables = new Map<string, Row[]>();
+  let nextId = 1;
+
+  const rowsOf = (table: string) => {
+    if (!tables.has(table)) tables.set(table, []);
+    return tables.get(table)!;
+  };
+  const find = (id: string) => [...tables.values()].flat().find(row => row._id === id) ?? null;
+
+  const db = {
+    insert: async (table: string, value: Row) => {
+      const _id = `${table}:${nextId++}`;
+      rowsOf(table).push({ ...value, _id, _creationTime: nextId });
+      return _id;
+    },
+    get: async (id: string) => find(id),
+    patch: async (id: string, value: Row) => {
+      Object.assign(find(id)!, value);
+    },
+    query: (table: string) => {
+      let rows = [...rowsOf(table)];
+      const chain = {
+        withIndex: (_name: string, range: (q: any) => any) => {
+          const q = {
+            eq: (field: string, value: unknown) => {
+              rows = rows.filter(row => row[field] === value);
+              return q;
+            },
+          };
+          range(q);
+          return chain;
+        },
+        order: (direction: 'asc' | 'desc') => {
+          if (direction === 'desc') rows.reverse();
+          return chain;
+        },
+        first: async () => rows[0] ?? null,
+        collect: async () => rows,
+        paginate: async () => ({ page: rows, isDone: true, continueCursor: '' }),
+      };
+      return chain;
+    },
+  };
+
+  return {
+    db,
+    auth: { getUserIdentity: async () => ({ subject: clerkId }) },
+  } as any;
+}
+
+const photoArgs = {
+  storageId: 'storage-1',
+  fileName: 'site.jpg',
+  fileSize: 1000,
+  mimeType: 'image/jpeg',
+  width: 800,
+  height: 600,
+  exif: null,
+};
+
+describe('hash chain', () => {
+  let ctx: any;
+  let exposureId: string;
+
+  beforeEach(async () => {
+    ctx = createCtx('clerk-1');
+    const userId = await ctx.db.insert('users', { clerkId: 'clerk-1' });
+    exposureId = await ctx.db.insert('exposures', {
+      userId,
+      clientId: 'client-1',
+      exposureType: 'asbestos_a',
+      timestamp: 1_700_000_000_000,
+      duration: { hours: 1, minutes: 0 },
+      location: { latitude: -36.8, longitude: 174.7, address: null, siteName: null },
+      severity: 'medium',
+      ppe: [],
+      workActivity: 'Cutting',
+      notes: null,
+      chemicalName: null,
+      sdsReference: null,
+      controlMeasures: null,
+      photoIds: [],
+      isDeleted: false,
+      updatedAt: 1_700_000_000_000,
+    });
+    await appendToChain(ctx, exposureId as any);
+  });
+
+  it('stays valid after a photo is added and removed', async () => {
+    const photoId = await (confirmUpload as any)._handler(ctx, { ...photoArgs, exposureId });
+    expect(await (verifyChain as any)._handler(ctx, {})).toMatchObject({
+      valid: true,
+      length: 2,
+    });
+
+    await (remove as any)._handler(ctx, { id: photoId });
+    expect(await (verifyChain as any)._handler(ctx, {})).toMatchObject({
+      valid: true,
+      length: 3,
+    });
+  });
+
+  it('stays valid after a taxonomy migration, keeping updatedAt', async () => {
+    await (migrateTaxonomy as any)._handler(ctx, { cursor: null });
+
+    expect(await ctx.db.get(exposureId)).toMatchObject({
+      exposureType: 'asbestos_class_a',
+      updatedAt: 1_700_000_000_000,
+    });
+    expect(await ctx.db.query('exposureRevisions').collect()).toEqual([
+      expect.objectContaining({ source: 'migration', changedFields: ['exposureType'] }),
+    ]);
+    expect(await (verifyChain as any)._handler(ctx, {})).toMatchObject({
+      valid: true,
+      length: 2,
+    });
+  });
+
+  it('reports a record changed outside the chain', async () => {
+    await ctx.db.patch(exposureId, { severity: 'high' });
+    const result = await (verifyChain as any)._handler(ctx, {});
+    expect(result.valid).toBe(false);
+    expect(result.breaks).toEqual([
+      expect.objectContaining({ exposureId, reason: 'record_modified' }),
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unit test for the health monitoring rules
+ *
+ * Run with: npm test __tests__/unit/lib/healthMonitoring.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildMonitoringSchedule, scheduledCheckStatus } from '../../../convex/healthMonitoring';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('buildMonitoringSchedule', () => {
+  it('schedules a baseline check after the first relevant exposure', () => {
+    const schedule = buildMonitoringSchedule(
+      [
+        { exposureType: 'silica_dust', timestamp: Date.UTC(2024, 2, 10) },
+        { exposureType: 'asbestos_class_b', timestamp: Date.UTC(2024, 1, 5) },
+        { exposureType: 'mould', timestamp: Date.UTC(2024, 0, 1) },
+      ],
+      []
+    );
+
+    expect(schedule).toEqual([
+      {
+        checkType: 'lung_function',
+        label: 'Lung function test',
+        dueAt: Date.UTC(2024, 4, 5),
+        lastCompletedAt: null,
+        exposureTypes: ['silica_dust', 'asbestos_class_b'],
+      },
+    ]);
+  });
+
+  it('schedules the next check an interval after the last one', () => {
+    const schedule = buildMonitoringSchedule(
+      [{ exposureType: 'lead', timestamp: Date.UTC(2024, 5, 1) }],
+      [
+        { checkType: 'blood_lead', completedAt: Date.UTC(2024, 0, 15) },
+        { checkType: 'blood_lead', completedAt: Date.UTC(2024, 3, 20) },
+      ]
+    );
+
+    expect(schedule[0].dueAt).toBe(Date.UTC(2024, 9, 20));
+    expect(schedule[0].lastCompletedAt).toBe(Date.UTC(2024, 3, 20));
+  });
+
+  it('drops checks with no relevant exposure since the last one', () => {
+    const schedule = buildMonitoringSchedule(
+      [{ exposureType: 'noise', timestamp: Date.UTC(2024, 0, 10) }],
+      [{ checkType: 'audiometry', completedAt: Date.UTC(2024, 1, 1) }]
+    );
+
+    expect(schedule).toEqual([]);
+  });
+
+  it('sorts checks by due date', () => {
+    const schedule = buildMonitoringSchedule(
+      [
+        { exposureType: 'noise', timestamp: Date.UTC(2024, 0, 1) },
+        { exposureType: 'lead', timestamp: Date.UTC(2024, 0, 1) },
+      ],
+      []
+    );
+
+    expect(schedule.map(check => check.checkType)).toEqual(['blood_lead', 'audiometry']);
+  });
+});
+
+describe('scheduledCheckStatus', () => {
+  const now = Date.UTC(2024, 6, 1);
+
+  it('is overdue once the due date has passed', () => {
+    expect(scheduledCheckStatus(now - DAY, now)).toBe('overdue');
+  });
+
+  it('is due soon within 30 days', () => {
+    expect(scheduledCheckStatus(now + 30 * DAY, now)).toBe('due_soon');
+    expect(scheduledCheckStatus(now + 31 * DAY, now)).toBe('upcoming');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Unit test for three-way exposure merge
+ *
+ * Run with: npm test __tests__/unit/lib/merge.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ExposureDraft } from '../../../src/types/exposure';
+import { isSameValue, threeWayMerge } from '../../../src/lib/merge';
+
+const base: ExposureDraft = {
+  clientId: 'client-1',
+  timestamp: 1_700_000_000_000,
+  exposureType: 'silica_dust',
+  duration: { hours: 2, minutes: 0 },
+  location: {
+    latitude: -36.8485,
+    longitude: 174.7633,
+    accuracy: 10,
+    address: null,
+    siteName: 'Penrose',
+  },
+  severity: 'medium',
+  ppe: ['p2_respirator'],
+  workActivity: 'Cutting concrete',
+  notes: null,
+  chemicalName: null,
+  sdsReference: null,
+  controlMeasures: null,
+  photos: [],
+  voiceTranscription: null,
+};
+
+describe('threeWayMerge', () => {
+  it('should take each side where only that side changed', () => {
+    const local = { ...base, severity: 'high' as const };
+    const server = { ...base, ppe: ['p2_respirator', 'safety_glasses'] };
+
+    const { merged, conflicts } = threeWayMerge(base, local, server);
+
+    expect(conflicts).toHaveLength(0);
+    expect(merged.severity).toBe('high');
+    expect(merged.ppe).toEqual(['p2_respirator', 'safety_glasses']);
+  });
+
+  it('should not clash when both sides made the same change', () => {
+    const duration = { hours: 3, minutes: 30 };
+    const { conflicts } = threeWayMerge(
+      base,
+      { ...base, duration },
+      { ...base, duration: { ...duration } }
+    );
+
+    expect(conflicts).toHaveLength(0);
+  });
+
+  it('should report a clash and keep the local value when both sides differ', () => {
+    const local = { ...base, location: { ...base.location, siteName: 'Onehunga' } };
+    const server = { ...base, location: { ...base.location, siteName: 'Mt Wellington' } };
+
+    const { merged, conflicts } = threeWayMerge(base, local, server);
+
+    expect(conflicts.map(c => c.field)).toEqual(['location']);
+    expect(merged.location.siteName).toBe('Onehunga');
+  });
+
+  it('should treat every differing field as a clash without a base', () => {
+    const { conflicts } = threeWayMerge(null, { ...base, notes: 'a' }, { ...base, notes: 'b' });
+
+    expect(conflicts).toEqual([{ field: 'notes', base: undefined, local: 'a', server: 'b' }]);
+  });
+});
+
+describe('isSameValue', () => {
+  it('should compare nested values regardless of key order', () => {
+    expect(isSameValue({ hours: 1, minutes: 5 }, { minutes: 5, hours: 1 })).toBe(true);
+    expect(isSameValue(['a', 'b'], ['b', 'a'])).toBe(false);
+    expect(isSameValue(null, { hours: 0 })).toBe(false);
+  });
+});
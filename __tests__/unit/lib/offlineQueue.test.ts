@@ -0,0 +1,398 @@
+/**
+ * Unit test for offline queue sync
+ * Drives OfflineQueueManager against a fake Convex transport
+ *
+ * Run with: npm test __tests__/unit/lib/offlineQueue.test.ts
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { ExposureDraft } from '../../../src/types/exposure';
+import { storageHelpers, StorageKeys } from '../../../src/lib/storage';
+import { toMergeValues } from '../../../src/lib/merge';
+import {
+  OfflineQueueManager,
+  ExposureBatchResult,
+  ExposureSyncTransport,
+} from '../../../src/lib/offlineQueue';
+
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(() => jest.fn()),
+  fetch: jest.fn(() => Promise.resolve({ isConnected: true })),
+}));
+
+function makeDraft(clientId: string): ExposureDraft {
+  return {
+    clientId,
+    timestamp: Date.now(),
+    exposureType: 'silica_dust',
+    duration: { hours: 2, minutes: 0 },
+    location: {
+      latitude: -36.8485,
+      longitude: 174.7633,
+      accuracy: 10,
+      address: null,
+      siteName: 'Penrose',
+    },
+    severity: 'medium',
+    ppe: ['p2_respirator'],
+    workActivity: 'Cutting concrete',
+    notes: null,
+    chemicalName: null,
+    sdsReference: null,
+    controlMeasures: null,
+    photos: [],
+    voiceTranscription: null,
+  };
+}
+
+/**
+ * Fake Convex client that upserts on clientId like exposures.syncBatch
+ */
+function createFakeTransport(failures = 0) {
+  const rows = new Map<string, { id: string; updatedAt: number; draft: ExposureDraft }>();
+  let remainingFailures = failures;
+
+  const upsert = (
+    draft: ExposureDraft,
+    updatedAt: number,
+    baseUpdatedAt?: number
+  ): ExposureBatchResult => {
+    if (!draft.workActivity) {
+      return {
+        clientId: draft.clientId,
+        status: 'invalid',
+        field: 'workActivity',
+        message: 'Work activity is required',
+      };
+    }
+    const existing = rows.get(draft.clientId);
+    if (!existing) {
+      const id = `exp_${rows.size + 1}`;
+      rows.set(draft.clientId, { id, updatedAt, draft });
+      return { clientId: draft.clientId, status: 'created', id };
+    }
+    if (
+      baseUpdatedAt !== undefined &&
+      existing.updatedAt !== updatedAt &&
+      existing.updatedAt > baseUpdatedAt
+    ) {
+      return {
+        clientId: draft.clientId,
+        status: 'conflict',
+        id: existing.id,
+        server: existing.draft,
+        serverUpdatedAt: existing.updatedAt,
+      };
+    }
+    const updated = updatedAt > existing.updatedAt;
+    if (updated) {
+      existing.updatedAt = updatedAt;
+      existing.draft = draft;
+    }
+    return { clientId: draft.clientId, status: 'duplicate', id: existing.id, updated };
+  };
+
+  const transport: ExposureSyncTransport = {
+    async syncBatch(items) {
+      if (remainingFailures > 0) {
+        remainingFailures--;
+        throw new Error('Network request failed');
+      }
+      return items.map(item => upsert(item.draft, item.updatedAt, item.baseUpdatedAt));
+    },
+  };
+
+  return { transport, rows, upsert };
+}
+
+describe('OfflineQueueManager sync', () => {
+  beforeEach(() => {
+    storageHelpers.remove(StorageKeys.EXPOSURE_QUEUE);
+    storageHelpers.remove(StorageKeys.SYNC_CONFLICTS);
+  });
+
+  it('should sync queued exposures and remove them on success', async () => {
+    const queue = new OfflineQueueManager();
+    const fake = createFakeTransport();
+
+    queue.add(makeDraft('client-1'));
+    queue.add(makeDraft('client-2'));
+    queue.setTransport(fake.transport);
+    await queue.processQueue();
+
+    expect(queue.count()).toBe(0);
+    expect(fake.rows.size).toBe(2);
+  });
+
+  it('should not create duplicates when the same clientId is retried', async () => {
+    const queue = new OfflineQueueManager();
+    const fake = createFakeTransport();
+    queue.setTransport(fake.transport);
+
+    fake.upsert(makeDraft('client-1'), Date.now());
+    queue.add(makeDraft('client-1'));
+    await queue.processQueue();
+
+    expect(queue.count()).toBe(0);
+    expect(fake.rows.size).toBe(1);
+  });
+
+  it('should drop a stale edit when the server already holds a newer version', async () => {
+    const queue = new OfflineQueueManager();
+    const fake = createFakeTransport();
+    queue.setTransport(fake.transport);
+
+    queue.add(makeDraft('client-1'));
+    fake.upsert(makeDraft('client-1'), Date.now() + 60_000);
+    await queue.processQueue();
+
+    expect(queue.count()).toBe(0);
+    expect(fake.rows.get('client-1')?.updatedAt).toBeGreaterThan(Date.now());
+  });
+
+  it('should move invalid items from a batch straight to conflicts', async () => {
+    const queue = new OfflineQueueManager();
+    const fake = createFakeTransport();
+
+    queue.add(makeDraft('client-1'));
+    queue.add({ ...makeDraft('client-2'), workActivity: '' });
+    queue.add(makeDraft('client-3'));
+    queue.setTransport(fake.transport);
+    await queue.processQueue();
+
+    const conflicts = queue.getConflicts();
+    expect(queue.count()).toBe(0);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].id).toBe('client-2');
+    expect(conflicts[0].attemptCount).toBe(1);
+    expect(conflicts[0].error).toBe('workActivity: Work activity is required');
+    expect(fake.rows.size).toBe(2);
+  });
+
+  it('should auto-merge an edit that touches different fields than the server', async () => {
+    const queue = new OfflineQueueManager();
+    const fake = createFakeTransport();
+    const base = makeDraft('client-1');
+    fake.upsert(base, 1000);
+    fake.upsert({ ...base, notes: 'Edited on tablet' }, 2000);
+
+    queue.add({ ...base, severity: 'high' }, { values: base, updatedAt: 1000 });
+    queue.setTransport(fake.transport);
+    await queue.processQueue();
+
+    expect(queue.count()).toBe(0);
+    expect(queue.getConflicts()).toHaveLength(0);
+    expect(fake.rows.get('client-1')?.draft).toMatchObject({
+      notes: 'Edited on tablet',
+      severity: 'high',
+    });
+  });
+
+  it('should store clashing fields in conflicts and sync the resolution', async () => {
+    const queue = new OfflineQueueManager();
+    const fake = createFakeTransport();
+    const base = makeDraft('client-1');
+    fake.upsert(base, 1000);
+    fake.upsert({ ...base, workActivity: 'Grinding', notes: 'Edited on tablet' }, 2000);
+
+    queue.add({ ...base, workActivity: 'Drilling' }, { values: base, updatedAt: 1000 });
+    queue.setTransport(fake.transport);
+    await queue.processQueue();
+
+    const [conflict] = queue.getConflicts();
+    expect(queue.count()).toBe(0);
+    expect(conflict.fields).toEqual([
+      { field: 'workActivity', base: 'Cutting concrete', local: 'Drilling', server: 'Grinding' },
+    ]);
+    expect(conflict.draft.notes).toBe('Edited on tablet');
+    expect(storageHelpers.get(StorageKeys.SYNC_CONFLICTS)).toHaveLength(1);
+
+    queue.resolveConflict('client-1', { workActivity: 'Drilling and grinding' });
+    await queue.processQueue();
+
+    expect(queue.getConflicts()).toHaveLength(0);
+    expect(fake.rows.get('client-1')?.draft).toMatchObject({
+      workActivity: 'Drilling and grinding',
+      notes: 'Edited on tablet',
+    });
+  });
+
+  it('should keep one entry per record when it is edited twice offline', async () => {
+    const queue = new OfflineQueueManager();
+    const fake = createFakeTransport();
+    const base = makeDraft('client-1');
+    fake.upsert(base, 1000);
+
+    queue.add({ ...base, severity: 'high' }, { values: base, updatedAt: 1000 });
+    queue.add({ ...base, severity: 'high', notes: 'Second edit' }, null);
+
+    const [item] = queue.getAll();
+    expect(queue.count()).toBe(1);
+    expect(item.base).toEqual({ values: base, updatedAt: 1000 });
+
+    queue.setTransport(fake.transport);
+    await queue.processQueue();
+
+    expect(queue.count()).toBe(0);
+    expect(queue.getConflicts()).toHaveLength(0);
+    expect(fake.rows.get('client-1')?.draft).toMatchObject({
+      severity: 'high',
+      notes: 'Second edit',
+    });
+  });
+
+  it('should keep an edit queued while an earlier version is syncing', async () => {
+    const queue = new OfflineQueueManager();
+    const fake = createFakeTransport();
+    const transport: ExposureSyncTransport = {
+      async syncBatch(items) {
+        queue.add({ ...makeDraft('client-1'), notes: 'Edited during sync' });
+        return fake.transport.syncBatch(items);
+      },
+    };
+
+    queue.add(makeDraft('client-1'));
+    queue.setTransport(transport);
+    await queue.processQueue();
+
+    expect(queue.getAll().map(item => item.draft.notes)).toEqual(['Edited during sync']);
+  });
+
+  it('should rebase an edit made during sync on the version that sync stored', async () => {
+    const queue = new OfflineQueueManager();
+    const fake = createFakeTransport();
+    const base = makeDraft('client-1');
+    fake.upsert(base, 1000);
+    let edited = false;
+    const transport: ExposureSyncTransport = {
+      async syncBatch(items) {
+        if (!edited) {
+          edited = true;
+          queue.add({ ...base, severity: 'high', notes: 'Edited during sync' });
+        }
+        return fake.transport.syncBatch(items);
+      },
+    };
+
+    queue.add({ ...base, severity: 'high' }, { values: base, updatedAt: 1000 });
+    queue.setTransport(transport);
+    await queue.processQueue();
+
+    const [item] = queue.getAll();
+    expect(item.draft.notes).toBe('Edited during sync');
+    expect(item.base).toEqual({
+      values: toMergeValues({ ...base, severity: 'high' }),
+      updatedAt: fake.rows.get('client-1')?.updatedAt,
+    });
+  });
+
+  it('should merge an edit made during sync, not the replaced one, with the server', async () => {
+    const queue = new OfflineQueueManager();
+    const fake = createFakeTransport();
+    const base = makeDraft('client-1');
+    fake.upsert(base, 1000);
+    fake.upsert({ ...base, notes: 'Other device' }, 2000);
+    let edited = false;
+    const transport: ExposureSyncTransport = {
+      async syncBatch(items) {
+        if (!edited) {
+          edited = true;
+          queue.add({ ...base, severity: 'high', workActivity: 'Grinding' });
+        }
+        return fake.transport.syncBatch(items);
+      },
+    };
+
+    queue.add({ ...base, severity: 'high' }, { values: base, updatedAt: 1000 });
+    queue.setTransport(transport);
+    await queue.processQueue();
+
+    expect(queue.count()).toBe(0);
+    expect(queue.getConflicts()).toHaveLength(0);
+    expect(fake.rows.get('client-1')?.draft).toMatchObject({
+      severity: 'high',
+      workActivity: 'Grinding',
+      notes: 'Other device',
+    });
+  });
+
+  it('should keep an edit made during sync when the replaced one runs out of retries', async () => {
+    const queue = new OfflineQueueManager();
+    const nowSpy = jest.spyOn(Date, 'now');
+    let now = 1_000_000;
+    nowSpy.mockImplementation(() => now);
+    const transport: ExposureSyncTransport = {
+      async syncBatch() {
+        queue.add({ ...makeDraft('client-1'), notes: 'Edited during sync' });
+        throw new Error('Network request failed');
+      },
+    };
+
+    queue.add(makeDraft('client-1'));
+    const [first] = queue.getAll();
+    first.attemptCount = 4; // The next failure is the last allowed
+    queue.setTransport(transport);
+    await queue.processQueue();
+    nowSpy.mockRestore();
+
+    expect(queue.getAll().map(item => item.draft.notes)).toEqual(['Edited during sync']);
+    expect(queue.getConflicts()).toHaveLength(0);
+  });
+
+  it('should keep failed items with the error recorded', async () => {
+    const queue = new OfflineQueueManager();
+    const fake = createFakeTransport(1);
+
+    queue.add(makeDraft('client-1'));
+    queue.setTransport(fake.transport);
+    await queue.processQueue();
+
+    const [item] = queue.getAll();
+    expect(item.attemptCount).toBe(1);
+    expect(item.error).toBe('Network request failed');
+  });
+
+  it('should move items to persisted conflicts after max attempts', async () => {
+    const queue = new OfflineQueueManager();
+    const fake = createFakeTransport(Infinity);
+    const nowSpy = jest.spyOn(Date, 'now');
+    let now = 1_000_000;
+    nowSpy.mockImplementation(() => now);
+
+    queue.add(makeDraft('client-1'));
+    queue.setTransport(fake.transport);
+    for (let attempt = 0; attempt < 5; attempt++) {
+      now += 60_000; // Past the backoff window
+      await queue.processQueue();
+    }
+    nowSpy.mockRestore();
+
+    expect(queue.count()).toBe(0);
+    expect(queue.getConflicts()).toHaveLength(1);
+    expect(storageHelpers.get(StorageKeys.SYNC_CONFLICTS)).toHaveLength(1);
+  });
+
+  it('should requeue a conflict on retry', async () => {
+    storageHelpers.set(StorageKeys.SYNC_CONFLICTS, [
+      {
+        id: 'client-1',
+        draft: makeDraft('client-1'),
+        attemptCount: 5,
+        error: 'Network request failed',
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        movedAt: Date.now(),
+      },
+    ]);
+    const queue = new OfflineQueueManager();
+    const fake = createFakeTransport();
+    queue.setTransport(fake.transport);
+
+    queue.retryConflict('client-1');
+    await queue.processQueue();
+
+    expect(queue.count()).toBe(0);
+    expect(queue.getConflicts()).toHaveLength(0);
+    expect(fake.rows.has('client-1')).toBe(true);
+  });
+});
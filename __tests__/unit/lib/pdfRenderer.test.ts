@@ -0,0 +1,80 @@
+/**
+ * Unit test for the server-side PDF renderer and the shared PDF templates
+ *
+ * Run with: npm test __tests__/unit/lib/pdfRenderer.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PDFDocument } from 'pdf-lib';
+import { renderPDF } from '../../../convex/pdfRenderer';
+import {
+  buildExportHTML,
+  ExposureForExport,
+  localDateFormatter,
+} from '../../../convex/pdfTemplate';
+
+// 1x1 transparent PNG
+const PIXEL =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const exposure: ExposureForExport = {
+  _id: 'exposure-1',
+  exposureType: 'silica_dust',
+  timestamp: Date.UTC(2024, 0, 1, 22, 30),
+  duration: { hours: 4, minutes: 30 },
+  location: {
+    latitude: -36.8485,
+    longitude: 174.7633,
+    address: '12 Karangahape Road, Tāmaki Makaurau',
+    siteName: 'Te Whare Site',
+  },
+  severity: 'high',
+  ppe: ['P2 respirator'],
+  workActivity: 'Concrete cutting 🔨 without extraction',
+  notes: null,
+  chemicalName: null,
+  sdsReference: null,
+  controlMeasures: null,
+  photoIds: ['photo-1'],
+  _creationTime: 0,
+  updatedAt: 0,
+};
+
+const userInfo = {
+  name: 'Aroha Ngata',
+  email: 'aroha@example.com',
+  phoneNumber: null,
+  occupation: 'Labourer',
+  employer: null,
+};
+
+describe('renderPDF', () => {
+  it('renders an export document with photos and text outside the standard fonts', async () => {
+    const html = buildExportHTML(
+      [exposure],
+      userInfo,
+      new Map([['exposure-1', [PIXEL]]]),
+      null,
+      [],
+      undefined,
+      780
+    );
+
+    const bytes = await renderPDF(html);
+    const doc = await PDFDocument.load(bytes);
+
+    expect(new TextDecoder().decode(bytes.slice(0, 5))).toBe('%PDF-');
+    expect(doc.getTitle()).toBe('Workplace Exposure Documentation');
+    // Cover, contents, summary, exposure, photos and map each start a page
+    expect(doc.getPageCount()).toBeGreaterThanOrEqual(6);
+  });
+});
+
+describe('localDateFormatter', () => {
+  it('formats in the time zone given in minutes ahead of UTC', () => {
+    const timestamp = Date.UTC(2024, 0, 1, 22, 30);
+
+    expect(localDateFormatter(780)(timestamp, 'dd/MM/yyyy HH:mm')).toBe('02/01/2024 11:30');
+    expect(localDateFormatter(0)(timestamp, 'dd/MM/yyyy HH:mm')).toBe('01/01/2024 22:30');
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Unit test for photo upload pipeline
+ * Drives PhotoQueueManager against a fake Convex transport
+ *
+ * Run with: npm test __tests__/unit/lib/photoQueue.test.ts
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { storageHelpers, StorageKeys } from '../../../src/lib/storage';
+import {
+  PhotoQueueManager,
+  PhotoUploadTransport,
+  UPLOAD_CHUNK_SIZE,
+} from '../../../src/lib/photoQueue';
+
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(() => jest.fn()),
+  fetch: jest.fn(() => Promise.resolve({ isConnected: true, type: 'wifi' })),
+}));
+
+function makePhoto(exposureClientId: string) {
+  return {
+    exposureClientId,
+    localUri: 'file:///photos/photo.jpg',
+    fileName: 'photo.jpg',
+    fileSize: UPLOAD_CHUNK_SIZE * 2 + 1000,
+    mimeType: 'image/jpeg',
+    width: 1920,
+    height: 1080,
+    exif: null,
+    contentHash: 'hash-1',
+  };
+}
+
+/**
+ * Fake Convex client with resumable uploads like convex/photos.ts
+ */
+function createFakeTransport() {
+  const exposures = new Map<string, { id: string; photoIds: string[] }>();
+  const uploads = new Map<string, { exposureId: string; contentHash: string; received: number }>();
+  const photos = new Map<string, { exposureId: string; contentHash: string }>();
+  const chunkOffsets: number[] = [];
+  let dropAfterChunks = Infinity;
+
+  const attachPhoto = (exposureId: string, contentHash: string) => {
+    const photoId = `photo_${photos.size + 1}`;
+    photos.set(photoId, { exposureId, contentHash });
+    [...exposures.values()].find(e => e.id === exposureId)!.photoIds.push(photoId);
+    return photoId;
+  };
+
+  const transport: PhotoUploadTransport = {
+    async resolveExposureId(exposureClientId) {
+      return exposures.get(exposureClientId)?.id ?? null;
+    },
+    async startUpload({ exposureId, contentHash }) {
+      const duplicate = [...photos.entries()].find(
+        ([, photo]) => photo.exposureId === exposureId && photo.contentHash === contentHash
+      );
+      if (duplicate) {
+        return { status: 'duplicate', photoId: duplicate[0] };
+      }
+      const uploadId = `upload_${uploads.size + 1}`;
+      uploads.set(uploadId, { exposureId, contentHash: contentHash!, received: 0 });
+      return { status: 'started', uploadId, receivedBytes: 0 };
+    },
+    async getReceivedBytes(uploadId) {
+      return uploads.get(uploadId)?.received ?? null;
+    },
+    async uploadChunk(uploadId, _localUri, offset, length) {
+      if (dropAfterChunks <= 0) {
+        throw new Error('Network request failed');
+      }
+      dropAfterChunks--;
+      chunkOffsets.push(offset);
+      const upload = uploads.get(uploadId)!;
+      upload.received = offset + length;
+      return upload.received;
+    },
+    async completeUpload(uploadId) {
+      const upload = uploads.get(uploadId)!;
+      uploads.delete(uploadId);
+      return attachPhoto(upload.exposureId, upload.contentHash);
+    },
+  };
+
+  return {
+    transport,
+    exposures,
+    chunkOffsets,
+    dropConnectionAfter: (chunks: number) => (dropAfterChunks = chunks),
+    restoreConnection: () => (dropAfterChunks = Infinity),
+    syncExposure: (clientId: string) =>
+      exposures.set(clientId, { id: `exp_${exposures.size + 1}`, photoIds: [] }),
+  };
+}
+
+describe('PhotoQueueManager uploads', () => {
+  beforeEach(() => {
+    storageHelpers.remove(StorageKeys.PHOTO_QUEUE);
+  });
+
+  it('should wait for the parent exposure to sync before uploading', async () => {
+    const queue = new PhotoQueueManager();
+    const fake = createFakeTransport();
+    queue.setTransport(fake.transport);
+
+    queue.add(makePhoto('client-1'));
+    await queue.processQueue();
+
+    const [waiting] = queue.getAll();
+    expect(waiting.uploadStatus).toBe('pending');
+    expect(waiting.retryCount).toBe(0);
+
+    fake.syncExposure('client-1');
+    await queue.processQueue();
+
+    expect(queue.count()).toBe(0);
+    expect(fake.exposures.get('client-1')?.photoIds).toHaveLength(1);
+  });
+
+  it('should upload in chunks and report progress into uploadProgress', async () => {
+    const queue = new PhotoQueueManager();
+    const fake = createFakeTransport();
+    const seen: number[] = [];
+    queue.addListener(items => items.forEach(item => seen.push(item.uploadProgress)));
+
+    fake.syncExposure('client-1');
+    queue.add(makePhoto('client-1'));
+    queue.setTransport(fake.transport);
+    await queue.processQueue();
+
+    expect(fake.chunkOffsets).toEqual([0, UPLOAD_CHUNK_SIZE, UPLOAD_CHUNK_SIZE * 2]);
+    expect(seen).toEqual(expect.arrayContaining([50, 100]));
+    expect(queue.count()).toBe(0);
+  });
+
+  it('should resume from the bytes the server already has after a drop', async () => {
+    const queue = new PhotoQueueManager();
+    const fake = createFakeTransport();
+    fake.syncExposure('client-1');
+    fake.dropConnectionAfter(1);
+
+    queue.add(makePhoto('client-1'));
+    queue.setTransport(fake.transport);
+    await queue.processQueue();
+
+    const [failed] = queue.getAll();
+    expect(failed.uploadStatus).toBe('error');
+    expect(failed.uploadId).toBe('upload_1');
+
+    fake.restoreConnection();
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60_000); // Past the backoff window
+    await queue.processQueue();
+    jest.restoreAllMocks();
+
+    expect(fake.chunkOffsets).toEqual([0, UPLOAD_CHUNK_SIZE, UPLOAD_CHUNK_SIZE * 2]);
+    expect(queue.count()).toBe(0);
+    expect(fake.exposures.get('client-1')?.photoIds).toHaveLength(1);
+  });
+
+  it('should upload every ready photo in one run, not just the first batch', async () => {
+    const queue = new PhotoQueueManager();
+    const fake = createFakeTransport();
+    fake.syncExposure('client-1');
+
+    ['hash-1', 'hash-2', 'hash-3'].forEach(contentHash =>
+      queue.add({ ...makePhoto('client-1'), contentHash })
+    );
+    queue.setTransport(fake.transport);
+    await queue.processQueue();
+
+    expect(queue.count()).toBe(0);
+    expect(fake.exposures.get('client-1')?.photoIds).toHaveLength(3);
+  });
+
+  it('should skip photos the server already has', async () => {
+    const queue = new PhotoQueueManager();
+    const fake = createFakeTransport();
+    fake.syncExposure('client-1');
+    queue.setTransport(fake.transport);
+
+    queue.add(makePhoto('client-1'));
+    await queue.processQueue();
+    queue.add(makePhoto('client-1'));
+    await queue.processQueue();
+
+    expect(queue.count()).toBe(0);
+    expect(fake.chunkOffsets).toHaveLength(3);
+    expect(fake.exposures.get('client-1')?.photoIds).toHaveLength(1);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Unit test for the JSON and FHIR exports
+ *
+ * Run with: npm test __tests__/unit/lib/structuredExport.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildFHIRBundle,
+  buildJSONExport,
+  EXPOSURE_EXPORT_VERSION,
+  ExposureForStructuredExport,
+  PhotoMetadata,
+  resourceUuid,
+} from '../../../convex/structuredExport';
+
+const exposure: ExposureForStructuredExport = {
+  _id: 'exposure-1',
+  exposureType: 'silica_dust',
+  timestamp: Date.UTC(2024, 0, 1, 22, 30),
+  duration: { hours: 1, minutes: 30 },
+  location: { latitude: -36.8485, longitude: 174.7633, address: null, siteName: 'Site A' },
+  severity: 'high',
+  ppe: ['p2_respirator'],
+  workActivity: 'Cutting concrete',
+  notes: 'Dry cut, no extraction',
+  chemicalName: null,
+  sdsReference: null,
+  controlMeasures: null,
+  concentration: { value: 0.08, unit: 'mg/m3', source: 'estimated' },
+  photoIds: ['photo-1', 'photo-deleted'],
+  _creationTime: Date.UTC(2024, 0, 1, 23, 0),
+  updatedAt: Date.UTC(2024, 0, 1, 23, 0),
+};
+
+const photos = new Map<string, PhotoMetadata>([
+  [
+    'photo-1',
+    {
+      photoId: 'photo-1',
+      fileName: 'site.jpg',
+      mimeType: 'image/jpeg',
+      fileSize: 2048,
+      width: 800,
+      height: 600,
+      capturedAt: Date.UTC(2024, 0, 1, 22, 45),
+    },
+  ],
+]);
+
+const userInfo = {
+  name: 'Aroha Ngata',
+  email: 'aroha@example.com',
+  phoneNumber: null,
+  occupation: 'Labourer',
+  employer: 'Ngata Builders',
+};
+
+const exportedAt = Date.UTC(2024, 1, 1);
+
+describe('buildJSONExport', () => {
+  it('writes a versioned document with UTC dates and the photos that still exist', () => {
+    const document = buildJSONExport([exposure], userInfo, photos, exportedAt, 780);
+
+    expect(document.schemaVersion).toBe(EXPOSURE_EXPORT_VERSION);
+    expect(document.exportedAt).toBe('2024-02-01T00:00:00.000Z');
+    expect(document.profile).toEqual(userInfo);
+    expect(document.exposures[0]).toMatchObject({
+      id: 'exposure-1',
+      exposureTypeLabel: 'Silica Dust',
+      startedAt: '2024-01-01T22:30:00.000Z',
+      durationMinutes: 90,
+      ppeAdequate: true,
+      noiseSegments: null,
+    });
+    expect(document.exposures[0].photos).toEqual([
+      expect.objectContaining({ id: 'photo-1', capturedAt: '2024-01-01T22:45:00.000Z' }),
+    ]);
+  });
+});
+
+describe('buildFHIRBundle', () => {
+  it('maps exposures to Observations referencing the Patient, Location and Media', () => {
+    const second = { ...exposure, _id: 'exposure-2', photoIds: [] };
+    const bundle = buildFHIRBundle([exposure, second], userInfo, photos, exportedAt);
+    const resources = bundle.entry.map(entry => entry.resource);
+    const byType = (type: string) => resources.filter(resource => resource.resourceType === type);
+
+    expect(bundle.type).toBe('collection');
+    expect(byType('Patient')).toHaveLength(1);
+    // Both exposures were at Site A
+    expect(byType('Location')).toHaveLength(1);
+    expect(byType('Media')).toHaveLength(1);
+
+    const [patient] = byType('Patient');
+    const [location] = byType('Location');
+    const [media] = byType('Media');
+    const observation = byType('Observation')[0] as any;
+
+    expect(observation.subject).toEqual({ reference: `urn:uuid:${patient.id}` });
+    expect(observation.extension[0].valueReference).toEqual({
+      reference: `urn:uuid:${location.id}`,
+    });
+    expect(observation.derivedFrom).toEqual([{ reference: `urn:uuid:${media.id}` }]);
+    expect(observation.effectivePeriod).toEqual({
+      start: '2024-01-01T22:30:00.000Z',
+      end: '2024-01-02T00:00:00.000Z',
+    });
+    expect(observation.component[0].valueQuantity).toMatchObject({ value: 90, code: 'min' });
+    expect(bundle.entry.every(entry => entry.fullUrl === `urn:uuid:${entry.resource.id}`)).toBe(
+      true
+    );
+  });
+});
+
+describe('resourceUuid', () => {
+  it('gives the same version 8 UUID for the same record', () => {
+    const uuid = resourceUuid('Observation', 'exposure-1');
+
+    expect(uuid).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-8[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(resourceUuid('Observation', 'exposure-1')).toBe(uuid);
+    expect(resourceUuid('Observation', 'exposure-2')).not.toBe(uuid);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Unit test for the symptom timeline
+ *
+ * Run with: npm test __tests__/unit/lib/symptomJournal.test.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildSymptomTimeline } from '../../../convex/symptomJournal';
+
+const HOUR = 60 * 60 * 1000;
+const start = Date.UTC(2024, 3, 2, 7);
+
+const exposures = [
+  { _id: 'e1', timestamp: start, duration: { hours: 2, minutes: 30 } },
+  { _id: 'e2', timestamp: start + 24 * HOUR, duration: { hours: 1, minutes: 0 } },
+];
+
+describe('buildSymptomTimeline', () => {
+  it('orders symptoms by onset', () => {
+    const timeline = buildSymptomTimeline(
+      [
+        { id: 'later', onsetAt: start + 30 * HOUR, exposureIds: [] },
+        { id: 'earlier', onsetAt: start + 5 * HOUR, exposureIds: [] },
+      ],
+      exposures
+    );
+
+    expect(timeline.map(entry => entry.symptom.id)).toEqual(['earlier', 'later']);
+  });
+
+  it('measures onset from the end of each linked exposure', () => {
+    const [entry] = buildSymptomTimeline(
+      [{ onsetAt: start + 26 * HOUR, exposureIds: ['e1', 'e2'] }],
+      exposures
+    );
+
+    expect(entry.links).toEqual([
+      { exposureId: 'e1', hoursAfterExposure: 23.5 },
+      { exposureId: 'e2', hoursAfterExposure: 1 },
+    ]);
+  });
+
+  it('counts onset during an exposure as zero hours', () => {
+    const [entry] = buildSymptomTimeline(
+      [{ onsetAt: start + HOUR, exposureIds: ['e1'] }],
+      exposures
+    );
+
+    expect(entry.links[0].hoursAfterExposure).toBe(0);
+  });
+
+  it('flags onset before the exposure and drops exposures not in the list', () => {
+    const [entry] = buildSymptomTimeline(
+      [{ onsetAt: start + 20 * HOUR, exposureIds: ['e2', 'deleted'] }],
+      exposures
+    );
+
+    expect(entry.links).toEqual([{ exposureId: 'e2', hoursAfterExposure: null }]);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit test for symptom photos being limited to the user's own uploads
+ *
+ * Run with: npm test __tests__/unit/lib/symptomPhotos.test.ts
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { create, generatePhotoUploadUrl, remove } from '../../../convex/symptoms';
+
+type Row = Record<string, any>;
+
+/**
+ * In-memory stand-in for a Convex mutation ctx with file storage
+ * Index queries match on eq() conditions and return rows in insertion order
+ */
+function createCtx() {
+  const tables = new Map<string, Row[]>();
+  let clerkId = 'clerk-1';
+  let nextId = 1;
+  let clock = 1_000;
+
+  const rowsOf = (table: string) => {
+    if (!tables.has(table)) tables.set(table, []);
+    return tables.get(table)!;
+  };
+  const find = (id: string) => [...tables.values()].flat().find(row => row._id === id) ?? null;
+
+  const db = {
+    insert: async (table: string, value: Row) => {
+      const _id = `${table}:${nextId++}`;
+      rowsOf(table).push({ ...value, _id, _creationTime: clock++ });
+      return _id;
+    },
+    get: async (id: string) => find(id),
+    patch: async (id: string, value: Row) => {
+      Object.assign(find(id)!, value);
+    },
+    delete: async (id: string) => {
+      tables.forEach((rows, table) =>
+        tables.set(
+          table,
+          rows.filter(row => row._id !== id)
+        )
+      );
+    },
+    query: (table: string) => {
+      let rows = [...rowsOf(table)];
+      const chain = {
+        withIndex: (_name: string, range: (q: any) => any) => {
+          const q = {
+            eq: (field: string, value: unknown) => {
+              rows = rows.filter(row => row[field] === value);
+              return q;
+            },
+          };
+          range(q);
+          return chain;
+        },
+        first: async () => rows[0] ?? null,
+      };
+      return chain;
+    },
+    system: { get: async (id: string) => find(id) },
+  };
+
+  const storage = {
+    generateUploadUrl: async () => 'https://upload.test',
+    delete: async (id: string) => db.delete(id),
+    // What POSTing a file to an upload URL does
+    upload: () => db.insert('_storage', { size: 1000 }),
+  };
+
+  return {
+    db,
+    storage,
+    auth: { getUserIdentity: async () => ({ subject: clerkId }) },
+    signInAs: (id: string) => {
+      clerkId = id;
+    },
+    has: (id: string) => find(id) !== null,
+  } as any;
+}
+
+const symptomArgs = {
+  symptom: 'Cough',
+  bodySystem: 'respiratory',
+  severity: 'mild',
+  onsetAt: 0,
+  notes: null,
+  exposureIds: [],
+};
+
+describe('symptom photos', () => {
+  let ctx: any;
+
+  const uploadPhoto = async () => {
+    const { uploadId } = await (generatePhotoUploadUrl as any)._handler(ctx, {});
+    return { uploadId, storageId: await ctx.storage.upload() };
+  };
+  const createSymptom = (photos: { uploadId: string; storageId: string }[]) =>
+    (create as any)._handler(ctx, { ...symptomArgs, photos });
+
+  beforeEach(async () => {
+    ctx = createCtx();
+    await ctx.db.insert('users', { clerkId: 'clerk-1' });
+    await ctx.db.insert('users', { clerkId: 'clerk-2' });
+  });
+
+  it('accepts photos uploaded through the user’s own upload URLs, once each', async () => {
+    const photo = await uploadPhoto();
+    const symptomId = await createSymptom([photo]);
+
+    expect((await ctx.db.get(symptomId)).photoStorageIds).toEqual([photo.storageId]);
+    await expect(createSymptom([photo])).rejects.toThrow('Photo upload already used');
+  });
+
+  it('rejects files stored before the upload URL or used elsewhere', async () => {
+    const earlier = await ctx.storage.upload();
+    const { uploadId } = await uploadPhoto();
+    await expect(createSymptom([{ uploadId, storageId: earlier }])).rejects.toThrow(
+      'Photo not found in storage'
+    );
+
+    const exposureFile = await ctx.storage.upload();
+    await ctx.db.insert('photos', { storageId: exposureFile });
+    await expect(createSymptom([{ uploadId, storageId: exposureFile }])).rejects.toThrow(
+      'Photo is already in use'
+    );
+  });
+
+  it('rejects another user’s upload', async () => {
+    const photo = await uploadPhoto();
+    ctx.signInAs('clerk-2');
+
+    await expect(createSymptom([photo])).rejects.toThrow('Not authorized to use this photo upload');
+  });
+
+  it('keeps files an exposure photo still uses when a symptom is deleted', async () => {
+    const own = await uploadPhoto();
+    const symptomId = await createSymptom([own]);
+    const shared = await ctx.storage.upload();
+    await ctx.db.insert('photos', { storageId: shared });
+    await ctx.db.patch(symptomId, { photoStorageIds: [own.storageId, shared] });
+
+    await (remove as any)._handler(ctx, { id: symptomId });
+
+    expect(ctx.has(own.storageId)).toBe(false);
+    expect(ctx.has(own.uploadId)).toBe(false);
+    expect(ctx.has(shared)).toBe(true);
+  });
+});
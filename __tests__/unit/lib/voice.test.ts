@@ -30,6 +30,25 @@ describe('Voice Parsing Unit Tests', () => {
       expect(parseExposureType('removing asbestos class A insulation')).toBe('asbestos_class_a');
     });
 
+    it('should extract asbestos class B before matching friable asbestos', () => {
+      expect(parseExposureType('bagging non-friable asbestos sheets')).toBe('asbestos_class_b');
+    });
+
+    it('should extract vibration', () => {
+      expect(parseExposureType('hand arm vibration from the breaker')).toBe('vibration');
+    });
+
+    it('should extract lead before matching dust', () => {
+      expect(parseExposureType('sanding lead paint, lots of lead dust')).toBe('lead');
+    });
+
+    it('should extract cold exposure and confined space', () => {
+      expect(parseExposureType('eight hours in the freezer')).toBe('cold_exposure');
+      expect(parseExposureType('working in a confined space under the floor')).toBe(
+        'confined_space'
+      );
+    });
+
     it('should be case insensitive', () => {
       expect(parseExposureType('SILICA DUST exposure')).toBe('silica_dust');
     });
@@ -73,19 +92,19 @@ describe('Voice Parsing Unit Tests', () => {
   describe('parsePPE', () => {
     it('should extract P2 respirator', () => {
       const result = parsePPE('wearing P2 respirator');
-      expect(result).toContain('P2_RESPIRATOR');
+      expect(result).toContain('p2_respirator');
     });
 
     it('should extract multiple PPE items', () => {
       const result = parsePPE('wearing hard hat, safety glasses, and gloves');
-      expect(result).toContain('HARD_HAT');
-      expect(result).toContain('SAFETY_GLASSES');
-      expect(result).toContain('GLOVES');
+      expect(result).toContain('hard_hat');
+      expect(result).toContain('safety_glasses');
+      expect(result).toContain('gloves');
     });
 
     it('should be case insensitive', () => {
       const result = parsePPE('WEARING P2 RESPIRATOR');
-      expect(result).toContain('P2_RESPIRATOR');
+      expect(result).toContain('p2_respirator');
     });
 
     it('should return empty array when no PPE found', () => {
@@ -153,8 +172,8 @@ describe('Voice Parsing Unit Tests', () => {
 
       expect(result.exposureType).toBe('silica_dust');
       expect(result.duration).toEqual({ hours: 3, minutes: 0 });
-      expect(result.ppe).toContain('P2_RESPIRATOR');
-      expect(result.ppe).toContain('SAFETY_GLASSES');
+      expect(result.ppe).toContain('p2_respirator');
+      expect(result.ppe).toContain('safety_glasses');
       expect(result.severity).toBe('high');
       expect(result.workActivity).toContain('cutting concrete');
     });
@@ -0,0 +1,74 @@
+/**
+ * ACC Claim Pack
+ * What the worker adds to a claim pack and the chronology of its exposures,
+ * shared by the claim pack builder and the PDF
+ */
+
+export interface EmployerDetails {
+  name: string; // Prefilled from the user's profile
+  contact: string; // Contact person, phone or email
+  address: string;
+}
+
+export interface ClaimPackDetails {
+  employer: EmployerDetails;
+  symptomNotes: string;
+  medicalNotes: string; // GP visits, diagnoses, treatment
+  statement: string; // Personal statement for the sworn statement page
+}
+
+export const EMPTY_CLAIM_PACK_DETAILS: ClaimPackDetails = {
+  employer: { name: '', contact: '', address: '' },
+  symptomNotes: '',
+  medicalNotes: '',
+  statement: '',
+};
+
+// One exposure in the pack's chronology
+export interface ChronologyEntry<E> {
+  exposure: E;
+  number: number; // Exposure number in the pack, oldest is 1
+  hours: number;
+  cumulativeHours: number; // Running total up to and including this exposure
+}
+
+/**
+ * Exposures oldest first with a running total of hours exposed
+ */
+export function buildClaimChronology<
+  E extends { timestamp: number; duration: { hours: number; minutes: number } },
+>(exposures: E[]): ChronologyEntry<E>[] {
+  let totalMinutes = 0;
+
+  return [...exposures]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((exposure, index) => {
+      const minutes = exposure.duration.hours * 60 + exposure.duration.minutes;
+      totalMinutes += minutes;
+      return {
+        exposure,
+        number: index + 1,
+        hours: Math.round(minutes / 6) / 10,
+        cumulativeHours: Math.round(totalMinutes / 6) / 10,
+      };
+    });
+}
+
+/**
+ * What still stops the pack from being generated, empty when it is ready
+ */
+export function claimPackProblems(details: ClaimPackDetails, exposureCount: number): string[] {
+  const problems: string[] = [];
+
+  if (exposureCount === 0) {
+    problems.push('Select at least one exposure');
+  }
+  if (!details.statement.trim()) {
+    problems.push('Write your personal statement');
+  }
+  if (!details.employer.name.trim()) {
+    problems.push("Add your employer's name");
+  }
+
+  return problems;
+}
@@ -0,0 +1,411 @@
+/**
+ * CSV Export
+ * Exposure CSV and summary, shared by the app and the generateExport action
+ *
+ * Every column is declared once in CSV_COLUMNS with its header and formatter. An export
+ * picks its columns, the date format and whether to start with a byte order mark so
+ * Excel reads the file as UTF-8.
+ *
+ * Features:
+ * - RFC 4180 quoting of commas, quotes and line breaks
+ * - ISO 8601 or NZ (dd/MM/yyyy) dates in the worker's time zone
+ * - Compatible with Excel and Google Sheets
+ */
+
+import {
+  calculateDailyTWA,
+  calculateNoiseDose,
+  calculateVibrationDose,
+  dailyTWAByExposure,
+  describeTWA,
+  describeVibrationDose,
+  formatConcentration,
+  formatVibrationTools,
+  Concentration,
+  DailyTWA,
+  NoiseSegment,
+  VibrationToolUse,
+} from './exposureDose';
+import { CONCENTRATION_UNIT_LABELS } from './exposureStandards';
+import { hasAdequatePPE } from './exposureRegister';
+import { DateFormatter, localDateFormatter } from './pdfTemplate';
+
+export interface ExposureForCSV {
+  _id: string;
+  exposureType: string;
+  timestamp: number;
+  duration: { hours: number; minutes: number };
+  location: {
+    latitude: number;
+    longitude: number;
+    address: string | null;
+    siteName: string | null;
+  };
+  severity: string;
+  ppe: string[];
+  workActivity: string;
+  notes: string | null;
+  chemicalName: string | null;
+  sdsReference: string | null;
+  controlMeasures: string | null;
+  vibrationTools?: VibrationToolUse[] | null;
+  bloodLeadTestReference?: string | null;
+  noiseSegments?: NoiseSegment[] | null;
+  noisePeakDbC?: number | null;
+  concentration?: Concentration | null;
+  photoIds: string[];
+  _creationTime: number;
+  updatedAt: number;
+}
+
+export type CsvDateFormat = 'iso' | 'nz';
+
+export const CSV_DATE_FORMATS: { id: CsvDateFormat; label: string; example: string }[] = [
+  { id: 'nz', label: 'NZ', example: '31/01/2025 14:30' },
+  { id: 'iso', label: 'ISO 8601', example: '2025-01-31T14:30' },
+];
+
+// date-fns patterns of each date format
+const DATE_PATTERNS: Record<CsvDateFormat, { date: string; time: string; dateTime: string }> = {
+  nz: { date: 'dd/MM/yyyy', time: 'HH:mm', dateTime: 'dd/MM/yyyy HH:mm' },
+  iso: { date: 'yyyy-MM-dd', time: 'HH:mm', dateTime: "yyyy-MM-dd'T'HH:mm" },
+};
+
+// What a column's formatter gets besides the exposure
+interface CsvRowContext {
+  formatDate: DateFormatter;
+  patterns: { date: string; time: string; dateTime: string };
+  twa: DailyTWA | undefined;
+}
+
+type CsvValue = string | number | null | undefined;
+
+export interface CsvColumn {
+  key: string;
+  header: string;
+  format: (exposure: ExposureForCSV, context: CsvRowContext) => CsvValue;
+}
+
+const EXPOSURE_TYPE_LABELS: Record<string, string> = {
+  silica_dust: 'Silica Dust',
+  asbestos_class_a: 'Asbestos (Class A)',
+  asbestos_class_b: 'Asbestos (Class B)',
+  hazardous_chemicals: 'Hazardous Chemicals',
+  noise: 'Noise',
+  meth_contamination: 'Meth Contamination',
+  mould: 'Mould',
+  contaminated_soils: 'Contaminated Soils',
+  heat_stress: 'Heat Stress',
+  welding_fumes: 'Welding Fumes',
+  biological_hazards: 'Biological Hazards',
+  radiation: 'Radiation',
+  vibration: 'Vibration',
+  lead: 'Lead',
+  cold_exposure: 'Cold Exposure',
+  confined_space: 'Confined Space',
+};
+
+/**
+ * Format exposure type for CSV
+ */
+export function formatExposureType(type: string): string {
+  return EXPOSURE_TYPE_LABELS[type] || type;
+}
+
+function formatSeverity(severity: string): string {
+  return severity.charAt(0).toUpperCase() + severity.slice(1);
+}
+
+function yesNo(value: boolean | null | undefined): string {
+  return value === null || value === undefined ? '' : value ? 'Yes' : 'No';
+}
+
+function withUnit(value: number, twa: DailyTWA): string {
+  return `${value} ${CONCENTRATION_UNIT_LABELS[twa.standard.unit]}`;
+}
+
+export const CSV_COLUMNS = [
+  { key: 'id', header: 'ID', format: exposure => exposure._id },
+  {
+    key: 'exposureType',
+    header: 'Exposure Type',
+    format: exposure => formatExposureType(exposure.exposureType),
+  },
+  {
+    key: 'exposureTypeCode',
+    header: 'Exposure Type Code',
+    format: exposure => exposure.exposureType,
+  },
+  {
+    key: 'date',
+    header: 'Date',
+    format: (exposure, { formatDate, patterns }) => formatDate(exposure.timestamp, patterns.date),
+  },
+  {
+    key: 'time',
+    header: 'Time',
+    format: (exposure, { formatDate, patterns }) => formatDate(exposure.timestamp, patterns.time),
+  },
+  {
+    key: 'durationHours',
+    header: 'Duration (hours)',
+    format: exposure => (exposure.duration.hours + exposure.duration.minutes / 60).toFixed(2),
+  },
+  { key: 'severity', header: 'Severity', format: exposure => formatSeverity(exposure.severity) },
+  {
+    key: 'latitude',
+    header: 'Latitude',
+    format: exposure => exposure.location.latitude.toFixed(6),
+  },
+  {
+    key: 'longitude',
+    header: 'Longitude',
+    format: exposure => exposure.location.longitude.toFixed(6),
+  },
+  { key: 'address', header: 'Location Address', format: exposure => exposure.location.address },
+  { key: 'siteName', header: 'Site Name', format: exposure => exposure.location.siteName },
+  { key: 'workActivity', header: 'Work Activity', format: exposure => exposure.workActivity },
+  { key: 'ppe', header: 'PPE Used', format: exposure => exposure.ppe.join('; ') },
+  {
+    key: 'ppeAdequate',
+    header: 'PPE Adequate',
+    format: exposure => yesNo(hasAdequatePPE(exposure.exposureType, exposure.ppe)),
+  },
+  { key: 'notes', header: 'Notes', format: exposure => exposure.notes },
+  { key: 'chemicalName', header: 'Chemical Name', format: exposure => exposure.chemicalName },
+  { key: 'sdsReference', header: 'SDS Reference', format: exposure => exposure.sdsReference },
+  {
+    key: 'controlMeasures',
+    header: 'Control Measures',
+    format: exposure => exposure.controlMeasures,
+  },
+  {
+    key: 'vibrationTools',
+    header: 'Vibration Tools',
+    format: exposure => formatVibrationTools(exposure.vibrationTools ?? []),
+  },
+  {
+    key: 'vibrationA8',
+    header: 'Vibration A(8) (m/s²)',
+    format: exposure => calculateVibrationDose(exposure.vibrationTools ?? [])?.a8,
+  },
+  {
+    key: 'vibrationLevel',
+    header: 'Vibration Level Exceeded',
+    format: exposure => {
+      const dose = calculateVibrationDose(exposure.vibrationTools ?? []);
+      return dose ? describeVibrationDose(dose) : '';
+    },
+  },
+  {
+    key: 'bloodLeadTestReference',
+    header: 'Blood-Lead Test Reference',
+    format: exposure => exposure.bloodLeadTestReference,
+  },
+  {
+    key: 'noiseLex',
+    header: 'Noise LEX,8h (dB(A))',
+    format: exposure =>
+      calculateNoiseDose(exposure.noiseSegments ?? [], exposure.noisePeakDbC ?? null)?.lexDbA,
+  },
+  {
+    key: 'noiseDose',
+    header: 'Noise Dose (%)',
+    format: exposure =>
+      calculateNoiseDose(exposure.noiseSegments ?? [], exposure.noisePeakDbC ?? null)?.dosePercent,
+  },
+  { key: 'noisePeak', header: 'Noise Peak (dB(C))', format: exposure => exposure.noisePeakDbC },
+  {
+    key: 'noiseExceeded',
+    header: 'Noise Limit Exceeded',
+    format: exposure => {
+      const dose = calculateNoiseDose(exposure.noiseSegments ?? [], exposure.noisePeakDbC ?? null);
+      return dose ? yesNo(dose.exceedsLex || dose.exceedsPeak) : '';
+    },
+  },
+  {
+    key: 'concentration',
+    header: 'Concentration',
+    format: exposure => (exposure.concentration ? formatConcentration(exposure.concentration) : ''),
+  },
+  {
+    key: 'dailyTwa',
+    header: 'Daily TWA',
+    format: (_, { twa }) => (twa ? withUnit(twa.twa, twa) : ''),
+  },
+  {
+    key: 'wesTwa',
+    header: 'WES-TWA',
+    format: (_, { twa }) => (twa ? withUnit(twa.standard.twa, twa) : ''),
+  },
+  {
+    key: 'wesStatus',
+    header: 'WES Status',
+    format: (_, { twa }) => (twa ? `${describeTWA(twa)} (${twa.percentOfWes}%)` : ''),
+  },
+  { key: 'photoCount', header: 'Photo Count', format: exposure => exposure.photoIds?.length || 0 },
+  {
+    key: 'createdAt',
+    header: 'Created At',
+    format: (exposure, { formatDate, patterns }) =>
+      formatDate(exposure._creationTime, patterns.dateTime),
+  },
+  {
+    key: 'updatedAt',
+    header: 'Updated At',
+    format: (exposure, { formatDate, patterns }) =>
+      formatDate(exposure.updatedAt, patterns.dateTime),
+  },
+] as const satisfies readonly CsvColumn[];
+
+export type CsvColumnKey = (typeof CSV_COLUMNS)[number]['key'];
+
+export interface CsvOptions {
+  columns: CsvColumnKey[]; // Written in the order of CSV_COLUMNS
+  dateFormat: CsvDateFormat;
+  includeBom: boolean; // Start with a UTF-8 byte order mark so Excel reads the file as UTF-8
+}
+
+export const DEFAULT_CSV_OPTIONS: CsvOptions = {
+  // The type code repeats the type label, for spreadsheets that import the file
+  columns: CSV_COLUMNS.map(column => column.key).filter(key => key !== 'exposureTypeCode'),
+  dateFormat: 'nz',
+  includeBom: false,
+};
+
+const BOM = '\uFEFF';
+
+/**
+ * Escape CSV field value
+ * Handles quotes, commas, and newlines per RFC 4180
+ */
+export function escapeCSVField(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  const stringValue = String(value);
+
+  // If value contains comma, quote, or newline, wrap in quotes and escape quotes
+  if (/[",\r\n]/.test(stringValue)) {
+    return `"${stringValue.replace(/"/g, '""')}"`;
+  }
+
+  return stringValue;
+}
+
+/**
+ * Known column keys, dropping unknown and repeated ones (saved choices may predate a rename)
+ */
+export function normalizeCsvColumns(keys: string[]): CsvColumnKey[] {
+  return CSV_COLUMNS.map(column => column.key).filter(key => keys.includes(key));
+}
+
+/**
+ * Turn a column on or off
+ */
+export function toggleCsvColumn(options: CsvOptions, key: CsvColumnKey): CsvOptions {
+  const columns = options.columns.includes(key)
+    ? options.columns.filter(column => column !== key)
+    : normalizeCsvColumns([...options.columns, key]);
+  return { ...options, columns };
+}
+
+function joinLines(lines: string[], includeBom: boolean): string {
+  return (includeBom ? BOM : '') + lines.join('\n');
+}
+
+/**
+ * T067: Generate CSV string from exposure records
+ * Dates are in the time zone given in minutes ahead of UTC, or the local time when null
+ */
+export function generateCSV(
+  exposures: ExposureForCSV[],
+  options: CsvOptions = DEFAULT_CSV_OPTIONS,
+  timezoneOffsetMinutes: number | null = null
+): string {
+  const columns = CSV_COLUMNS.filter(column =>
+    normalizeCsvColumns(options.columns).includes(column.key)
+  );
+  const formatDate = localDateFormatter(timezoneOffsetMinutes);
+  const patterns = DATE_PATTERNS[options.dateFormat];
+
+  // Daily TWA across the exported exposures, grouped by the worker's local days
+  const twaByExposure = dailyTWAByExposure(
+    calculateDailyTWA(
+      exposures.map(exposure => ({ ...exposure, id: exposure._id })),
+      timezoneOffsetMinutes ?? -new Date().getTimezoneOffset()
+    )
+  );
+
+  const rows = exposures.map(exposure => {
+    const context = { formatDate, patterns, twa: twaByExposure.get(exposure._id) };
+    return columns
+      .map(column => escapeCSVField((column.format as CsvColumn['format'])(exposure, context)))
+      .join(',');
+  });
+
+  return joinLines(
+    [columns.map(column => escapeCSVField(column.header)).join(','), ...rows],
+    options.includeBom
+  );
+}
+
+/**
+ * Generate CSV summary statistics
+ */
+export function generateCSVSummary(
+  exposures: ExposureForCSV[],
+  options: Pick<CsvOptions, 'includeBom'> = DEFAULT_CSV_OPTIONS
+): string {
+  const headers = ['Statistic', 'Value'];
+
+  const totalExposures = exposures.length;
+  const exposuresByType = exposures.reduce(
+    (acc, exp) => {
+      const type = formatExposureType(exp.exposureType);
+      acc[type] = (acc[type] || 0) + 1;
+      return acc;
+    },
+    {} as Record<string, number>
+  );
+
+  const exposuresBySeverity = exposures.reduce(
+    (acc, exp) => {
+      const severity = formatSeverity(exp.severity);
+      acc[severity] = (acc[severity] || 0) + 1;
+      return acc;
+    },
+    {} as Record<string, number>
+  );
+
+  const totalDuration = exposures.reduce((sum, exp) => {
+    return sum + exp.duration.hours + exp.duration.minutes / 60;
+  }, 0);
+
+  const avgDuration = totalExposures > 0 ? totalDuration / totalExposures : 0;
+
+  const totalPhotos = exposures.reduce((sum, exp) => sum + (exp.photoIds?.length || 0), 0);
+  const withoutAdequatePPE = exposures.filter(
+    exp => hasAdequatePPE(exp.exposureType, exp.ppe) === false
+  ).length;
+
+  const rows = [
+    ['Total Exposures', totalExposures],
+    ['Total Duration (hours)', totalDuration.toFixed(2)],
+    ['Average Duration (hours)', avgDuration.toFixed(2)],
+    ['Total Photos', totalPhotos],
+    ['Exposures Without Adequate PPE', withoutAdequatePPE],
+    ['', ''],
+    ['Exposures by Type', ''],
+    ...Object.entries(exposuresByType).map(([type, count]) => [type, count]),
+    ['', ''],
+    ['Exposures by Severity', ''],
+    ...Object.entries(exposuresBySeverity).map(([severity, count]) => [severity, count]),
+  ];
+
+  return joinLines(
+    [headers.join(','), ...rows.map(row => row.map(escapeCSVField).join(','))],
+    options.includeBom
+  );
+}
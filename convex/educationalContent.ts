@@ -5,6 +5,7 @@
 
 import { v } from 'convex/values';
 import { query, mutation } from './_generated/server';
+import { normalizeExposureType } from './taxonomy';
 
 /**
  * T085: List educational content with filtering
@@ -25,10 +26,12 @@ export const list = query({
       .withIndex('by_isPublished', q => q.eq('isPublished', true))
       .collect();
 
-    // Filter by exposure type if provided
+    // Filter by exposure type if provided, content seeded with older ids still matches
     if (exposureType) {
+      const typeId = normalizeExposureType(exposureType) ?? exposureType;
       results = results.filter(
-        item => item.exposureType === exposureType || item.exposureType === 'general'
+        item =>
+          normalizeExposureType(item.exposureType) === typeId || item.exposureType === 'general'
       );
     }
 
@@ -0,0 +1,210 @@
+/**
+ * Export Scope
+ * Which exposures an export covers, shared by the export tab and the generateExport action
+ *
+ * A scope narrows the user's exposures by date range, type, severity and saved site,
+ * and optionally to records picked by hand. Empty lists mean no narrowing, so the
+ * empty scope exports everything.
+ */
+
+import {
+  endOfDay,
+  endOfQuarter,
+  endOfYear,
+  startOfDay,
+  startOfQuarter,
+  startOfYear,
+  subDays,
+  subQuarters,
+} from 'date-fns';
+
+// Exposures this close to a saved site count as at it, as for suggestNearby
+export const SITE_RADIUS_METERS = 50;
+
+export type Severity = 'low' | 'medium' | 'high';
+
+export interface ExportFilters {
+  dateFrom: number | null; // Inclusive, Unix ms
+  dateTo: number | null; // Inclusive, Unix ms
+  exposureTypes: string[];
+  severities: Severity[];
+  siteIds: string[]; // Saved sites from the locations table
+}
+
+export interface ExportScope extends ExportFilters {
+  exposureIds: string[] | null; // Records picked by hand, null for every matching record
+}
+
+export const EMPTY_EXPORT_SCOPE: ExportScope = {
+  dateFrom: null,
+  dateTo: null,
+  exposureTypes: [],
+  severities: [],
+  siteIds: [],
+  exposureIds: null,
+};
+
+export interface ScopeSite {
+  _id: string;
+  siteName: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+}
+
+interface ScopedExposure {
+  _id: string;
+  timestamp: number;
+  exposureType: string;
+  severity: string;
+  location: { latitude: number; longitude: number; siteName: string | null };
+}
+
+export type DateRangePreset = 'all' | 'last30' | 'thisQuarter' | 'lastQuarter' | 'thisYear';
+
+export const DATE_RANGE_PRESETS: { id: DateRangePreset; label: string }[] = [
+  { id: 'all', label: 'All Time' },
+  { id: 'last30', label: 'Last 30 Days' },
+  { id: 'thisQuarter', label: 'This Quarter' },
+  { id: 'lastQuarter', label: 'Last Quarter' },
+  { id: 'thisYear', label: 'This Year' },
+];
+
+/**
+ * Date range of a preset in local time, quarters being calendar quarters
+ */
+export function presetDateRange(
+  preset: DateRangePreset,
+  now: number = Date.now()
+): { dateFrom: number | null; dateTo: number | null } {
+  switch (preset) {
+    case 'last30':
+      return { dateFrom: startOfDay(subDays(now, 29)).getTime(), dateTo: endOfDay(now).getTime() };
+    case 'thisQuarter':
+      return { dateFrom: startOfQuarter(now).getTime(), dateTo: endOfQuarter(now).getTime() };
+    case 'lastQuarter': {
+      const lastQuarter = subQuarters(now, 1);
+      return {
+        dateFrom: startOfQuarter(lastQuarter).getTime(),
+        dateTo: endOfQuarter(lastQuarter).getTime(),
+      };
+    }
+    case 'thisYear':
+      return { dateFrom: startOfYear(now).getTime(), dateTo: endOfYear(now).getTime() };
+    default:
+      return { dateFrom: null, dateTo: null };
+  }
+}
+
+/**
+ * Distance in metres between two coordinates (Haversine)
+ */
+function distanceMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371e3;
+  const φ1 = (lat1 * Math.PI) / 180;
+  const φ2 = (lat2 * Math.PI) / 180;
+  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
+  const Δλ = ((lon2 - lon1) * Math.PI) / 180;
+
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Whether an exposure was at a saved site, by site name or within SITE_RADIUS_METERS
+ */
+export function isAtSite(location: ScopedExposure['location'], site: ScopeSite): boolean {
+  if (location.siteName?.trim().toLowerCase() === site.siteName.trim().toLowerCase()) {
+    return true;
+  }
+  return (
+    distanceMeters(location.latitude, location.longitude, site.latitude, site.longitude) <=
+    SITE_RADIUS_METERS
+  );
+}
+
+/**
+ * Exposures within the scope, in their original order
+ * Site ids missing from sites (deleted sites) match nothing
+ */
+export function applyExportScope<T extends ScopedExposure>(
+  exposures: T[],
+  scope: ExportFilters & { exposureIds?: string[] | null },
+  sites: ScopeSite[]
+): T[] {
+  const scopeSites = sites.filter(site => scope.siteIds.includes(site._id));
+  const picked = scope.exposureIds ? new Set(scope.exposureIds) : null;
+
+  return exposures.filter(
+    exposure =>
+      (scope.dateFrom === null || exposure.timestamp >= scope.dateFrom) &&
+      (scope.dateTo === null || exposure.timestamp <= scope.dateTo) &&
+      (scope.exposureTypes.length === 0 || scope.exposureTypes.includes(exposure.exposureType)) &&
+      (scope.severities.length === 0 || scope.severities.includes(exposure.severity as Severity)) &&
+      (scope.siteIds.length === 0 || scopeSites.some(site => isAtSite(exposure.location, site))) &&
+      (picked === null || picked.has(exposure._id))
+  );
+}
+
+/**
+ * Journal symptoms that belong with the exported exposures, in their original order
+ * Keeps symptoms linked to an exported exposure, and unlinked symptoms with onset in the date range
+ */
+export function applySymptomScope<S extends { onsetAt: number; exposureIds: string[] }>(
+  symptoms: S[],
+  exposures: { _id: string }[],
+  scope: Pick<ExportFilters, 'dateFrom' | 'dateTo'>
+): S[] {
+  const exported = new Set(exposures.map(exposure => exposure._id));
+
+  return symptoms.filter(symptom =>
+    symptom.exposureIds.length > 0
+      ? symptom.exposureIds.some(id => exported.has(id))
+      : (scope.dateFrom === null || symptom.onsetAt >= scope.dateFrom) &&
+        (scope.dateTo === null || symptom.onsetAt <= scope.dateTo)
+  );
+}
+
+/**
+ * Number of narrowing choices in a scope, for the export tab's badge
+ */
+export function countScopeFilters(scope: ExportScope): number {
+  return (
+    (scope.dateFrom !== null || scope.dateTo !== null ? 1 : 0) +
+    scope.exposureTypes.length +
+    scope.severities.length +
+    scope.siteIds.length +
+    (scope.exposureIds !== null ? 1 : 0)
+  );
+}
+
+// Rough bytes per part of each format, from exports of typical records
+const SIZE_ESTIMATES: Record<string, { base: number; perExposure: number; perPhoto: number }> = {
+  pdf: { base: 60_000, perExposure: 6_000, perPhoto: 110_000 },
+  csv: { base: 500, perExposure: 400, perPhoto: 0 },
+  'csv-summary': { base: 2_000, perExposure: 0, perPhoto: 0 },
+  json: { base: 1_000, perExposure: 1_200, perPhoto: 200 },
+  fhir: { base: 2_000, perExposure: 3_500, perPhoto: 700 },
+};
+
+/**
+ * Approximate size in bytes of an export of the exposures in a format
+ * Photos only add to PDFs much; the data formats carry photo metadata, not images
+ */
+export function estimateExportBytes(exposures: { photoIds?: string[] }[], format: string): number {
+  const estimate = SIZE_ESTIMATES[format] ?? SIZE_ESTIMATES.csv;
+  const photos = exposures.reduce((count, exposure) => count + (exposure.photoIds?.length ?? 0), 0);
+  return estimate.base + estimate.perExposure * exposures.length + estimate.perPhoto * photos;
+}
+
+/**
+ * Byte count as KB or MB, e.g. "~350 KB" or "~4.2 MB"
+ */
+export function formatEstimatedSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `~${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `~${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,168 @@
+/**
+ * Export Templates
+ * Named layouts of the PDF export: which sections it has and in what order
+ *
+ * Each audience reads a different document: ACC wants every detail, an employer's
+ * H&S manager wants totals per site and a GP wants the health story in date order.
+ */
+
+export type ExportSectionId =
+  | 'cover'
+  | 'toc'
+  | 'summary'
+  | 'sites'
+  | 'chronology'
+  | 'exposures'
+  | 'photos'
+  | 'map'
+  | 'symptoms'
+  | 'integrity';
+
+export interface ExportSectionInfo {
+  id: ExportSectionId;
+  label: string;
+  description: string;
+}
+
+export const EXPORT_SECTIONS: ExportSectionInfo[] = [
+  { id: 'cover', label: 'Cover Page', description: 'Your details and the number of exposures' },
+  { id: 'toc', label: 'Table of Contents', description: 'Links to every section' },
+  {
+    id: 'summary',
+    label: 'Summary',
+    description: 'Totals by hazard and severity, hours and PPE use',
+  },
+  { id: 'sites', label: 'Site Summary', description: 'Exposures and hours per site' },
+  { id: 'chronology', label: 'Chronology', description: 'Exposures in date order with hours' },
+  { id: 'exposures', label: 'Exposure Details', description: 'Every field of every exposure' },
+  { id: 'photos', label: 'Photos', description: 'Photo appendix, numbered per exposure' },
+  { id: 'map', label: 'Site Map', description: 'Where the exposures happened' },
+  { id: 'symptoms', label: 'Symptoms Timeline', description: 'Symptom journal entries' },
+  { id: 'integrity', label: 'Integrity Verification', description: 'Hash chain proofs' },
+];
+
+export interface ExportTemplateSection {
+  id: ExportSectionId;
+  enabled: boolean;
+}
+
+export interface ExportTemplate {
+  id: string;
+  name: string;
+  description: string;
+  sections: ExportTemplateSection[]; // Every section once, in document order
+  builtIn: boolean;
+}
+
+/**
+ * Sections in the given order enabled, followed by the rest disabled
+ */
+function sectionsOf(enabled: ExportSectionId[]): ExportTemplateSection[] {
+  return [
+    ...enabled.map(id => ({ id, enabled: true })),
+    ...EXPORT_SECTIONS.filter(section => !enabled.includes(section.id)).map(section => ({
+      id: section.id,
+      enabled: false,
+    })),
+  ];
+}
+
+export const BUILT_IN_TEMPLATES: ExportTemplate[] = [
+  {
+    id: 'acc',
+    name: 'ACC Claim',
+    description: 'Full detail of every exposure with photos and proofs',
+    sections: sectionsOf([
+      'cover',
+      'toc',
+      'summary',
+      'exposures',
+      'photos',
+      'symptoms',
+      'map',
+      'integrity',
+    ]),
+    builtIn: true,
+  },
+  {
+    id: 'employer',
+    name: 'Employer H&S',
+    description: 'Totals per site for a health and safety manager',
+    sections: sectionsOf(['cover', 'summary', 'sites', 'map', 'chronology']),
+    builtIn: true,
+  },
+  {
+    id: 'gp',
+    name: 'GP Visit',
+    description: 'Exposures and symptoms in date order',
+    sections: sectionsOf(['cover', 'summary', 'chronology', 'symptoms']),
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_TEMPLATE = BUILT_IN_TEMPLATES[0];
+
+/**
+ * Enabled sections in document order
+ */
+export function enabledSections(template: ExportTemplate): ExportSectionId[] {
+  return template.sections.filter(section => section.enabled).map(section => section.id);
+}
+
+/**
+ * A template with every known section exactly once
+ * Saved templates predating a section get it appended, disabled; unknown sections are dropped
+ */
+export function normalizeTemplate(template: ExportTemplate): ExportTemplate {
+  const known = new Set(EXPORT_SECTIONS.map(section => section.id));
+  const seen = new Set<ExportSectionId>();
+  const sections = template.sections.filter(section => {
+    if (!known.has(section.id) || seen.has(section.id)) {
+      return false;
+    }
+    seen.add(section.id);
+    return true;
+  });
+
+  return {
+    ...template,
+    sections: [
+      ...sections,
+      ...EXPORT_SECTIONS.filter(section => !seen.has(section.id)).map(section => ({
+        id: section.id,
+        enabled: false,
+      })),
+    ],
+  };
+}
+
+/**
+ * Turn a section on or off
+ */
+export function toggleSection(template: ExportTemplate, id: ExportSectionId): ExportTemplate {
+  return {
+    ...template,
+    sections: template.sections.map(section =>
+      section.id === id ? { ...section, enabled: !section.enabled } : section
+    ),
+  };
+}
+
+/**
+ * Move a section one place up (-1) or down (1), unchanged at either end
+ */
+export function moveSection(
+  template: ExportTemplate,
+  id: ExportSectionId,
+  direction: -1 | 1
+): ExportTemplate {
+  const index = template.sections.findIndex(section => section.id === id);
+  const target = index + direction;
+  if (index === -1 || target < 0 || target >= template.sections.length) {
+    return template;
+  }
+
+  const sections = [...template.sections];
+  [sections[index], sections[target]] = [sections[target], sections[index]];
+  return { ...template, sections };
+}
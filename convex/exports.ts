@@ -4,20 +4,56 @@
  */
 
 import { v } from 'convex/values';
-import { action } from './_generated/server';
-import { internal } from './_generated/api';
+import { action, ActionCtx } from './_generated/server';
+import { api, internal } from './_generated/api';
+import { Doc } from './_generated/dataModel';
+import { DEFAULT_CSV_OPTIONS, generateCSV, generateCSVSummary, normalizeCsvColumns } from './csv';
+import { applyExportScope, applySymptomScope } from './exportScope';
+import { DEFAULT_TEMPLATE, ExportTemplate, normalizeTemplate } from './exportTemplates';
+import {
+  buildExportHTML,
+  ChainIntegrity,
+  EmbeddedPhotos,
+  ExposureForExport,
+  RecordProof,
+} from './pdfTemplate';
+import { renderPDF } from './pdfRenderer';
+import { generateStructuredExport, PhotoMetadata } from './structuredExport';
+
+// How long the download URL of a generated PDF stays valid
+export const EXPORT_URL_TTL_MS = 15 * 60 * 1000;
+
+// Photo bytes embedded in one PDF, later photos are left out past it
+// Keeps the photos, their base64 and the rendered PDF within an action's memory
+const PHOTO_BYTE_BUDGET = 8 * 1024 * 1024;
+
+// Most IDs hashChain.getProofs and photos.getPhotoUrls take at once
+const BATCH_SIZE = 100;
 
 /**
  * T064: Server-side export action
- * Generates PDF or CSV exports on the server if client-side generation fails
+ * Generates PDF, CSV, JSON or FHIR exports on the server if client-side generation fails
+ *
+ * PDFs are rendered from the same document as the app's export, stored in file storage
+ * and returned as a download URL that expires after EXPORT_URL_TTL_MS.
+ *
+ * The scope narrows the exposures as on the export tab. Without exposureIds, every
+ * exposure of the user within the scope is exported.
  *
  * Note: This is primarily a fallback mechanism. Client-side export using expo-print
  * is preferred for offline capability and better performance.
  */
 export const generateExport = action({
   args: {
-    format: v.union(v.literal('pdf'), v.literal('csv'), v.literal('csv-summary')),
-    exposureIds: v.array(v.id('exposures')),
+    format: v.union(
+      v.literal('pdf'),
+      v.literal('csv'),
+      v.literal('csv-summary'),
+      v.literal('json'),
+      v.literal('fhir')
+    ),
+    // Records picked by hand, every exposure in the scope when missing
+    exposureIds: v.optional(v.array(v.id('exposures'))),
     userInfo: v.object({
       name: v.union(v.string(), v.null()),
       email: v.string(),
@@ -25,6 +61,32 @@ export const generateExport = action({
       occupation: v.union(v.string(), v.null()),
       employer: v.union(v.string(), v.null()),
     }),
+    // Date range, types, severities and saved sites the export covers, everything when missing
+    scope: v.optional(
+      v.object({
+        dateFrom: v.union(v.number(), v.null()),
+        dateTo: v.union(v.number(), v.null()),
+        exposureTypes: v.array(v.string()),
+        severities: v.array(v.union(v.literal('low'), v.literal('medium'), v.literal('high'))),
+        siteIds: v.array(v.id('locations')),
+      })
+    ),
+    // Minutes the worker's local time is ahead of UTC, for dates and the daily TWA by local day
+    timezoneOffsetMinutes: v.optional(v.number()),
+    // CSV only: columns by key, date format and a UTF-8 BOM for Excel, the defaults when missing
+    columns: v.optional(v.array(v.string())),
+    dateFormat: v.optional(v.union(v.literal('iso'), v.literal('nz'))),
+    includeBom: v.optional(v.boolean()),
+    // PDF only: sections and their order, the default template when missing
+    template: v.optional(
+      v.object({
+        id: v.string(),
+        name: v.string(),
+        description: v.string(),
+        sections: v.array(v.object({ id: v.string(), enabled: v.boolean() })),
+        builtIn: v.boolean(),
+      })
+    ),
   },
   handler: async (
     ctx,
@@ -35,6 +97,8 @@ export const generateExport = action({
     format: string;
     exposureCount: number;
     data?: string;
+    url?: string;
+    expiresAt?: number;
   }> => {
     // Get authenticated user
     const identity = await ctx.auth.getUserIdentity();
@@ -51,11 +115,22 @@ export const generateExport = action({
       throw new Error('User not found');
     }
 
-    // Fetch all requested exposures
-    const validExposures = await ctx.runQuery(internal.exports_internal.getExposuresForExport, {
-      exposureIds: args.exposureIds,
-      userId: user._id,
-    });
+    // Fetch the requested exposures, or every exposure in the scope's date range
+    const requested = args.exposureIds
+      ? await ctx.runQuery(internal.exports_internal.getExposuresForExport, {
+          exposureIds: args.exposureIds,
+          userId: user._id,
+        })
+      : await ctx.runQuery(internal.exports_internal.getExposuresInRange, {
+          userId: user._id,
+          dateFrom: args.scope?.dateFrom ?? null,
+          dateTo: args.scope?.dateTo ?? null,
+        });
+
+    const sites = args.scope?.siteIds.length
+      ? await ctx.runQuery(api.locations.list, { userId: user._id })
+      : [];
+    const validExposures = args.scope ? applyExportScope(requested, args.scope, sites) : requested;
 
     if (validExposures.length === 0) {
       throw new Error('No valid exposures found for export');
@@ -63,19 +138,80 @@ export const generateExport = action({
 
     // Generate export based on format
     if (args.format === 'pdf') {
-      // Server-side PDF generation
-      // In a real implementation, this would use a library like puppeteer or similar
-      // For now, return metadata about what would be generated
+      const template = args.template
+        ? normalizeTemplate(args.template as ExportTemplate)
+        : DEFAULT_TEMPLATE;
+
+      const integrity = await fetchChainIntegrity(ctx, validExposures);
+      // Symptoms linked to the exported exposures or begun within the date range
+      const symptoms = applySymptomScope(
+        await ctx.runQuery(api.symptoms.list, {}),
+        validExposures,
+        { dateFrom: args.scope?.dateFrom ?? null, dateTo: args.scope?.dateTo ?? null }
+      );
+      const photos = await fetchEmbeddedPhotos(ctx, validExposures, symptoms);
+
+      const html = buildExportHTML(
+        // Severity is stored as a string, always one of the three levels
+        validExposures as ExposureForExport[],
+        args.userInfo,
+        photos,
+        integrity,
+        symptoms,
+        template,
+        args.timezoneOffsetMinutes ?? 0
+      );
+      const pdf = await renderPDF(html);
+
+      const storageId = await ctx.storage.store(
+        new Blob([pdf as BlobPart], { type: 'application/pdf' })
+      );
+      const url = await ctx.storage.getUrl(storageId);
+      if (!url) {
+        throw new Error('Failed to store PDF export');
+      }
+      await ctx.scheduler.runAfter(EXPORT_URL_TTL_MS, internal.exports_internal.deleteExportFile, {
+        storageId,
+      });
+
       return {
         success: true,
-        message: 'PDF export prepared',
+        message: 'PDF export generated',
         format: 'pdf',
         exposureCount: validExposures.length,
-        // In production, this would return a download URL or file
+        url,
+        expiresAt: Date.now() + EXPORT_URL_TTL_MS,
       };
-    } else if (args.format === 'csv') {
+    }
+
+    if (args.format === 'json' || args.format === 'fhir') {
+      const photoMetadata = await fetchPhotoMetadata(ctx, validExposures);
+      const data = generateStructuredExport(
+        args.format,
+        validExposures,
+        args.userInfo,
+        photoMetadata,
+        Date.now(),
+        args.timezoneOffsetMinutes ?? null
+      );
+      return {
+        success: true,
+        message: args.format === 'fhir' ? 'FHIR bundle generated' : 'JSON export generated',
+        format: args.format,
+        data,
+        exposureCount: validExposures.length,
+      };
+    }
+
+    const csvOptions = {
+      columns: args.columns ? normalizeCsvColumns(args.columns) : DEFAULT_CSV_OPTIONS.columns,
+      dateFormat: args.dateFormat ?? DEFAULT_CSV_OPTIONS.dateFormat,
+      includeBom: args.includeBom ?? DEFAULT_CSV_OPTIONS.includeBom,
+    };
+
+    if (args.format === 'csv') {
       // Generate CSV on server
-      const csvData = generateCSVData(validExposures);
+      const csvData = generateCSV(validExposures, csvOptions, args.timezoneOffsetMinutes ?? 0);
       return {
         success: true,
         message: 'CSV export generated',
@@ -85,7 +221,7 @@ export const generateExport = action({
       };
     } else {
       // Generate CSV summary
-      const summaryData = generateCSVSummary(validExposures);
+      const summaryData = generateCSVSummary(validExposures, csvOptions);
       return {
         success: true,
         message: 'CSV summary generated',
@@ -98,101 +234,96 @@ export const generateExport = action({
 });
 
 /**
- * Helper function to generate CSV data from exposures
+ * Verify the hash chain and fetch the proof of each exported record
  */
-function generateCSVData(exposures: any[]): string {
-  const headers = [
-    'ID',
-    'Exposure Type',
-    'Date',
-    'Time',
-    'Duration (hours)',
-    'Severity',
-    'Latitude',
-    'Longitude',
-    'Location',
-    'Site Name',
-    'Work Activity',
-    'PPE',
-    'Notes',
-    'Chemical Name',
-    'SDS Reference',
-    'Control Measures',
-  ];
+async function fetchChainIntegrity(
+  ctx: ActionCtx,
+  exposures: Doc<'exposures'>[]
+): Promise<ChainIntegrity> {
+  const chain = await ctx.runQuery(api.hashChain.verifyChain, {});
+  const proofs = new Map<string, RecordProof>();
 
-  const rows = exposures.map(exp => {
-    const date = new Date(exp.timestamp);
-    const duration = exp.duration.hours + exp.duration.minutes / 60;
-
-    return [
-      exp._id,
-      exp.exposureType,
-      date.toLocaleDateString(),
-      date.toLocaleTimeString(),
-      duration.toFixed(2),
-      exp.severity,
-      exp.location.latitude.toFixed(6),
-      exp.location.longitude.toFixed(6),
-      exp.location.address || '',
-      exp.location.siteName || '',
-      exp.workActivity,
-      exp.ppe.join('; '),
-      exp.notes || '',
-      exp.chemicalName || '',
-      exp.sdsReference || '',
-      exp.controlMeasures || '',
-    ].map(escapeCSV).join(',');
-  });
-
-  return [headers.join(','), ...rows].join('\n');
+  for (let i = 0; i < exposures.length; i += BATCH_SIZE) {
+    const batch = await ctx.runQuery(api.hashChain.getProofs, {
+      exposureIds: exposures.slice(i, i + BATCH_SIZE).map(exposure => exposure._id),
+    });
+    batch.forEach(proof => proofs.set(proof.exposureId, proof));
+  }
+
+  return { head: chain.head, valid: chain.valid, proofs };
+}
+
+/**
+ * Metadata of the exposures' photos, keyed by photo ID
+ */
+async function fetchPhotoMetadata(
+  ctx: ActionCtx,
+  exposures: Doc<'exposures'>[]
+): Promise<Map<string, PhotoMetadata>> {
+  const metadata = new Map<string, PhotoMetadata>();
+  const photoIds = exposures.flatMap(exposure => exposure.photoIds);
+  for (let i = 0; i < photoIds.length; i += BATCH_SIZE) {
+    const batch = await ctx.runQuery(api.photos.getPhotoUrls, {
+      photoIds: photoIds.slice(i, i + BATCH_SIZE),
+    });
+    batch.forEach(photo => metadata.set(photo.photoId, photo));
+  }
+  return metadata;
 }
 
 /**
- * Helper function to generate CSV summary statistics
+ * Embed the photos of each exposure and symptom as data URIs, keyed by its ID
+ * Stops adding photos once PHOTO_BYTE_BUDGET is spent so the PDF stays within memory
  */
-function generateCSVSummary(exposures: any[]): string {
-  const stats = {
-    total: exposures.length,
-    byType: {} as Record<string, number>,
-    bySeverity: {} as Record<string, number>,
-    totalDuration: 0,
-  };
-
-  exposures.forEach(exp => {
-    stats.byType[exp.exposureType] = (stats.byType[exp.exposureType] || 0) + 1;
-    stats.bySeverity[exp.severity] = (stats.bySeverity[exp.severity] || 0) + 1;
-    stats.totalDuration += exp.duration.hours + exp.duration.minutes / 60;
-  });
-
-  const rows = [
-    ['Total Exposures', stats.total],
-    ['Total Duration (hours)', stats.totalDuration.toFixed(2)],
-    ['Average Duration (hours)', (stats.totalDuration / stats.total).toFixed(2)],
-    ['', ''],
-    ['By Type', ''],
-    ...Object.entries(stats.byType).map(([type, count]) => [type, count]),
-    ['', ''],
-    ['By Severity', ''],
-    ...Object.entries(stats.bySeverity).map(([sev, count]) => [sev, count]),
+async function fetchEmbeddedPhotos(
+  ctx: ActionCtx,
+  exposures: Doc<'exposures'>[],
+  symptoms: { _id: string; photoStorageIds: string[] }[]
+): Promise<EmbeddedPhotos> {
+  const storageIdByPhoto = new Map<string, string>();
+  const photoIds = exposures.flatMap(exposure => exposure.photoIds);
+  for (let i = 0; i < photoIds.length; i += BATCH_SIZE) {
+    const batch = await ctx.runQuery(api.photos.getPhotoUrls, {
+      photoIds: photoIds.slice(i, i + BATCH_SIZE),
+    });
+    batch.forEach(photo => storageIdByPhoto.set(photo.photoId, photo.storageId));
+  }
+
+  const owners = [
+    ...exposures.map(exposure => ({
+      id: exposure._id as string,
+      storageIds: exposure.photoIds
+        .map(photoId => storageIdByPhoto.get(photoId))
+        .filter((storageId): storageId is string => storageId !== undefined),
+    })),
+    ...symptoms.map(symptom => ({ id: symptom._id, storageIds: symptom.photoStorageIds })),
   ];
 
-  return [
-    'Statistic,Value',
-    ...rows.map(row => row.map(escapeCSV).join(',')),
-  ].join('\n');
+  const photos: EmbeddedPhotos = new Map();
+  let bytesLeft = PHOTO_BYTE_BUDGET;
+  for (const owner of owners) {
+    const dataUris: string[] = [];
+    for (const storageId of owner.storageIds) {
+      const blob = await ctx.storage.get(storageId);
+      if (!blob || blob.size > bytesLeft) {
+        continue;
+      }
+      bytesLeft -= blob.size;
+      const base64 = bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
+      dataUris.push(`data:${blob.type || 'image/jpeg'};base64,${base64}`);
+    }
+    photos.set(owner.id, dataUris);
+  }
+  return photos;
 }
 
 /**
- * Escape CSV field values
+ * Base64 of binary data, converted in slices to keep the argument lists short
  */
-function escapeCSV(value: any): string {
-  if (value === null || value === undefined) {
-    return '';
-  }
-  const str = String(value);
-  if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-    const escaped = str.replace(/"/g, '""');
-    return `"${escaped}"`;
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
   }
-  return str;
+  return btoa(binary);
 }
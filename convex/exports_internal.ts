@@ -3,7 +3,7 @@
  */
 
 import { v } from 'convex/values';
-import { internalQuery } from './_generated/server';
+import { internalMutation, internalQuery } from './_generated/server';
 
 /**
  * Get user by Clerk ID
@@ -32,7 +32,7 @@ export const getExposuresForExport = internalQuery({
     const exposures = await Promise.all(
       args.exposureIds.map(async (id) => {
         const exposure = await ctx.db.get(id);
-        if (!exposure || exposure.userId !== args.userId) {
+        if (!exposure || exposure.userId !== args.userId || exposure.isDeleted) {
           return null;
         }
         return exposure;
@@ -41,3 +41,39 @@ export const getExposuresForExport = internalQuery({
     return exposures.filter((e): e is NonNullable<typeof e> => e !== null);
   },
 });
+
+/**
+ * Get every live exposure of a user in a date range, newest first
+ */
+export const getExposuresInRange = internalQuery({
+  args: {
+    userId: v.id('users'),
+    dateFrom: v.union(v.number(), v.null()),
+    dateTo: v.union(v.number(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query('exposures')
+      .withIndex('by_userId_isDeleted_timestamp', (q) =>
+        q
+          .eq('userId', args.userId)
+          .eq('isDeleted', false)
+          .gte('timestamp', args.dateFrom ?? 0)
+          .lte('timestamp', args.dateTo ?? Number.MAX_SAFE_INTEGER)
+      )
+      .order('desc')
+      .collect();
+  },
+});
+
+/**
+ * Delete a generated export file once its download URL has expired
+ */
+export const deleteExportFile = internalMutation({
+  args: {
+    storageId: v.id('_storage'),
+  },
+  handler: async (ctx, args) => {
+    await ctx.storage.delete(args.storageId);
+  },
+});
@@ -0,0 +1,347 @@
+/**
+ * Daily Exposure Dose Calculations
+ * Shared by the Convex functions and the app, like convex/taxonomy.ts
+ *
+ * Noise follows the NZ workplace exposure standard: LEX,8h of 85 dB(A) with a
+ * 3 dB exchange rate, and a 140 dB(C) peak limit. Hand-arm vibration uses the
+ * daily A(8) with a 2.5 m/s² action value and a 5 m/s² limit value. Airborne
+ * substances are compared with the WES-TWA in convex/exposureStandards.ts.
+ */
+
+import {
+  CONCENTRATION_UNIT_LABELS,
+  ConcentrationUnit,
+  ExposureStandard,
+  findExposureStandard,
+  respiratorProtectionFactor,
+} from './exposureStandards';
+
+// LEX,8h exposure standard in dB(A)
+export const NOISE_LEX_LIMIT_DBA = 85;
+
+// Peak sound pressure limit in dB(C)
+export const NOISE_PEAK_LIMIT_DBC = 140;
+
+// Reference period of LEX,8h
+const NOISE_REFERENCE_MINUTES = 8 * 60;
+
+// One measured or estimated noise level held for a stretch of the shift
+export interface NoiseSegment {
+  levelDbA: number;
+  durationMinutes: number;
+}
+
+export interface NoiseDose {
+  lexDbA: number; // LEX,8h, rounded to 0.1 dB(A)
+  dosePercent: number; // Share of the allowed daily dose, rounded to 1%
+  exceedsLex: boolean;
+  exceedsPeak: boolean;
+}
+
+/**
+ * Daily noise dose of a set of segments, normalised to an 8 hour day
+ * Returns null when there are no segments with a duration
+ */
+export function calculateNoiseDose(
+  segments: NoiseSegment[],
+  peakDbC: number | null = null
+): NoiseDose | null {
+  const timed = segments.filter(segment => segment.durationMinutes > 0);
+  if (timed.length === 0) {
+    return null;
+  }
+
+  const energy = timed.reduce(
+    (sum, segment) => sum + segment.durationMinutes * Math.pow(10, segment.levelDbA / 10),
+    0
+  );
+  const lex = 10 * Math.log10(energy / NOISE_REFERENCE_MINUTES);
+  const lexDbA = Math.round(lex * 10) / 10;
+
+  // 100% at 85 dB(A), doubling every 3 dB
+  const dosePercent = 100 * Math.pow(10, (lex - NOISE_LEX_LIMIT_DBA) / 10);
+
+  return {
+    lexDbA,
+    dosePercent: Math.round(dosePercent),
+    exceedsLex: lexDbA > NOISE_LEX_LIMIT_DBA,
+    exceedsPeak: peakDbC !== null && peakDbC > NOISE_PEAK_LIMIT_DBC,
+  };
+}
+
+// Hand-arm vibration exposure action and limit values, A(8) in m/s²
+export const HAV_ACTION_VALUE = 2.5;
+export const HAV_LIMIT_VALUE = 5;
+
+// Reference period of A(8)
+const HAV_REFERENCE_MINUTES = 8 * 60;
+
+// One tool used during the shift, magnitude from the tool catalogue or measured
+export interface VibrationToolUse {
+  tool: string;
+  magnitude: number; // m/s²
+  triggerMinutes: number; // Time the tool was actually running in the hand
+  source: 'catalogue' | 'measured';
+}
+
+export interface VibrationDose {
+  a8: number; // Daily A(8) in m/s², rounded to 0.01
+  points: number; // Exposure points, 100 at the action value and 400 at the limit value
+  partials: { tool: string; a8: number }[]; // Partial A(8) of each tool
+  exceedsAction: boolean;
+  exceedsLimit: boolean;
+}
+
+/**
+ * Daily vibration exposure of a set of tool uses, normalised to an 8 hour day
+ * Returns null when no tool was used for any time
+ */
+export function calculateVibrationDose(tools: VibrationToolUse[]): VibrationDose | null {
+  const used = tools.filter(tool => tool.triggerMinutes > 0);
+  if (used.length === 0) {
+    return null;
+  }
+
+  // a² · T / T0 per tool, the square of its partial A(8)
+  const energies = used.map(
+    tool => (tool.magnitude * tool.magnitude * tool.triggerMinutes) / HAV_REFERENCE_MINUTES
+  );
+  const totalEnergy = energies.reduce((sum, energy) => sum + energy, 0);
+  const a8 = Math.round(Math.sqrt(totalEnergy) * 100) / 100;
+
+  return {
+    a8,
+    points: Math.round((100 * totalEnergy) / (HAV_ACTION_VALUE * HAV_ACTION_VALUE)),
+    partials: used.map((tool, index) => ({
+      tool: tool.tool,
+      a8: Math.round(Math.sqrt(energies[index]) * 100) / 100,
+    })),
+    exceedsAction: a8 > HAV_ACTION_VALUE,
+    exceedsLimit: a8 > HAV_LIMIT_VALUE,
+  };
+}
+
+/**
+ * Band of a daily vibration dose for display and exports
+ */
+export function describeVibrationDose(dose: VibrationDose): string {
+  if (dose.exceedsLimit) {
+    return 'Above limit value';
+  }
+  return dose.exceedsAction ? 'Above action value' : 'Below action value';
+}
+
+/**
+ * One line per tool use, e.g. "Angle grinder 4 m/s² for 60 min"
+ */
+export function formatVibrationTools(tools: VibrationToolUse[]): string {
+  return tools
+    .map(tool => `${tool.tool} ${tool.magnitude} m/s² for ${tool.triggerMinutes} min`)
+    .join('; ');
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Vibration exposure of one Monday-to-Sunday week
+export interface VibrationWeek {
+  weekStart: number; // Monday 00:00 local time, as a Unix timestamp in milliseconds
+  points: number; // Sum of the daily exposure points
+  triggerMinutes: number;
+  maxDailyA8: number;
+  daysAboveAction: number;
+  daysAboveLimit: number;
+}
+
+/**
+ * Weekly vibration totals, newest week first
+ * Tool uses on the same local day are combined into one daily A(8) before summing
+ *
+ * @param timezoneOffsetMinutes - Minutes the worker's local time is ahead of UTC
+ */
+export function summarizeVibrationWeeks(
+  exposures: { timestamp: number; vibrationTools: VibrationToolUse[] }[],
+  timezoneOffsetMinutes: number
+): VibrationWeek[] {
+  const offsetMs = timezoneOffsetMinutes * 60 * 1000;
+
+  // Group tool uses by local day, keyed by the day's local midnight
+  const days = new Map<number, VibrationToolUse[]>();
+  for (const exposure of exposures) {
+    const day = Math.floor((exposure.timestamp + offsetMs) / DAY_MS) * DAY_MS;
+    days.set(day, [...(days.get(day) ?? []), ...exposure.vibrationTools]);
+  }
+
+  const weeks = new Map<number, VibrationWeek>();
+  for (const [day, tools] of days) {
+    const dose = calculateVibrationDose(tools);
+    if (!dose) {
+      continue;
+    }
+
+    const daysSinceMonday = (new Date(day).getUTCDay() + 6) % 7;
+    const weekStart = day - daysSinceMonday * DAY_MS - offsetMs;
+    const week = weeks.get(weekStart) ?? {
+      weekStart,
+      points: 0,
+      triggerMinutes: 0,
+      maxDailyA8: 0,
+      daysAboveAction: 0,
+      daysAboveLimit: 0,
+    };
+
+    week.points += dose.points;
+    week.triggerMinutes += tools.reduce((sum, tool) => sum + tool.triggerMinutes, 0);
+    week.maxDailyA8 = Math.max(week.maxDailyA8, dose.a8);
+    week.daysAboveAction += dose.exceedsAction ? 1 : 0;
+    week.daysAboveLimit += dose.exceedsLimit ? 1 : 0;
+    weeks.set(weekStart, week);
+  }
+
+  return [...weeks.values()].sort((a, b) => b.weekStart - a.weekStart);
+}
+
+/**
+ * Start of the local day holding a timestamp, as a Unix timestamp in milliseconds
+ *
+ * @param timezoneOffsetMinutes - Minutes the worker's local time is ahead of UTC
+ */
+export function localDayStart(timestamp: number, timezoneOffsetMinutes: number): number {
+  const offsetMs = timezoneOffsetMinutes * 60 * 1000;
+  return Math.floor((timestamp + offsetMs) / DAY_MS) * DAY_MS - offsetMs;
+}
+
+// Airborne concentration recorded on an exposure
+export interface Concentration {
+  value: number;
+  unit: ConcentrationUnit;
+  source: 'measured' | 'estimated';
+}
+
+// Share of the WES-TWA from which a day is flagged as approaching the limit
+export const WES_APPROACHING_FRACTION = 0.5;
+
+// Reference period of the WES-TWA
+const TWA_REFERENCE_MINUTES = 8 * 60;
+
+// 8-hour TWA of one substance across the exposures of one day
+export interface DailyTWA {
+  day: number; // Local midnight, as a Unix timestamp in milliseconds
+  standard: ExposureStandard;
+  twa: number; // Behind any respirator, in the standard's unit, 3 significant figures
+  percentOfWes: number;
+  status: 'below' | 'approaching' | 'exceeds';
+  exposureIds: string[];
+  skippedExposureIds: string[]; // Recorded in another unit than the standard's, left out of the TWA
+}
+
+// Fields of an exposure the daily TWA is calculated from
+interface TWAExposure {
+  id: string;
+  timestamp: number;
+  exposureType: string;
+  chemicalName: string | null;
+  duration: { hours: number; minutes: number };
+  ppe: string[];
+  concentration?: Concentration | null;
+}
+
+/**
+ * Standard of an exposure whose concentration is recorded in another unit than the standard's
+ * Null when the exposure has no concentration or standard, or the units match
+ */
+export function twaUnitMismatch(
+  exposure: Pick<TWAExposure, 'exposureType' | 'chemicalName' | 'concentration'>
+): ExposureStandard | null {
+  const standard = findExposureStandard(exposure.exposureType, exposure.chemicalName);
+  if (!standard || !exposure.concentration || exposure.concentration.unit === standard.unit) {
+    return null;
+  }
+  return standard;
+}
+
+/**
+ * 8-hour TWA per substance and local day, reduced by the protection factor of
+ * the respirator worn during each exposure
+ * Exposures without a concentration are left out, as are those in another unit than the
+ * standard's, which are listed in skippedExposureIds of their day's TWA
+ *
+ * @param timezoneOffsetMinutes - Minutes the worker's local time is ahead of UTC
+ */
+export function calculateDailyTWA(
+  exposures: TWAExposure[],
+  timezoneOffsetMinutes: number
+): DailyTWA[] {
+  const groups = new Map<string, DailyTWA & { dose: number }>();
+  const skipped: { key: string; id: string }[] = [];
+
+  for (const exposure of exposures) {
+    const standard = findExposureStandard(exposure.exposureType, exposure.chemicalName);
+    if (!standard || !exposure.concentration) {
+      continue;
+    }
+
+    const day = localDayStart(exposure.timestamp, timezoneOffsetMinutes);
+    const key = `${day}:${standard.id}`;
+    if (exposure.concentration.unit !== standard.unit) {
+      skipped.push({ key, id: exposure.id });
+      continue;
+    }
+
+    const group = groups.get(key) ?? {
+      day,
+      standard,
+      twa: 0,
+      percentOfWes: 0,
+      status: 'below' as const,
+      exposureIds: [],
+      skippedExposureIds: [],
+      dose: 0,
+    };
+
+    const minutes = exposure.duration.hours * 60 + exposure.duration.minutes;
+    group.dose +=
+      (exposure.concentration.value * minutes) / respiratorProtectionFactor(exposure.ppe);
+    group.exposureIds.push(exposure.id);
+    groups.set(key, group);
+  }
+
+  for (const { key, id } of skipped) {
+    groups.get(key)?.skippedExposureIds.push(id);
+  }
+
+  return [...groups.values()].map(({ dose, ...group }) => {
+    const twa = dose / TWA_REFERENCE_MINUTES;
+    const fraction = twa / group.standard.twa;
+    return {
+      ...group,
+      twa: Number(twa.toPrecision(3)),
+      percentOfWes: Math.round(fraction * 100),
+      status:
+        fraction > 1 ? 'exceeds' : fraction >= WES_APPROACHING_FRACTION ? 'approaching' : 'below',
+    };
+  });
+}
+
+/**
+ * Band of a daily TWA for display and exports
+ */
+export function describeTWA(result: DailyTWA): string {
+  if (result.status === 'exceeds') {
+    return 'Exceeds WES';
+  }
+  return result.status === 'approaching' ? 'Approaching WES' : 'Below WES';
+}
+
+/**
+ * Concentration with its unit and source, e.g. "0.05 mg/m³ (measured)"
+ */
+export function formatConcentration(concentration: Concentration): string {
+  return `${concentration.value} ${CONCENTRATION_UNIT_LABELS[concentration.unit]} (${concentration.source})`;
+}
+
+/**
+ * Daily TWA of each exposure by exposure ID
+ */
+export function dailyTWAByExposure(results: DailyTWA[]): Map<string, DailyTWA> {
+  return new Map(results.flatMap(result => result.exposureIds.map(id => [id, result] as const)));
+}
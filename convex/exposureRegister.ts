@@ -0,0 +1,226 @@
+/**
+ * Cumulative Exposure Register
+ * Lifetime totals per hazard agent, shared by the Convex functions and the app
+ *
+ * Occupational disease claims (silicosis, mesothelioma, noise-induced hearing loss)
+ * turn on years of cumulative exposure, so every record of the user's history counts.
+ */
+
+import type { PPEId } from './taxonomy';
+
+const RESPIRATORS: PPEId[] = [
+  'respirator',
+  'p2_respirator',
+  'p3_respirator',
+  'half_face_respirator',
+  'full_face_respirator',
+  'powered_respirator',
+  'welding_respirator',
+];
+
+// PPE that protects against each agent, any one of them counts as adequate
+// Agents without an entry have no PPE requirement the app can check
+export const ADEQUATE_PPE: Record<string, PPEId[]> = {
+  silica_dust: RESPIRATORS,
+  asbestos_class_a: ['p3_respirator', 'full_face_respirator', 'powered_respirator'],
+  asbestos_class_b: RESPIRATORS,
+  hazardous_chemicals: RESPIRATORS,
+  noise: ['hearing_protection'],
+  meth_contamination: RESPIRATORS,
+  mould: RESPIRATORS,
+  contaminated_soils: RESPIRATORS,
+  welding_fumes: RESPIRATORS,
+  biological_hazards: ['gloves'],
+  vibration: ['anti_vibration_gloves'],
+  lead: RESPIRATORS,
+  cold_exposure: ['thermal_clothing'],
+  confined_space: ['gas_detector'],
+};
+
+/**
+ * Whether the PPE worn protects against an exposure type, null when unknown
+ */
+export function hasAdequatePPE(exposureType: string, ppe: string[]): boolean | null {
+  const adequate = ADEQUATE_PPE[exposureType];
+  if (!adequate) {
+    return null;
+  }
+  return ppe.some(id => (adequate as string[]).includes(id));
+}
+
+// Lifetime totals of one agent
+export interface RegisterEntry {
+  exposureType: string;
+  substance: string | null; // Chemical name, for agents recorded by substance
+  exposureCount: number;
+  totalHours: number; // Rounded to 0.1
+  hoursWithoutAdequatePPE: number | null; // Null when the agent has no PPE requirement
+  firstExposure: number; // Unix timestamp in milliseconds
+  lastExposure: number;
+  siteCount: number;
+}
+
+// Register of one user, as returned by exposures.getRegister
+export interface ExposureRegister {
+  entries: RegisterEntry[];
+  employers: string[]; // From the user's profile
+  exposureCount: number;
+}
+
+/**
+ * Key of the site an exposure happened at, by name, address or ~100 m grid cell
+ */
+export function siteKey(location: {
+  latitude: number;
+  longitude: number;
+  address: string | null;
+  siteName: string | null;
+}): string {
+  return (
+    location.siteName?.trim().toLowerCase() ||
+    location.address?.trim().toLowerCase() ||
+    `${location.latitude.toFixed(3)},${location.longitude.toFixed(3)}`
+  );
+}
+
+/**
+ * Lifetime totals per agent, most hours first
+ * Chemical exposures are split by chemical name, other types are one agent each
+ */
+export function buildExposureRegister(
+  exposures: {
+    exposureType: string;
+    chemicalName: string | null;
+    timestamp: number;
+    duration: { hours: number; minutes: number };
+    ppe: string[];
+    location: {
+      latitude: number;
+      longitude: number;
+      address: string | null;
+      siteName: string | null;
+    };
+  }[]
+): RegisterEntry[] {
+  const groups = new Map<
+    string,
+    { entry: RegisterEntry; minutes: number; unprotected: number; sites: Set<string> }
+  >();
+
+  for (const exposure of exposures) {
+    const substance = exposure.chemicalName?.trim() || null;
+    const key = `${exposure.exposureType}:${substance?.toLowerCase() ?? ''}`;
+    const group = groups.get(key) ?? {
+      entry: {
+        exposureType: exposure.exposureType,
+        substance,
+        exposureCount: 0,
+        totalHours: 0,
+        hoursWithoutAdequatePPE: null,
+        firstExposure: exposure.timestamp,
+        lastExposure: exposure.timestamp,
+        siteCount: 0,
+      },
+      minutes: 0,
+      unprotected: 0,
+      sites: new Set<string>(),
+    };
+
+    const minutes = exposure.duration.hours * 60 + exposure.duration.minutes;
+    group.entry.exposureCount += 1;
+    group.entry.firstExposure = Math.min(group.entry.firstExposure, exposure.timestamp);
+    group.entry.lastExposure = Math.max(group.entry.lastExposure, exposure.timestamp);
+    group.minutes += minutes;
+    group.unprotected +=
+      hasAdequatePPE(exposure.exposureType, exposure.ppe) === false ? minutes : 0;
+    group.sites.add(siteKey(exposure.location));
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .map(({ entry, minutes, unprotected, sites }) => ({
+      ...entry,
+      totalHours: Math.round(minutes / 6) / 10,
+      hoursWithoutAdequatePPE:
+        entry.exposureType in ADEQUATE_PPE ? Math.round(unprotected / 6) / 10 : null,
+      siteCount: sites.size,
+    }))
+    .sort((a, b) => b.totalHours - a.totalHours);
+}
+
+// Totals of one site, for employer summaries and the site map
+export interface SiteSummaryEntry {
+  site: string; // Site name, address or coordinates
+  latitude: number; // Of the first exposure recorded at the site
+  longitude: number;
+  exposureTypes: string[];
+  exposureCount: number;
+  totalHours: number;
+  hoursWithoutAdequatePPE: number;
+  firstExposure: number;
+  lastExposure: number;
+}
+
+/**
+ * Totals per site, most hours first
+ */
+export function buildSiteSummary(
+  exposures: {
+    exposureType: string;
+    timestamp: number;
+    duration: { hours: number; minutes: number };
+    ppe: string[];
+    location: {
+      latitude: number;
+      longitude: number;
+      address: string | null;
+      siteName: string | null;
+    };
+  }[]
+): SiteSummaryEntry[] {
+  const groups = new Map<
+    string,
+    { entry: SiteSummaryEntry; minutes: number; unprotected: number; types: Set<string> }
+  >();
+
+  for (const exposure of [...exposures].sort((a, b) => a.timestamp - b.timestamp)) {
+    const key = siteKey(exposure.location);
+    const group = groups.get(key) ?? {
+      entry: {
+        site:
+          exposure.location.siteName?.trim() ||
+          exposure.location.address?.trim() ||
+          `${exposure.location.latitude.toFixed(4)}, ${exposure.location.longitude.toFixed(4)}`,
+        latitude: exposure.location.latitude,
+        longitude: exposure.location.longitude,
+        exposureTypes: [],
+        exposureCount: 0,
+        totalHours: 0,
+        hoursWithoutAdequatePPE: 0,
+        firstExposure: exposure.timestamp,
+        lastExposure: exposure.timestamp,
+      },
+      minutes: 0,
+      unprotected: 0,
+      types: new Set<string>(),
+    };
+
+    const minutes = exposure.duration.hours * 60 + exposure.duration.minutes;
+    group.entry.exposureCount += 1;
+    group.entry.lastExposure = exposure.timestamp;
+    group.minutes += minutes;
+    group.unprotected +=
+      hasAdequatePPE(exposure.exposureType, exposure.ppe) === false ? minutes : 0;
+    group.types.add(exposure.exposureType);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .map(({ entry, minutes, unprotected, types }) => ({
+      ...entry,
+      exposureTypes: [...types],
+      totalHours: Math.round(minutes / 6) / 10,
+      hoursWithoutAdequatePPE: Math.round(unprotected / 6) / 10,
+    }))
+    .sort((a, b) => b.totalHours - a.totalHours);
+}
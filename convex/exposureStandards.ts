@@ -0,0 +1,128 @@
+/**
+ * Workplace Exposure Standards
+ * 8-hour time-weighted average limits (WES-TWA) for airborne substances and the
+ * protection factors of respirators, shared by the Convex functions and the app
+ *
+ * Values follow the WorkSafe NZ Workplace Exposure Standards and AS/NZS 1715.
+ * Check them against each new WES edition before release.
+ */
+
+import type { PPEId } from './taxonomy';
+
+export type ConcentrationUnit = 'mg/m3' | 'ppm';
+
+// Display form of the stored units
+export const CONCENTRATION_UNIT_LABELS: Record<ConcentrationUnit, string> = {
+  'mg/m3': 'mg/m³',
+  ppm: 'ppm',
+};
+
+export interface ExposureStandard {
+  id: string;
+  substance: string;
+  twa: number; // WES-TWA in the standard's unit
+  unit: ConcentrationUnit;
+  aliases: string[]; // Lowercase names a worker might record as the chemical name
+}
+
+export const EXPOSURE_STANDARDS: ExposureStandard[] = [
+  {
+    id: 'respirable_crystalline_silica',
+    substance: 'Respirable crystalline silica',
+    twa: 0.025,
+    unit: 'mg/m3',
+    aliases: ['silica', 'crystalline silica', 'quartz', 'silica dust'],
+  },
+  {
+    id: 'welding_fumes',
+    substance: 'Welding fumes',
+    twa: 1,
+    unit: 'mg/m3',
+    aliases: ['welding fume', 'welding fumes'],
+  },
+  {
+    id: 'lead',
+    substance: 'Lead, inorganic dusts and fumes',
+    twa: 0.05,
+    unit: 'mg/m3',
+    aliases: ['lead', 'lead dust', 'lead fume'],
+  },
+  {
+    id: 'isocyanates',
+    substance: 'Isocyanates (as NCO)',
+    twa: 0.02,
+    unit: 'mg/m3',
+    aliases: ['isocyanate', 'isocyanates', 'mdi', 'tdi', 'hdi'],
+  },
+  { id: 'acetone', substance: 'Acetone', twa: 500, unit: 'ppm', aliases: ['acetone'] },
+  {
+    id: 'dichloromethane',
+    substance: 'Dichloromethane',
+    twa: 50,
+    unit: 'ppm',
+    aliases: ['dichloromethane', 'methylene chloride', 'paint stripper'],
+  },
+  { id: 'ethanol', substance: 'Ethanol', twa: 1000, unit: 'ppm', aliases: ['ethanol'] },
+  { id: 'methanol', substance: 'Methanol', twa: 200, unit: 'ppm', aliases: ['methanol'] },
+  { id: 'n_hexane', substance: 'n-Hexane', twa: 20, unit: 'ppm', aliases: ['hexane', 'n-hexane'] },
+  { id: 'toluene', substance: 'Toluene', twa: 50, unit: 'ppm', aliases: ['toluene', 'toluol'] },
+  { id: 'xylene', substance: 'Xylene', twa: 50, unit: 'ppm', aliases: ['xylene', 'xylol'] },
+];
+
+// Exposure types whose substance is fixed, rather than taken from the chemical name
+const STANDARD_BY_EXPOSURE_TYPE: Record<string, string> = {
+  silica_dust: 'respirable_crystalline_silica',
+  welding_fumes: 'welding_fumes',
+};
+
+// Exposure types that can record an airborne concentration
+export const CONCENTRATION_EXPOSURE_TYPES = [
+  'silica_dust',
+  'welding_fumes',
+  'hazardous_chemicals',
+  'contaminated_soils',
+];
+
+/**
+ * Standard for an exposure, from its type or the recorded chemical name
+ * Returns null when no standard applies
+ */
+export function findExposureStandard(
+  exposureType: string,
+  chemicalName: string | null | undefined
+): ExposureStandard | null {
+  const fixedId = STANDARD_BY_EXPOSURE_TYPE[exposureType];
+  if (fixedId) {
+    return EXPOSURE_STANDARDS.find(standard => standard.id === fixedId) ?? null;
+  }
+
+  const name = chemicalName?.trim().toLowerCase();
+  if (!name || !CONCENTRATION_EXPOSURE_TYPES.includes(exposureType)) {
+    return null;
+  }
+  return EXPOSURE_STANDARDS.find(standard => standard.aliases.includes(name)) ?? null;
+}
+
+// Required minimum protection factors of respirators (AS/NZS 1715)
+const RESPIRATOR_PROTECTION_FACTORS: Partial<Record<PPEId, number>> = {
+  respirator: 10,
+  p2_respirator: 10,
+  p3_respirator: 10,
+  half_face_respirator: 10,
+  welding_respirator: 10,
+  full_face_respirator: 50,
+  powered_respirator: 50,
+};
+
+// A full-face respirator only reaches 100 with P3 filters
+const FULL_FACE_P3_PROTECTION_FACTOR = 100;
+
+/**
+ * Protection factor of the respirators recorded as worn, 1 without a respirator
+ */
+export function respiratorProtectionFactor(ppe: string[]): number {
+  if (ppe.includes('full_face_respirator') && ppe.includes('p3_respirator')) {
+    return FULL_FACE_P3_PROTECTION_FACTOR;
+  }
+  return Math.max(1, ...ppe.map(id => RESPIRATOR_PROTECTION_FACTORS[id as PPEId] ?? 1));
+}
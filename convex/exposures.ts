@@ -3,39 +3,470 @@
  * Handles CRUD operations for workplace exposure documentation
  */
 
-import { v } from 'convex/values';
-import { mutation, query } from './_generated/server';
+import { v, Infer } from 'convex/values';
+import {
+  paginationOptsValidator,
+  ExpressionOrValue,
+  FilterBuilder,
+  NamedTableInfo,
+} from 'convex/server';
+import { mutation, query, internalMutation, MutationCtx, QueryCtx } from './_generated/server';
+import { internal } from './_generated/api';
+import { DataModel, Doc, Id } from './_generated/dataModel';
+import { appendToChain } from './hashChain';
+import { calculateDailyTWA, DailyTWA, localDayStart } from './exposureDose';
+import { buildExposureRegister, ExposureRegister } from './exposureRegister';
+import { isExposureTypeId, isPPEId, normalizeExposureType, normalizePPE } from './taxonomy';
+
+const vibrationToolValidator = v.object({
+  tool: v.string(),
+  magnitude: v.number(),
+  triggerMinutes: v.number(),
+  source: v.union(v.literal('catalogue'), v.literal('measured')),
+});
+
+const noiseSegmentValidator = v.object({
+  levelDbA: v.number(),
+  durationMinutes: v.number(),
+});
+
+const concentrationValidator = v.object({
+  value: v.number(),
+  unit: v.union(v.literal('mg/m3'), v.literal('ppm')),
+  source: v.union(v.literal('measured'), v.literal('estimated')),
+});
+
+/**
+ * Fields accepted when creating or syncing an exposure from a client draft
+ */
+const exposureDraftFields = {
+  clientId: v.string(),
+  exposureType: v.string(),
+  timestamp: v.number(),
+  duration: v.object({
+    hours: v.number(),
+    minutes: v.number(),
+  }),
+  location: v.object({
+    latitude: v.number(),
+    longitude: v.number(),
+    accuracy: v.union(v.number(), v.null()),
+    address: v.union(v.string(), v.null()),
+    siteName: v.union(v.string(), v.null()),
+  }),
+  severity: v.string(),
+  ppe: v.array(v.string()),
+  workActivity: v.string(),
+  notes: v.union(v.string(), v.null()),
+  chemicalName: v.union(v.string(), v.null()),
+  sdsReference: v.union(v.string(), v.null()),
+  controlMeasures: v.union(v.string(), v.null()),
+  // Optional so drafts from clients without the type-specific fields still validate
+  vibrationTools: v.optional(v.union(v.array(vibrationToolValidator), v.null())),
+  bloodLeadTestReference: v.optional(v.union(v.string(), v.null())),
+  noiseSegments: v.optional(v.union(v.array(noiseSegmentValidator), v.null())),
+  noisePeakDbC: v.optional(v.union(v.number(), v.null())),
+  concentration: v.optional(v.union(concentrationValidator, v.null())),
+  photoIds: v.array(v.id('photos')),
+  voiceTranscription: v.union(v.string(), v.null()),
+};
+
+const exposureDraftValidator = v.object(exposureDraftFields);
+type ExposureDraftArgs = Infer<typeof exposureDraftValidator>;
+
+interface ExposureFieldError {
+  field: string;
+  message: string;
+}
+
+// Highest hand-arm vibration magnitude accepted, well above any real tool (m/s²)
+const MAX_VIBRATION_MAGNITUDE = 100;
+
+// Range of plausible noise readings, in dB(A) for segments and dB(C) for peaks
+const MIN_NOISE_LEVEL = 40;
+const MAX_NOISE_LEVEL = 140;
+const MAX_NOISE_PEAK = 200;
+
+// Largest batch accepted by syncBatch, keeps each call inside mutation limits
+const MAX_SYNC_BATCH_SIZE = 50;
+
+// Largest page returned by list and search
+const MAX_PAGE_SIZE = 100;
+
+// Records rewritten per backfillSearchText or migrateTaxonomy run
+const BACKFILL_BATCH_SIZE = 100;
+
+/**
+ * Filters accepted by search, mirrors ExposureFilters in src/types/exposure.ts
+ */
+const exposureFiltersValidator = v.object({
+  exposureType: v.optional(v.array(v.string())),
+  severity: v.optional(v.array(v.string())),
+  dateFrom: v.optional(v.number()),
+  dateTo: v.optional(v.number()),
+  syncStatus: v.optional(v.array(v.string())),
+  searchQuery: v.optional(v.string()),
+});
+
+type SyncBatchResult =
+  | { clientId: string; status: 'created'; id: Id<'exposures'> }
+  | { clientId: string; status: 'duplicate'; id: Id<'exposures'>; updated: boolean }
+  | { clientId: string; status: 'invalid'; field: string; message: string }
+  | {
+      clientId: string;
+      status: 'conflict';
+      id: Id<'exposures'>;
+      server: EditableFields;
+      serverUpdatedAt: number;
+    };
+
+// Fields a user can edit, returned to the client for three-way merging
+type EditableFields = Omit<ExposureDraftArgs, 'clientId' | 'photoIds'> & {
+  severity: 'low' | 'medium' | 'high';
+};
+
+/**
+ * Validate exposure fields shared by create and sync mutations
+ * Returns the first failing field, or null when the draft is valid
+ */
+function validateExposureFields(args: ExposureDraftArgs): ExposureFieldError | null {
+  // Validate exposure type and PPE against the shared taxonomy
+  if (!isExposureTypeId(args.exposureType)) {
+    return { field: 'exposureType', message: `Invalid exposure type: ${args.exposureType}` };
+  }
+  const invalidPPE = args.ppe.find(id => !isPPEId(id));
+  if (invalidPPE !== undefined) {
+    return { field: 'ppe', message: `Invalid PPE: ${invalidPPE}` };
+  }
+
+  // Validate duration
+  if (args.duration.hours < 0 || args.duration.hours > 24) {
+    return { field: 'duration', message: 'Hours must be between 0 and 24' };
+  }
+  if (args.duration.minutes < 0 || args.duration.minutes > 59) {
+    return { field: 'duration', message: 'Minutes must be between 0 and 59' };
+  }
+  if (args.duration.hours === 0 && args.duration.minutes === 0) {
+    return { field: 'duration', message: 'Duration must be greater than 0' };
+  }
+
+  // Validate GPS coordinates
+  if (args.location.latitude < -90 || args.location.latitude > 90) {
+    return { field: 'location', message: 'Invalid latitude' };
+  }
+  if (args.location.longitude < -180 || args.location.longitude > 180) {
+    return { field: 'location', message: 'Invalid longitude' };
+  }
+
+  // Validate severity
+  if (!['low', 'medium', 'high'].includes(args.severity)) {
+    return { field: 'severity', message: 'Severity must be low, medium, or high' };
+  }
+
+  // Validate chemical name for certain exposure types
+  if (
+    ['hazardous_chemicals', 'contaminated_soils'].includes(args.exposureType) &&
+    !args.chemicalName
+  ) {
+    return { field: 'chemicalName', message: 'Chemical name is required for this exposure type' };
+  }
+
+  // Validate vibration fields
+  if (args.exposureType === 'vibration' && (args.vibrationTools ?? []).length === 0) {
+    return {
+      field: 'vibrationTools',
+      message: 'At least one tool is required for vibration exposures',
+    };
+  }
+  for (const tool of args.vibrationTools ?? []) {
+    if (!tool.tool.trim()) {
+      return { field: 'vibrationTools', message: 'Tool name is required' };
+    }
+    if (tool.magnitude <= 0 || tool.magnitude > MAX_VIBRATION_MAGNITUDE) {
+      return {
+        field: 'vibrationTools',
+        message: `Vibration magnitude must be between 0 and ${MAX_VIBRATION_MAGNITUDE} m/s²`,
+      };
+    }
+    if (tool.triggerMinutes <= 0 || tool.triggerMinutes > 24 * 60) {
+      return {
+        field: 'vibrationTools',
+        message: 'Trigger time must be between 1 minute and 24 hours',
+      };
+    }
+  }
+
+  // Validate noise segments and peak
+  for (const segment of args.noiseSegments ?? []) {
+    if (segment.levelDbA < MIN_NOISE_LEVEL || segment.levelDbA > MAX_NOISE_LEVEL) {
+      return {
+        field: 'noiseSegments',
+        message: `Noise level must be between ${MIN_NOISE_LEVEL} and ${MAX_NOISE_LEVEL} dB(A)`,
+      };
+    }
+    if (segment.durationMinutes <= 0) {
+      return { field: 'noiseSegments', message: 'Noise segment duration must be greater than 0' };
+    }
+  }
+  const noiseMinutes = (args.noiseSegments ?? []).reduce(
+    (sum, segment) => sum + segment.durationMinutes,
+    0
+  );
+  if (noiseMinutes > 24 * 60) {
+    return {
+      field: 'noiseSegments',
+      message: 'Noise segments cannot add up to more than 24 hours',
+    };
+  }
+  if (
+    typeof args.noisePeakDbC === 'number' &&
+    (args.noisePeakDbC <= 0 || args.noisePeakDbC > MAX_NOISE_PEAK)
+  ) {
+    return {
+      field: 'noisePeakDbC',
+      message: `Peak noise level must be between 0 and ${MAX_NOISE_PEAK} dB(C)`,
+    };
+  }
+
+  // Validate airborne concentration
+  if (args.concentration && args.concentration.value <= 0) {
+    return { field: 'concentration', message: 'Concentration must be greater than 0' };
+  }
+
+  return null;
+}
+
+/**
+ * Rewrite exposureType and ppe to canonical taxonomy ids
+ * Values that do not map are kept so validation can report them
+ */
+function withCanonicalTaxonomy<T extends { exposureType: string; ppe: string[] }>(fields: T): T {
+  return {
+    ...fields,
+    exposureType: normalizeExposureType(fields.exposureType) ?? fields.exposureType,
+    ppe: toCanonicalPPE(fields.ppe),
+  };
+}
+
+function toCanonicalPPE(ppe: string[]): string[] {
+  return [...new Set(ppe.map(id => normalizePPE(id) ?? id))];
+}
+
+/**
+ * Find a user's exposure by its offline clientId
+ */
+async function findByClientId(ctx: QueryCtx, userId: Id<'users'>, clientId: string) {
+  return await ctx.db
+    .query('exposures')
+    .withIndex('by_userId_clientId', q => q.eq('userId', userId).eq('clientId', clientId))
+    .first();
+}
+
+/**
+ * Pick the user-editable fields from a stored exposure
+ */
+function toEditableFields(exposure: Doc<'exposures'>): EditableFields {
+  return {
+    exposureType: exposure.exposureType,
+    timestamp: exposure.timestamp,
+    duration: exposure.duration,
+    location: exposure.location,
+    severity: exposure.severity as EditableFields['severity'],
+    ppe: exposure.ppe,
+    workActivity: exposure.workActivity,
+    notes: exposure.notes,
+    chemicalName: exposure.chemicalName,
+    sdsReference: exposure.sdsReference,
+    controlMeasures: exposure.controlMeasures,
+    vibrationTools: exposure.vibrationTools ?? null,
+    bloodLeadTestReference: exposure.bloodLeadTestReference ?? null,
+    noiseSegments: exposure.noiseSegments ?? null,
+    noisePeakDbC: exposure.noisePeakDbC ?? null,
+    concentration: exposure.concentration ?? null,
+    voiceTranscription: exposure.voiceTranscription,
+  };
+}
+
+/**
+ * Structural equality for stored field values (primitives, arrays, plain objects)
+ */
+function isSameFieldValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) {
+    return false;
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  return [...keys].every(key => isSameFieldValue(aRecord[key], bRecord[key]));
+}
+
+/**
+ * Write an immutable revision row holding the fields that differ between two versions
+ * Nothing is written when the versions are equal
+ */
+async function recordRevision(
+  ctx: MutationCtx,
+  exposureId: Id<'exposures'>,
+  editorId: Id<'users'> | null,
+  source: 'edit' | 'sync' | 'delete' | 'migration',
+  previous: Record<string, unknown>,
+  next: Record<string, unknown>,
+  editedAt: number
+): Promise<void> {
+  const changedFields = Object.keys(next).filter(
+    field => !isSameFieldValue(previous[field], next[field])
+  );
+  if (changedFields.length === 0) {
+    return;
+  }
+
+  await ctx.db.insert('exposureRevisions', {
+    exposureId,
+    editorId,
+    source,
+    changedFields,
+    previousValues: Object.fromEntries(changedFields.map(field => [field, previous[field]])),
+    newValues: Object.fromEntries(changedFields.map(field => [field, next[field]])),
+    editedAt,
+  });
+}
+
+/**
+ * Text indexed by the search_text search index
+ */
+function buildSearchText(
+  fields: Pick<
+    Doc<'exposures'>,
+    'workActivity' | 'notes' | 'chemicalName' | 'vibrationTools' | 'location'
+  >
+): string {
+  return [
+    fields.workActivity,
+    fields.notes,
+    fields.chemicalName,
+    ...(fields.vibrationTools ?? []).map(tool => tool.tool),
+    fields.location.siteName,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Per-record filter conditions for search
+ * Dates are only checked here when the search index, not the timestamp index, drives the query
+ */
+function matchesFilters(
+  q: FilterBuilder<NamedTableInfo<DataModel, 'exposures'>>,
+  filters: Infer<typeof exposureFiltersValidator>,
+  includeDateRange: boolean
+): ExpressionOrValue<boolean> {
+  const conditions: ExpressionOrValue<boolean>[] = [];
+
+  const anyOf = (field: 'exposureType' | 'severity' | 'syncStatus', values?: string[]) => {
+    if (values && values.length > 0) {
+      conditions.push(q.or(...values.map(value => q.eq(q.field(field), value))));
+    }
+  };
+  anyOf('exposureType', filters.exposureType);
+  anyOf('severity', filters.severity);
+  anyOf('syncStatus', filters.syncStatus);
+
+  if (includeDateRange && filters.dateFrom !== undefined) {
+    conditions.push(q.gte(q.field('timestamp'), filters.dateFrom));
+  }
+  if (includeDateRange && filters.dateTo !== undefined) {
+    conditions.push(q.lte(q.field('timestamp'), filters.dateTo));
+  }
+
+  return conditions.length > 0 ? q.and(...conditions) : true;
+}
+
+/**
+ * Find a server edit made since the version an offline edit started from
+ * A replay of the same edit (equal updatedAt) is not a conflict
+ */
+async function findEditConflict(
+  ctx: QueryCtx,
+  userId: Id<'users'>,
+  clientId: string,
+  updatedAt: number,
+  baseUpdatedAt: number
+): Promise<Doc<'exposures'> | null> {
+  const existing = await findByClientId(ctx, userId, clientId);
+  if (
+    !existing ||
+    existing.isDeleted ||
+    existing.updatedAt === updatedAt ||
+    existing.updatedAt <= baseUpdatedAt
+  ) {
+    return null;
+  }
+  return existing;
+}
+
+/**
+ * Insert a draft, or apply last-writer-wins on updatedAt if its clientId exists
+ * A stale or replayed write never overwrites newer server state
+ */
+async function upsertDraft(
+  ctx: MutationCtx,
+  userId: Id<'users'>,
+  draft: ExposureDraftArgs,
+  updatedAt: number
+): Promise<{ id: Id<'exposures'>; status: 'inserted' | 'updated' | 'ignored' }> {
+  const existing = await findByClientId(ctx, userId, draft.clientId);
+
+  if (!existing) {
+    const id = await ctx.db.insert('exposures', {
+      userId,
+      ...draft,
+      searchText: buildSearchText(draft),
+      syncStatus: 'synced',
+      isDeleted: false,
+      deletedAt: null,
+      updatedAt,
+    });
+    await appendToChain(ctx, id);
+    return { id, status: 'inserted' };
+  }
+
+  if (existing.isDeleted || updatedAt <= existing.updatedAt) {
+    return { id: existing._id, status: 'ignored' };
+  }
+
+  await ctx.db.patch(existing._id, {
+    ...draft,
+    photoIds: existing.photoIds, // Photos are attached server-side by confirmUpload
+    searchText: buildSearchText(draft),
+    syncStatus: 'synced',
+    updatedAt,
+  });
+  await recordRevision(
+    ctx,
+    existing._id,
+    userId,
+    'sync',
+    toEditableFields(existing),
+    toEditableFields({ ...existing, ...draft }),
+    updatedAt
+  );
+  await appendToChain(ctx, existing._id);
+  return { id: existing._id, status: 'updated' };
+}
 
 /**
  * T032: Create new exposure record
  * Validates all fields and creates exposure with pending sync status
  */
 export const create = mutation({
-  args: {
-    clientId: v.string(),
-    exposureType: v.string(),
-    timestamp: v.number(),
-    duration: v.object({
-      hours: v.number(),
-      minutes: v.number(),
-    }),
-    location: v.object({
-      latitude: v.number(),
-      longitude: v.number(),
-      accuracy: v.union(v.number(), v.null()),
-      address: v.union(v.string(), v.null()),
-      siteName: v.union(v.string(), v.null()),
-    }),
-    severity: v.string(),
-    ppe: v.array(v.string()),
-    workActivity: v.string(),
-    notes: v.union(v.string(), v.null()),
-    chemicalName: v.union(v.string(), v.null()),
-    sdsReference: v.union(v.string(), v.null()),
-    controlMeasures: v.union(v.string(), v.null()),
-    photoIds: v.array(v.id('photos')),
-    voiceTranscription: v.union(v.string(), v.null()),
-  },
+  args: exposureDraftFields,
   handler: async (ctx, args) => {
     // Get authenticated user
     const identity = await ctx.auth.getUserIdentity();
@@ -53,92 +484,163 @@ export const create = mutation({
       throw new Error('User not found');
     }
 
-    // Validate exposure type
-    const validTypes = [
-      'silica_dust',
-      'asbestos_a',
-      'asbestos_b',
-      'hazardous_chemicals',
-      'noise',
-      'meth_contamination',
-      'mould',
-      'contaminated_soils',
-      'heat_stress',
-      'welding_fumes',
-      'biological_hazards',
-      'radiation',
-    ];
-    if (!validTypes.includes(args.exposureType)) {
-      throw new Error(`Invalid exposure type: ${args.exposureType}`);
+    // Idempotency: offline clients retry with the same clientId, return the existing record
+    const existing = await findByClientId(ctx, user._id, args.clientId);
+    if (existing) {
+      return existing._id;
     }
 
-    // Validate duration
-    if (args.duration.hours < 0 || args.duration.hours > 24) {
-      throw new Error('Hours must be between 0 and 24');
-    }
-    if (args.duration.minutes < 0 || args.duration.minutes > 59) {
-      throw new Error('Minutes must be between 0 and 59');
-    }
-    if (args.duration.hours === 0 && args.duration.minutes === 0) {
-      throw new Error('Duration must be greater than 0');
-    }
-
-    // Validate GPS coordinates
-    if (args.location.latitude < -90 || args.location.latitude > 90) {
-      throw new Error('Invalid latitude');
-    }
-    if (args.location.longitude < -180 || args.location.longitude > 180) {
-      throw new Error('Invalid longitude');
-    }
-
-    // Validate severity
-    if (!['low', 'medium', 'high'].includes(args.severity)) {
-      throw new Error('Severity must be low, medium, or high');
-    }
-
-    // Validate chemical name for certain exposure types
-    if (
-      ['hazardous_chemicals', 'contaminated_soils'].includes(args.exposureType) &&
-      !args.chemicalName
-    ) {
-      throw new Error('Chemical name is required for this exposure type');
+    const draft = withCanonicalTaxonomy(args);
+    const validationError = validateExposureFields(draft);
+    if (validationError) {
+      throw new Error(validationError.message);
     }
 
     // Create exposure record
     const exposureId = await ctx.db.insert('exposures', {
       userId: user._id,
-      clientId: args.clientId,
-      timestamp: args.timestamp,
-      exposureType: args.exposureType,
-      duration: args.duration,
-      location: args.location,
-      severity: args.severity,
-      ppe: args.ppe,
-      workActivity: args.workActivity,
-      notes: args.notes,
-      chemicalName: args.chemicalName,
-      sdsReference: args.sdsReference,
-      controlMeasures: args.controlMeasures,
-      photoIds: args.photoIds,
+      ...draft,
+      searchText: buildSearchText(draft),
       syncStatus: 'synced',
-      voiceTranscription: args.voiceTranscription,
       isDeleted: false,
       deletedAt: null,
       updatedAt: Date.now(),
     });
+    await appendToChain(ctx, exposureId);
 
     return exposureId;
   },
 });
 
+/**
+ * Idempotent upsert keyed on (userId, clientId) for offline sync
+ * Inserts new records, applies last-writer-wins on updatedAt for existing ones
+ * and reports which of the three happened so the client queue can reconcile
+ */
+export const syncUpsert = mutation({
+  args: {
+    draft: exposureDraftValidator,
+    updatedAt: v.number(),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ id: Id<'exposures'>; status: 'inserted' | 'updated' | 'ignored' }> => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const draft = withCanonicalTaxonomy(args.draft);
+    const validationError = validateExposureFields(draft);
+    if (validationError) {
+      throw new Error(validationError.message);
+    }
+
+    return await upsertDraft(ctx, user._id, draft, args.updatedAt);
+  },
+});
+
+/**
+ * Batch sync for draining the offline queue in one round trip
+ * Each draft is validated with the same rules as create; invalid drafts are
+ * reported per item instead of throwing so the rest of the batch still commits.
+ * Edits carrying baseUpdatedAt are returned as conflicts when the server copy
+ * changed since that version, so the client can run a three-way merge
+ */
+export const syncBatch = mutation({
+  args: {
+    items: v.array(
+      v.object({
+        draft: exposureDraftValidator,
+        updatedAt: v.number(),
+        baseUpdatedAt: v.optional(v.number()), // Server version an edit started from
+      })
+    ),
+  },
+  handler: async (ctx, args): Promise<SyncBatchResult[]> => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (args.items.length > MAX_SYNC_BATCH_SIZE) {
+      throw new Error(`Batch cannot exceed ${MAX_SYNC_BATCH_SIZE} exposures`);
+    }
+
+    const results: SyncBatchResult[] = [];
+    for (const item of args.items) {
+      const clientId = item.draft.clientId;
+      const draft = withCanonicalTaxonomy(item.draft);
+      const validationError = validateExposureFields(draft);
+      if (validationError) {
+        results.push({ clientId, status: 'invalid', ...validationError });
+        continue;
+      }
+
+      // Edits of an existing record are merged on the client, not overwritten here
+      if (item.baseUpdatedAt !== undefined) {
+        const server = await findEditConflict(
+          ctx,
+          user._id,
+          clientId,
+          item.updatedAt,
+          item.baseUpdatedAt
+        );
+        if (server) {
+          results.push({
+            clientId,
+            status: 'conflict',
+            id: server._id,
+            server: toEditableFields(server),
+            serverUpdatedAt: server.updatedAt,
+          });
+          continue;
+        }
+      }
+
+      const { id, status } = await upsertDraft(ctx, user._id, draft, item.updatedAt);
+      results.push(
+        status === 'inserted'
+          ? { clientId, status: 'created', id }
+          : { clientId, status: 'duplicate', id, updated: status === 'updated' }
+      );
+    }
+
+    return results;
+  },
+});
+
 /**
  * T033: List exposures with pagination
- * Returns user's exposures sorted by timestamp (newest first)
+ * Returns user's non-deleted exposures sorted by timestamp (newest first)
+ * Pages come from the by_userId_isDeleted_timestamp index, so every page is full
  */
 export const list = query({
   args: {
-    limit: v.optional(v.number()),
-    cursor: v.optional(v.string()),
+    paginationOpts: paginationOptsValidator,
   },
   handler: async (ctx, args) => {
     // Get authenticated user
@@ -157,41 +659,160 @@ export const list = query({
       throw new Error('User not found');
     }
 
-    const limit = args.limit ?? 50;
-    if (limit > 100) {
-      throw new Error('Limit cannot exceed 100');
+    if (args.paginationOpts.numItems > MAX_PAGE_SIZE) {
+      throw new Error(`Page size cannot exceed ${MAX_PAGE_SIZE}`);
     }
 
-    // Query exposures for user, sorted by timestamp descending
-    let exposuresQuery = ctx.db
+    return await ctx.db
       .query('exposures')
-      .withIndex('by_userId_timestamp', q => q.eq('userId', user._id))
-      .order('desc');
+      .withIndex('by_userId_isDeleted_timestamp', q =>
+        q.eq('userId', user._id).eq('isDeleted', false)
+      )
+      .order('desc')
+      .paginate(args.paginationOpts);
+  },
+});
 
-    // Apply cursor for pagination if provided
-    if (args.cursor) {
-      exposuresQuery = exposuresQuery.filter(q =>
-        q.lt(q.field('_creationTime'), parseInt(args.cursor!))
-      );
+/**
+ * Server-side filtered and searched exposure list
+ * Applies the full ExposureFilters shape across the user's whole history, not
+ * just the records a client has loaded. With searchQuery, results come from the
+ * search_text index in relevance order, otherwise newest first.
+ */
+export const search = query({
+  args: {
+    filters: exposureFiltersValidator,
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
     }
 
-    const exposures = await exposuresQuery.take(limit + 1);
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
 
-    // Check if there are more results
-    const hasMore = exposures.length > limit;
-    const results = hasMore ? exposures.slice(0, limit) : exposures;
+    if (!user) {
+      throw new Error('User not found');
+    }
 
-    // Generate next cursor
-    const nextCursor =
-      hasMore && results.length > 0
-        ? results[results.length - 1]._creationTime.toString()
-        : null;
+    if (args.paginationOpts.numItems > MAX_PAGE_SIZE) {
+      throw new Error(`Page size cannot exceed ${MAX_PAGE_SIZE}`);
+    }
 
-    return {
-      exposures: results.filter(e => !e.isDeleted),
-      nextCursor,
-      hasMore,
-    };
+    const { dateFrom, dateTo } = args.filters;
+    if (dateFrom !== undefined && dateTo !== undefined && dateFrom > dateTo) {
+      throw new Error('dateFrom must be before dateTo');
+    }
+
+    const searchQuery = args.filters.searchQuery?.trim();
+    if (searchQuery) {
+      return await ctx.db
+        .query('exposures')
+        .withSearchIndex('search_text', q =>
+          q.search('searchText', searchQuery).eq('userId', user._id).eq('isDeleted', false)
+        )
+        .filter(q => matchesFilters(q, args.filters, true))
+        .paginate(args.paginationOpts);
+    }
+
+    // Date range narrows the index scan, the remaining filters run per record
+    return await ctx.db
+      .query('exposures')
+      .withIndex('by_userId_isDeleted_timestamp', q =>
+        q
+          .eq('userId', user._id)
+          .eq('isDeleted', false)
+          .gte('timestamp', dateFrom ?? 0)
+          .lte('timestamp', dateTo ?? Number.MAX_SAFE_INTEGER)
+      )
+      .order('desc')
+      .filter(q => matchesFilters(q, args.filters, false))
+      .paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * Fill searchText on exposures written before the search index existed
+ * Processes one batch and schedules itself for the next until every record is done
+ *
+ * Run once after deploying: npx convex run exposures:backfillSearchText '{"cursor": null}'
+ */
+export const backfillSearchText = internalMutation({
+  args: {
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args): Promise<null> => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query('exposures')
+      .paginate({ numItems: BACKFILL_BATCH_SIZE, cursor: args.cursor });
+
+    for (const exposure of page) {
+      if (exposure.searchText === undefined) {
+        await ctx.db.patch(exposure._id, { searchText: buildSearchText(exposure) });
+      }
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.exposures.backfillSearchText, {
+        cursor: continueCursor,
+      });
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Rewrite stored exposureType and ppe values to canonical taxonomy ids
+ * Each rewrite is kept as a revision and appended to the hash chain. updatedAt is
+ * left alone so a rename is not mistaken for a user edit by sync. Values that do
+ * not map to any id are left in place and logged for manual review.
+ *
+ * Run after changing the taxonomy: npx convex run exposures:migrateTaxonomy '{"cursor": null}'
+ */
+export const migrateTaxonomy = internalMutation({
+  args: {
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args): Promise<null> => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query('exposures')
+      .paginate({ numItems: BACKFILL_BATCH_SIZE, cursor: args.cursor });
+
+    for (const exposure of page) {
+      const canonical = withCanonicalTaxonomy(exposure);
+      const unmapped = [
+        ...(isExposureTypeId(canonical.exposureType) ? [] : [canonical.exposureType]),
+        ...canonical.ppe.filter(id => !isPPEId(id)),
+      ];
+      if (unmapped.length > 0) {
+        console.warn(`Exposure ${exposure._id} has unmapped taxonomy ids: ${unmapped.join(', ')}`);
+      }
+
+      const previous = { exposureType: exposure.exposureType, ppe: exposure.ppe };
+      const next = { exposureType: canonical.exposureType, ppe: canonical.ppe };
+      if (isSameFieldValue(previous, next)) {
+        continue;
+      }
+
+      await ctx.db.patch(exposure._id, next);
+      await recordRevision(ctx, exposure._id, null, 'migration', previous, next, Date.now());
+      await appendToChain(ctx, exposure._id);
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.exposures.migrateTaxonomy, {
+        cursor: continueCursor,
+      });
+    }
+
+    return null;
   },
 });
 
@@ -240,9 +861,191 @@ export const get = query({
   },
 });
 
+/**
+ * Daily WES-TWA of the user's airborne exposures between two timestamps
+ * The range is widened to whole local days, so each TWA covers every exposure of its day
+ */
+export const getDailyTWA = query({
+  args: {
+    from: v.number(),
+    to: v.number(),
+    timezoneOffsetMinutes: v.number(),
+  },
+  handler: async (ctx, args): Promise<DailyTWA[]> => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const start = localDayStart(args.from, args.timezoneOffsetMinutes);
+    const end = localDayStart(args.to, args.timezoneOffsetMinutes) + 24 * 60 * 60 * 1000;
+
+    const exposures = await ctx.db
+      .query('exposures')
+      .withIndex('by_userId_isDeleted_timestamp', q =>
+        q.eq('userId', user._id).eq('isDeleted', false).gte('timestamp', start).lt('timestamp', end)
+      )
+      .collect();
+
+    return calculateDailyTWA(
+      exposures.map(exposure => ({
+        id: exposure._id,
+        timestamp: exposure.timestamp,
+        exposureType: exposure.exposureType,
+        chemicalName: exposure.chemicalName,
+        duration: exposure.duration,
+        ppe: exposure.ppe,
+        concentration: exposure.concentration,
+      })),
+      args.timezoneOffsetMinutes
+    );
+  },
+});
+
+/**
+ * Cumulative exposure register over the user's whole history
+ * Lifetime hours per agent, with the employers from the user's profile
+ */
+export const getRegister = query({
+  args: {},
+  handler: async (ctx): Promise<ExposureRegister> => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const exposures = await ctx.db
+      .query('exposures')
+      .withIndex('by_userId_isDeleted_timestamp', q =>
+        q.eq('userId', user._id).eq('isDeleted', false)
+      )
+      .collect();
+
+    return {
+      entries: buildExposureRegister(exposures),
+      employers: user.employer ? [user.employer] : [],
+      exposureCount: exposures.length,
+    };
+  },
+});
+
+/**
+ * Resolve an offline clientId to its Convex exposure ID
+ * Returns null until the exposure has synced, used to sequence photo uploads
+ */
+export const getIdByClientId = query({
+  args: {
+    clientId: v.string(),
+  },
+  handler: async (ctx, args): Promise<Id<'exposures'> | null> => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const exposure = await findByClientId(ctx, user._id, args.clientId);
+    if (!exposure || exposure.isDeleted) {
+      return null;
+    }
+
+    return exposure._id;
+  },
+});
+
+/**
+ * Revision history of an exposure, newest first
+ */
+export const getRevisions = query({
+  args: {
+    exposureId: v.id('exposures'),
+  },
+  handler: async (ctx, args) => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const exposure = await ctx.db.get(args.exposureId);
+
+    if (!exposure) {
+      throw new Error('Exposure not found');
+    }
+
+    // Verify ownership
+    if (exposure.userId !== user._id) {
+      throw new Error('Not authorized to view this exposure');
+    }
+
+    const revisions = await ctx.db
+      .query('exposureRevisions')
+      .withIndex('by_exposureId_editedAt', q => q.eq('exposureId', args.exposureId))
+      .order('desc')
+      .collect();
+
+    // Resolve editor names once per distinct editor
+    const editorIds = [
+      ...new Set(revisions.flatMap(revision => (revision.editorId ? [revision.editorId] : []))),
+    ];
+    const editors = await Promise.all(editorIds.map(id => ctx.db.get(id)));
+    const editorNames = new Map(
+      editorIds.map((id, index) => [id, editors[index]?.name ?? editors[index]?.email ?? null])
+    );
+
+    return revisions.map(revision => ({
+      ...revision,
+      editorName: revision.editorId ? (editorNames.get(revision.editorId) ?? null) : null,
+    }));
+  },
+});
+
 /**
  * Update exposure record
  * Allows updating most fields except userId and clientId
+ * The changed fields and their previous values are kept in exposureRevisions
  */
 export const update = mutation({
   args: {
@@ -261,6 +1064,11 @@ export const update = mutation({
     chemicalName: v.optional(v.union(v.string(), v.null())),
     sdsReference: v.optional(v.union(v.string(), v.null())),
     controlMeasures: v.optional(v.union(v.string(), v.null())),
+    vibrationTools: v.optional(v.union(v.array(vibrationToolValidator), v.null())),
+    bloodLeadTestReference: v.optional(v.union(v.string(), v.null())),
+    noiseSegments: v.optional(v.union(v.array(noiseSegmentValidator), v.null())),
+    noisePeakDbC: v.optional(v.union(v.number(), v.null())),
+    concentration: v.optional(v.union(concentrationValidator, v.null())),
   },
   handler: async (ctx, args) => {
     // Get authenticated user
@@ -300,18 +1108,46 @@ export const update = mutation({
       updatedAt: Date.now(),
     };
 
-    if (args.exposureType !== undefined) updates.exposureType = args.exposureType;
+    if (args.exposureType !== undefined)
+      updates.exposureType = normalizeExposureType(args.exposureType) ?? args.exposureType;
     if (args.duration !== undefined) updates.duration = args.duration;
     if (args.severity !== undefined) updates.severity = args.severity;
-    if (args.ppe !== undefined) updates.ppe = args.ppe;
+    if (args.ppe !== undefined) updates.ppe = toCanonicalPPE(args.ppe);
     if (args.workActivity !== undefined) updates.workActivity = args.workActivity;
     if (args.notes !== undefined) updates.notes = args.notes;
     if (args.chemicalName !== undefined) updates.chemicalName = args.chemicalName;
     if (args.sdsReference !== undefined) updates.sdsReference = args.sdsReference;
     if (args.controlMeasures !== undefined) updates.controlMeasures = args.controlMeasures;
+    if (args.vibrationTools !== undefined) updates.vibrationTools = args.vibrationTools;
+    if (args.bloodLeadTestReference !== undefined)
+      updates.bloodLeadTestReference = args.bloodLeadTestReference;
+    if (args.noiseSegments !== undefined) updates.noiseSegments = args.noiseSegments;
+    if (args.noisePeakDbC !== undefined) updates.noisePeakDbC = args.noisePeakDbC;
+    if (args.concentration !== undefined) updates.concentration = args.concentration;
+    updates.searchText = buildSearchText({ ...exposure, ...updates });
+
+    const updated = { ...exposure, ...updates };
+    const validationError = validateExposureFields({
+      ...toEditableFields(updated),
+      clientId: exposure.clientId,
+      photoIds: exposure.photoIds,
+    });
+    if (validationError) {
+      throw new Error(validationError.message);
+    }
 
     // Update exposure
     await ctx.db.patch(args.id, updates);
+    await recordRevision(
+      ctx,
+      args.id,
+      user._id,
+      'edit',
+      toEditableFields(exposure),
+      toEditableFields(updated),
+      updates.updatedAt
+    );
+    await appendToChain(ctx, args.id);
 
     return args.id;
   },
@@ -355,11 +1191,22 @@ export const remove = mutation({
     }
 
     // Soft delete
+    const deletedAt = Date.now();
     await ctx.db.patch(args.id, {
       isDeleted: true,
-      deletedAt: Date.now(),
-      updatedAt: Date.now(),
+      deletedAt,
+      updatedAt: deletedAt,
     });
+    await recordRevision(
+      ctx,
+      args.id,
+      user._id,
+      'delete',
+      { isDeleted: exposure.isDeleted },
+      { isDeleted: true },
+      deletedAt
+    );
+    await appendToChain(ctx, args.id);
 
     return args.id;
   },
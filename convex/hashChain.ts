@@ -0,0 +1,285 @@
+/**
+ * Tamper-evident hash chain for exposure records
+ *
+ * Every create, update and delete of an exposure appends an entry to the
+ * owner's chain: hash = SHA-256(previousHash + canonical), where canonical is
+ * the record's fields as JSON with sorted keys. Altering, backdating or removing
+ * any entry changes its hash and breaks the link to the next one.
+ */
+
+import { v } from 'convex/values';
+import { query, internalMutation, MutationCtx } from './_generated/server';
+import { internal } from './_generated/api';
+import { Doc, Id } from './_generated/dataModel';
+
+// previousHash of the first entry in every chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Largest number of records getProofs accepts per call
+const MAX_PROOF_BATCH_SIZE = 100;
+
+// Records chained per backfillChain run
+const BACKFILL_BATCH_SIZE = 50;
+
+type ChainBreakReason = 'sequence_gap' | 'broken_link' | 'hash_mismatch' | 'record_modified';
+
+interface ChainBreak {
+  sequence: number;
+  exposureId: Id<'exposures'>;
+  reason: ChainBreakReason;
+}
+
+/**
+ * JSON with object keys sorted at every level, so equal values hash equally
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Canonical form of an exposure as chained at chainedAt
+ * Server-managed fields (syncStatus, photoIds, searchText) are left out
+ */
+export function canonicalRecord(exposure: Doc<'exposures'>, chainedAt: number): string {
+  return canonicalJson({
+    exposureId: exposure._id,
+    clientId: exposure.clientId,
+    exposureType: exposure.exposureType,
+    timestamp: exposure.timestamp,
+    duration: exposure.duration,
+    location: exposure.location,
+    severity: exposure.severity,
+    ppe: exposure.ppe,
+    workActivity: exposure.workActivity,
+    notes: exposure.notes,
+    chemicalName: exposure.chemicalName,
+    sdsReference: exposure.sdsReference,
+    controlMeasures: exposure.controlMeasures,
+    vibrationTools: exposure.vibrationTools,
+    bloodLeadTestReference: exposure.bloodLeadTestReference,
+    noiseSegments: exposure.noiseSegments,
+    noisePeakDbC: exposure.noisePeakDbC,
+    concentration: exposure.concentration,
+    voiceTranscription: exposure.voiceTranscription,
+    isDeleted: exposure.isDeleted,
+    updatedAt: exposure.updatedAt,
+    chainedAt,
+  });
+}
+
+/**
+ * Lowercase hex SHA-256 of a UTF-8 string
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Append the current state of an exposure to its owner's chain
+ * Call after every write to the exposure's canonical fields
+ */
+export async function appendToChain(
+  ctx: MutationCtx,
+  exposureId: Id<'exposures'>
+): Promise<string> {
+  const exposure = await ctx.db.get(exposureId);
+  if (!exposure) {
+    throw new Error('Exposure not found');
+  }
+
+  const head = await ctx.db
+    .query('exposureChain')
+    .withIndex('by_userId_sequence', q => q.eq('userId', exposure.userId))
+    .order('desc')
+    .first();
+
+  const previousHash = head?.hash ?? GENESIS_HASH;
+  const chainedAt = Date.now();
+  const canonical = canonicalRecord(exposure, chainedAt);
+  const hash = await sha256Hex(previousHash + canonical);
+
+  await ctx.db.insert('exposureChain', {
+    userId: exposure.userId,
+    exposureId,
+    sequence: (head?.sequence ?? 0) + 1,
+    previousHash,
+    hash,
+    canonical,
+    chainedAt,
+  });
+  await ctx.db.patch(exposureId, { recordHash: hash });
+
+  return hash;
+}
+
+/**
+ * Verify the authenticated user's chain from the first entry to the head
+ * Reports every break, plus records that were never chained
+ */
+export const verifyChain = query({
+  args: {},
+  handler: async ctx => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const entries = await ctx.db
+      .query('exposureChain')
+      .withIndex('by_userId_sequence', q => q.eq('userId', user._id))
+      .collect();
+
+    const breaks: ChainBreak[] = [];
+    const latestByExposure = new Map<Id<'exposures'>, Doc<'exposureChain'>>();
+    let previousHash = GENESIS_HASH;
+
+    for (const [index, entry] of entries.entries()) {
+      const at = { sequence: entry.sequence, exposureId: entry.exposureId };
+      if (entry.sequence !== index + 1) {
+        breaks.push({ ...at, reason: 'sequence_gap' });
+      }
+      if (entry.previousHash !== previousHash) {
+        breaks.push({ ...at, reason: 'broken_link' });
+      }
+      if ((await sha256Hex(entry.previousHash + entry.canonical)) !== entry.hash) {
+        breaks.push({ ...at, reason: 'hash_mismatch' });
+      }
+      previousHash = entry.hash;
+      latestByExposure.set(entry.exposureId, entry);
+    }
+
+    // Stored records must still match the version last chained for them
+    for (const [exposureId, entry] of latestByExposure) {
+      const exposure = await ctx.db.get(exposureId);
+      if (
+        !exposure ||
+        exposure.recordHash !== entry.hash ||
+        canonicalRecord(exposure, entry.chainedAt) !== entry.canonical
+      ) {
+        breaks.push({ sequence: entry.sequence, exposureId, reason: 'record_modified' });
+      }
+    }
+
+    const exposures = await ctx.db
+      .query('exposures')
+      .withIndex('by_userId', q => q.eq('userId', user._id))
+      .collect();
+
+    return {
+      valid: breaks.length === 0,
+      length: entries.length,
+      head: entries.length > 0 ? entries[entries.length - 1].hash : null,
+      breaks,
+      unchainedCount: exposures.filter(exposure => exposure.recordHash === undefined).length,
+    };
+  },
+});
+
+/**
+ * Latest chain entry of each exposure, for printing in exports
+ * Holds everything a third party needs to recompute the record's hash
+ */
+export const getProofs = query({
+  args: {
+    exposureIds: v.array(v.id('exposures')),
+  },
+  handler: async (ctx, args) => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    if (args.exposureIds.length > MAX_PROOF_BATCH_SIZE) {
+      throw new Error(`Cannot request more than ${MAX_PROOF_BATCH_SIZE} proofs at once`);
+    }
+
+    const proofs = [];
+    for (const exposureId of args.exposureIds) {
+      const entry = await ctx.db
+        .query('exposureChain')
+        .withIndex('by_exposureId_sequence', q => q.eq('exposureId', exposureId))
+        .order('desc')
+        .first();
+
+      // Records of other users are skipped rather than leaked
+      if (!entry || entry.userId !== user._id) {
+        continue;
+      }
+
+      proofs.push({
+        exposureId,
+        sequence: entry.sequence,
+        previousHash: entry.previousHash,
+        hash: entry.hash,
+        canonical: entry.canonical,
+      });
+    }
+
+    return proofs;
+  },
+});
+
+/**
+ * Chain exposures written before the hash chain existed, in creation order
+ * Processes one batch and schedules itself for the next until every record is done
+ *
+ * Run once after deploying: npx convex run hashChain:backfillChain '{"cursor": null}'
+ */
+export const backfillChain = internalMutation({
+  args: {
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args): Promise<null> => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query('exposures')
+      .paginate({ numItems: BACKFILL_BATCH_SIZE, cursor: args.cursor });
+
+    for (const exposure of page) {
+      if (exposure.recordHash === undefined) {
+        await appendToChain(ctx, exposure._id);
+      }
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.hashChain.backfillChain, {
+        cursor: continueCursor,
+      });
+    }
+
+    return null;
+  },
+});
@@ -7,6 +7,7 @@ import { v } from 'convex/values';
 import { action, query, mutation, internalMutation } from './_generated/server';
 import { api, internal } from './_generated/api';
 import { Id } from './_generated/dataModel';
+import { EXPOSURE_TYPE_IDS, PPE_IDS, normalizeExposureType, normalizePPEList } from './taxonomy';
 
 /**
  * T095: Analyze photo for workplace hazards using AI
@@ -53,9 +54,9 @@ export const analyze = action({
 
 Your task is to:
 1. Identify visible hazards in the photo
-2. Classify each hazard by type (silica_dust, asbestos_class_a, asbestos_class_b, welding_fumes, hazardous_chemicals, noise, vibration, heat_stress, cold_exposure, contaminated_soils, lead, confined_space)
+2. Classify each hazard by type (${EXPOSURE_TYPE_IDS.join(', ')})
 3. Provide confidence levels (0.0-1.0) for each detection
-4. Suggest appropriate PPE based on hazards
+4. Suggest appropriate PPE based on hazards, using only these ids: ${PPE_IDS.join(', ')}
 5. Provide brief descriptions of what you detected
 
 Respond with valid JSON only, no markdown formatting:
@@ -69,7 +70,7 @@ Respond with valid JSON only, no markdown formatting:
     }
   ],
   "suggestedExposureType": "most_likely_type_or_null",
-  "suggestedPPE": ["P2_RESPIRATOR", "SAFETY_GLASSES", ...],
+  "suggestedPPE": ["p2_respirator", "safety_glasses", ...],
   "overallAssessment": "Brief summary of hazards present"
 }`,
             },
@@ -119,6 +120,14 @@ Respond with valid JSON only, no markdown formatting:
         throw new Error('Invalid AI response format');
       }
 
+      // Suggestions must land on taxonomy ids, whatever the model returned
+      const hazards = (aiResponse.hazards || []).map((h: any) => ({
+        ...h,
+        type: normalizeExposureType(h.type) ?? h.type,
+      }));
+      const suggestedExposureType = normalizeExposureType(aiResponse.suggestedExposureType);
+      const suggestedPPE = normalizePPEList(aiResponse.suggestedPPE || []);
+
       const processingTime = Date.now() - startTime;
 
       // Get user ID from the exposure
@@ -132,14 +141,14 @@ Respond with valid JSON only, no markdown formatting:
         photoId: args.photoId,
         exposureId: args.exposureId,
         userId: exposure.userId,
-        detectedHazards: aiResponse.hazards.map((h: any) => ({
+        detectedHazards: hazards.map((h: any) => ({
           type: h.type,
           confidence: h.confidence,
           boundingBox: h.boundingBox || null,
           description: h.description,
         })),
-        suggestedExposureType: aiResponse.suggestedExposureType,
-        suggestedPPE: aiResponse.suggestedPPE,
+        suggestedExposureType,
+        suggestedPPE,
         aiModel: 'gpt-4-vision-preview',
         processingTime,
         userAccepted: null,
@@ -149,9 +158,9 @@ Respond with valid JSON only, no markdown formatting:
       return {
         success: true,
         scanId,
-        detectedHazards: aiResponse.hazards,
-        suggestedExposureType: aiResponse.suggestedExposureType,
-        suggestedPPE: aiResponse.suggestedPPE,
+        detectedHazards: hazards,
+        suggestedExposureType,
+        suggestedPPE,
         overallAssessment: aiResponse.overallAssessment,
         processingTime,
       };
@@ -0,0 +1,171 @@
+/**
+ * Health Check Convex Functions
+ * Completed health monitoring checks and the schedule of checks still due
+ */
+
+import { v } from 'convex/values';
+import { query, mutation } from './_generated/server';
+import {
+  buildMonitoringSchedule,
+  HEALTH_CHECK_OUTCOMES,
+  HEALTH_CHECK_TYPES,
+  ScheduledCheck,
+} from './healthMonitoring';
+
+/**
+ * List the user's completed health checks, most recent first
+ */
+export const list = query({
+  args: {},
+  handler: async ctx => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return await ctx.db
+      .query('healthChecks')
+      .withIndex('by_userId_completedAt', q => q.eq('userId', user._id))
+      .order('desc')
+      .collect();
+  },
+});
+
+/**
+ * Health monitoring checks the user's exposure history calls for, soonest first
+ * Status (overdue, due soon) is left to the client so the result stays cacheable
+ */
+export const getSchedule = query({
+  args: {},
+  handler: async (ctx): Promise<ScheduledCheck[]> => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const exposures = await ctx.db
+      .query('exposures')
+      .withIndex('by_userId_isDeleted_timestamp', q =>
+        q.eq('userId', user._id).eq('isDeleted', false)
+      )
+      .collect();
+    const checks = await ctx.db
+      .query('healthChecks')
+      .withIndex('by_userId_completedAt', q => q.eq('userId', user._id))
+      .collect();
+
+    return buildMonitoringSchedule(exposures, checks);
+  },
+});
+
+/**
+ * Log a completed health check with its result
+ */
+export const create = mutation({
+  args: {
+    checkType: v.string(),
+    completedAt: v.number(),
+    outcome: v.string(),
+    result: v.union(v.string(), v.null()),
+    provider: v.union(v.string(), v.null()),
+    notes: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    // Validate fields
+    if (!(HEALTH_CHECK_TYPES as string[]).includes(args.checkType)) {
+      throw new Error(`Invalid check type: ${args.checkType}`);
+    }
+    if (!(HEALTH_CHECK_OUTCOMES as string[]).includes(args.outcome)) {
+      throw new Error(`Invalid outcome: ${args.outcome}`);
+    }
+    if (args.completedAt > Date.now()) {
+      throw new Error('Check date cannot be in the future');
+    }
+
+    return await ctx.db.insert('healthChecks', {
+      userId: user._id,
+      checkType: args.checkType,
+      completedAt: args.completedAt,
+      outcome: args.outcome,
+      result: args.result?.trim() || null,
+      provider: args.provider?.trim() || null,
+      notes: args.notes?.trim() || null,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Delete a health check logged by mistake
+ */
+export const remove = mutation({
+  args: {
+    id: v.id('healthChecks'),
+  },
+  handler: async (ctx, args) => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const check = await ctx.db.get(args.id);
+    if (!check) {
+      throw new Error('Health check not found');
+    }
+    if (check.userId !== user._id) {
+      throw new Error('Not authorized to delete this health check');
+    }
+
+    await ctx.db.delete(args.id);
+    return args.id;
+  },
+});
@@ -0,0 +1,133 @@
+/**
+ * Health Monitoring Rules
+ * Works out which health monitoring checks are due from a user's exposure history,
+ * shared by the Convex functions and the app
+ *
+ * Intervals follow WorkSafe NZ health monitoring guidance for silica, asbestos,
+ * lead and noise. Check them against each new edition before release.
+ */
+
+export type HealthCheckType = 'lung_function' | 'audiometry' | 'blood_lead';
+
+export type HealthCheckOutcome = 'normal' | 'abnormal' | 'referred';
+
+export interface MonitoringRule {
+  checkType: HealthCheckType;
+  label: string;
+  shortLabel: string;
+  exposureTypes: string[]; // Exposures that call for the check
+  baselineMonths: number; // After the first exposure, for the first check
+  intervalMonths: number; // Between checks while exposure continues
+}
+
+export const MONITORING_RULES: MonitoringRule[] = [
+  {
+    checkType: 'lung_function',
+    label: 'Lung function test',
+    shortLabel: 'Lung function',
+    exposureTypes: ['silica_dust', 'asbestos_class_a', 'asbestos_class_b'],
+    baselineMonths: 3,
+    intervalMonths: 24,
+  },
+  {
+    checkType: 'audiometry',
+    label: 'Hearing test (audiometry)',
+    shortLabel: 'Hearing',
+    exposureTypes: ['noise'],
+    baselineMonths: 3,
+    intervalMonths: 12,
+  },
+  {
+    checkType: 'blood_lead',
+    label: 'Blood lead test',
+    shortLabel: 'Blood lead',
+    exposureTypes: ['lead'],
+    baselineMonths: 1,
+    intervalMonths: 6,
+  },
+];
+
+export const HEALTH_CHECK_TYPES = MONITORING_RULES.map(rule => rule.checkType);
+
+export const HEALTH_CHECK_OUTCOMES: HealthCheckOutcome[] = ['normal', 'abnormal', 'referred'];
+
+// Checks due within this many days count as due soon
+export const DUE_SOON_DAYS = 30;
+
+// One check of the schedule
+export interface ScheduledCheck {
+  checkType: HealthCheckType;
+  label: string;
+  dueAt: number; // Unix timestamp in milliseconds
+  lastCompletedAt: number | null;
+  exposureTypes: string[]; // Exposure types recorded since the last check
+}
+
+export type ScheduledCheckStatus = 'overdue' | 'due_soon' | 'upcoming';
+
+function addMonths(timestamp: number, months: number): number {
+  const date = new Date(timestamp);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return date.getTime();
+}
+
+/**
+ * Label of a check type, falling back to the id for retired types
+ */
+export function healthCheckLabel(checkType: string): string {
+  return MONITORING_RULES.find(rule => rule.checkType === checkType)?.label ?? checkType;
+}
+
+/**
+ * Checks the exposure history calls for, soonest first
+ * A check is only scheduled while there are relevant exposures since the last completed one:
+ * the first falls due baselineMonths after the first exposure, later ones intervalMonths
+ * after the previous check.
+ */
+export function buildMonitoringSchedule(
+  exposures: { exposureType: string; timestamp: number }[],
+  completedChecks: { checkType: string; completedAt: number }[]
+): ScheduledCheck[] {
+  const schedule: ScheduledCheck[] = [];
+
+  for (const rule of MONITORING_RULES) {
+    const lastCompletedAt = completedChecks
+      .filter(check => check.checkType === rule.checkType)
+      .reduce<
+        number | null
+      >((latest, check) => (latest === null ? check.completedAt : Math.max(latest, check.completedAt)), null);
+
+    const relevant = exposures.filter(
+      exposure =>
+        rule.exposureTypes.includes(exposure.exposureType) &&
+        (lastCompletedAt === null || exposure.timestamp > lastCompletedAt)
+    );
+    if (relevant.length === 0) {
+      continue;
+    }
+
+    const firstExposure = Math.min(...relevant.map(exposure => exposure.timestamp));
+    schedule.push({
+      checkType: rule.checkType,
+      label: rule.label,
+      dueAt:
+        lastCompletedAt === null
+          ? addMonths(firstExposure, rule.baselineMonths)
+          : addMonths(lastCompletedAt, rule.intervalMonths),
+      lastCompletedAt,
+      exposureTypes: [...new Set(relevant.map(exposure => exposure.exposureType))],
+    });
+  }
+
+  return schedule.sort((a, b) => a.dueAt - b.dueAt);
+}
+
+/**
+ * Status of a scheduled check at a point in time
+ */
+export function scheduledCheckStatus(dueAt: number, now: number): ScheduledCheckStatus {
+  if (dueAt < now) {
+    return 'overdue';
+  }
+  return dueAt - now <= DUE_SOON_DAYS * 24 * 60 * 60 * 1000 ? 'due_soon' : 'upcoming';
+}
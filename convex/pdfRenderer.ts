@@ -0,0 +1,734 @@
+/**
+ * PDF Renderer
+ * Lays out the HTML documents of pdfTemplate.ts as a PDF, in pure JS so it runs in Convex
+ *
+ * Covers the markup the templates use rather than CSS in general: headings, paragraphs,
+ * lists, tables, photo grids, the site map SVG and inline bold, small and monospace text.
+ * Uses the standard PDF fonts, so text outside their character set is transliterated
+ * or replaced with '?'.
+ */
+
+import { PDFDocument, PDFFont, PDFImage, PDFPage, RGB, StandardFonts, rgb } from 'pdf-lib';
+import { HTMLElement, Node, NodeType, parse } from 'node-html-parser';
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const LINE_SPACING = 1.35;
+
+// Sections starting on a new page, as in the print styles
+const PAGE_BREAK_CLASSES = [
+  'cover-page',
+  'toc',
+  'exposure-entry',
+  'document-section',
+  'symptoms',
+  'integrity',
+];
+const INLINE_TAGS = ['a', 'b', 'br', 'code', 'em', 'i', 'small', 'span', 'strong'];
+const SKIPPED_TAGS = ['head', 'script', 'style', 'title', 'meta'];
+
+const TEXT_COLOR = rgb(0.2, 0.2, 0.2);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const HEADING_COLOR = rgb(0, 0.4, 0.8);
+const BORDER_COLOR = rgb(0.8, 0.8, 0.8);
+const HEADER_FILL = rgb(0.96, 0.96, 0.96);
+const SEVERITY_COLORS: Record<string, RGB> = {
+  'severity-low': rgb(0.16, 0.65, 0.27),
+  'severity-medium': rgb(0.8, 0.6, 0),
+  'severity-high': rgb(0.86, 0.21, 0.27),
+};
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  mono: PDFFont;
+}
+
+interface TextStyle {
+  font: PDFFont;
+  size: number;
+  color: RGB;
+  center: boolean;
+}
+
+// A word, a space or a line break of inline text
+interface Piece {
+  text: string;
+  style: TextStyle;
+  width: number;
+  kind: 'word' | 'space' | 'break';
+}
+
+interface Line {
+  pieces: Piece[];
+  width: number;
+  height: number;
+}
+
+interface Layout {
+  doc: PDFDocument;
+  fonts: Fonts;
+  page: PDFPage;
+  y: number; // Top of the free space on the page
+  images: Map<string, PDFImage | null>;
+  characterSets: Map<PDFFont, Set<number>>;
+}
+
+/**
+ * Text the font can encode: unsupported characters lose their accents or become '?'
+ */
+function encodableText(layout: Layout, font: PDFFont, text: string): string {
+  let characters = layout.characterSets.get(font);
+  if (!characters) {
+    characters = new Set(font.getCharacterSet());
+    layout.characterSets.set(font, characters);
+  }
+  const supported = characters;
+
+  return Array.from(text)
+    .map(character => {
+      if (supported.has(character.codePointAt(0) as number)) {
+        return character;
+      }
+      const base = character.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+      return base && Array.from(base).every(c => supported.has(c.codePointAt(0) as number))
+        ? base
+        : '?';
+    })
+    .join('');
+}
+
+function parseColor(value: string | undefined, fallback: RGB): RGB {
+  const hex = value?.trim().replace(/^#/, '') ?? '';
+  const full = hex.length === 3 ? hex.replace(/./g, c => c + c) : hex;
+  if (!/^[0-9a-f]{6}$/i.test(full)) {
+    return fallback;
+  }
+  return rgb(
+    parseInt(full.slice(0, 2), 16) / 255,
+    parseInt(full.slice(2, 4), 16) / 255,
+    parseInt(full.slice(4, 6), 16) / 255
+  );
+}
+
+function tagOf(element: HTMLElement): string {
+  return (element.rawTagName || '').toLowerCase();
+}
+
+function hasClass(element: HTMLElement, ...classes: string[]): boolean {
+  return classes.some(name => element.classList.contains(name));
+}
+
+function isInline(node: Node): boolean {
+  return (
+    node.nodeType === NodeType.TEXT_NODE ||
+    (node instanceof HTMLElement && INLINE_TAGS.includes(tagOf(node)))
+  );
+}
+
+/**
+ * Style of an element's text, from its tag and classes within the parent's style
+ */
+function styleOf(layout: Layout, element: HTMLElement, parent: TextStyle): TextStyle {
+  const { fonts } = layout;
+  const tag = tagOf(element);
+  const style = { ...parent };
+
+  if (tag === 'h1') {
+    const onCover = element.parentNode && hasClass(element.parentNode, 'cover-page');
+    Object.assign(style, { font: fonts.bold, size: onCover ? 28 : 22, color: HEADING_COLOR });
+  } else if (tag === 'h2') {
+    Object.assign(style, { font: fonts.bold, size: 17, color: HEADING_COLOR });
+  } else if (tag === 'h3') {
+    Object.assign(style, { font: fonts.bold, size: 12.5, color: HEADING_COLOR });
+  } else if (['strong', 'b', 'th'].includes(tag) || hasClass(element, 'label')) {
+    style.font = fonts.bold;
+  } else if (tag === 'small') {
+    style.size = parent.size * 0.85;
+  } else if (tag === 'figcaption') {
+    Object.assign(style, { size: 8, color: MUTED_COLOR });
+  }
+
+  if (tag === 'pre' || tag === 'code' || hasClass(element, 'hash')) {
+    Object.assign(style, { font: fonts.mono, size: 7 });
+  }
+  if (hasClass(element, 'subtitle')) {
+    Object.assign(style, { size: 14, color: MUTED_COLOR, center: true });
+  }
+  if (hasClass(element, 'generated')) {
+    Object.assign(style, { size: 9, color: MUTED_COLOR, center: true });
+  }
+  if (tag === 'h1' && style.size === 28) {
+    style.center = true;
+  }
+  for (const [name, color] of Object.entries(SEVERITY_COLORS)) {
+    if (hasClass(element, name)) {
+      style.color = color;
+    }
+  }
+  return style;
+}
+
+/**
+ * Split the inline content of nodes into words, spaces and line breaks
+ */
+function collectPieces(layout: Layout, nodes: Node[], style: TextStyle, pieces: Piece[]): Piece[] {
+  for (const node of nodes) {
+    if (node instanceof HTMLElement) {
+      if (tagOf(node) === 'br') {
+        pieces.push({ text: '', style, width: 0, kind: 'break' });
+      } else {
+        collectPieces(layout, node.childNodes, styleOf(layout, node, style), pieces);
+      }
+      continue;
+    }
+    if (node.nodeType !== NodeType.TEXT_NODE) {
+      continue;
+    }
+
+    for (const token of node.text.split(/(\s+)/)) {
+      if (token === '') {
+        continue;
+      }
+      if (/^\s+$/.test(token)) {
+        if (pieces.length > 0 && pieces[pieces.length - 1].kind === 'word') {
+          pieces.push({
+            text: ' ',
+            style,
+            width: style.font.widthOfTextAtSize(' ', style.size),
+            kind: 'space',
+          });
+        }
+        continue;
+      }
+      const text = encodableText(layout, style.font, token);
+      pieces.push({
+        text,
+        style,
+        width: style.font.widthOfTextAtSize(text, style.size),
+        kind: 'word',
+      });
+    }
+  }
+  return pieces;
+}
+
+/**
+ * Split a word too wide for a line into parts that fit
+ */
+function splitWord(piece: Piece, maxWidth: number): Piece[] {
+  const { font, size } = piece.style;
+  const parts: Piece[] = [];
+  let text = '';
+  for (const character of Array.from(piece.text)) {
+    if (text && font.widthOfTextAtSize(text + character, size) > maxWidth) {
+      parts.push({ ...piece, text, width: font.widthOfTextAtSize(text, size) });
+      text = '';
+    }
+    text += character;
+  }
+  parts.push({ ...piece, text, width: font.widthOfTextAtSize(text, size) });
+  return parts;
+}
+
+/**
+ * Wrap pieces into lines no wider than maxWidth
+ */
+function wrapLines(pieces: Piece[], maxWidth: number): Line[] {
+  const lines: Line[] = [];
+  let line: Line = { pieces: [], width: 0, height: 0 };
+
+  const finish = () => {
+    while (line.pieces.length > 0 && line.pieces[line.pieces.length - 1].kind === 'space') {
+      line.width -= (line.pieces.pop() as Piece).width;
+    }
+    if (line.pieces.length > 0) {
+      lines.push(line);
+    }
+    line = { pieces: [], width: 0, height: 0 };
+  };
+
+  for (const piece of pieces) {
+    if (piece.kind === 'break') {
+      if (line.pieces.length === 0) {
+        line.height = piece.style.size * LINE_SPACING;
+        lines.push(line);
+        line = { pieces: [], width: 0, height: 0 };
+      } else {
+        finish();
+      }
+      continue;
+    }
+    if (piece.kind === 'space' && line.pieces.length === 0) {
+      continue;
+    }
+
+    const parts = piece.width > maxWidth ? splitWord(piece, maxWidth) : [piece];
+    for (const part of parts) {
+      if (part.kind === 'word' && line.width + part.width > maxWidth && line.pieces.length > 0) {
+        finish();
+      }
+      line.pieces.push(part);
+      line.width += part.width;
+      line.height = Math.max(line.height, part.style.size * LINE_SPACING);
+    }
+  }
+  finish();
+  return lines;
+}
+
+function addPage(layout: Layout): void {
+  layout.page = layout.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  layout.y = PAGE_HEIGHT - MARGIN;
+}
+
+/**
+ * Start a new page unless the height still fits on this one
+ */
+function ensureSpace(layout: Layout, height: number): void {
+  if (layout.y - height < MARGIN && layout.y < PAGE_HEIGHT - MARGIN) {
+    addPage(layout);
+  }
+}
+
+function drawLine(layout: Layout, line: Line, x: number, top: number, width: number): void {
+  const centered = line.pieces.some(piece => piece.style.center);
+  let left = centered ? x + (width - line.width) / 2 : x;
+  // Baseline sits a little above the bottom of the line box
+  const baseline = top - line.height + (line.height - line.height / LINE_SPACING) / 2 + 2;
+
+  for (const piece of line.pieces) {
+    if (piece.kind === 'word') {
+      layout.page.drawText(piece.text, {
+        x: left,
+        y: baseline,
+        size: piece.style.size,
+        font: piece.style.font,
+        color: piece.style.color,
+      });
+    }
+    left += piece.width;
+  }
+}
+
+/**
+ * Draw inline pieces as a paragraph in the flow, breaking pages between lines
+ */
+function drawParagraph(layout: Layout, pieces: Piece[], indent: number, bullet: boolean): void {
+  if (!pieces.some(piece => piece.kind === 'word')) {
+    return;
+  }
+  const x = MARGIN + indent;
+  const lines = wrapLines(pieces, CONTENT_WIDTH - indent);
+
+  lines.forEach((line, index) => {
+    ensureSpace(layout, line.height);
+    if (bullet && index === 0 && line.pieces.length > 0) {
+      const { style } = line.pieces[0];
+      layout.page.drawText('-', {
+        x: x - 10,
+        y: layout.y - line.height + 4,
+        size: style.size,
+        font: style.font,
+        color: style.color,
+      });
+    }
+    drawLine(layout, line, x, layout.y, CONTENT_WIDTH - indent);
+    layout.y -= line.height;
+  });
+}
+
+/**
+ * Draw preformatted text line by line, wrapping long lines by character
+ */
+function drawPreformatted(layout: Layout, element: HTMLElement, style: TextStyle, indent: number) {
+  const pieces = element.text
+    .replace(/\t/g, '  ')
+    .split('\n')
+    .flatMap(text => {
+      const encoded = encodableText(layout, style.font, text);
+      return [
+        {
+          text: encoded,
+          style,
+          width: style.font.widthOfTextAtSize(encoded, style.size),
+          kind: 'word' as const,
+        },
+        { text: '', style, width: 0, kind: 'break' as const },
+      ];
+    });
+  drawParagraph(layout, pieces, indent, false);
+}
+
+async function embedImage(layout: Layout, src: string): Promise<PDFImage | null> {
+  if (!layout.images.has(src)) {
+    let image: PDFImage | null = null;
+    try {
+      if (/^data:image\/png;base64,/i.test(src)) {
+        image = await layout.doc.embedPng(src);
+      } else if (/^data:image\/jpe?g;base64,/i.test(src)) {
+        image = await layout.doc.embedJpg(src);
+      }
+    } catch {
+      image = null; // Unreadable photos are left out rather than failing the document
+    }
+    layout.images.set(src, image);
+  }
+  return layout.images.get(src) ?? null;
+}
+
+/**
+ * Draw photos two to a row, each with its caption
+ */
+async function drawPhotoGrid(
+  layout: Layout,
+  element: HTMLElement,
+  style: TextStyle,
+  indent: number
+) {
+  const gap = 12;
+  const cellWidth = (CONTENT_WIDTH - indent - gap) / 2;
+  const maxHeight = 260;
+
+  const cells = await Promise.all(
+    element.childNodes
+      .filter((node): node is HTMLElement => node instanceof HTMLElement)
+      .map(async child => {
+        const img = tagOf(child) === 'img' ? child : child.querySelector('img');
+        const image = img ? await embedImage(layout, img.getAttribute('src') ?? '') : null;
+        const caption = child.querySelector('figcaption');
+        const captionLines = caption
+          ? wrapLines(
+              collectPieces(layout, caption.childNodes, styleOf(layout, caption, style), []),
+              cellWidth
+            )
+          : [];
+        return { image, captionLines };
+      })
+  );
+  const drawable = cells.filter(cell => cell.image !== null);
+
+  for (let index = 0; index < drawable.length; index += 2) {
+    const row = drawable.slice(index, index + 2).map(cell => {
+      const image = cell.image as PDFImage;
+      const scale = Math.min(cellWidth / image.width, maxHeight / image.height, 1);
+      const captionHeight = cell.captionLines.reduce((sum, line) => sum + line.height, 0);
+      return {
+        ...cell,
+        image,
+        width: image.width * scale,
+        height: image.height * scale,
+        captionHeight,
+      };
+    });
+    const rowHeight = Math.max(...row.map(cell => cell.height + cell.captionHeight)) + gap;
+    ensureSpace(layout, rowHeight);
+
+    row.forEach((cell, column) => {
+      const x = MARGIN + indent + column * (cellWidth + gap);
+      layout.page.drawImage(cell.image, {
+        x,
+        y: layout.y - cell.height,
+        width: cell.width,
+        height: cell.height,
+      });
+      let top = layout.y - cell.height - 3;
+      for (const line of cell.captionLines) {
+        drawLine(layout, line, x, top, cellWidth);
+        top -= line.height;
+      }
+    });
+    layout.y -= rowHeight;
+  }
+}
+
+/**
+ * Draw a table with columns sized by their content and the header repeated on each page
+ */
+function drawTable(layout: Layout, element: HTMLElement, style: TextStyle, indent: number): void {
+  const padding = 4;
+  const tableStyle = { ...style, size: Math.min(style.size, 8.5) };
+  const rows = element
+    .querySelectorAll('tr')
+    .map(row => ({
+      isHeader: row.parentNode ? tagOf(row.parentNode) === 'thead' : false,
+      cells: row.childNodes
+        .filter((node): node is HTMLElement => node instanceof HTMLElement)
+        .filter(cell => ['td', 'th'].includes(tagOf(cell))),
+    }))
+    .filter(row => row.cells.length > 0);
+  if (rows.length === 0) {
+    return;
+  }
+
+  // Share the width by the longest text of each column, within limits
+  const columnCount = Math.max(...rows.map(row => row.cells.length));
+  const weights = Array.from({ length: columnCount }, (_, column) =>
+    Math.min(Math.max(...rows.map(row => row.cells[column]?.text.trim().length ?? 0), 4), 40)
+  );
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const widths = weights.map(weight => ((CONTENT_WIDTH - indent) * weight) / totalWeight);
+
+  const laidOut = rows.map(row => {
+    const cells = row.cells.map((cell, column) =>
+      wrapLines(
+        collectPieces(layout, cell.childNodes, styleOf(layout, cell, tableStyle), []),
+        widths[column] - 2 * padding
+      )
+    );
+    const height =
+      Math.max(
+        tableStyle.size * LINE_SPACING,
+        ...cells.map(lines => lines.reduce((sum, line) => sum + line.height, 0))
+      ) +
+      2 * padding;
+    return { ...row, lines: cells, height };
+  });
+  const header = laidOut.find(row => row.isHeader);
+
+  const drawRow = (row: (typeof laidOut)[number]) => {
+    let x = MARGIN + indent;
+    row.lines.forEach((lines, column) => {
+      const isHeaderCell = tagOf(row.cells[column]) === 'th';
+      layout.page.drawRectangle({
+        x,
+        y: layout.y - row.height,
+        width: widths[column],
+        height: row.height,
+        borderColor: BORDER_COLOR,
+        borderWidth: 0.5,
+        color: isHeaderCell ? HEADER_FILL : undefined,
+      });
+      let top = layout.y - padding;
+      for (const line of lines) {
+        drawLine(layout, line, x + padding, top, widths[column] - 2 * padding);
+        top -= line.height;
+      }
+      x += widths[column];
+    });
+    layout.y -= row.height;
+  };
+
+  for (const row of laidOut) {
+    const pageBefore = layout.page;
+    ensureSpace(layout, row.height);
+    if (layout.page !== pageBefore && header && !row.isHeader) {
+      drawRow(header);
+    }
+    drawRow(row);
+  }
+  layout.y -= 8;
+}
+
+/**
+ * Draw the circles and text of an SVG, scaled to the content width
+ */
+function drawSvg(layout: Layout, element: HTMLElement, indent: number): void {
+  const [, , viewWidth, viewHeight] = (element.getAttribute('viewBox') ?? '0 0 0 0')
+    .split(/[\s,]+/)
+    .map(Number);
+  if (!viewWidth || !viewHeight) {
+    return;
+  }
+  const scale = (CONTENT_WIDTH - indent) / viewWidth;
+  const height = viewHeight * scale;
+  ensureSpace(layout, height);
+  const left = MARGIN + indent;
+  const top = layout.y;
+
+  layout.page.drawRectangle({
+    x: left,
+    y: top - height,
+    width: viewWidth * scale,
+    height,
+    color: rgb(0.94, 0.96, 0.98),
+    borderColor: BORDER_COLOR,
+    borderWidth: 0.5,
+  });
+
+  for (const circle of element.querySelectorAll('circle')) {
+    layout.page.drawCircle({
+      x: left + Number(circle.getAttribute('cx')) * scale,
+      y: top - Number(circle.getAttribute('cy')) * scale,
+      size: Number(circle.getAttribute('r')) * scale,
+      color: parseColor(circle.getAttribute('fill'), HEADING_COLOR),
+    });
+  }
+  for (const text of element.querySelectorAll('text')) {
+    const size = Number(text.getAttribute('font-size') || 11) * scale;
+    const content = encodableText(layout, layout.fonts.regular, text.text.trim());
+    const width = layout.fonts.regular.widthOfTextAtSize(content, size);
+    const x = left + Number(text.getAttribute('x')) * scale;
+    layout.page.drawText(content, {
+      x: text.getAttribute('text-anchor') === 'middle' ? x - width / 2 : x,
+      y: top - Number(text.getAttribute('y')) * scale,
+      size,
+      font: layout.fonts.regular,
+      color: parseColor(text.getAttribute('fill'), TEXT_COLOR),
+    });
+  }
+  layout.y -= height + 8;
+}
+
+/**
+ * Space left after a block, by tag
+ */
+function spaceAfter(tag: string): number {
+  return ({ h1: 14, h2: 10, h3: 5, p: 6, li: 4, ul: 4 } as Record<string, number>)[tag] ?? 3;
+}
+
+/**
+ * Draw the children of an element in flow, grouping runs of inline nodes into paragraphs
+ */
+async function drawFlow(
+  layout: Layout,
+  element: HTMLElement,
+  style: TextStyle,
+  indent: number,
+  bullet = false
+): Promise<void> {
+  let inline: Node[] = [];
+  let first = true;
+
+  const flush = () => {
+    const pieces = collectPieces(layout, inline, style, []);
+    drawParagraph(layout, pieces, indent, bullet && first);
+    if (pieces.some(piece => piece.kind === 'word')) {
+      first = false;
+    }
+    inline = [];
+  };
+
+  for (const child of element.childNodes) {
+    if (isInline(child)) {
+      inline.push(child);
+    } else if (child instanceof HTMLElement) {
+      flush();
+      await drawBlock(layout, child, style, indent);
+    }
+  }
+  flush();
+}
+
+/**
+ * Draw a block element and its content
+ */
+async function drawBlock(
+  layout: Layout,
+  element: HTMLElement,
+  parent: TextStyle,
+  indent: number
+): Promise<void> {
+  const tag = tagOf(element);
+  if (SKIPPED_TAGS.includes(tag)) {
+    return;
+  }
+  if (hasClass(element, ...PAGE_BREAK_CLASSES) && layout.y < PAGE_HEIGHT - MARGIN) {
+    addPage(layout);
+  }
+
+  const style = styleOf(layout, element, parent);
+  if (tag === 'h2' || tag === 'h3') {
+    layout.y -= 6;
+    // Keep a heading with at least a couple of lines of what follows
+    ensureSpace(layout, style.size * LINE_SPACING + 40);
+  }
+  if (hasClass(element, 'signature-line')) {
+    layout.y -= 30;
+    ensureSpace(layout, 20);
+    layout.page.drawLine({
+      start: { x: MARGIN + indent, y: layout.y },
+      end: { x: MARGIN + indent + 220, y: layout.y },
+      thickness: 0.75,
+      color: TEXT_COLOR,
+    });
+    layout.y -= 2;
+  }
+  if (hasClass(element, 'cover-page')) {
+    layout.y -= 80;
+  }
+
+  if (tag === 'table') {
+    drawTable(layout, element, style, indent);
+  } else if (tag === 'svg') {
+    drawSvg(layout, element, indent);
+  } else if (tag === 'pre') {
+    drawPreformatted(layout, element, style, indent);
+  } else if (hasClass(element, 'photo-grid')) {
+    await drawPhotoGrid(layout, element, style, indent);
+  } else if (tag === 'ul' || tag === 'ol') {
+    for (const item of element.childNodes) {
+      if (item instanceof HTMLElement) {
+        await drawFlow(layout, item, styleOf(layout, item, style), indent + 14, true);
+        layout.y -= spaceAfter('li');
+      }
+    }
+  } else {
+    await drawFlow(layout, element, style, indent);
+  }
+
+  layout.y -= spaceAfter(tag);
+  if (hasClass(element, 'subtitle')) {
+    layout.y -= 30;
+  }
+}
+
+/**
+ * Number every page at its foot
+ */
+function drawPageNumbers(layout: Layout): void {
+  const pages = layout.doc.getPages();
+  pages.forEach((page, index) => {
+    const text = `Page ${index + 1} of ${pages.length}`;
+    const width = layout.fonts.regular.widthOfTextAtSize(text, 8);
+    page.drawText(text, {
+      x: (PAGE_WIDTH - width) / 2,
+      y: MARGIN / 2,
+      size: 8,
+      font: layout.fonts.regular,
+      color: MUTED_COLOR,
+    });
+  });
+}
+
+/**
+ * Render an HTML document of pdfTemplate.ts to PDF bytes
+ */
+export async function renderPDF(html: string): Promise<Uint8Array> {
+  const root = parse(html);
+  const doc = await PDFDocument.create();
+  const fonts: Fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    mono: await doc.embedFont(StandardFonts.Courier),
+  };
+
+  const title = root.querySelector('title')?.text.trim();
+  if (title) {
+    doc.setTitle(title);
+  }
+  doc.setProducer('Waldo Health');
+
+  const page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const layout: Layout = {
+    doc,
+    fonts,
+    page,
+    y: PAGE_HEIGHT - MARGIN,
+    images: new Map(),
+    characterSets: new Map(),
+  };
+  const body = root.querySelector('body') ?? root;
+  await drawFlow(
+    layout,
+    body,
+    { font: fonts.regular, size: 10, color: TEXT_COLOR, center: false },
+    0
+  );
+
+  drawPageNumbers(layout);
+  return await doc.save();
+}
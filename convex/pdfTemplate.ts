@@ -0,0 +1,1589 @@
+/**
+ * PDF Templates
+ * HTML documents of the PDF exports, shared by the app and the server
+ *
+ * The app prints them with expo-print and the generateExport action with the
+ * renderer in pdfRenderer.ts. Photos arrive already embedded as data URIs, and dates
+ * are formatted in the worker's time zone, so both produce the same document.
+ *
+ * Documents:
+ * - Exposure export: cover page, table of contents and the sections of an export template
+ * - ACC claim pack with sworn statement, chronology, cumulative totals and photo appendix
+ * - Standalone cumulative exposure register
+ */
+
+import { format } from 'date-fns';
+import {
+  calculateNoiseDose,
+  NoiseSegment,
+  NOISE_LEX_LIMIT_DBA,
+  NOISE_PEAK_LIMIT_DBC,
+  calculateVibrationDose,
+  describeVibrationDose,
+  formatVibrationTools,
+  VibrationToolUse,
+  calculateDailyTWA,
+  dailyTWAByExposure,
+  describeTWA,
+  formatConcentration,
+  Concentration,
+  DailyTWA,
+} from './exposureDose';
+import { CONCENTRATION_UNIT_LABELS } from './exposureStandards';
+import { buildExposureRegister, buildSiteSummary, ExposureRegister } from './exposureRegister';
+import { buildClaimChronology, ClaimPackDetails } from './claimPack';
+import {
+  DEFAULT_TEMPLATE,
+  EXPORT_SECTIONS,
+  ExportSectionId,
+  ExportTemplate,
+  enabledSections,
+} from './exportTemplates';
+import { bodySystemLabel, buildSymptomTimeline } from './symptomJournal';
+
+export interface ExposureForExport {
+  _id: string;
+  exposureType: string;
+  timestamp: number;
+  duration: { hours: number; minutes: number };
+  location: {
+    latitude: number;
+    longitude: number;
+    address: string | null;
+    siteName: string | null;
+  };
+  severity: 'low' | 'medium' | 'high';
+  ppe: string[];
+  workActivity: string;
+  notes: string | null;
+  chemicalName: string | null;
+  sdsReference: string | null;
+  controlMeasures: string | null;
+  vibrationTools?: VibrationToolUse[] | null;
+  bloodLeadTestReference?: string | null;
+  noiseSegments?: NoiseSegment[] | null;
+  noisePeakDbC?: number | null;
+  concentration?: Concentration | null;
+  photoIds: string[];
+  _creationTime: number;
+  updatedAt: number;
+}
+
+export interface UserInfo {
+  name: string | null;
+  email: string;
+  phoneNumber: string | null;
+  occupation: string | null;
+  employer: string | null;
+}
+
+// Hash chain entry of one record, from hashChain.getProofs
+export interface RecordProof {
+  sequence: number;
+  previousHash: string;
+  hash: string; // SHA-256 hex of previousHash + canonical
+  canonical: string;
+}
+
+// Symptom journal entry, from symptoms.list
+export interface SymptomForExport {
+  _id: string;
+  symptom: string;
+  bodySystem: string;
+  severity: string;
+  onsetAt: number;
+  notes: string | null;
+  exposureIds: string[];
+}
+
+// Photos embedded as data URIs, keyed by exposure or symptom ID
+export type EmbeddedPhotos = Map<string, string[]>;
+
+// Formats a timestamp with a date-fns pattern in the worker's time zone
+export type DateFormatter = (timestamp: number, pattern: string) => string;
+
+/**
+ * Date formatter for a time zone given in minutes ahead of UTC
+ * Null formats in the local time of whatever runs it, as the app does
+ */
+export function localDateFormatter(timezoneOffsetMinutes: number | null): DateFormatter {
+  if (timezoneOffsetMinutes === null) {
+    return (timestamp, pattern) => format(new Date(timestamp), pattern);
+  }
+  return (timestamp, pattern) => {
+    // A date whose local fields read as the wall clock of the requested zone
+    const shifted = new Date(timestamp + timezoneOffsetMinutes * 60000);
+    return format(new Date(shifted.getTime() + shifted.getTimezoneOffset() * 60000), pattern);
+  };
+}
+
+// Result of hashChain.verifyChain plus the proofs of the exported records
+export interface ChainIntegrity {
+  head: string | null;
+  valid: boolean;
+  proofs: Map<string, RecordProof>; // Keyed by exposure ID
+}
+
+/**
+ * Escape text for embedding in HTML
+ */
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Format exposure type for display
+ */
+function formatExposureType(type: string): string {
+  const typeMap: Record<string, string> = {
+    silica_dust: 'Silica Dust',
+    asbestos_class_a: 'Asbestos (Class A)',
+    asbestos_class_b: 'Asbestos (Class B)',
+    hazardous_chemicals: 'Hazardous Chemicals',
+    noise: 'Noise',
+    meth_contamination: 'Meth Contamination',
+    mould: 'Mould',
+    contaminated_soils: 'Contaminated Soils',
+    heat_stress: 'Heat Stress',
+    welding_fumes: 'Welding Fumes',
+    biological_hazards: 'Biological Hazards',
+    radiation: 'Radiation',
+    vibration: 'Vibration',
+    lead: 'Lead',
+    cold_exposure: 'Cold Exposure',
+    confined_space: 'Confined Space',
+  };
+  return typeMap[type] || type;
+}
+
+/**
+ * Noise dose rows of an entry, flagged when a limit is exceeded
+ */
+function noiseDoseHTML(exposure: ExposureForExport): string {
+  const dose = calculateNoiseDose(exposure.noiseSegments ?? [], exposure.noisePeakDbC ?? null);
+  if (!dose) {
+    return '';
+  }
+
+  const levels = (exposure.noiseSegments ?? [])
+    .map(segment => `${segment.levelDbA} dB(A) for ${segment.durationMinutes} min`)
+    .join(', ');
+  const warnings = [
+    dose.exceedsLex ? `Exceeds ${NOISE_LEX_LIMIT_DBA} dB(A) LEX,8h` : null,
+    dose.exceedsPeak
+      ? `Peak ${exposure.noisePeakDbC} dB(C) exceeds ${NOISE_PEAK_LIMIT_DBC} dB(C)`
+      : null,
+  ].filter(Boolean);
+
+  return `
+        <div class="detail-row">
+          <span class="label">Noise Levels:</span>
+          <span class="value">${levels}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Daily Noise Dose:</span>
+          <span class="value">LEX,8h ${dose.lexDbA} dB(A), ${dose.dosePercent}% of allowed dose${
+            warnings.length > 0 ? ` <strong>(${warnings.join('; ')})</strong>` : ''
+          }</span>
+        </div>`;
+}
+
+/**
+ * Vibration rows of an entry with the daily A(8) and its band
+ */
+function vibrationDoseHTML(exposure: ExposureForExport): string {
+  const dose = calculateVibrationDose(exposure.vibrationTools ?? []);
+  if (!dose) {
+    return '';
+  }
+
+  const band = describeVibrationDose(dose);
+
+  return `
+        <div class="detail-row">
+          <span class="label">Vibrating Tools:</span>
+          <span class="value">${escapeHTML(formatVibrationTools(exposure.vibrationTools ?? []))}</span>
+        </div>
+        <div class="detail-row">
+          <span class="label">Daily Vibration A(8):</span>
+          <span class="value">${dose.a8} m/s², ${dose.points} points${
+            dose.exceedsAction ? ` <strong>(${band})</strong>` : ` (${band})`
+          }</span>
+        </div>`;
+}
+
+/**
+ * Concentration and daily TWA rows of an entry, flagged when approaching or over the WES
+ */
+function twaHTML(exposure: ExposureForExport, twa: DailyTWA | undefined): string {
+  if (!exposure.concentration) {
+    return '';
+  }
+
+  const unit = twa ? CONCENTRATION_UNIT_LABELS[twa.standard.unit] : '';
+  const band = twa
+    ? `${describeTWA(twa)}, ${twa.percentOfWes}% of ${twa.standard.twa} ${unit}`
+    : '';
+
+  return `
+        <div class="detail-row">
+          <span class="label">Concentration:</span>
+          <span class="value">${formatConcentration(exposure.concentration)}</span>
+        </div>${
+          twa
+            ? `
+        <div class="detail-row">
+          <span class="label">Daily TWA:</span>
+          <span class="value">${twa.twa} ${unit} ${
+            twa.status === 'below' ? `(${band})` : `<strong>(${band})</strong>`
+          }</span>
+        </div>`
+            : ''
+        }`;
+}
+
+/**
+ * Format severity for display
+ */
+function formatSeverity(severity: string): string {
+  const severityMap: Record<string, string> = {
+    low: 'Low',
+    medium: 'Medium',
+    high: 'High',
+    // Symptom severities
+    mild: 'Mild',
+    moderate: 'Moderate',
+    severe: 'Severe',
+  };
+  return severityMap[severity] || severity;
+}
+
+/**
+ * Generate HTML for a single exposure entry
+ * Photos are not included, they go in the photo appendix
+ */
+function generateExposureHTML(
+  exposure: ExposureForExport,
+  index: number,
+  proof: RecordProof | undefined,
+  twa: DailyTWA | undefined,
+  formatDate: DateFormatter
+): string {
+  const locationText = exposure.location.siteName
+    ? `${exposure.location.siteName} (${exposure.location.address || 'Location captured'})`
+    : exposure.location.address ||
+      `${exposure.location.latitude.toFixed(4)}, ${exposure.location.longitude.toFixed(4)}`;
+
+  return `
+    <div class="exposure-entry" id="exposure-${index + 1}">
+      <h2>Exposure ${index + 1}: ${formatExposureType(exposure.exposureType)}</h2>
+
+      <div class="exposure-details">
+        <div class="detail-row">
+          <span class="label">Date & Time:</span>
+          <span class="value">${formatDate(exposure.timestamp, 'dd/MM/yyyy HH:mm')}</span>
+        </div>
+
+        <div class="detail-row">
+          <span class="label">Duration:</span>
+          <span class="value">${exposure.duration.hours}h ${exposure.duration.minutes}m</span>
+        </div>
+
+        <div class="detail-row">
+          <span class="label">Location:</span>
+          <span class="value">${locationText}</span>
+        </div>
+
+        <div class="detail-row">
+          <span class="label">Severity:</span>
+          <span class="value severity-${exposure.severity}">${formatSeverity(exposure.severity)}</span>
+        </div>
+
+        ${
+          exposure.ppe.length > 0
+            ? `
+        <div class="detail-row">
+          <span class="label">PPE Used:</span>
+          <span class="value">${exposure.ppe.join(', ')}</span>
+        </div>
+        `
+            : ''
+        }
+
+        <div class="detail-row">
+          <span class="label">Work Activity:</span>
+          <span class="value">${exposure.workActivity}</span>
+        </div>
+
+        ${
+          exposure.notes
+            ? `
+        <div class="detail-row">
+          <span class="label">Notes:</span>
+          <span class="value">${exposure.notes}</span>
+        </div>
+        `
+            : ''
+        }
+
+        ${
+          exposure.chemicalName
+            ? `
+        <div class="detail-row">
+          <span class="label">Chemical Name:</span>
+          <span class="value">${exposure.chemicalName}</span>
+        </div>
+        `
+            : ''
+        }
+
+        ${vibrationDoseHTML(exposure)}
+
+        ${twaHTML(exposure, twa)}
+
+        ${noiseDoseHTML(exposure)}
+
+        ${
+          exposure.bloodLeadTestReference
+            ? `
+        <div class="detail-row">
+          <span class="label">Blood-Lead Test:</span>
+          <span class="value">${escapeHTML(exposure.bloodLeadTestReference)}</span>
+        </div>
+        `
+            : ''
+        }
+
+        ${
+          exposure.sdsReference
+            ? `
+        <div class="detail-row">
+          <span class="label">SDS Reference:</span>
+          <span class="value">${exposure.sdsReference}</span>
+        </div>
+        `
+            : ''
+        }
+
+        ${
+          exposure.controlMeasures
+            ? `
+        <div class="detail-row">
+          <span class="label">Control Measures:</span>
+          <span class="value">${exposure.controlMeasures}</span>
+        </div>
+        `
+            : ''
+        }
+
+        <div class="detail-row">
+          <span class="label">Record Hash:</span>
+          <span class="value hash">${proof ? proof.hash : 'Not chained'}</span>
+        </div>
+      </div>
+    </div>
+  `;
+}
+
+/**
+ * Generate the integrity appendix: how to verify, then each record's chain entry
+ */
+function generateIntegrityHTML(exposures: ExposureForExport[], integrity: ChainIntegrity): string {
+  const proofsHTML = exposures
+    .map((exposure, index) => {
+      const proof = integrity.proofs.get(exposure._id);
+      if (!proof) {
+        return `
+      <div class="proof">
+        <strong>Exposure ${index + 1}</strong>: not yet chained
+      </div>
+    `;
+      }
+      return `
+      <div class="proof">
+        <strong>Exposure ${index + 1}</strong> (chain entry ${proof.sequence})
+        <div>Previous hash: <span class="hash">${proof.previousHash}</span></div>
+        <div>Record hash: <span class="hash">${proof.hash}</span></div>
+        <pre class="hash">${escapeHTML(proof.canonical)}</pre>
+      </div>
+    `;
+    })
+    .join('');
+
+  return `
+    <div class="integrity" id="integrity">
+      <h2>Integrity Verification</h2>
+      <p>
+        Each record is part of a hash chain kept by the server. A record's hash is the
+        lowercase hex SHA-256 of its previous hash followed directly by the canonical record
+        printed below, encoded as UTF-8. Recomputing it for any record must give the record hash
+        shown; a different result means the record was altered after it was written.
+      </p>
+      <p>
+        Chain head: <span class="hash">${integrity.head || 'Empty chain'}</span><br />
+        Chain verified by server at export: ${integrity.valid ? 'Yes' : 'No'}
+      </p>
+      ${proofsHTML}
+    </div>
+  `;
+}
+
+/**
+ * Generate the symptoms timeline: each symptom in order of onset with the time since
+ * each linked exposure in this document
+ */
+function generateSymptomTimelineHTML(
+  symptoms: SymptomForExport[],
+  exposures: ExposureForExport[],
+  photos: EmbeddedPhotos,
+  formatDate: DateFormatter
+): string {
+  const exposureNumbers = new Map(exposures.map((exposure, index) => [exposure._id, index + 1]));
+  const timeline = buildSymptomTimeline(symptoms, exposures);
+
+  const entries = timeline.map(({ symptom, links }) => {
+    const linksHTML =
+      links.length > 0
+        ? links
+            .map(link => {
+              const number = exposureNumbers.get(link.exposureId);
+              const timing =
+                link.hoursAfterExposure === null
+                  ? 'began before the exposure'
+                  : `${link.hoursAfterExposure} h after the exposure ended`;
+              return `<li><a href="#exposure-${number}">Exposure ${number}</a>: ${timing}</li>`;
+            })
+            .join('')
+        : '<li>No linked exposure in this report</li>';
+
+    const photoBase64s = photos.get(symptom._id) ?? [];
+
+    return `
+      <div class="symptom-entry">
+        <h3>${formatDate(symptom.onsetAt, 'dd/MM/yyyy HH:mm')} - ${escapeHTML(symptom.symptom)}</h3>
+        <div>${escapeHTML(bodySystemLabel(symptom.bodySystem))}, ${formatSeverity(symptom.severity)}</div>
+        ${symptom.notes ? `<div>${escapeHTML(symptom.notes)}</div>` : ''}
+        <ul>${linksHTML}</ul>
+        ${
+          photoBase64s.length > 0
+            ? `<div class="photo-grid">${photoBase64s
+                .map(base64 => `<img src="${base64}" alt="Symptom photo" class="photo-img" />`)
+                .join('')}</div>`
+            : ''
+        }
+      </div>
+    `;
+  });
+
+  return `
+    <div class="symptoms" id="symptoms">
+      <h2>Symptoms Timeline</h2>
+      <p>
+        Symptoms recorded by the worker in order of onset, with the time from the end of each
+        exposure they linked the symptom to.
+      </p>
+      ${entries.join('')}
+    </div>
+  `;
+}
+
+/**
+ * Hours of a duration, to one decimal place
+ */
+function durationHours(duration: { hours: number; minutes: number }): number {
+  return Math.round((duration.hours * 60 + duration.minutes) / 6) / 10;
+}
+
+/**
+ * Generate the summary: totals, hours per agent and exposures per severity
+ */
+function generateSummaryHTML(exposures: ExposureForExport[], formatDate: DateFormatter): string {
+  const register = buildExposureRegister(exposures);
+  const timestamps = exposures.map(exposure => exposure.timestamp);
+  const totalHours = durationHours({
+    hours: 0,
+    minutes: exposures.reduce(
+      (sum, exposure) => sum + exposure.duration.hours * 60 + exposure.duration.minutes,
+      0
+    ),
+  });
+  const unprotectedHours = register.reduce(
+    (sum, entry) => sum + (entry.hoursWithoutAdequatePPE ?? 0),
+    0
+  );
+  const photoCount = exposures.reduce((sum, exposure) => sum + (exposure.photoIds?.length || 0), 0);
+  const severityCounts = (['high', 'medium', 'low'] as const).map(severity => ({
+    severity,
+    count: exposures.filter(exposure => exposure.severity === severity).length,
+  }));
+
+  return `
+    <div class="document-section" id="summary">
+      <h2>Summary</h2>
+      <table>
+        <tbody>
+          <tr><th>Exposures</th><td>${exposures.length}</td></tr>
+          ${
+            timestamps.length > 0
+              ? `<tr><th>Period</th><td>${formatDate(Math.min(...timestamps), 'dd/MM/yyyy')} to ${formatDate(Math.max(...timestamps), 'dd/MM/yyyy')}</td></tr>`
+              : ''
+          }
+          <tr><th>Total Hours</th><td>${totalHours}</td></tr>
+          <tr><th>Hours Without Adequate PPE</th><td>${Math.round(unprotectedHours * 10) / 10}</td></tr>
+          <tr><th>Photos</th><td>${photoCount}</td></tr>
+        </tbody>
+      </table>
+
+      <h3>By Hazard</h3>
+      <table>
+        <thead>
+          <tr><th>Agent</th><th>Exposures</th><th>Hours</th><th>Hours Without Adequate PPE</th></tr>
+        </thead>
+        <tbody>
+          ${register
+            .map(
+              entry => `
+          <tr>
+            <td>${formatExposureType(entry.exposureType)}${
+              entry.substance ? `<br /><small>${escapeHTML(entry.substance)}</small>` : ''
+            }</td>
+            <td>${entry.exposureCount}</td>
+            <td>${entry.totalHours}</td>
+            <td>${entry.hoursWithoutAdequatePPE ?? 'N/A'}</td>
+          </tr>`
+            )
+            .join('')}
+        </tbody>
+      </table>
+
+      <h3>By Severity</h3>
+      <table>
+        <tbody>
+          ${severityCounts
+            .map(
+              ({ severity, count }) =>
+                `<tr><th class="severity-${severity}">${formatSeverity(severity)}</th><td>${count}</td></tr>`
+            )
+            .join('')}
+        </tbody>
+      </table>
+    </div>
+  `;
+}
+
+/**
+ * Generate the site summary: one row of totals per site, most hours first
+ */
+function generateSiteSummaryHTML(
+  exposures: ExposureForExport[],
+  formatDate: DateFormatter
+): string {
+  const rows = buildSiteSummary(exposures)
+    .map(
+      site => `
+        <tr>
+          <td>${escapeHTML(site.site)}</td>
+          <td>${site.exposureTypes.map(formatExposureType).join(', ')}</td>
+          <td>${site.exposureCount}</td>
+          <td>${site.totalHours}</td>
+          <td>${site.hoursWithoutAdequatePPE}</td>
+          <td>${formatDate(site.firstExposure, 'dd/MM/yyyy')}</td>
+          <td>${formatDate(site.lastExposure, 'dd/MM/yyyy')}</td>
+        </tr>`
+    )
+    .join('');
+
+  return `
+    <div class="document-section" id="sites">
+      <h2>Site Summary</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>Site</th>
+            <th>Hazards</th>
+            <th>Exposures</th>
+            <th>Hours</th>
+            <th>Hours Without Adequate PPE</th>
+            <th>First Exposure</th>
+            <th>Last Exposure</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>
+  `;
+}
+
+/**
+ * Generate the chronology: exposures oldest first with a running total of hours
+ * Numbers link to the exposure entries, numbered by their position in the document
+ */
+function generateChronologyHTML(exposures: ExposureForExport[], formatDate: DateFormatter): string {
+  const exposureNumbers = new Map(exposures.map((exposure, index) => [exposure._id, index + 1]));
+
+  const rows = buildClaimChronology(exposures)
+    .map(({ exposure, hours, cumulativeHours }) => {
+      const number = exposureNumbers.get(exposure._id);
+      return `
+        <tr>
+          <td><a href="#exposure-${number}">${number}</a></td>
+          <td>${formatDate(exposure.timestamp, 'dd/MM/yyyy HH:mm')}</td>
+          <td>${formatExposureType(exposure.exposureType)}${
+            exposure.chemicalName ? `<br /><small>${escapeHTML(exposure.chemicalName)}</small>` : ''
+          }</td>
+          <td>${escapeHTML(exposure.location.siteName || exposure.location.address || 'Location captured')}</td>
+          <td>${escapeHTML(exposure.workActivity)}</td>
+          <td>${exposure.ppe.length > 0 ? escapeHTML(exposure.ppe.join(', ')) : 'None'}</td>
+          <td>${hours}</td>
+          <td>${cumulativeHours}</td>
+        </tr>`;
+    })
+    .join('');
+
+  return `
+    <div class="document-section" id="chronology">
+      <h2>Chronology</h2>
+      <p>Exposures in date order, with the running total of hours exposed.</p>
+      <table>
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Date</th>
+            <th>Hazard</th>
+            <th>Site</th>
+            <th>Work Activity</th>
+            <th>PPE</th>
+            <th>Hours</th>
+            <th>Total Hours</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>
+  `;
+}
+
+/**
+ * Generate the photo appendix: each exposure's photos, numbered after the exposure
+ */
+function generatePhotoAppendixHTML(
+  exposures: ExposureForExport[],
+  photos: EmbeddedPhotos,
+  formatDate: DateFormatter
+): string {
+  const entries = exposures.map((exposure, index) => {
+    const exposurePhotos = photos.get(exposure._id) ?? [];
+    if (exposurePhotos.length === 0) {
+      return '';
+    }
+    const number = index + 1;
+    return `
+      <h3>Exposure ${number}: ${formatExposureType(exposure.exposureType)} - ${formatDate(exposure.timestamp, 'dd/MM/yyyy')}</h3>
+      <div class="photo-grid">
+        ${exposurePhotos
+          .map(
+            (base64, photoIndex) => `
+        <figure class="appendix-photo">
+          <img src="${base64}" alt="Photo ${number}.${photoIndex + 1}" class="photo-img" />
+          <figcaption>Photo ${number}.${photoIndex + 1}</figcaption>
+        </figure>`
+          )
+          .join('')}
+      </div>
+    `;
+  });
+
+  return `
+    <div class="document-section" id="photos">
+      <h2>Photo Appendix</h2>
+      ${entries.join('') || '<p>No photos were recorded with these exposures.</p>'}
+    </div>
+  `;
+}
+
+/**
+ * Generate the site map: sites plotted from their GPS coordinates, north up,
+ * with a link to each on OpenStreetMap. Drawn as SVG so the export works offline.
+ */
+function generateSiteMapHTML(exposures: ExposureForExport[]): string {
+  const sites = buildSiteSummary(exposures);
+  const width = 700;
+  const height = 400;
+  const padding = 40;
+
+  // Longitude shrinks towards the poles, scale it so distances look right
+  const midLatitude = sites.reduce((sum, site) => sum + site.latitude, 0) / (sites.length || 1);
+  const xScale = Math.cos((midLatitude * Math.PI) / 180);
+  const xs = sites.map(site => site.longitude * xScale);
+  const ys = sites.map(site => site.latitude);
+  const centreX = (Math.min(...xs) + Math.max(...xs)) / 2;
+  const centreY = (Math.min(...ys) + Math.max(...ys)) / 2;
+  // At least ~200 m across so a single site sits in the middle
+  const spanX = Math.max(Math.max(...xs) - Math.min(...xs), 0.002);
+  const spanY = Math.max(Math.max(...ys) - Math.min(...ys), 0.002);
+  const scale = Math.min((width - 2 * padding) / spanX, (height - 2 * padding) / spanY);
+
+  const markers = xs
+    .map((siteX, index) => {
+      const x = width / 2 + (siteX - centreX) * scale;
+      const y = height / 2 - (ys[index] - centreY) * scale;
+      return `
+        <circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="10" fill="#0066CC" />
+        <text x="${x.toFixed(1)}" y="${(y + 4).toFixed(1)}" font-size="11" fill="#fff" text-anchor="middle">${index + 1}</text>`;
+    })
+    .join('');
+
+  const rows = sites
+    .map(
+      (site, index) => `
+        <tr>
+          <td>${index + 1}</td>
+          <td>${escapeHTML(site.site)}</td>
+          <td><a href="https://www.openstreetmap.org/?mlat=${site.latitude}&amp;mlon=${site.longitude}#map=17/${site.latitude}/${site.longitude}">${site.latitude.toFixed(5)}, ${site.longitude.toFixed(5)}</a></td>
+          <td>${site.exposureCount}</td>
+          <td>${site.totalHours}</td>
+        </tr>`
+    )
+    .join('');
+
+  return `
+    <div class="document-section site-map" id="map">
+      <h2>Site Map</h2>
+      <p>Sites plotted from their recorded GPS coordinates, north up. Follow a link for the street map.</p>
+      <svg viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg" role="img" aria-label="Map of exposure sites">
+        ${markers}
+      </svg>
+      <table>
+        <thead>
+          <tr><th>#</th><th>Site</th><th>Coordinates</th><th>Exposures</th><th>Hours</th></tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>
+  `;
+}
+
+// Styles of the full documents: cover page, table of contents and sections
+const DOCUMENT_STYLES = `
+  * {
+    margin: 0;
+    padding: 0;
+    box-sizing: border-box;
+  }
+
+  body {
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+    font-size: 11pt;
+    line-height: 1.6;
+    color: #333;
+    max-width: 800px;
+    margin: 0 auto;
+    padding: 40px 20px;
+  }
+
+  /* Cover Page */
+  .cover-page {
+    page-break-after: always;
+    text-align: center;
+    padding: 100px 0;
+  }
+
+  .cover-page h1 {
+    font-size: 32pt;
+    margin-bottom: 40px;
+    color: #0066CC;
+  }
+
+  .cover-page .subtitle {
+    font-size: 16pt;
+    color: #666;
+    margin-bottom: 60px;
+  }
+
+  .cover-page .user-info {
+    text-align: left;
+    max-width: 400px;
+    margin: 0 auto;
+    padding: 30px;
+    background: #f5f5f5;
+    border-radius: 8px;
+  }
+
+  .cover-page .user-info div {
+    margin-bottom: 10px;
+  }
+
+  .cover-page .user-info .label {
+    font-weight: 600;
+    display: inline-block;
+    width: 120px;
+  }
+
+  .cover-page .generated {
+    margin-top: 60px;
+    font-size: 10pt;
+    color: #999;
+  }
+
+  /* Table of Contents */
+  .toc {
+    page-break-after: always;
+    padding: 40px 0;
+  }
+
+  .toc h2 {
+    font-size: 24pt;
+    margin-bottom: 30px;
+    color: #0066CC;
+  }
+
+  .toc ul {
+    list-style: none;
+  }
+
+  .toc li {
+    margin-bottom: 15px;
+    padding-left: 20px;
+    border-left: 3px solid #0066CC;
+  }
+
+  .toc a {
+    text-decoration: none;
+    color: #333;
+    font-size: 12pt;
+  }
+
+  .toc a:hover {
+    color: #0066CC;
+  }
+
+  /* Exposure Entries */
+  .exposure-entry {
+    page-break-before: always;
+    padding: 40px 0;
+  }
+
+  .exposure-entry h2 {
+    font-size: 20pt;
+    color: #0066CC;
+    margin-bottom: 20px;
+    padding-bottom: 10px;
+    border-bottom: 2px solid #0066CC;
+  }
+
+  .exposure-details {
+    margin-bottom: 30px;
+  }
+
+  .detail-row {
+    display: flex;
+    margin-bottom: 15px;
+    padding: 10px;
+    background: #f9f9f9;
+    border-radius: 4px;
+  }
+
+  .detail-row .label {
+    font-weight: 600;
+    min-width: 180px;
+    color: #555;
+  }
+
+  .detail-row .value {
+    flex: 1;
+  }
+
+  .severity-low {
+    color: #28a745;
+  }
+
+  .severity-medium {
+    color: #ffc107;
+  }
+
+  .severity-high {
+    color: #dc3545;
+  }
+
+  /* Photos */
+  .photo-grid {
+    display: grid;
+    grid-template-columns: repeat(2, 1fr);
+    gap: 15px;
+    margin-bottom: 20px;
+  }
+
+  .photo-img {
+    width: 100%;
+    height: auto;
+    border-radius: 8px;
+    border: 1px solid #ddd;
+    box-shadow: 0 2px 4px rgba(0,0,0,0.1);
+  }
+
+  /* Symptoms Timeline */
+  .symptoms {
+    page-break-before: always;
+    padding: 40px 0;
+  }
+
+  .symptoms h2 {
+    font-size: 20pt;
+    color: #0066CC;
+    margin-bottom: 20px;
+  }
+
+  .symptom-entry {
+    margin-bottom: 20px;
+    padding-left: 10px;
+    border-left: 3px solid #0066CC;
+    page-break-inside: avoid;
+  }
+
+  .symptom-entry h3 {
+    font-size: 13pt;
+    margin-bottom: 5px;
+  }
+
+  /* Integrity Verification */
+  .hash {
+    font-family: "Courier New", Courier, monospace;
+    font-size: 8pt;
+    word-break: break-all;
+  }
+
+  .integrity {
+    page-break-before: always;
+    padding: 40px 0;
+  }
+
+  .integrity h2 {
+    font-size: 20pt;
+    color: #0066CC;
+    margin-bottom: 20px;
+  }
+
+  .integrity p {
+    margin-bottom: 15px;
+  }
+
+  .proof {
+    margin-bottom: 20px;
+    padding: 10px;
+    background: #f9f9f9;
+    border-radius: 4px;
+    page-break-inside: avoid;
+  }
+
+  .proof pre {
+    white-space: pre-wrap;
+    word-break: break-all;
+  }
+
+  /* Sections */
+  .document-section {
+    page-break-before: always;
+    padding: 40px 0;
+  }
+
+  .document-section h2 {
+    font-size: 20pt;
+    color: #0066CC;
+    margin-bottom: 20px;
+  }
+
+  .document-section h3 {
+    font-size: 14pt;
+    color: #0066CC;
+    margin: 20px 0 10px;
+  }
+
+  .document-section p {
+    margin-bottom: 15px;
+  }
+
+  .document-section table {
+    width: 100%;
+    border-collapse: collapse;
+    margin: 10px 0 20px;
+    font-size: 10pt;
+  }
+
+  .document-section th,
+  .document-section td {
+    border: 1px solid #ccc;
+    padding: 6px;
+    text-align: left;
+    vertical-align: top;
+  }
+
+  .document-section th {
+    background: #f5f5f5;
+  }
+
+  .site-map svg {
+    width: 100%;
+    height: auto;
+    border: 1px solid #ccc;
+    border-radius: 8px;
+    background: #f0f5fa;
+  }
+
+  /* Claim Pack */
+  .declaration {
+    margin-top: 30px;
+    padding: 15px;
+    background: #f5f5f5;
+    border-radius: 4px;
+  }
+
+  .signature-line {
+    margin-top: 40px;
+    padding-top: 5px;
+    border-top: 1px solid #333;
+    width: 300px;
+  }
+
+  .appendix-photo {
+    page-break-inside: avoid;
+  }
+
+  .appendix-photo figcaption {
+    font-size: 9pt;
+    color: #666;
+    margin-top: 5px;
+  }
+
+  /* Print styles */
+  @media print {
+    body {
+      padding: 0;
+    }
+
+    .cover-page, .toc, .exposure-entry {
+      page-break-before: always;
+    }
+  }
+`;
+
+/**
+ * Generate the cover page with the worker's details, followed by the document's own rows
+ */
+function generateCoverPageHTML(
+  title: string,
+  subtitle: string,
+  userInfo: UserInfo,
+  extraRows: string,
+  formatDate: DateFormatter
+): string {
+  return `
+        <div class="cover-page">
+          <h1>${title}</h1>
+          <div class="subtitle">
+            ${subtitle}
+          </div>
+
+          <div class="user-info">
+            <div>
+              <span class="label">Name:</span>
+              <span>${userInfo.name || 'N/A'}</span>
+            </div>
+            <div>
+              <span class="label">Email:</span>
+              <span>${userInfo.email}</span>
+            </div>
+            ${
+              userInfo.phoneNumber
+                ? `
+            <div>
+              <span class="label">Phone:</span>
+              <span>${userInfo.phoneNumber}</span>
+            </div>
+            `
+                : ''
+            }
+            ${
+              userInfo.occupation
+                ? `
+            <div>
+              <span class="label">Occupation:</span>
+              <span>${userInfo.occupation}</span>
+            </div>
+            `
+                : ''
+            }
+            ${
+              userInfo.employer
+                ? `
+            <div>
+              <span class="label">Employer:</span>
+              <span>${userInfo.employer}</span>
+            </div>
+            `
+                : ''
+            }
+            ${extraRows}
+          </div>
+
+          <div class="generated">
+            Generated on ${formatDate(Date.now(), 'dd/MM/yyyy HH:mm')} via Waldo Health
+          </div>
+        </div>
+  `;
+}
+
+/**
+ * Table of contents entries linking to each exposure entry
+ */
+function generateExposureTocHTML(
+  exposures: ExposureForExport[],
+  formatDate: DateFormatter
+): string {
+  return exposures
+    .map(
+      (exposure, index) => `
+      <li>
+        <a href="#exposure-${index + 1}">
+          ${formatExposureType(exposure.exposureType)} - ${formatDate(exposure.timestamp, 'dd/MM/yyyy HH:mm')}
+        </a>
+      </li>
+    `
+    )
+    .join('');
+}
+
+/**
+ * Daily TWA of each exposure, grouped by the worker's local days
+ */
+function twaByExposureOf(
+  exposures: ExposureForExport[],
+  timezoneOffsetMinutes: number | null
+): Map<string, DailyTWA> {
+  return dailyTWAByExposure(
+    calculateDailyTWA(
+      exposures.map(exposure => ({ ...exposure, id: exposure._id })),
+      timezoneOffsetMinutes ?? -new Date().getTimezoneOffset()
+    )
+  );
+}
+
+/**
+ * Wrap the body of a document in a page with the document styles
+ */
+function documentHTML(title: string, body: string, styles: string = DOCUMENT_STYLES): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1">
+        <title>${title}</title>
+        <style>${styles}</style>
+      </head>
+      <body>
+        ${body}
+      </body>
+    </html>
+  `;
+}
+
+/**
+ * T066: Build the export document with the sections of an export template, in its order
+ */
+export function buildExportHTML(
+  exposures: ExposureForExport[],
+  userInfo: UserInfo,
+  photos: EmbeddedPhotos = new Map(),
+  integrity: ChainIntegrity | null = null,
+  symptoms: SymptomForExport[] = [],
+  template: ExportTemplate = DEFAULT_TEMPLATE,
+  timezoneOffsetMinutes: number | null = null
+): string {
+  const formatDate = localDateFormatter(timezoneOffsetMinutes);
+
+  // Sections with nothing to show are left out, along with their TOC entry
+  const sections = enabledSections(template).filter(
+    id =>
+      (id !== 'symptoms' || symptoms.length > 0) &&
+      (id !== 'integrity' || integrity !== null) &&
+      (id !== 'map' || exposures.length > 0)
+  );
+
+  const twaByExposure = twaByExposureOf(exposures, timezoneOffsetMinutes);
+
+  const coverRows = `
+            <div>
+              <span class="label">Total Exposures:</span>
+              <span>${exposures.length}</span>
+            </div>
+            ${
+              integrity
+                ? `
+            <div>
+              <span class="label">Chain Verified:</span>
+              <span>${integrity.valid ? 'Yes' : 'No, see Integrity Verification'}</span>
+            </div>
+            <div>
+              <span class="label">Chain Head:</span>
+              <span class="hash">${integrity.head || 'Empty chain'}</span>
+            </div>
+            `
+                : ''
+            }`;
+
+  // Generate table of contents
+  const tocEntries = sections
+    .filter(id => id !== 'cover' && id !== 'toc')
+    .map(id =>
+      id === 'exposures'
+        ? generateExposureTocHTML(exposures, formatDate)
+        : `<li><a href="#${id}">${EXPORT_SECTIONS.find(section => section.id === id)?.label}</a></li>`
+    )
+    .join('');
+
+  const renderSection = (id: ExportSectionId): string => {
+    switch (id) {
+      case 'cover':
+        return generateCoverPageHTML(
+          'Workplace Exposure Documentation',
+          'Professional Record for ACC Claims',
+          userInfo,
+          coverRows,
+          formatDate
+        );
+      case 'toc':
+        return `
+        <div class="toc">
+          <h2>Table of Contents</h2>
+          <ul>
+            ${tocEntries}
+          </ul>
+        </div>`;
+      case 'summary':
+        return generateSummaryHTML(exposures, formatDate);
+      case 'sites':
+        return generateSiteSummaryHTML(exposures, formatDate);
+      case 'chronology':
+        return generateChronologyHTML(exposures, formatDate);
+      case 'exposures':
+        return exposures
+          .map((exposure, index) =>
+            generateExposureHTML(
+              exposure,
+              index,
+              integrity?.proofs.get(exposure._id),
+              twaByExposure.get(exposure._id),
+              formatDate
+            )
+          )
+          .join('\n');
+      case 'photos':
+        return generatePhotoAppendixHTML(exposures, photos, formatDate);
+      case 'map':
+        return generateSiteMapHTML(exposures);
+      case 'symptoms':
+        return generateSymptomTimelineHTML(symptoms, exposures, photos, formatDate);
+      case 'integrity':
+        return integrity ? generateIntegrityHTML(exposures, integrity) : '';
+    }
+  };
+
+  return documentHTML('Workplace Exposure Documentation', sections.map(renderSection).join('\n'));
+}
+
+/**
+ * Generate the cumulative exposure register section: one row of lifetime totals per agent
+ * The description replaces the lifetime wording when the register covers fewer exposures
+ */
+function generateRegisterHTML(
+  register: ExposureRegister,
+  formatDate: DateFormatter,
+  description?: string
+): string {
+  const rows = register.entries
+    .map(
+      entry => `
+        <tr>
+          <td>${formatExposureType(entry.exposureType)}${
+            entry.substance ? `<br /><small>${escapeHTML(entry.substance)}</small>` : ''
+          }</td>
+          <td>${entry.totalHours}</td>
+          <td>${entry.hoursWithoutAdequatePPE ?? 'N/A'}</td>
+          <td>${formatDate(entry.firstExposure, 'dd/MM/yyyy')}</td>
+          <td>${formatDate(entry.lastExposure, 'dd/MM/yyyy')}</td>
+          <td>${entry.siteCount}</td>
+          <td>${entry.exposureCount}</td>
+        </tr>`
+    )
+    .join('');
+
+  return `
+    <div class="register">
+      <h2>Cumulative Exposure Register</h2>
+      <p>
+        ${description ?? `Lifetime totals per hazard agent across all ${register.exposureCount} recorded exposures.`}
+        Hours without adequate PPE count exposures where no PPE suited to the agent was recorded.
+      </p>
+      <p>
+        Employers: ${register.employers.length > 0 ? register.employers.map(escapeHTML).join(', ') : 'Not recorded'}
+      </p>
+      <table>
+        <thead>
+          <tr>
+            <th>Agent</th>
+            <th>Total Hours</th>
+            <th>Hours Without Adequate PPE</th>
+            <th>First Exposure</th>
+            <th>Last Exposure</th>
+            <th>Sites</th>
+            <th>Exposures</th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>
+  `;
+}
+
+// Styles of the standalone register
+const REGISTER_STYLES = `
+          body {
+            font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif;
+            font-size: 11pt;
+            line-height: 1.6;
+            color: #333;
+            max-width: 800px;
+            margin: 0 auto;
+            padding: 40px 20px;
+          }
+
+          h1 {
+            font-size: 22pt;
+            color: #0066CC;
+            margin-bottom: 10px;
+          }
+
+          h2 {
+            font-size: 16pt;
+            color: #0066CC;
+            margin: 20px 0 10px;
+          }
+
+          .user-info {
+            margin-bottom: 20px;
+          }
+
+          .register table {
+            width: 100%;
+            border-collapse: collapse;
+            margin-top: 10px;
+          }
+
+          .register th,
+          .register td {
+            border: 1px solid #ccc;
+            padding: 6px;
+            text-align: left;
+            vertical-align: top;
+          }
+
+          .register th {
+            background: #f5f5f5;
+          }
+
+          .generated {
+            margin-top: 20px;
+            font-size: 9pt;
+            color: #666;
+          }
+`;
+
+/**
+ * Build the cumulative exposure register as its own document
+ */
+export function buildRegisterHTML(
+  register: ExposureRegister,
+  userInfo: UserInfo,
+  timezoneOffsetMinutes: number | null = null
+): string {
+  const formatDate = localDateFormatter(timezoneOffsetMinutes);
+
+  return documentHTML(
+    'Cumulative Exposure Register',
+    `
+        <h1>Cumulative Exposure Register</h1>
+        <div class="user-info">
+          <div>Name: ${escapeHTML(userInfo.name || 'N/A')}</div>
+          <div>Email: ${escapeHTML(userInfo.email)}</div>
+          ${userInfo.occupation ? `<div>Occupation: ${escapeHTML(userInfo.occupation)}</div>` : ''}
+        </div>
+
+        ${generateRegisterHTML(register, formatDate)}
+
+        <div class="generated">
+          Generated on ${formatDate(Date.now(), 'dd/MM/yyyy HH:mm')} via Waldo Health
+        </div>
+    `,
+    REGISTER_STYLES
+  );
+}
+
+/**
+ * Free text as escaped paragraphs, split on blank lines
+ */
+function paragraphsHTML(text: string): string {
+  return text
+    .trim()
+    .split(/\n\s*\n/)
+    .map(paragraph => `<p>${escapeHTML(paragraph.trim()).replace(/\n/g, '<br />')}</p>`)
+    .join('');
+}
+
+/**
+ * Build an ACC claim pack from the exposures the worker picked
+ * Same cover page and index layout as buildExportHTML, with the exposure records in date order
+ */
+export function buildClaimPackHTML(
+  exposures: ExposureForExport[],
+  userInfo: UserInfo,
+  details: ClaimPackDetails,
+  photos: EmbeddedPhotos = new Map(),
+  integrity: ChainIntegrity | null = null,
+  timezoneOffsetMinutes: number | null = null
+): string {
+  const formatDate = localDateFormatter(timezoneOffsetMinutes);
+  const ordered = buildClaimChronology(exposures).map(entry => entry.exposure);
+  const employerName = details.employer.name.trim() || userInfo.employer;
+
+  const twaByExposure = twaByExposureOf(ordered, timezoneOffsetMinutes);
+
+  const exposureEntries = ordered.map((exposure, index) =>
+    generateExposureHTML(
+      exposure,
+      index,
+      integrity?.proofs.get(exposure._id),
+      twaByExposure.get(exposure._id),
+      formatDate
+    )
+  );
+  const appendixHTML = generatePhotoAppendixHTML(ordered, photos, formatDate);
+
+  const firstExposure = ordered[0]?.timestamp;
+  const lastExposure = ordered[ordered.length - 1]?.timestamp;
+
+  const coverRows = `
+            ${
+              details.employer.contact.trim()
+                ? `
+            <div>
+              <span class="label">Employer Contact:</span>
+              <span>${escapeHTML(details.employer.contact.trim())}</span>
+            </div>
+            `
+                : ''
+            }
+            ${
+              details.employer.address.trim()
+                ? `
+            <div>
+              <span class="label">Employer Address:</span>
+              <span>${escapeHTML(details.employer.address.trim())}</span>
+            </div>
+            `
+                : ''
+            }
+            <div>
+              <span class="label">Exposures:</span>
+              <span>${exposures.length}</span>
+            </div>
+            ${
+              firstExposure !== undefined && lastExposure !== undefined
+                ? `
+            <div>
+              <span class="label">Period:</span>
+              <span>${formatDate(firstExposure, 'dd/MM/yyyy')} to ${formatDate(lastExposure, 'dd/MM/yyyy')}</span>
+            </div>
+            `
+                : ''
+            }`;
+
+  return documentHTML(
+    'ACC Claim Pack',
+    `
+        <!-- Cover Page -->
+        ${generateCoverPageHTML(
+          'ACC Claim Pack',
+          'Workplace Exposure Evidence',
+          { ...userInfo, employer: employerName ? escapeHTML(employerName) : null },
+          coverRows,
+          formatDate
+        )}
+
+        <!-- Index -->
+        <div class="toc">
+          <h2>Index</h2>
+          <ul>
+            <li><a href="#statement">Sworn Statement</a></li>
+            <li><a href="#chronology">Chronology</a></li>
+            <li><a href="#totals">Cumulative Totals</a></li>
+            <li><a href="#notes">Symptoms and Medical Notes</a></li>
+            ${generateExposureTocHTML(ordered, formatDate)}
+            <li><a href="#photos">Photo Appendix</a></li>
+            ${integrity ? '<li><a href="#integrity">Integrity Verification</a></li>' : ''}
+          </ul>
+        </div>
+
+        <!-- Sworn Statement -->
+        <div class="document-section" id="statement">
+          <h2>Sworn Statement</h2>
+          ${paragraphsHTML(details.statement)}
+          <div class="declaration">
+            I, ${escapeHTML(userInfo.name || '______________________')}, declare that this statement
+            and the exposure records in this claim pack are true and correct to the best of my
+            knowledge.
+          </div>
+          <div class="signature-line">Signature</div>
+          <div class="signature-line">Date</div>
+          <div class="signature-line">Witness name, signature and occupation</div>
+        </div>
+
+        <!-- Chronology -->
+        ${generateChronologyHTML(ordered, formatDate)}
+
+        <!-- Cumulative Totals -->
+        <div class="document-section" id="totals">
+          ${generateRegisterHTML(
+            {
+              entries: buildExposureRegister(ordered),
+              employers: employerName ? [employerName] : [],
+              exposureCount: ordered.length,
+            },
+            formatDate,
+            `Totals per hazard agent across the ${ordered.length} exposures in this claim pack.`
+          )}
+        </div>
+
+        <!-- Symptoms and Medical Notes -->
+        <div class="document-section" id="notes">
+          <h2>Symptoms and Medical Notes</h2>
+          <h3>Symptoms</h3>
+          ${details.symptomNotes.trim() ? paragraphsHTML(details.symptomNotes) : '<p>None recorded</p>'}
+          <h3>Medical Notes</h3>
+          ${details.medicalNotes.trim() ? paragraphsHTML(details.medicalNotes) : '<p>None recorded</p>'}
+        </div>
+
+        <!-- Exposure Records -->
+        ${exposureEntries.join('\n')}
+
+        <!-- Photo Appendix -->
+        ${appendixHTML}
+
+        <!-- Integrity Verification -->
+        ${integrity ? generateIntegrityHTML(ordered, integrity) : ''}
+    `
+  );
+}
@@ -1,10 +1,150 @@
 /**
  * Convex Mutations and Queries for Photo Management
  * Handles photo uploads and EXIF metadata storage
+ *
+ * Large photos use resumable uploads: the client stores the file as a series
+ * of chunks, can ask how many bytes the server already has after a dropped
+ * connection, and completeUpload assembles the chunks into one file.
  */
 
 import { v } from 'convex/values';
-import { mutation, query } from './_generated/server';
+import {
+  action,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  MutationCtx,
+} from './_generated/server';
+import { internal } from './_generated/api';
+import { Doc, Id } from './_generated/dataModel';
+import { appendToChain } from './hashChain';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_PHOTOS_PER_EXPOSURE = 5;
+const VALID_MIME_TYPES = ['image/jpeg', 'image/jpg', 'image/png'];
+
+const exifValidator = v.union(
+  v.object({
+    latitude: v.union(v.number(), v.null()),
+    longitude: v.union(v.number(), v.null()),
+    timestamp: v.union(v.number(), v.null()),
+    make: v.union(v.string(), v.null()),
+    model: v.union(v.string(), v.null()),
+    orientation: v.union(v.number(), v.null()),
+  }),
+  v.null()
+);
+
+interface PhotoMetadata {
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  width: number;
+  height: number;
+  exif: Doc<'photos'>['exif'];
+  contentHash?: string;
+}
+
+/**
+ * Check file size, type and the per-exposure photo limit before an upload starts
+ */
+async function checkUploadAllowed(
+  ctx: MutationCtx,
+  exposureId: Id<'exposures'>,
+  fileSize: number,
+  mimeType: string
+): Promise<void> {
+  // Validate file size (max 10MB)
+  if (fileSize > MAX_FILE_SIZE) {
+    throw new Error('File size exceeds 10MB limit');
+  }
+
+  // Validate mime type
+  if (!VALID_MIME_TYPES.includes(mimeType)) {
+    throw new Error('Invalid file type. Only JPEG and PNG images are supported');
+  }
+
+  // Check photo count limit (max 5 per exposure)
+  const existingPhotos = await ctx.db
+    .query('photos')
+    .withIndex('by_exposureId', q => q.eq('exposureId', exposureId))
+    .collect();
+
+  const activePhotos = existingPhotos.filter(p => !p.isDeleted);
+  if (activePhotos.length >= MAX_PHOTOS_PER_EXPOSURE) {
+    throw new Error('Maximum 5 photos per exposure');
+  }
+}
+
+/**
+ * Validate image dimensions and EXIF GPS
+ */
+function validatePhotoMetadata(metadata: PhotoMetadata): void {
+  // Validate dimensions
+  const maxDimension = 4096;
+  if (metadata.width > maxDimension || metadata.height > maxDimension) {
+    throw new Error('Image dimensions exceed 4096px limit');
+  }
+  if (metadata.width <= 0 || metadata.height <= 0) {
+    throw new Error('Invalid image dimensions');
+  }
+
+  // Validate EXIF GPS if present
+  if (metadata.exif) {
+    if (metadata.exif.latitude !== null) {
+      if (metadata.exif.latitude < -90 || metadata.exif.latitude > 90) {
+        throw new Error('Invalid EXIF latitude');
+      }
+    }
+    if (metadata.exif.longitude !== null) {
+      if (metadata.exif.longitude < -180 || metadata.exif.longitude > 180) {
+        throw new Error('Invalid EXIF longitude');
+      }
+    }
+  }
+}
+
+/**
+ * Create the photo record and append it to the exposure's photoIds
+ */
+async function insertPhoto(
+  ctx: MutationCtx,
+  exposure: Doc<'exposures'>,
+  storageId: string,
+  metadata: PhotoMetadata
+): Promise<Id<'photos'>> {
+  const photoId = await ctx.db.insert('photos', {
+    exposureId: exposure._id,
+    userId: exposure.userId,
+    storageId,
+    localUri: null, // Only used on mobile device
+    fileName: metadata.fileName,
+    fileSize: metadata.fileSize,
+    mimeType: metadata.mimeType,
+    width: metadata.width,
+    height: metadata.height,
+    exif: metadata.exif,
+    uploadStatus: 'uploaded',
+    uploadProgress: 100,
+    retryCount: 0,
+    uploadedAt: Date.now(),
+    contentHash: metadata.contentHash,
+    isDeleted: false,
+    deletedAt: null,
+  });
+
+  // Update exposure's photoIds array
+  const currentPhotoIds = exposure.photoIds || [];
+  await ctx.db.patch(exposure._id, {
+    photoIds: [...currentPhotoIds, photoId],
+    updatedAt: Date.now(),
+  });
+  // updatedAt is chained, so the new version must be too
+  await appendToChain(ctx, exposure._id);
+
+  return photoId;
+}
 
 /**
  * T035: Generate upload URL for photo
@@ -43,28 +183,7 @@ export const generateUploadUrl = mutation({
       throw new Error('Not authorized to upload photos for this exposure');
     }
 
-    // Validate file size (max 10MB)
-    const maxSize = 10 * 1024 * 1024; // 10MB
-    if (args.fileSize > maxSize) {
-      throw new Error('File size exceeds 10MB limit');
-    }
-
-    // Validate mime type
-    const validMimeTypes = ['image/jpeg', 'image/jpg', 'image/png'];
-    if (!validMimeTypes.includes(args.mimeType)) {
-      throw new Error('Invalid file type. Only JPEG and PNG images are supported');
-    }
-
-    // Check photo count limit (max 5 per exposure)
-    const existingPhotos = await ctx.db
-      .query('photos')
-      .withIndex('by_exposureId', q => q.eq('exposureId', args.exposureId))
-      .collect();
-
-    const activePhotos = existingPhotos.filter(p => !p.isDeleted);
-    if (activePhotos.length >= 5) {
-      throw new Error('Maximum 5 photos per exposure');
-    }
+    await checkUploadAllowed(ctx, args.exposureId, args.fileSize, args.mimeType);
 
     // Generate upload URL
     const uploadUrl = await ctx.storage.generateUploadUrl();
@@ -86,17 +205,8 @@ export const confirmUpload = mutation({
     mimeType: v.string(),
     width: v.number(),
     height: v.number(),
-    exif: v.union(
-      v.object({
-        latitude: v.union(v.number(), v.null()),
-        longitude: v.union(v.number(), v.null()),
-        timestamp: v.union(v.number(), v.null()),
-        make: v.union(v.string(), v.null()),
-        model: v.union(v.string(), v.null()),
-        orientation: v.union(v.number(), v.null()),
-      }),
-      v.null()
-    ),
+    exif: exifValidator,
+    contentHash: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     // Get authenticated user
@@ -124,56 +234,351 @@ export const confirmUpload = mutation({
       throw new Error('Not authorized to add photos to this exposure');
     }
 
-    // Validate dimensions
-    const maxDimension = 4096;
-    if (args.width > maxDimension || args.height > maxDimension) {
-      throw new Error('Image dimensions exceed 4096px limit');
+    validatePhotoMetadata(args);
+
+    // Create photo record
+    return await insertPhoto(ctx, exposure, args.storageId, args);
+  },
+});
+
+/**
+ * Start or resume a resumable photo upload
+ * Skips the upload entirely when the user already has a photo with the same
+ * content hash: on the same exposure that photo is returned, on another
+ * exposure a new photo record reuses the stored file
+ */
+export const startUpload = mutation({
+  args: {
+    exposureId: v.id('exposures'),
+    contentHash: v.string(),
+    fileName: v.string(),
+    fileSize: v.number(),
+    mimeType: v.string(),
+    width: v.number(),
+    height: v.number(),
+    exif: exifValidator,
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<
+    | { status: 'duplicate'; photoId: Id<'photos'> }
+    | { status: 'started'; uploadId: Id<'photoUploads'>; receivedBytes: number }
+  > => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
     }
-    if (args.width <= 0 || args.height <= 0) {
-      throw new Error('Invalid image dimensions');
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
     }
 
-    // Validate EXIF GPS if present
-    if (args.exif) {
-      if (args.exif.latitude !== null) {
-        if (args.exif.latitude < -90 || args.exif.latitude > 90) {
-          throw new Error('Invalid EXIF latitude');
-        }
-      }
-      if (args.exif.longitude !== null) {
-        if (args.exif.longitude < -180 || args.exif.longitude > 180) {
-          throw new Error('Invalid EXIF longitude');
-        }
-      }
+    // Verify exposure exists and belongs to user
+    const exposure = await ctx.db.get(args.exposureId);
+    if (!exposure) {
+      throw new Error('Exposure not found');
+    }
+    if (exposure.userId !== user._id) {
+      throw new Error('Not authorized to upload photos for this exposure');
     }
 
-    // Create photo record
-    const photoId = await ctx.db.insert('photos', {
-      exposureId: args.exposureId,
+    // Skip duplicates by content hash
+    const samePhotos = await ctx.db
+      .query('photos')
+      .withIndex('by_userId_contentHash', q =>
+        q.eq('userId', user._id).eq('contentHash', args.contentHash)
+      )
+      .collect();
+    const activeSame = samePhotos.filter(p => !p.isDeleted);
+    const onExposure = activeSame.find(p => p.exposureId === args.exposureId);
+    if (onExposure) {
+      return { status: 'duplicate', photoId: onExposure._id };
+    }
+
+    await checkUploadAllowed(ctx, args.exposureId, args.fileSize, args.mimeType);
+    validatePhotoMetadata(args);
+
+    if (activeSame.length > 0) {
+      const photoId = await insertPhoto(ctx, exposure, activeSame[0].storageId, args);
+      return { status: 'duplicate', photoId };
+    }
+
+    // Resume an upload of the same file that the client lost track of
+    const existingUpload = await ctx.db
+      .query('photoUploads')
+      .withIndex('by_userId_contentHash', q =>
+        q.eq('userId', user._id).eq('contentHash', args.contentHash)
+      )
+      .filter(q => q.eq(q.field('exposureId'), args.exposureId))
+      .first();
+    if (existingUpload) {
+      return {
+        status: 'started',
+        uploadId: existingUpload._id,
+        receivedBytes: existingUpload.receivedBytes,
+      };
+    }
+
+    const uploadId = await ctx.db.insert('photoUploads', {
       userId: user._id,
-      storageId: args.storageId,
-      localUri: null, // Only used on mobile device
-      fileName: args.fileName,
-      fileSize: args.fileSize,
-      mimeType: args.mimeType,
-      width: args.width,
-      height: args.height,
-      exif: args.exif,
-      uploadStatus: 'uploaded',
-      uploadProgress: 100,
-      retryCount: 0,
-      uploadedAt: Date.now(),
-      isDeleted: false,
-      deletedAt: null,
+      ...args,
+      chunks: [],
+      receivedBytes: 0,
+      updatedAt: Date.now(),
     });
 
-    // Update exposure's photoIds array
-    const currentPhotoIds = exposure.photoIds || [];
-    await ctx.db.patch(args.exposureId, {
-      photoIds: [...currentPhotoIds, photoId],
+    return { status: 'started', uploadId, receivedBytes: 0 };
+  },
+});
+
+/**
+ * Get how many bytes of a resumable upload the server already has
+ * Returns null when the upload no longer exists (completed or never started)
+ */
+export const getUploadStatus = query({
+  args: {
+    uploadId: v.id('photoUploads'),
+  },
+  handler: async (ctx, args) => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const upload = await ctx.db.get(args.uploadId);
+    if (!upload || upload.userId !== user._id) {
+      return null;
+    }
+
+    return {
+      receivedBytes: upload.receivedBytes,
+      fileSize: upload.fileSize,
+    };
+  },
+});
+
+/**
+ * Generate a storage URL for the next chunk of a resumable upload
+ */
+export const generateChunkUploadUrl = mutation({
+  args: {
+    uploadId: v.id('photoUploads'),
+  },
+  handler: async (ctx, args) => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const upload = await ctx.db.get(args.uploadId);
+    if (!upload) {
+      throw new Error('Upload not found');
+    }
+    if (upload.userId !== user._id) {
+      throw new Error('Not authorized to access this upload');
+    }
+
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+/**
+ * Record a stored chunk of a resumable upload
+ * Chunks must arrive in order; a chunk the server already has is discarded
+ */
+export const recordChunk = mutation({
+  args: {
+    uploadId: v.id('photoUploads'),
+    offset: v.number(),
+    storageId: v.id('_storage'),
+  },
+  handler: async (ctx, args) => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const upload = await ctx.db.get(args.uploadId);
+    if (!upload) {
+      throw new Error('Upload not found');
+    }
+    if (upload.userId !== user._id) {
+      throw new Error('Not authorized to access this upload');
+    }
+
+    // Replayed chunk after a lost response, keep the copy we already have
+    if (args.offset < upload.receivedBytes) {
+      await ctx.storage.delete(args.storageId);
+      return { receivedBytes: upload.receivedBytes };
+    }
+    if (args.offset > upload.receivedBytes) {
+      await ctx.storage.delete(args.storageId);
+      throw new Error(`Chunk out of order, expected offset ${upload.receivedBytes}`);
+    }
+
+    const file = await ctx.db.system.get(args.storageId);
+    if (!file) {
+      throw new Error('Chunk not found in storage');
+    }
+
+    const receivedBytes = upload.receivedBytes + file.size;
+    if (receivedBytes > upload.fileSize) {
+      await ctx.storage.delete(args.storageId);
+      throw new Error('Chunk exceeds declared file size');
+    }
+
+    await ctx.db.patch(args.uploadId, {
+      chunks: [
+        ...upload.chunks,
+        { offset: args.offset, size: file.size, storageId: args.storageId },
+      ],
+      receivedBytes,
       updatedAt: Date.now(),
     });
 
+    return { receivedBytes };
+  },
+});
+
+/**
+ * Assemble the chunks of a finished resumable upload into one stored photo
+ * This is an action because it reads and writes storage blobs
+ */
+export const completeUpload = action({
+  args: {
+    uploadId: v.id('photoUploads'),
+  },
+  handler: async (ctx, args): Promise<Id<'photos'>> => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    const upload = await ctx.runQuery(internal.photos.getUploadForUser, {
+      uploadId: args.uploadId,
+      clerkId: identity.subject,
+    });
+    if (!upload) {
+      throw new Error('Upload not found');
+    }
+    if (upload.receivedBytes !== upload.fileSize) {
+      throw new Error(
+        `Upload incomplete, received ${upload.receivedBytes} of ${upload.fileSize} bytes`
+      );
+    }
+
+    const parts: Blob[] = [];
+    for (const chunk of upload.chunks) {
+      const part = await ctx.storage.get(chunk.storageId);
+      if (!part) {
+        throw new Error('Chunk missing from storage');
+      }
+      parts.push(part);
+    }
+
+    const storageId = await ctx.storage.store(new Blob(parts, { type: upload.mimeType }));
+
+    const photoId = await ctx.runMutation(internal.photos.finishUpload, {
+      uploadId: args.uploadId,
+      storageId,
+    });
+
+    // Chunks are no longer needed once the assembled file is stored
+    await Promise.all(upload.chunks.map(chunk => ctx.storage.delete(chunk.storageId)));
+
+    return photoId;
+  },
+});
+
+/**
+ * Internal query to load an upload owned by the calling user
+ * (called from completeUpload)
+ */
+export const getUploadForUser = internalQuery({
+  args: {
+    uploadId: v.id('photoUploads'),
+    clerkId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', args.clerkId))
+      .first();
+
+    const upload = await ctx.db.get(args.uploadId);
+    if (!user || !upload || upload.userId !== user._id) {
+      return null;
+    }
+
+    return upload;
+  },
+});
+
+/**
+ * Internal mutation to create the photo record for an assembled upload
+ * (called from completeUpload)
+ */
+export const finishUpload = internalMutation({
+  args: {
+    uploadId: v.id('photoUploads'),
+    storageId: v.id('_storage'),
+  },
+  handler: async (ctx, args): Promise<Id<'photos'>> => {
+    const upload = await ctx.db.get(args.uploadId);
+    if (!upload) {
+      throw new Error('Upload not found');
+    }
+
+    const exposure = await ctx.db.get(upload.exposureId);
+    if (!exposure) {
+      throw new Error('Exposure not found');
+    }
+
+    const photoId = await insertPhoto(ctx, exposure, args.storageId, upload);
+    await ctx.db.delete(args.uploadId);
+
     return photoId;
   },
 });
@@ -289,6 +694,10 @@ export const getPhotoUrls = query({
           fileName: photo.fileName,
           width: photo.width,
           height: photo.height,
+          fileSize: photo.fileSize,
+          mimeType: photo.mimeType,
+          // Camera time when the EXIF has it, else the upload time
+          capturedAt: photo.exif?.timestamp ?? photo._creationTime,
         };
       })
     );
@@ -410,6 +819,7 @@ export const remove = mutation({
         photoIds: updatedPhotoIds,
         updatedAt: Date.now(),
       });
+      await appendToChain(ctx, photo.exposureId);
     }
 
     return args.id;
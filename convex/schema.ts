@@ -45,18 +45,84 @@ export default defineSchema({
     chemicalName: v.union(v.string(), v.null()),
     sdsReference: v.union(v.string(), v.null()),
     controlMeasures: v.union(v.string(), v.null()),
+    // Vibration only: per-tool magnitude (m/s²) and trigger time behind the daily A(8)
+    vibrationTools: v.optional(
+      v.union(
+        v.array(
+          v.object({
+            tool: v.string(),
+            magnitude: v.number(),
+            triggerMinutes: v.number(),
+            source: v.union(v.literal('catalogue'), v.literal('measured')),
+          })
+        ),
+        v.null()
+      )
+    ),
+    // Lead only: reference of the worker's latest blood-lead test
+    bloodLeadTestReference: v.optional(v.union(v.string(), v.null())),
+    // Noise only: dB(A) level and minutes per part of the shift, and the peak in dB(C)
+    noiseSegments: v.optional(
+      v.union(v.array(v.object({ levelDbA: v.number(), durationMinutes: v.number() })), v.null())
+    ),
+    noisePeakDbC: v.optional(v.union(v.number(), v.null())),
+    // Airborne substances: measured or estimated concentration behind the daily WES-TWA
+    concentration: v.optional(
+      v.union(
+        v.object({
+          value: v.number(),
+          unit: v.union(v.literal('mg/m3'), v.literal('ppm')),
+          source: v.union(v.literal('measured'), v.literal('estimated')),
+        }),
+        v.null()
+      )
+    ),
     photoIds: v.array(v.id('photos')),
     syncStatus: v.string(),
     voiceTranscription: v.union(v.string(), v.null()),
     isDeleted: v.boolean(),
     deletedAt: v.union(v.number(), v.null()),
     updatedAt: v.number(),
+    // workActivity, notes, chemicalName and site name joined for the search index
+    searchText: v.optional(v.string()),
+    // Hash of the latest hashChain entry for this record, unset until chained
+    recordHash: v.optional(v.string()),
   })
     .index('by_userId', ['userId'])
     .index('by_userId_timestamp', ['userId', 'timestamp'])
+    .index('by_userId_isDeleted_timestamp', ['userId', 'isDeleted', 'timestamp'])
     .index('by_exposureType', ['exposureType'])
     .index('by_clientId', ['clientId'])
-    .index('by_syncStatus', ['syncStatus']),
+    .index('by_userId_clientId', ['userId', 'clientId'])
+    .index('by_syncStatus', ['syncStatus'])
+    .searchIndex('search_text', {
+      searchField: 'searchText',
+      filterFields: ['userId', 'isDeleted'],
+    }),
+
+  // Per-user tamper-evident chain, one entry per exposure write (see convex/hashChain.ts)
+  exposureChain: defineTable({
+    userId: v.id('users'),
+    exposureId: v.id('exposures'),
+    sequence: v.number(), // 1-based position in the user's chain
+    previousHash: v.string(),
+    hash: v.string(), // SHA-256 hex of previousHash + canonical
+    canonical: v.string(),
+    chainedAt: v.number(),
+  })
+    .index('by_userId_sequence', ['userId', 'sequence'])
+    .index('by_exposureId_sequence', ['exposureId', 'sequence']),
+
+  // Immutable audit trail, one row per change to an exposure
+  exposureRevisions: defineTable({
+    exposureId: v.id('exposures'),
+    editorId: v.union(v.id('users'), v.null()), // null for system migrations
+    source: v.string(), // 'edit' | 'sync' | 'delete' | 'migration'
+    changedFields: v.array(v.string()),
+    previousValues: v.any(), // Changed fields only, keyed by field name
+    newValues: v.any(),
+    editedAt: v.number(),
+  }).index('by_exposureId_editedAt', ['exposureId', 'editedAt']),
 
   photos: defineTable({
     exposureId: v.id('exposures'),
@@ -83,12 +149,47 @@ export default defineSchema({
     uploadProgress: v.number(),
     retryCount: v.number(),
     uploadedAt: v.union(v.number(), v.null()),
+    contentHash: v.optional(v.string()), // SHA-256 of the file, used to skip duplicate uploads
     isDeleted: v.boolean(),
     deletedAt: v.union(v.number(), v.null()),
   })
     .index('by_exposureId', ['exposureId'])
     .index('by_userId', ['userId'])
-    .index('by_uploadStatus', ['uploadStatus']),
+    .index('by_userId_contentHash', ['userId', 'contentHash'])
+    .index('by_uploadStatus', ['uploadStatus'])
+    .index('by_storageId', ['storageId']),
+
+  // In-progress resumable uploads, removed once the chunks are assembled
+  photoUploads: defineTable({
+    userId: v.id('users'),
+    exposureId: v.id('exposures'),
+    contentHash: v.string(),
+    fileName: v.string(),
+    fileSize: v.number(),
+    mimeType: v.string(),
+    width: v.number(),
+    height: v.number(),
+    exif: v.union(
+      v.object({
+        latitude: v.union(v.number(), v.null()),
+        longitude: v.union(v.number(), v.null()),
+        timestamp: v.union(v.number(), v.null()),
+        make: v.union(v.string(), v.null()),
+        model: v.union(v.string(), v.null()),
+        orientation: v.union(v.number(), v.null()),
+      }),
+      v.null()
+    ),
+    chunks: v.array(
+      v.object({
+        offset: v.number(),
+        size: v.number(),
+        storageId: v.id('_storage'),
+      })
+    ),
+    receivedBytes: v.number(),
+    updatedAt: v.number(),
+  }).index('by_userId_contentHash', ['userId', 'contentHash']),
 
   educationalContent: defineTable({
     title: v.string(),
@@ -153,4 +254,36 @@ export default defineSchema({
     .index('by_photoId', ['photoId'])
     .index('by_exposureId', ['exposureId'])
     .index('by_userId', ['userId']),
+
+  // Completed health monitoring checks (see convex/healthMonitoring.ts)
+  healthChecks: defineTable({
+    userId: v.id('users'),
+    checkType: v.string(), // 'lung_function' | 'audiometry' | 'blood_lead'
+    completedAt: v.number(),
+    outcome: v.string(), // 'normal' | 'abnormal' | 'referred'
+    result: v.union(v.string(), v.null()), // e.g. "FEV1 92% predicted", "0.4 µmol/L"
+    provider: v.union(v.string(), v.null()),
+    notes: v.union(v.string(), v.null()),
+    createdAt: v.number(),
+  }).index('by_userId_completedAt', ['userId', 'completedAt']),
+
+  // Symptom journal, each entry linked to the exposures it may stem from (see convex/symptomJournal.ts)
+  symptoms: defineTable({
+    userId: v.id('users'),
+    symptom: v.string(), // e.g. "Cough", "Ringing in ears"
+    bodySystem: v.string(), // 'respiratory' | 'skin' | 'hearing' | ...
+    severity: v.string(), // 'mild' | 'moderate' | 'severe'
+    onsetAt: v.number(),
+    notes: v.union(v.string(), v.null()),
+    exposureIds: v.array(v.id('exposures')),
+    photoStorageIds: v.array(v.id('_storage')),
+    createdAt: v.number(),
+  }).index('by_userId_onsetAt', ['userId', 'onsetAt']),
+
+  // Symptom photo upload URLs issued to a user, storageId set once a symptom uses the upload
+  symptomUploads: defineTable({
+    userId: v.id('users'),
+    storageId: v.union(v.id('_storage'), v.null()),
+    createdAt: v.number(),
+  }).index('by_storageId', ['storageId']),
 });
@@ -0,0 +1,523 @@
+/**
+ * Structured Export
+ * Versioned JSON document and FHIR R4 Bundle of exposures, shared by the app and the
+ * generateExport action
+ *
+ * The JSON document follows the schema published at
+ * docs/schemas/exposure-export-v1.schema.json. Bump EXPOSURE_EXPORT_VERSION and publish
+ * a new schema when a field is renamed or removed; new optional fields keep the version.
+ *
+ * The FHIR Bundle maps the worker to a Patient, each site to a Location, each photo to a
+ * Media and each exposure to an Observation referencing them. Resource ids are derived
+ * from record ids, so exporting the same records again gives the same resources.
+ */
+
+import { formatExposureType } from './csv';
+import { Concentration, NoiseSegment, VibrationToolUse } from './exposureDose';
+import { hasAdequatePPE, siteKey } from './exposureRegister';
+import { UserInfo } from './pdfTemplate';
+import { TAXONOMY_VERSION } from './taxonomy';
+
+export const EXPOSURE_EXPORT_SCHEMA =
+  'https://waldohealth.com/schemas/exposure-export-v1.schema.json';
+export const EXPOSURE_EXPORT_VERSION = '1.0';
+
+// Code systems of values without a standard terminology
+const EXPOSURE_TYPE_SYSTEM = 'urn:waldo-health:exposure-type';
+const EXPOSURE_FIELD_SYSTEM = 'urn:waldo-health:exposure-field';
+const SEVERITY_SYSTEM = 'urn:waldo-health:severity';
+const PPE_SYSTEM = 'urn:waldo-health:ppe';
+
+export interface ExposureForStructuredExport {
+  _id: string;
+  exposureType: string;
+  timestamp: number;
+  duration: { hours: number; minutes: number };
+  location: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number | null;
+    address: string | null;
+    siteName: string | null;
+  };
+  severity: string;
+  ppe: string[];
+  workActivity: string;
+  notes: string | null;
+  chemicalName: string | null;
+  sdsReference: string | null;
+  controlMeasures: string | null;
+  vibrationTools?: VibrationToolUse[] | null;
+  bloodLeadTestReference?: string | null;
+  noiseSegments?: NoiseSegment[] | null;
+  noisePeakDbC?: number | null;
+  concentration?: Concentration | null;
+  photoIds: string[];
+  _creationTime: number;
+  updatedAt: number;
+}
+
+export interface PhotoMetadata {
+  photoId: string;
+  fileName: string;
+  mimeType: string;
+  fileSize: number;
+  width: number;
+  height: number;
+  capturedAt: number;
+}
+
+export type StructuredExportFormat = 'json' | 'fhir';
+
+// What one exposure looks like in the JSON document
+export interface ExposureRecord {
+  id: string;
+  exposureType: string;
+  exposureTypeLabel: string;
+  startedAt: string;
+  durationMinutes: number;
+  location: {
+    latitude: number;
+    longitude: number;
+    accuracy: number | null;
+    address: string | null;
+    siteName: string | null;
+  };
+  severity: string;
+  ppe: string[];
+  ppeAdequate: boolean | null;
+  workActivity: string;
+  notes: string | null;
+  chemicalName: string | null;
+  sdsReference: string | null;
+  controlMeasures: string | null;
+  vibrationTools: VibrationToolUse[] | null;
+  bloodLeadTestReference: string | null;
+  noiseSegments: NoiseSegment[] | null;
+  noisePeakDbC: number | null;
+  concentration: Concentration | null;
+  photos: {
+    id: string;
+    fileName: string;
+    mimeType: string;
+    fileSize: number;
+    width: number;
+    height: number;
+    capturedAt: string;
+  }[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ExposureExportDocument {
+  $schema: string;
+  schemaVersion: string;
+  taxonomyVersion: number;
+  exportedAt: string;
+  timezoneOffsetMinutes: number | null;
+  profile: UserInfo;
+  exposures: ExposureRecord[];
+}
+
+function toISO(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+function durationMinutes(duration: { hours: number; minutes: number }): number {
+  return duration.hours * 60 + duration.minutes;
+}
+
+/**
+ * Exposures, their photos' metadata and the worker's profile as the versioned JSON document
+ * Photos missing from photoMetadata (deleted or not uploaded) are left out
+ */
+export function buildJSONExport(
+  exposures: ExposureForStructuredExport[],
+  userInfo: UserInfo,
+  photoMetadata: Map<string, PhotoMetadata>,
+  exportedAt: number,
+  timezoneOffsetMinutes: number | null = null
+): ExposureExportDocument {
+  return {
+    $schema: EXPOSURE_EXPORT_SCHEMA,
+    schemaVersion: EXPOSURE_EXPORT_VERSION,
+    taxonomyVersion: TAXONOMY_VERSION,
+    exportedAt: toISO(exportedAt),
+    timezoneOffsetMinutes,
+    profile: { ...userInfo },
+    exposures: exposures.map(exposure => ({
+      id: exposure._id,
+      exposureType: exposure.exposureType,
+      exposureTypeLabel: formatExposureType(exposure.exposureType),
+      startedAt: toISO(exposure.timestamp),
+      durationMinutes: durationMinutes(exposure.duration),
+      location: {
+        latitude: exposure.location.latitude,
+        longitude: exposure.location.longitude,
+        accuracy: exposure.location.accuracy ?? null,
+        address: exposure.location.address,
+        siteName: exposure.location.siteName,
+      },
+      severity: exposure.severity,
+      ppe: exposure.ppe,
+      ppeAdequate: hasAdequatePPE(exposure.exposureType, exposure.ppe),
+      workActivity: exposure.workActivity,
+      notes: exposure.notes,
+      chemicalName: exposure.chemicalName,
+      sdsReference: exposure.sdsReference,
+      controlMeasures: exposure.controlMeasures,
+      vibrationTools: exposure.vibrationTools ?? null,
+      bloodLeadTestReference: exposure.bloodLeadTestReference ?? null,
+      noiseSegments: exposure.noiseSegments ?? null,
+      noisePeakDbC: exposure.noisePeakDbC ?? null,
+      concentration: exposure.concentration ?? null,
+      photos: exposure.photoIds
+        .map(photoId => photoMetadata.get(photoId))
+        .filter((photo): photo is PhotoMetadata => photo !== undefined)
+        .map(photo => ({
+          id: photo.photoId,
+          fileName: photo.fileName,
+          mimeType: photo.mimeType,
+          fileSize: photo.fileSize,
+          width: photo.width,
+          height: photo.height,
+          capturedAt: toISO(photo.capturedAt),
+        })),
+      createdAt: toISO(exposure._creationTime),
+      updatedAt: toISO(exposure.updatedAt),
+    })),
+  };
+}
+
+/**
+ * 32-bit FNV-1a hash of text, varied by seed
+ */
+function fnv1a(text: string, seed: number): number {
+  let hash = 0x811c9dc5 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Stable UUID (RFC 9562 version 8) of a resource, for its id and urn:uuid fullUrl
+ */
+export function resourceUuid(resourceType: string, recordId: string): string {
+  const hex = [1, 2, 3, 4]
+    .map(seed => fnv1a(`${resourceType}/${recordId}`, Math.imul(seed, 0x9e3779b9)))
+    .map(hash => hash.toString(16).padStart(8, '0'))
+    .join('');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `8${hex.slice(13, 16)}`,
+    `${variant}${hex.slice(17, 20)}`,
+    hex.slice(20, 32),
+  ].join('-');
+}
+
+type FhirResource = { resourceType: string; id: string } & Record<string, unknown>;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  meta: { lastUpdated: string };
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+function reference(resource: FhirResource): { reference: string } {
+  return { reference: `urn:uuid:${resource.id}` };
+}
+
+function fieldCode(code: string, display: string) {
+  return { coding: [{ system: EXPOSURE_FIELD_SYSTEM, code, display }], text: display };
+}
+
+function patientResource(userInfo: UserInfo): FhirResource {
+  const telecom = [
+    { system: 'email', value: userInfo.email },
+    ...(userInfo.phoneNumber ? [{ system: 'phone', value: userInfo.phoneNumber }] : []),
+  ];
+
+  return {
+    resourceType: 'Patient',
+    id: resourceUuid('Patient', userInfo.email),
+    ...(userInfo.name ? { name: [{ text: userInfo.name }] } : {}),
+    telecom,
+    ...(userInfo.employer
+      ? {
+          contact: [
+            {
+              relationship: [
+                {
+                  coding: [
+                    {
+                      system: 'http://terminology.hl7.org/CodeSystem/v2-0131',
+                      code: 'E',
+                      display: 'Employer',
+                    },
+                  ],
+                },
+              ],
+              organization: { display: userInfo.employer },
+            },
+          ],
+        }
+      : {}),
+  };
+}
+
+function locationResource(location: ExposureForStructuredExport['location']): FhirResource {
+  return {
+    resourceType: 'Location',
+    id: resourceUuid('Location', siteKey(location)),
+    status: 'active',
+    name:
+      location.siteName ||
+      location.address ||
+      `${location.latitude.toFixed(3)}, ${location.longitude.toFixed(3)}`,
+    ...(location.address ? { address: { text: location.address } } : {}),
+    position: { latitude: location.latitude, longitude: location.longitude },
+  };
+}
+
+function mediaResource(photo: PhotoMetadata, patient: FhirResource): FhirResource {
+  return {
+    resourceType: 'Media',
+    id: resourceUuid('Media', photo.photoId),
+    identifier: [{ system: 'urn:waldo-health:photo', value: photo.photoId }],
+    status: 'completed',
+    type: {
+      coding: [
+        {
+          system: 'http://terminology.hl7.org/CodeSystem/media-type',
+          code: 'image',
+          display: 'Image',
+        },
+      ],
+    },
+    subject: reference(patient),
+    createdDateTime: toISO(photo.capturedAt),
+    width: photo.width,
+    height: photo.height,
+    content: { contentType: photo.mimeType, size: photo.fileSize, title: photo.fileName },
+  };
+}
+
+/**
+ * Components of an exposure Observation: duration, PPE, activity and the measurements
+ */
+function observationComponents(exposure: ExposureForStructuredExport) {
+  const components: Record<string, unknown>[] = [
+    {
+      code: fieldCode('duration', 'Duration'),
+      valueQuantity: {
+        value: durationMinutes(exposure.duration),
+        unit: 'min',
+        system: 'http://unitsofmeasure.org',
+        code: 'min',
+      },
+    },
+    { code: fieldCode('work-activity', 'Work activity'), valueString: exposure.workActivity },
+  ];
+
+  exposure.ppe.forEach(ppe => {
+    components.push({
+      code: fieldCode('ppe', 'PPE used'),
+      valueCodeableConcept: { coding: [{ system: PPE_SYSTEM, code: ppe }], text: ppe },
+    });
+  });
+
+  const ppeAdequate = hasAdequatePPE(exposure.exposureType, exposure.ppe);
+  if (ppeAdequate !== null) {
+    components.push({ code: fieldCode('ppe-adequate', 'PPE adequate'), valueBoolean: ppeAdequate });
+  }
+  if (exposure.chemicalName) {
+    components.push({
+      code: fieldCode('chemical-name', 'Chemical name'),
+      valueString: exposure.chemicalName,
+    });
+  }
+  if (exposure.sdsReference) {
+    components.push({
+      code: fieldCode('sds-reference', 'SDS reference'),
+      valueString: exposure.sdsReference,
+    });
+  }
+  if (exposure.controlMeasures) {
+    components.push({
+      code: fieldCode('control-measures', 'Control measures'),
+      valueString: exposure.controlMeasures,
+    });
+  }
+  if (exposure.concentration) {
+    const ucum = exposure.concentration.unit === 'ppm' ? '[ppm]' : 'mg/m3';
+    components.push({
+      code: fieldCode('concentration', `Concentration (${exposure.concentration.source})`),
+      valueQuantity: {
+        value: exposure.concentration.value,
+        unit: exposure.concentration.unit,
+        system: 'http://unitsofmeasure.org',
+        code: ucum,
+      },
+    });
+  }
+  exposure.noiseSegments?.forEach(segment => {
+    components.push({
+      code: fieldCode('noise-level', `Noise level for ${segment.durationMinutes} min`),
+      valueQuantity: {
+        value: segment.levelDbA,
+        unit: 'dB(A)',
+        system: 'http://unitsofmeasure.org',
+        code: 'dB',
+      },
+    });
+  });
+  if (exposure.noisePeakDbC !== null && exposure.noisePeakDbC !== undefined) {
+    components.push({
+      code: fieldCode('noise-peak', 'Peak noise'),
+      valueQuantity: {
+        value: exposure.noisePeakDbC,
+        unit: 'dB(C)',
+        system: 'http://unitsofmeasure.org',
+        code: 'dB',
+      },
+    });
+  }
+  exposure.vibrationTools?.forEach(tool => {
+    components.push({
+      code: fieldCode(
+        'vibration-magnitude',
+        `Vibration of ${tool.tool} for ${tool.triggerMinutes} min (${tool.source})`
+      ),
+      valueQuantity: {
+        value: tool.magnitude,
+        unit: 'm/s²',
+        system: 'http://unitsofmeasure.org',
+        code: 'm/s2',
+      },
+    });
+  });
+  if (exposure.bloodLeadTestReference) {
+    components.push({
+      code: fieldCode('blood-lead-test', 'Blood lead test reference'),
+      valueString: exposure.bloodLeadTestReference,
+    });
+  }
+
+  return components;
+}
+
+function observationResource(
+  exposure: ExposureForStructuredExport,
+  patient: FhirResource,
+  location: FhirResource,
+  media: FhirResource[]
+): FhirResource {
+  const label = formatExposureType(exposure.exposureType);
+  const end = exposure.timestamp + durationMinutes(exposure.duration) * 60 * 1000;
+
+  return {
+    resourceType: 'Observation',
+    id: resourceUuid('Observation', exposure._id),
+    identifier: [{ system: 'urn:waldo-health:exposure', value: exposure._id }],
+    extension: [
+      {
+        url: 'http://hl7.org/fhir/StructureDefinition/event-location',
+        valueReference: reference(location),
+      },
+    ],
+    status: 'final',
+    category: [
+      {
+        coding: [
+          {
+            system: 'http://terminology.hl7.org/CodeSystem/observation-category',
+            code: 'social-history',
+            display: 'Social History',
+          },
+        ],
+      },
+    ],
+    code: {
+      coding: [{ system: EXPOSURE_TYPE_SYSTEM, code: exposure.exposureType, display: label }],
+      text: `Occupational exposure: ${label}`,
+    },
+    subject: reference(patient),
+    effectivePeriod: { start: toISO(exposure.timestamp), end: toISO(end) },
+    issued: toISO(exposure.updatedAt),
+    valueCodeableConcept: {
+      coding: [{ system: SEVERITY_SYSTEM, code: exposure.severity }],
+      text: `Severity: ${exposure.severity}`,
+    },
+    ...(exposure.notes ? { note: [{ text: exposure.notes }] } : {}),
+    ...(media.length > 0 ? { derivedFrom: media.map(reference) } : {}),
+    component: observationComponents(exposure),
+  };
+}
+
+/**
+ * Exposures as a FHIR R4 collection Bundle
+ * Sites shared by several exposures become one Location, matched like the site summary
+ */
+export function buildFHIRBundle(
+  exposures: ExposureForStructuredExport[],
+  userInfo: UserInfo,
+  photoMetadata: Map<string, PhotoMetadata>,
+  exportedAt: number
+): FhirBundle {
+  const patient = patientResource(userInfo);
+  const locations = new Map<string, FhirResource>();
+  const media: FhirResource[] = [];
+  const observations: FhirResource[] = [];
+
+  for (const exposure of exposures) {
+    const key = siteKey(exposure.location);
+    if (!locations.has(key)) {
+      locations.set(key, locationResource(exposure.location));
+    }
+
+    const exposureMedia = exposure.photoIds
+      .map(photoId => photoMetadata.get(photoId))
+      .filter((photo): photo is PhotoMetadata => photo !== undefined)
+      .map(photo => mediaResource(photo, patient));
+    media.push(...exposureMedia);
+
+    observations.push(observationResource(exposure, patient, locations.get(key)!, exposureMedia));
+  }
+
+  const resources = [patient, ...locations.values(), ...media, ...observations];
+  const ids = exposures.map(exposure => exposure._id).join(',');
+
+  return {
+    resourceType: 'Bundle',
+    id: resourceUuid('Bundle', `${userInfo.email}|${ids}|${exportedAt}`),
+    meta: { lastUpdated: toISO(exportedAt) },
+    type: 'collection',
+    timestamp: toISO(exportedAt),
+    entry: resources.map(resource => ({ fullUrl: `urn:uuid:${resource.id}`, resource })),
+  };
+}
+
+/**
+ * The JSON document or FHIR Bundle as the text of an export file
+ */
+export function generateStructuredExport(
+  format: StructuredExportFormat,
+  exposures: ExposureForStructuredExport[],
+  userInfo: UserInfo,
+  photoMetadata: Map<string, PhotoMetadata>,
+  exportedAt: number,
+  timezoneOffsetMinutes: number | null = null
+): string {
+  const document =
+    format === 'fhir'
+      ? buildFHIRBundle(exposures, userInfo, photoMetadata, exportedAt)
+      : buildJSONExport(exposures, userInfo, photoMetadata, exportedAt, timezoneOffsetMinutes);
+  return JSON.stringify(document, null, 2);
+}
@@ -0,0 +1,130 @@
+/**
+ * Symptom Journal
+ * Body systems, severities and the symptom timeline, shared by the Convex functions and the app
+ *
+ * ACC weighs a claim on the link between an exposure and the symptoms that followed,
+ * so the timeline records how long after each linked exposure a symptom began.
+ */
+
+import type { Ionicons } from '@expo/vector-icons';
+
+export interface BodySystem {
+  id: string;
+  label: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  commonSymptoms: string[]; // Quick-entry suggestions
+}
+
+export const BODY_SYSTEMS: BodySystem[] = [
+  {
+    id: 'respiratory',
+    label: 'Breathing & Lungs',
+    icon: 'fitness-outline',
+    commonSymptoms: ['Cough', 'Shortness of breath', 'Wheezing', 'Chest tightness', 'Sore throat'],
+  },
+  {
+    id: 'skin',
+    label: 'Skin',
+    icon: 'hand-left-outline',
+    commonSymptoms: ['Rash', 'Itching', 'Burn', 'Blistering', 'Dry or cracked skin'],
+  },
+  {
+    id: 'hearing',
+    label: 'Hearing',
+    icon: 'ear-outline',
+    commonSymptoms: ['Ringing in ears', 'Muffled hearing', 'Ear pain'],
+  },
+  {
+    id: 'eyes',
+    label: 'Eyes',
+    icon: 'eye-outline',
+    commonSymptoms: ['Eye irritation', 'Watery eyes', 'Blurred vision'],
+  },
+  {
+    id: 'neurological',
+    label: 'Head & Nerves',
+    icon: 'pulse-outline',
+    commonSymptoms: ['Headache', 'Dizziness', 'Numbness or tingling', 'Fatigue', 'Confusion'],
+  },
+  {
+    id: 'musculoskeletal',
+    label: 'Muscles & Joints',
+    icon: 'body-outline',
+    commonSymptoms: ['White fingers', 'Joint pain', 'Reduced grip', 'Back pain'],
+  },
+  {
+    id: 'digestive',
+    label: 'Stomach',
+    icon: 'nutrition-outline',
+    commonSymptoms: ['Nausea', 'Vomiting', 'Stomach pain', 'Metallic taste'],
+  },
+  {
+    id: 'other',
+    label: 'Other',
+    icon: 'ellipsis-horizontal-circle-outline',
+    commonSymptoms: [],
+  },
+];
+
+export const BODY_SYSTEM_IDS = BODY_SYSTEMS.map(system => system.id);
+
+export type SymptomSeverity = 'mild' | 'moderate' | 'severe';
+
+export const SYMPTOM_SEVERITIES: SymptomSeverity[] = ['mild', 'moderate', 'severe'];
+
+export const MAX_SYMPTOM_PHOTOS = 5;
+
+/**
+ * Label of a body system, falling back to the id for retired systems
+ */
+export function bodySystemLabel(id: string): string {
+  return BODY_SYSTEMS.find(system => system.id === id)?.label ?? id;
+}
+
+// One symptom on the timeline with the exposures it is linked to
+export interface SymptomTimelineEntry<S> {
+  symptom: S;
+  links: {
+    exposureId: string;
+    hoursAfterExposure: number | null; // From the end of the exposure, null when onset came first
+  }[];
+}
+
+/**
+ * Symptoms in order of onset, with the time from each linked exposure to the onset
+ * Links to exposures that are not in the list (deleted or not exported) are left out
+ */
+export function buildSymptomTimeline<S extends { onsetAt: number; exposureIds: string[] }>(
+  symptoms: S[],
+  exposures: {
+    _id: string;
+    timestamp: number;
+    duration: { hours: number; minutes: number };
+  }[]
+): SymptomTimelineEntry<S>[] {
+  const exposuresById = new Map(exposures.map(exposure => [exposure._id, exposure]));
+
+  return [...symptoms]
+    .sort((a, b) => a.onsetAt - b.onsetAt)
+    .map(symptom => ({
+      symptom,
+      links: symptom.exposureIds.flatMap(exposureId => {
+        const exposure = exposuresById.get(exposureId);
+        if (!exposure) {
+          return [];
+        }
+        const endedAt =
+          exposure.timestamp + (exposure.duration.hours * 60 + exposure.duration.minutes) * 60000;
+        const hours = (symptom.onsetAt - endedAt) / 3600000;
+        return [
+          {
+            exposureId,
+            hoursAfterExposure:
+              symptom.onsetAt < exposure.timestamp
+                ? null
+                : Math.max(0, Math.round(hours * 10) / 10),
+          },
+        ];
+      }),
+    }));
+}
@@ -0,0 +1,300 @@
+/**
+ * Symptom Journal Convex Functions
+ * Symptoms and health events linked to the exposures they may stem from
+ */
+
+import { v } from 'convex/values';
+import { query, mutation, QueryCtx } from './_generated/server';
+import { Doc, Id } from './_generated/dataModel';
+import { BODY_SYSTEM_IDS, MAX_SYMPTOM_PHOTOS, SYMPTOM_SEVERITIES } from './symptomJournal';
+
+/**
+ * The symptom upload a storage ID was used for, if any
+ */
+async function findUpload(ctx: QueryCtx, storageId: Id<'_storage'>) {
+  return await ctx.db
+    .query('symptomUploads')
+    .withIndex('by_storageId', q => q.eq('storageId', storageId))
+    .first();
+}
+
+/**
+ * Whether a symptom or an exposure photo already uses a stored file
+ */
+async function isStorageInUse(ctx: QueryCtx, storageId: Id<'_storage'>): Promise<boolean> {
+  const exposurePhoto = await ctx.db
+    .query('photos')
+    .withIndex('by_storageId', q => q.eq('storageId', storageId))
+    .first();
+  return exposurePhoto !== null || (await findUpload(ctx, storageId)) !== null;
+}
+
+/**
+ * Attach photo URLs to a symptom
+ */
+async function withPhotoUrls(ctx: QueryCtx, symptom: Doc<'symptoms'>) {
+  const photoUrls = await Promise.all(
+    symptom.photoStorageIds.map(storageId => ctx.storage.getUrl(storageId))
+  );
+  return { ...symptom, photoUrls: photoUrls.filter((url): url is string => url !== null) };
+}
+
+/**
+ * List the user's symptoms, most recent onset first
+ */
+export const list = query({
+  args: {},
+  handler: async ctx => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const symptoms = await ctx.db
+      .query('symptoms')
+      .withIndex('by_userId_onsetAt', q => q.eq('userId', user._id))
+      .order('desc')
+      .collect();
+
+    return await Promise.all(symptoms.map(symptom => withPhotoUrls(ctx, symptom)));
+  },
+});
+
+/**
+ * List the symptoms linked to one exposure, in order of onset
+ */
+export const listByExposure = query({
+  args: {
+    exposureId: v.id('exposures'),
+  },
+  handler: async (ctx, args) => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    // Links are an array field, so filter the user's journal rather than index them
+    const symptoms = await ctx.db
+      .query('symptoms')
+      .withIndex('by_userId_onsetAt', q => q.eq('userId', user._id))
+      .collect();
+
+    return await Promise.all(
+      symptoms
+        .filter(symptom => symptom.exposureIds.includes(args.exposureId))
+        .map(symptom => withPhotoUrls(ctx, symptom))
+    );
+  },
+});
+
+/**
+ * Generate an upload URL for a symptom photo
+ * The uploadId and the storage ID the upload returns are passed to symptoms.create
+ */
+export const generatePhotoUploadUrl = mutation({
+  args: {},
+  handler: async ctx => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const uploadId = await ctx.db.insert('symptomUploads', {
+      userId: user._id,
+      storageId: null,
+      createdAt: Date.now(),
+    });
+    return { uploadId, uploadUrl: await ctx.storage.generateUploadUrl() };
+  },
+});
+
+/**
+ * Record a symptom
+ */
+export const create = mutation({
+  args: {
+    symptom: v.string(),
+    bodySystem: v.string(),
+    severity: v.string(),
+    onsetAt: v.number(),
+    notes: v.union(v.string(), v.null()),
+    exposureIds: v.array(v.id('exposures')),
+    photos: v.array(
+      v.object({
+        uploadId: v.id('symptomUploads'),
+        storageId: v.id('_storage'),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    // Validate fields
+    const symptom = args.symptom.trim();
+    if (!symptom) {
+      throw new Error('Symptom is required');
+    }
+    if (symptom.length > 100) {
+      throw new Error('Symptom must be 100 characters or less');
+    }
+    if (!BODY_SYSTEM_IDS.includes(args.bodySystem)) {
+      throw new Error(`Invalid body system: ${args.bodySystem}`);
+    }
+    if (!(SYMPTOM_SEVERITIES as string[]).includes(args.severity)) {
+      throw new Error(`Invalid severity: ${args.severity}`);
+    }
+    if (args.onsetAt > Date.now()) {
+      throw new Error('Onset cannot be in the future');
+    }
+    if (args.photos.length > MAX_SYMPTOM_PHOTOS) {
+      throw new Error(`Maximum ${MAX_SYMPTOM_PHOTOS} photos per symptom`);
+    }
+
+    // Linked exposures must belong to the user
+    for (const exposureId of args.exposureIds) {
+      const exposure = await ctx.db.get(exposureId);
+      if (!exposure || exposure.isDeleted) {
+        throw new Error('Exposure not found');
+      }
+      if (exposure.userId !== user._id) {
+        throw new Error('Not authorized to link this exposure');
+      }
+    }
+
+    // Photos must come from the user's own uploads, each used once
+    for (const photo of args.photos) {
+      const upload = await ctx.db.get(photo.uploadId);
+      if (!upload) {
+        throw new Error('Photo upload not found');
+      }
+      if (upload.userId !== user._id) {
+        throw new Error('Not authorized to use this photo upload');
+      }
+      if (upload.storageId !== null) {
+        throw new Error('Photo upload already used');
+      }
+
+      // Only a file stored after its upload URL was issued can belong to it
+      const file = await ctx.db.system.get(photo.storageId);
+      if (!file || file._creationTime < upload._creationTime) {
+        throw new Error('Photo not found in storage');
+      }
+      if (await isStorageInUse(ctx, photo.storageId)) {
+        throw new Error('Photo is already in use');
+      }
+
+      await ctx.db.patch(photo.uploadId, { storageId: photo.storageId });
+    }
+
+    return await ctx.db.insert('symptoms', {
+      userId: user._id,
+      symptom,
+      bodySystem: args.bodySystem,
+      severity: args.severity,
+      onsetAt: args.onsetAt,
+      notes: args.notes?.trim() || null,
+      exposureIds: [...new Set(args.exposureIds)],
+      photoStorageIds: args.photos.map(photo => photo.storageId),
+      createdAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Delete a symptom and its photos
+ */
+export const remove = mutation({
+  args: {
+    id: v.id('symptoms'),
+  },
+  handler: async (ctx, args) => {
+    // Get authenticated user
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error('Not authenticated');
+    }
+
+    // Find user by clerkId
+    const user = await ctx.db
+      .query('users')
+      .withIndex('by_clerkId', q => q.eq('clerkId', identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const symptom = await ctx.db.get(args.id);
+    if (!symptom) {
+      throw new Error('Symptom not found');
+    }
+    if (symptom.userId !== user._id) {
+      throw new Error('Not authorized to delete this symptom');
+    }
+
+    for (const storageId of symptom.photoStorageIds) {
+      const upload = await findUpload(ctx, storageId);
+      const exposurePhoto = await ctx.db
+        .query('photos')
+        .withIndex('by_storageId', q => q.eq('storageId', storageId))
+        .first();
+      // Leave files that another record still uses
+      if (exposurePhoto || (upload && upload.userId !== user._id)) {
+        continue;
+      }
+      if (upload) {
+        await ctx.db.delete(upload._id);
+      }
+      await ctx.storage.delete(storageId);
+    }
+    await ctx.db.delete(args.id);
+    return args.id;
+  },
+});
@@ -0,0 +1,139 @@
+/**
+ * Exposure Type and PPE Taxonomy
+ * Single source of truth for the ids stored on exposure records, shared by the
+ * Convex functions and the app (display metadata lives in src/constants/exposureTypes.ts)
+ *
+ * Voice parsing and AI suggestions must resolve to these ids before they reach a
+ * record. When ids are added, renamed or removed, bump TAXONOMY_VERSION and map
+ * old ids in the alias tables so exposures:migrateTaxonomy can rewrite stored data.
+ */
+
+export const TAXONOMY_VERSION = 5;
+
+export const EXPOSURE_TYPE_IDS = [
+  'silica_dust',
+  'asbestos_class_a',
+  'asbestos_class_b',
+  'hazardous_chemicals',
+  'noise',
+  'meth_contamination',
+  'mould',
+  'contaminated_soils',
+  'heat_stress',
+  'welding_fumes',
+  'biological_hazards',
+  'radiation',
+  'vibration',
+  'lead',
+  'cold_exposure',
+  'confined_space',
+] as const;
+
+export type ExposureTypeId = (typeof EXPOSURE_TYPE_IDS)[number];
+
+export const PPE_IDS = [
+  'p2_respirator',
+  'p3_respirator',
+  'half_face_respirator',
+  'full_face_respirator',
+  'powered_respirator',
+  'welding_respirator',
+  'respirator',
+  'safety_glasses',
+  'welding_helmet',
+  'hard_hat',
+  'gloves',
+  'disposable_coveralls',
+  'protective_clothing',
+  'hi_vis_clothing',
+  'hearing_protection',
+  'safety_boots',
+  'anti_vibration_gloves',
+  'thermal_clothing',
+  'safety_harness',
+  'gas_detector',
+] as const;
+
+export type PPEId = (typeof PPE_IDS)[number];
+
+// Ids used by earlier app versions, voice parsing or AI prompts
+export const EXPOSURE_TYPE_ALIASES: Record<string, ExposureTypeId> = {
+  asbestos_a: 'asbestos_class_a',
+  asbestos_b: 'asbestos_class_b',
+  asbestos_type_a: 'asbestos_class_a',
+  asbestos_type_b: 'asbestos_class_b',
+  silica: 'silica_dust',
+  chemicals: 'hazardous_chemicals',
+  meth: 'meth_contamination',
+  mold: 'mould',
+  contaminated_soil: 'contaminated_soils',
+  welding: 'welding_fumes',
+  biological: 'biological_hazards',
+  hand_arm_vibration: 'vibration',
+  whole_body_vibration: 'vibration',
+  lead_dust: 'lead',
+  cold: 'cold_exposure',
+  cold_stress: 'cold_exposure',
+  confined_spaces: 'confined_space',
+};
+
+export const PPE_ALIASES: Record<string, PPEId> = {
+  p2_mask: 'p2_respirator',
+  p3_mask: 'p3_respirator',
+  papr: 'powered_respirator',
+  welding_mask: 'welding_helmet',
+  hi_vis: 'hi_vis_clothing',
+  steel_cap_boots: 'safety_boots',
+  steel_toe_boots: 'safety_boots',
+  coveralls: 'disposable_coveralls',
+  ear_protection: 'hearing_protection',
+  av_gloves: 'anti_vibration_gloves',
+  harness: 'safety_harness',
+};
+
+/**
+ * Lowercase snake_case form used for lookups ("P2 Respirator" -> "p2_respirator")
+ */
+function toKey(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+}
+
+export function isExposureTypeId(value: string): value is ExposureTypeId {
+  return (EXPOSURE_TYPE_IDS as readonly string[]).includes(value);
+}
+
+export function isPPEId(value: string): value is PPEId {
+  return (PPE_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Canonical exposure type id for a stored, spoken or suggested value
+ * Returns null when the value does not map to any known type
+ */
+export function normalizeExposureType(value: string | null | undefined): ExposureTypeId | null {
+  if (!value) {
+    return null;
+  }
+  const key = toKey(value);
+  return isExposureTypeId(key) ? key : (EXPOSURE_TYPE_ALIASES[key] ?? null);
+}
+
+/**
+ * Canonical PPE id, accepting the upper-case PPE_TYPES keys used by older clients
+ * Returns null when the value does not map to any known PPE
+ */
+export function normalizePPE(value: string): PPEId | null {
+  const key = toKey(value);
+  return isPPEId(key) ? key : (PPE_ALIASES[key] ?? null);
+}
+
+/**
+ * Canonical, de-duplicated PPE ids, dropping values that do not map
+ */
+export function normalizePPEList(values: string[]): PPEId[] {
+  const ids = values.map(normalizePPE).filter((id): id is PPEId => id !== null);
+  return [...new Set(ids)];
+}
@@ -5,6 +5,10 @@
 
 import { v } from 'convex/values';
 import { mutation, query, internalMutation } from './_generated/server';
+import { summarizeVibrationWeeks } from './exposureDose';
+
+// Weeks of vibration totals returned by getStats
+const STATS_VIBRATION_WEEKS = 8;
 
 /**
  * T037: Create or update user from Clerk webhook
@@ -243,11 +247,14 @@ export const updatePreferences = mutation({
 
 /**
  * Get user statistics
- * Returns exposure count and other metrics
+ * Returns exposure count and other metrics, plus weekly hand-arm vibration totals
+ * grouped by the caller's local days (timezoneOffsetMinutes ahead of UTC)
  */
 export const getStats = query({
-  args: {},
-  handler: async (ctx) => {
+  args: {
+    timezoneOffsetMinutes: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
     // Get authenticated user
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) {
@@ -288,11 +295,21 @@ export const getStats = query({
     // Count pending sync
     const pendingSync = activeExposures.filter(e => e.syncStatus !== 'synced').length;
 
+    // Weekly vibration totals, newest first
+    const vibrationWeekly = summarizeVibrationWeeks(
+      activeExposures.map(e => ({
+        timestamp: e.timestamp,
+        vibrationTools: e.vibrationTools ?? [],
+      })),
+      args.timezoneOffsetMinutes ?? 0
+    ).slice(0, STATS_VIBRATION_WEEKS);
+
     return {
       total: activeExposures.length,
       byType,
       bySeverity,
       pendingSync,
+      vibrationWeekly,
     };
   },
 });
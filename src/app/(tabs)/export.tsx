@@ -3,15 +3,19 @@
  * T069-T072: Professional PDF/CSV export for ACC claims
  *
  * Features:
- * - Date range filtering
- * - Exposure type filtering
- * - Format selection (PDF/CSV)
+ * - Scoping by date range, exposure type, severity and saved site
+ * - Records picked by hand, with a live count and size estimate
+ * - Format selection (PDF/CSV/JSON/FHIR)
+ * - CSV columns, date format and Excel encoding
  * - Progress indicator for large exports
+ * - Large exports split into parts or rendered as one PDF on the server
  * - Share functionality
+ * - PDF templates with toggleable, reorderable sections
+ * - Entry to the ACC claim pack builder
  * - Offline support
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   StyleSheet,
@@ -20,21 +24,60 @@ import {
   TouchableOpacity,
   Alert,
   ActivityIndicator,
+  Linking,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import * as Sharing from 'expo-sharing';
-import * as FileSystem from 'expo-file-system';
+import * as FileSystem from 'expo-file-system/legacy';
 import { useQuery, useConvex } from 'convex/react';
 import { api } from '../../../convex/_generated/api';
+import { Doc, Id } from '../../../convex/_generated/dataModel';
 import { useUser } from '@clerk/clerk-expo';
-import { generatePDF } from '@lib/pdf';
-import { generateCSV, generateCSVSummary } from '@lib/csv';
+import {
+  generatePDF,
+  ChainIntegrity,
+  ExposureForExport,
+  SymptomForExport,
+  UserInfo,
+} from '@lib/pdf';
+import {
+  fetchAllExposures,
+  fetchChainIntegrity,
+  fetchPhotoMetadata,
+  fetchPhotoUrls,
+  fetchSymptoms,
+} from '@lib/exportData';
 import { colors, spacing } from '@constants/theme';
 import { format } from 'date-fns';
 import { useHaptics } from '@hooks/useHaptics';
-
-type ExportFormat = 'pdf' | 'csv' | 'csv-summary';
+import { useExportTemplates } from '@hooks/useExportTemplates';
+import { useCsvOptions } from '@hooks/useCsvOptions';
+import { TemplatePicker } from '@components/export/TemplatePicker';
+import { CsvOptionsPicker } from '@components/export/CsvOptionsPicker';
+import { ExportScopePicker } from '@components/export/ExportScopePicker';
+import { ExportTemplate } from '../../../convex/exportTemplates';
+import { generateCSV, generateCSVSummary } from '../../../convex/csv';
+import { generateStructuredExport } from '../../../convex/structuredExport';
+import {
+  applyExportScope,
+  applySymptomScope,
+  EMPTY_EXPORT_SCOPE,
+  estimateExportBytes,
+  ExportScope,
+  formatEstimatedSize,
+} from '../../../convex/exportScope';
+
+type ExportFormat = 'pdf' | 'csv' | 'csv-summary' | 'json' | 'fhir';
+
+// What the share sheet is told about each format's file
+const SHARE_TYPES: Record<ExportFormat, { mimeType: string; UTI: string }> = {
+  pdf: { mimeType: 'application/pdf', UTI: 'com.adobe.pdf' },
+  csv: { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+  'csv-summary': { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+  json: { mimeType: 'application/json', UTI: 'public.json' },
+  fhir: { mimeType: 'application/fhir+json', UTI: 'public.json' },
+};
 
 export default function ExportScreen() {
   const router = useRouter();
@@ -45,46 +88,73 @@ export default function ExportScreen() {
   const [isExporting, setIsExporting] = useState(false);
   const [exportProgress, setExportProgress] = useState('');
   const [exportPercentage, setExportPercentage] = useState(0); // T038: Track percentage
-  const [allExposures, setAllExposures] = useState<any[]>([]);
+  const [allExposures, setAllExposures] = useState<Doc<'exposures'>[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [scope, setScope] = useState<ExportScope>(EMPTY_EXPORT_SCOPE);
+  const {
+    templates,
+    template,
+    isModified,
+    selectTemplate,
+    editTemplate,
+    saveTemplate,
+    deleteTemplate,
+  } = useExportTemplates();
+  const { options: csvOptions, setOptions: setCsvOptions, resetOptions } = useCsvOptions();
 
-  // Fetch exposures with pagination (max 100 at a time)
-  const firstBatch = useQuery(api.exposures.list, { limit: 100 });
   const convexUser = useQuery(api.users.get);
+  const isSignedIn = !!convexUser;
+  const sites = useQuery(api.locations.list, convexUser ? { userId: convexUser._id } : 'skip');
 
-  // Fetch all exposures in batches
+  // Fetch every exposure, page by page (max 100 at a time)
+  // A failed page blocks exporting, so a claim is never built from part of the records
   useEffect(() => {
-    async function fetchAllExposures() {
-      if (!firstBatch) return;
+    if (!isSignedIn) return;
 
+    let cancelled = false;
+
+    async function loadExposures() {
       setIsLoading(true);
-      const exposures = [...(firstBatch.exposures || [])];
-
-      // If there's a cursor, keep fetching
-      let cursor = firstBatch.cursor;
-      while (cursor) {
-        try {
-          // Note: This is a workaround - ideally we'd use useQuery in a loop
-          // For now, we'll just use the first 100
-          break;
-        } catch (error) {
-          console.error('Error fetching more exposures:', error);
-          break;
+      setLoadError(null);
+
+      try {
+        const exposures = await fetchAllExposures(convex, () => cancelled);
+        if (!cancelled) {
+          setAllExposures(exposures);
+        }
+      } catch (error) {
+        console.error('Error fetching exposures:', error);
+        if (!cancelled) {
+          setAllExposures([]);
+          setLoadError(
+            error instanceof Error ? error.message : 'Your exposures could not be loaded.'
+          );
         }
       }
 
-      setAllExposures(exposures);
-      setIsLoading(false);
+      if (!cancelled) {
+        setIsLoading(false);
+      }
     }
 
-    fetchAllExposures();
-  }, [firstBatch]);
+    loadExposures();
 
-  const exposureCount = allExposures.length;
+    return () => {
+      cancelled = true;
+    };
+  }, [convex, isSignedIn, loadAttempt]);
+
+  const scopedExposures = useMemo(
+    () => applyExportScope(allExposures, scope, sites ?? []),
+    [allExposures, scope, sites]
+  );
+  const exposureCount = scopedExposures.length;
 
   async function handleExport() {
-    if (allExposures.length === 0) {
-      Alert.alert('No Data', 'No exposure records found to export');
+    if (scopedExposures.length === 0) {
+      Alert.alert('No Data', 'No exposure records match the export scope');
       return;
     }
 
@@ -117,24 +187,15 @@ export default function ExportScreen() {
         // Fetch all photo URLs for PDF export
         setExportProgress('Fetching photos...');
         setExportPercentage(25); // T038: 25% - Fetching photos
-        const allPhotoIds = allExposures.flatMap(exp => exp.photoIds || []);
-        const photoUrlsMap = new Map<string, string>();
-
-        if (allPhotoIds.length > 0) {
-          try {
-            const photoUrls = await convex.query(api.photos.getPhotoUrls, {
-              photoIds: allPhotoIds,
-            });
-            photoUrls.forEach((photo: any) => {
-              if (photo.url) {
-                photoUrlsMap.set(photo.photoId, photo.url);
-              }
-            });
-          } catch (error) {
-            console.error('Error fetching photo URLs:', error);
-            // Continue without photos rather than failing completely
-          }
-        }
+        const photoUrlsMap = await fetchPhotoUrls(convex, scopedExposures);
+
+        // Hash chain proofs let the recipient verify the records
+        setExportProgress('Verifying record integrity...');
+        setExportPercentage(40);
+        const integrity = await fetchChainIntegrity(convex, scopedExposures);
+
+        // Symptoms linked to the exposures or begun within the date range, for the timeline section
+        const symptoms = applySymptomScope(await fetchSymptoms(convex), scopedExposures, scope);
 
         setExportProgress(
           `Generating PDF with ${exposureCount} exposures and ${photoUrlsMap.size} photos...`
@@ -145,13 +206,26 @@ export default function ExportScreen() {
         if (exposureCount > 50) {
           Alert.alert(
             'Large Export',
-            `You have ${exposureCount} exposures. This will be exported in chunks of 20 exposures per PDF. Continue?`,
+            `You have ${exposureCount} exposures. Export them in parts of 20 exposures per PDF, or as one PDF generated on the server?`,
             [
               { text: 'Cancel', style: 'cancel', onPress: () => setIsExporting(false) },
               {
-                text: 'Continue',
+                text: 'One PDF',
                 onPress: async () => {
-                  await generateChunkedPDF(allExposures, userInfo, photoUrlsMap);
+                  await generateServerPDF(scopedExposures, userInfo, template);
+                },
+              },
+              {
+                text: 'Parts',
+                onPress: async () => {
+                  await generateChunkedPDF(
+                    scopedExposures,
+                    userInfo,
+                    photoUrlsMap,
+                    integrity,
+                    symptoms,
+                    template
+                  );
                 },
               },
             ]
@@ -159,14 +233,22 @@ export default function ExportScreen() {
           return;
         }
 
-        fileUri = await generatePDF(allExposures, userInfo, photoUrlsMap);
+        fileUri = await generatePDF(
+          // Severity is stored as a string, always one of the three levels
+          scopedExposures as ExposureForExport[],
+          userInfo,
+          photoUrlsMap,
+          integrity,
+          symptoms,
+          template
+        );
         setExportPercentage(80); // T038: 80% - PDF generated
         fileName = `waldo-health-exposures-${format(new Date(), 'yyyy-MM-dd')}.pdf`;
       } else if (selectedFormat === 'csv') {
         // T071: CSV generation
         setExportProgress('Generating CSV...');
         setExportPercentage(50); // T038: 50% - Starting CSV generation
-        const csvContent = generateCSV(allExposures as any);
+        const csvContent = generateCSV(scopedExposures, csvOptions);
         setExportPercentage(80); // T038: 80% - CSV generated
 
         // Write CSV to file
@@ -176,11 +258,11 @@ export default function ExportScreen() {
           encoding: FileSystem.EncodingType.UTF8,
         });
         fileName = `waldo-health-exposures-${format(new Date(), 'yyyy-MM-dd')}.csv`;
-      } else {
+      } else if (selectedFormat === 'csv-summary') {
         // CSV Summary
         setExportProgress('Generating summary...');
         setExportPercentage(50); // T038: 50% - Starting summary generation
-        const summaryContent = generateCSVSummary(allExposures as any);
+        const summaryContent = generateCSVSummary(scopedExposures, csvOptions);
         setExportPercentage(80); // T038: 80% - Summary generated
 
         fileUri =
@@ -190,6 +272,33 @@ export default function ExportScreen() {
           encoding: FileSystem.EncodingType.UTF8,
         });
         fileName = `waldo-health-summary-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+      } else {
+        // JSON document or FHIR Bundle, with photo metadata but not the photos
+        setExportProgress('Fetching photo details...');
+        setExportPercentage(30);
+        const photoMetadata = await fetchPhotoMetadata(convex, scopedExposures);
+
+        setExportProgress(
+          selectedFormat === 'fhir' ? 'Generating FHIR bundle...' : 'Generating JSON...'
+        );
+        setExportPercentage(50);
+        const content = generateStructuredExport(
+          selectedFormat,
+          scopedExposures,
+          userInfo,
+          photoMetadata,
+          Date.now(),
+          -new Date().getTimezoneOffset()
+        );
+        setExportPercentage(80);
+
+        const suffix = selectedFormat === 'fhir' ? 'fhir' : 'exposures';
+        fileUri =
+          FileSystem.documentDirectory + `${suffix}-${format(new Date(), 'yyyy-MM-dd')}.json`;
+        await FileSystem.writeAsStringAsync(fileUri, content, {
+          encoding: FileSystem.EncodingType.UTF8,
+        });
+        fileName = `waldo-health-${suffix}-${format(new Date(), 'yyyy-MM-dd')}.json`;
       }
 
       setExportProgress('Export complete!');
@@ -200,9 +309,9 @@ export default function ExportScreen() {
       const canShare = await Sharing.isAvailableAsync();
       if (canShare) {
         await Sharing.shareAsync(fileUri, {
-          mimeType: selectedFormat === 'pdf' ? 'application/pdf' : 'text/csv',
+          mimeType: SHARE_TYPES[selectedFormat].mimeType,
           dialogTitle: 'Share Exposure Documentation',
-          UTI: selectedFormat === 'pdf' ? 'com.adobe.pdf' : 'public.comma-separated-values-text',
+          UTI: SHARE_TYPES[selectedFormat].UTI,
         });
       } else {
         Alert.alert(
@@ -227,10 +336,60 @@ export default function ExportScreen() {
     }
   }
 
+  async function generateServerPDF(
+    exposures: Doc<'exposures'>[],
+    userInfo: UserInfo,
+    exportTemplate: ExportTemplate
+  ) {
+    try {
+      setExportProgress('Generating PDF on the server...');
+      setExportPercentage(60);
+
+      const result = await convex.action(api.exports.generateExport, {
+        format: 'pdf',
+        exposureIds: exposures.map(exp => exp._id),
+        scope: {
+          dateFrom: scope.dateFrom,
+          dateTo: scope.dateTo,
+          exposureTypes: scope.exposureTypes,
+          severities: scope.severities,
+          siteIds: scope.siteIds as Id<'locations'>[],
+        },
+        userInfo,
+        timezoneOffsetMinutes: -new Date().getTimezoneOffset(),
+        template: exportTemplate,
+      });
+      if (!result.url) {
+        throw new Error(result.message);
+      }
+
+      setExportPercentage(100);
+      success();
+      // The link expires, so open it now for the user to save or share
+      await Linking.openURL(result.url);
+      setIsExporting(false);
+      setExportProgress('');
+      setExportPercentage(0);
+    } catch (error) {
+      console.error('Server PDF error:', error);
+      errorHaptic();
+      Alert.alert(
+        'Export Failed',
+        'The server could not generate the PDF. Try exporting in parts.'
+      );
+      setIsExporting(false);
+      setExportProgress('');
+      setExportPercentage(0);
+    }
+  }
+
   async function generateChunkedPDF(
-    exposures: any[],
-    userInfo: any,
-    photoUrlsMap: Map<string, string>
+    exposures: Doc<'exposures'>[],
+    userInfo: UserInfo,
+    photoUrlsMap: Map<string, string>,
+    integrity: ChainIntegrity | null,
+    symptoms: SymptomForExport[],
+    exportTemplate: ExportTemplate
   ) {
     try {
       const chunkSize = 20;
@@ -248,12 +407,16 @@ export default function ExportScreen() {
         setExportPercentage(progress); // T038: Update percentage for chunks
 
         const fileUri = await generatePDF(
-          chunks[i],
+          chunks[i] as ExposureForExport[],
           {
             ...userInfo,
             name: `${userInfo.name || 'User'} (Part ${i + 1}/${chunks.length})`,
           },
-          photoUrlsMap
+          photoUrlsMap,
+          integrity,
+          // The timeline spans every exposure, so it goes in the last part
+          i === chunks.length - 1 ? symptoms : [],
+          exportTemplate
         );
 
         const fileName = `waldo-health-exposures-part${i + 1}-${format(new Date(), 'yyyy-MM-dd')}.pdf`;
@@ -290,7 +453,9 @@ export default function ExportScreen() {
         <Text style={styles.subtitle}>
           {isLoading
             ? 'Loading...'
-            : `${exposureCount} exposure${exposureCount !== 1 ? 's' : ''} available for export`}
+            : loadError
+              ? 'Exposures could not be loaded'
+              : `${allExposures.length} exposure${allExposures.length !== 1 ? 's' : ''} available for export`}
         </Text>
       </View>
 
@@ -299,8 +464,42 @@ export default function ExportScreen() {
           <ActivityIndicator size="large" color={colors.primary} />
           <Text style={styles.loadingText}>Loading exposures...</Text>
         </View>
+      ) : loadError ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.errorTitle}>Could Not Load Your Exposures</Text>
+          <Text style={styles.loadingText}>{loadError}</Text>
+          <Text style={styles.loadingText}>
+            Exporting is paused so a document never leaves out records.
+          </Text>
+          <TouchableOpacity
+            style={styles.retryButton}
+            onPress={() => setLoadAttempt(attempt => attempt + 1)}
+            accessibilityRole="button"
+          >
+            <Text style={styles.exportButtonText}>Try Again</Text>
+          </TouchableOpacity>
+        </View>
       ) : (
         <ScrollView style={styles.content}>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Filing an ACC Claim?</Text>
+
+            <TouchableOpacity
+              style={styles.formatOption}
+              onPress={() => router.push('/claim-pack')}
+              disabled={isExporting}
+              accessibilityRole="button"
+            >
+              <View style={styles.formatInfo}>
+                <Text style={styles.formatTitle}>Build a Claim Pack</Text>
+                <Text style={styles.formatDescription}>
+                  Pick the exposures behind your claim and add your statement, symptoms and employer
+                  details. Produces one PDF with a chronology, totals and photo appendix.
+                </Text>
+              </View>
+            </TouchableOpacity>
+          </View>
+
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Export Format</Text>
 
@@ -352,13 +551,101 @@ export default function ExportScreen() {
                 </Text>
               </View>
             </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[
+                styles.formatOption,
+                selectedFormat === 'json' && styles.formatOptionSelected,
+              ]}
+              onPress={() => setSelectedFormat('json')}
+            >
+              <View style={styles.radioButton}>
+                {selectedFormat === 'json' && <View style={styles.radioButtonInner} />}
+              </View>
+              <View style={styles.formatInfo}>
+                <Text style={styles.formatTitle}>JSON Data</Text>
+                <Text style={styles.formatDescription}>
+                  Exposures, photo details and your profile as a versioned JSON document for other
+                  software.
+                </Text>
+              </View>
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={[
+                styles.formatOption,
+                selectedFormat === 'fhir' && styles.formatOptionSelected,
+              ]}
+              onPress={() => setSelectedFormat('fhir')}
+            >
+              <View style={styles.radioButton}>
+                {selectedFormat === 'fhir' && <View style={styles.radioButtonInner} />}
+              </View>
+              <View style={styles.formatInfo}>
+                <Text style={styles.formatTitle}>FHIR Bundle</Text>
+                <Text style={styles.formatDescription}>
+                  HL7 FHIR R4 bundle of observations for health records and occupational health
+                  providers.
+                </Text>
+              </View>
+            </TouchableOpacity>
           </View>
 
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Export Scope</Text>
+            <Text style={styles.scopeSummary}>
+              {exposureCount} of {allExposures.length} exposures ·{' '}
+              {formatEstimatedSize(estimateExportBytes(scopedExposures, selectedFormat))}
+            </Text>
+            <ExportScopePicker
+              scope={scope}
+              onChange={setScope}
+              onReset={() => setScope(EMPTY_EXPORT_SCOPE)}
+              exposures={allExposures}
+              sites={sites ?? []}
+              disabled={isExporting}
+            />
+          </View>
+
+          {selectedFormat === 'pdf' && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>PDF Template</Text>
+              <TemplatePicker
+                templates={templates}
+                template={template}
+                isModified={isModified}
+                onSelect={selectTemplate}
+                onChange={editTemplate}
+                onSave={saveTemplate}
+                onDelete={id =>
+                  Alert.alert('Delete Template', 'Delete this saved template?', [
+                    { text: 'Cancel', style: 'cancel' },
+                    { text: 'Delete', style: 'destructive', onPress: () => deleteTemplate(id) },
+                  ])
+                }
+                disabled={isExporting}
+              />
+            </View>
+          )}
+
+          {(selectedFormat === 'csv' || selectedFormat === 'csv-summary') && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>CSV Options</Text>
+              <CsvOptionsPicker
+                options={csvOptions}
+                onChange={setCsvOptions}
+                onReset={resetOptions}
+                showColumns={selectedFormat === 'csv'}
+                disabled={isExporting}
+              />
+            </View>
+          )}
+
           {selectedFormat === 'pdf' && exposureCount > 50 && (
             <View style={styles.warningBox}>
               <Text style={styles.warningText}>
-                ⚠️ Large Export: {exposureCount} exposures will be split into multiple PDFs (20 per
-                file) for optimal performance.
+                ⚠️ Large Export: {exposureCount} exposures can be split into multiple PDFs (20 per
+                file) or generated as one PDF on the server.
               </Text>
             </View>
           )}
@@ -370,7 +657,7 @@ export default function ExportScreen() {
               quality)
             </Text>
             <Text style={styles.infoText}>
-              • Photos are displayed in a 2-column grid for professional presentation
+              • Photos are collected in a numbered 2-column appendix when the template includes it
             </Text>
             <Text style={styles.infoText}>• Exports work offline after photos are fetched</Text>
             <Text style={styles.infoText}>
@@ -386,12 +673,7 @@ export default function ExportScreen() {
                 <Text style={styles.progressPercentage}>{exportPercentage}%</Text>
               </View>
               <View style={styles.progressBarBackground}>
-                <View
-                  style={[
-                    styles.progressBarFill,
-                    { width: `${exportPercentage}%` },
-                  ]}
-                />
+                <View style={[styles.progressBarFill, { width: `${exportPercentage}%` }]} />
               </View>
             </View>
           )}
@@ -459,6 +741,12 @@ const styles = StyleSheet.create({
     color: colors.text,
     marginBottom: spacing.md,
   },
+  scopeSummary: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary,
+    marginBottom: spacing.sm,
+  },
   formatOption: {
     flexDirection: 'row',
     padding: spacing.md,
@@ -576,6 +864,20 @@ const styles = StyleSheet.create({
     marginTop: spacing.md,
     fontSize: 16,
     color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  errorTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.error,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: spacing.lg,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.xl,
+    backgroundColor: colors.primary,
+    borderRadius: 8,
   },
   // T038: Progress indicator styles
   progressContainer: {
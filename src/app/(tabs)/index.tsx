@@ -7,14 +7,49 @@ import { colors, spacing, typography } from '@constants/theme';
 import { useQuery } from 'convex/react';
 import { api } from '../../../convex/_generated/api';
 import { SkeletonText } from '@components/common/SkeletonText';
+import { HealthCheckSchedule } from '@components/health/HealthCheckSchedule';
+import { useHealthMonitoring } from '@hooks/useHealthMonitoring';
+
+/**
+ * Upcoming and overdue health monitoring checks, hidden when none are due
+ */
+function HealthMonitoringSection() {
+  const router = useRouter();
+  const checks = useHealthMonitoring();
+
+  if (!checks || checks.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.healthSection}>
+      <View style={styles.healthHeader}>
+        <Text style={styles.sectionTitle}>Health Monitoring</Text>
+        <TouchableOpacity
+          onPress={() => router.push('/health')}
+          accessibilityLabel="View health checks"
+        >
+          <Text style={styles.sectionLink}>View all</Text>
+        </TouchableOpacity>
+      </View>
+      <HealthCheckSchedule
+        checks={checks}
+        onLogCheck={checkType => router.push(`/health/log?checkType=${checkType}`)}
+      />
+    </View>
+  );
+}
 
 export default function Index() {
   const { isSignedIn, signOut } = useAuth();
   const { user } = useUser();
   const router = useRouter();
-  const exposures = useQuery(api.exposures.list, isSignedIn ? { limit: 5 } : 'skip');
+  const exposures = useQuery(
+    api.exposures.list,
+    isSignedIn ? { paginationOpts: { numItems: 5, cursor: null } } : 'skip'
+  );
 
-  const recentCount = exposures?.exposures?.length || 0;
+  const recentCount = exposures?.page.length || 0;
 
   if (!isSignedIn) {
     return (
@@ -144,6 +179,8 @@ export default function Index() {
           </TouchableOpacity>
         </View>
 
+        <HealthMonitoringSection />
+
         {/* Info Section */}
         <View style={styles.infoSection}>
           <View style={styles.infoTitleContainer}>
@@ -283,6 +320,26 @@ const styles = StyleSheet.create({
     textAlign: 'center',
   },
 
+  // Health Monitoring Section
+  healthSection: {
+    marginBottom: spacing.xl,
+  },
+  healthHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  sectionLink: {
+    fontSize: 14,
+    color: colors.primary,
+  },
+
   // Info Section
   // T061: Use theme tokens
   infoSection: {
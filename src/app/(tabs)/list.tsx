@@ -8,15 +8,27 @@
  * - Result count display (T022)
  * - Tappable cards with navigation (T025)
  * - Pull-to-refresh (T026)
+ * - Sync conflict banner linking to resolution
+ * - Infinite scroll, next page loads near the end of the list
+ * - Active search and filters run server-side over the full history
  */
 
 import React from 'react';
-import { View, StyleSheet, FlatList, RefreshControl, Text, Pressable } from 'react-native';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  RefreshControl,
+  Text,
+  Pressable,
+  ActivityIndicator,
+} from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { useExposures } from '@hooks/useExposures';
+import { useExposures, useExposureSearch, useDailyTWA } from '@hooks/useExposures';
 import { useOfflineSync } from '@hooks/useOfflineSync';
+import { useSyncConflicts } from '@hooks/useSyncConflicts';
 import { useSearch } from '@hooks/useSearch';
 import { useFilter } from '@hooks/useFilter';
 import { useHaptics } from '@hooks/useHaptics';
@@ -29,16 +41,29 @@ import { colors, spacing, typography } from '@constants/theme';
 
 export default function ExposuresListScreen() {
   const router = useRouter();
-  const { exposures, isLoading, refresh } = useExposures();
+  const { exposures, isLoading, isLoadingMore, loadMore, refresh } = useExposures();
   const { isOnline, exposureQueueCount, photoQueueCount } = useOfflineSync();
   const pendingCount = exposureQueueCount + photoQueueCount;
+  const { conflicts } = useSyncConflicts();
   const { light } = useHaptics(); // T077: Haptic for pull-to-refresh
 
   // T020: Search integration
-  const { query, setQuery, results: searchResults, isTyping } = useSearch(exposures || []);
+  const { query, setQuery, debouncedQuery, isTyping } = useSearch(exposures || []);
 
   // T021: Filter integration
-  const { filters, setFilters, filtered } = useFilter(searchResults);
+  const { filters, setFilters, activeFilterCount } = useFilter(exposures || []);
+
+  const hasActiveFilters = activeFilterCount > 0;
+  const hasSearchQuery = query.length > 0;
+  const searchQuery = debouncedQuery.trim();
+
+  // Loaded pages only hold part of the history, so active search and filters go to the server
+  const isFiltering = hasActiveFilters || searchQuery.length > 0;
+  const search = useExposureSearch(
+    isFiltering ? { ...filters, searchQuery: searchQuery || undefined } : null
+  );
+  const visible = (isFiltering ? search.exposures : exposures) || [];
+  const twaByExposure = useDailyTWA(visible.filter(exposure => exposure.concentration));
 
   /**
    * T025: Handle card press - navigate to detail view
@@ -55,12 +80,6 @@ export default function ExposuresListScreen() {
     refresh();
   };
 
-  const hasActiveFilters =
-    (filters.exposureType && filters.exposureType.length > 0) ||
-    (filters.severity && filters.severity.length > 0);
-
-  const hasSearchQuery = query.length > 0;
-
   /**
    * T032: Show skeleton loading when data is undefined (initial load)
    */
@@ -108,13 +127,29 @@ export default function ExposuresListScreen() {
         </View>
       </View>
 
+      {/* Offline edits that need manual resolution */}
+      {conflicts.length > 0 && (
+        <Pressable
+          style={styles.conflictBanner}
+          onPress={() => router.push('/conflicts')}
+          accessibilityRole="button"
+          accessibilityLabel={`${conflicts.length} sync conflicts need review`}
+        >
+          <Ionicons name="git-compare-outline" size={18} color={colors.warning} />
+          <Text style={styles.conflictText}>
+            {conflicts.length} sync conflict{conflicts.length !== 1 ? 's' : ''} need review
+          </Text>
+          <Ionicons name="chevron-forward" size={18} color={colors.textSecondary} />
+        </Pressable>
+      )}
+
       {/* T020: SearchBar */}
       <View style={styles.searchContainer}>
         <SearchBar
           query={query}
           onQueryChange={setQuery}
-          isLoading={isTyping}
-          resultCount={searchResults.length}
+          isLoading={isTyping || search.isLoading}
+          resultCount={visible.length}
           placeholder="Search by activity, notes, or location..."
         />
       </View>
@@ -124,22 +159,30 @@ export default function ExposuresListScreen() {
         filters={filters}
         onFiltersChange={setFilters}
         totalCount={exposures?.length || 0}
-        filteredCount={filtered.length}
+        filteredCount={visible.length}
         isLoading={isLoading}
       />
 
       {/* T026: List with pull-to-refresh */}
       <FlatList
-        data={filtered}
+        data={visible}
         renderItem={({ item }) => (
           // T025: Use ExposureCard component with tap navigation
           <ExposureCard
             exposure={item}
+            twa={twaByExposure.get(item._id)}
             onPress={() => handleCardPress(item._id)}
           />
         )}
         keyExtractor={item => item._id}
         contentContainerStyle={styles.listContent}
+        onEndReached={isFiltering ? search.loadMore : loadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          (isFiltering ? search.isLoadingMore : isLoadingMore) ? (
+            <ActivityIndicator style={styles.footer} color={colors.primary} />
+          ) : null
+        }
         ListEmptyComponent={() => {
           // T035: Empty state for no filter results with clear filters CTA
           if (hasActiveFilters || hasSearchQuery) {
@@ -217,6 +260,21 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: colors.textSecondary,
   },
+  conflictBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+    backgroundColor: colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  conflictText: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+  },
   searchContainer: {
     paddingHorizontal: spacing.md,
     paddingVertical: spacing.sm,
@@ -227,4 +285,7 @@ const styles = StyleSheet.create({
   listContent: {
     padding: spacing.md,
   },
+  footer: {
+    paddingVertical: spacing.md,
+  },
 });
@@ -3,17 +3,20 @@
  * Interactive map showing all exposure locations with filtering
  */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { View, StyleSheet, TouchableOpacity, ScrollView, Text } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
-import { useQuery } from 'convex/react';
+import { usePaginatedQuery } from 'convex/react';
 import { api } from '../../../convex/_generated/api';
 import { MapView } from '@components/exposure/MapView';
 import { EXPOSURE_TYPES } from '@constants/exposureTypes';
 import { colors, spacing } from '@constants/theme';
 import { useAuth } from '@clerk/clerk-expo';
 
+// Largest page accepted by exposures.list
+const MAP_PAGE_SIZE = 100;
+
 export default function MapScreen() {
   const router = useRouter();
   const { userId } = useAuth();
@@ -21,8 +24,20 @@ export default function MapScreen() {
   const [showFilters, setShowFilters] = useState(false);
 
   // Fetch all exposures for the user (userId comes from auth context in Convex)
-  const exposuresData = useQuery(api.exposures.list, userId ? {} : 'skip');
-  const exposures = exposuresData?.exposures || [];
+  const {
+    results: exposures,
+    status,
+    loadMore,
+  } = usePaginatedQuery(api.exposures.list, userId ? {} : 'skip', {
+    initialNumItems: MAP_PAGE_SIZE,
+  });
+
+  // Keep loading pages until every exposure is on the map
+  useEffect(() => {
+    if (status === 'CanLoadMore') {
+      loadMore(MAP_PAGE_SIZE);
+    }
+  }, [status, loadMore]);
 
   // Filter exposures by selected types
   const filteredExposures =
@@ -31,26 +31,23 @@ import { useHaptics } from '@hooks/useHaptics';
 import { useDraftForm } from '@hooks/useDraftForm';
 import { PhotoCapture } from '@components/exposure/PhotoCapture';
 import { HazardScanResult } from '@components/exposure/HazardScanResult';
+import { NoiseSegmentsInput } from '@components/exposure/NoiseSegmentsInput';
+import { VibrationToolsInput } from '@components/exposure/VibrationToolsInput';
+import { ConcentrationInput } from '@components/exposure/ConcentrationInput';
 import { FormProgress } from '@components/forms/FormProgress';
 import { InlineError } from '@components/forms/InlineError';
 import { DraftSaver } from '@components/forms/DraftSaver';
 import { colors, spacing } from '@constants/theme';
 import { isAIDetectionEnabled } from '@constants/config';
+import { EXPOSURE_TYPES as EXPOSURE_TYPE_DEFINITIONS } from '@constants/exposureTypes';
+import type { Concentration, NoiseSegment, VibrationToolUse } from '../../../convex/exposureDose';
+import { CONCENTRATION_EXPOSURE_TYPES } from '../../../convex/exposureStandards';
+import type { PhotoLocal } from '../../types/photo';
 
-const EXPOSURE_TYPES = [
-  { value: 'silica_dust', label: 'Silica Dust' },
-  { value: 'asbestos_a', label: 'Asbestos (Class A)' },
-  { value: 'asbestos_b', label: 'Asbestos (Class B)' },
-  { value: 'hazardous_chemicals', label: 'Hazardous Chemicals' },
-  { value: 'noise', label: 'Noise' },
-  { value: 'meth_contamination', label: 'Meth Contamination' },
-  { value: 'mould', label: 'Mould' },
-  { value: 'contaminated_soils', label: 'Contaminated Soils' },
-  { value: 'heat_stress', label: 'Heat Stress' },
-  { value: 'welding_fumes', label: 'Welding Fumes' },
-  { value: 'biological_hazards', label: 'Biological Hazards' },
-  { value: 'radiation', label: 'Radiation' },
-];
+const EXPOSURE_TYPES = Object.values(EXPOSURE_TYPE_DEFINITIONS).map(type => ({
+  value: type.id,
+  label: type.label,
+}));
 
 export default function NewExposureScreen() {
   const router = useRouter();
@@ -87,6 +84,11 @@ export default function NewExposureScreen() {
 
   const [exposureType, setExposureType] = useState('');
   const [workActivity, setWorkActivity] = useState('');
+  const [vibrationTools, setVibrationTools] = useState<VibrationToolUse[]>([]);
+  const [bloodLeadTestReference, setBloodLeadTestReference] = useState('');
+  const [noiseSegments, setNoiseSegments] = useState<NoiseSegment[]>([]);
+  const [noisePeakDbC, setNoisePeakDbC] = useState<number | null>(null);
+  const [concentration, setConcentration] = useState<Concentration | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [showTypePicker, setShowTypePicker] = useState(false);
   const [pulseAnim] = useState(new Animated.Value(1));
@@ -104,17 +106,18 @@ export default function NewExposureScreen() {
   const [validationErrors, setValidationErrors] = useState<{
     exposureType?: string;
     workActivity?: string;
+    vibrationTools?: string;
   }>({});
 
   // T047, T072, T073: Haptic feedback
   const { light, success, error: errorHaptic } = useHaptics();
 
   // T044-T046: Draft management
-  const formData = { exposureType, workActivity, siteName, photoUris };
+  const formData = { exposureType, workActivity, siteName, photos };
   const { loadDraft, clearDraft, lastSaved } = useDraftForm('new-exposure', formData, 2000);
 
   // T100: Photo and AI scan state
-  const [photoUris, setPhotoUris] = useState<string[]>([]);
+  const [photos, setPhotos] = useState<PhotoLocal[]>([]);
   const [aiScanLoading, setAiScanLoading] = useState(false);
   const [aiScanResult, setAiScanResult] = useState<any>(null);
   const [aiScanError, setAiScanError] = useState<string | null>(null);
@@ -132,7 +135,7 @@ export default function NewExposureScreen() {
         setExposureType(draft.exposureType || '');
         setWorkActivity(draft.workActivity || '');
         setSiteName(draft.siteName || '');
-        setPhotoUris(draft.photoUris || []);
+        setPhotos(draft.photos || []);
       }
     }
     loadSavedDraft();
@@ -303,7 +306,7 @@ export default function NewExposureScreen() {
 
   async function handleSave() {
     // T043: Validation with inline errors
-    const errors: { exposureType?: string; workActivity?: string } = {};
+    const errors: { exposureType?: string; workActivity?: string; vibrationTools?: string } = {};
 
     if (!exposureType) {
       errors.exposureType = 'Exposure type is required';
@@ -311,6 +314,9 @@ export default function NewExposureScreen() {
     if (!workActivity || workActivity.trim().length === 0) {
       errors.workActivity = 'Work activity description is required';
     }
+    if (exposureType === 'vibration' && vibrationTools.length === 0) {
+      errors.vibrationTools = 'Add at least one tool with its trigger time';
+    }
 
     if (Object.keys(errors).length > 0) {
       setValidationErrors(errors);
@@ -351,7 +357,13 @@ export default function NewExposureScreen() {
         chemicalName: parsedData.chemicalName || null,
         sdsReference: null,
         controlMeasures: null,
-        photoUris, // T100: Include captured photos
+        vibrationTools: exposureType === 'vibration' ? vibrationTools : null,
+        bloodLeadTestReference:
+          exposureType === 'lead' ? bloodLeadTestReference.trim() || null : null,
+        noiseSegments: exposureType === 'noise' && noiseSegments.length > 0 ? noiseSegments : null,
+        noisePeakDbC: exposureType === 'noise' ? noisePeakDbC : null,
+        concentration: CONCENTRATION_EXPOSURE_TYPES.includes(exposureType) ? concentration : null,
+        photos, // T100: Include captured photos
         voiceTranscription: transcript || null,
       });
 
@@ -416,7 +428,7 @@ export default function NewExposureScreen() {
         {isAIDetectionEnabled() && (
           <View style={styles.section}>
             <PhotoCapture
-              onPhotosChange={setPhotoUris}
+              onPhotosChange={setPhotos}
               onAIScanRequest={handleAIScanRequest}
               maxPhotos={5}
               aiScanEnabled={true}
@@ -495,6 +507,65 @@ export default function NewExposureScreen() {
           )}
         </View>
 
+        {/* Vibrating tools and daily A(8) */}
+        {exposureType === 'vibration' && (
+          <View style={styles.field}>
+            <VibrationToolsInput
+              tools={vibrationTools}
+              onChange={tools => {
+                setVibrationTools(tools);
+                if (validationErrors.vibrationTools) {
+                  setValidationErrors({ ...validationErrors, vibrationTools: undefined });
+                }
+              }}
+            />
+            {validationErrors.vibrationTools && (
+              <InlineError
+                message={validationErrors.vibrationTools}
+                errorId="vibrationTools-error"
+              />
+            )}
+          </View>
+        )}
+
+        {/* Noise levels and daily dose */}
+        {exposureType === 'noise' && (
+          <View style={styles.field}>
+            <NoiseSegmentsInput
+              segments={noiseSegments}
+              peakDbC={noisePeakDbC}
+              onChangeSegments={setNoiseSegments}
+              onChangePeak={setNoisePeakDbC}
+            />
+          </View>
+        )}
+
+        {/* Airborne concentration for the daily WES-TWA */}
+        {CONCENTRATION_EXPOSURE_TYPES.includes(exposureType) && (
+          <View style={styles.field}>
+            <ConcentrationInput
+              exposureType={exposureType}
+              chemicalName={parsedData.chemicalName || null}
+              concentration={concentration}
+              onChange={setConcentration}
+            />
+          </View>
+        )}
+
+        {/* Blood-lead test reference */}
+        {exposureType === 'lead' && (
+          <View style={styles.field}>
+            <Text style={styles.label}>Blood-Lead Test Reference (Optional)</Text>
+            <TextInput
+              style={styles.input}
+              value={bloodLeadTestReference}
+              onChangeText={setBloodLeadTestReference}
+              placeholder="Lab reference of your latest blood-lead test"
+              accessibilityLabel="Blood-lead test reference"
+            />
+          </View>
+        )}
+
         {/* T110-T111: Site Name Field */}
         <View style={styles.field}>
           <View style={styles.fieldHeader}>
@@ -6,12 +6,16 @@
 import React, { useState, useEffect } from 'react';
 import { View, StyleSheet, ScrollView, Text, Switch, TouchableOpacity, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
+import { format } from 'date-fns';
 import { useUser, useAuth } from '@clerk/clerk-expo';
 import { useQuery, useMutation } from 'convex/react';
 import { api } from '../../../convex/_generated/api';
 import { colors, spacing } from '@constants/theme';
+import { HAV_ACTION_VALUE, HAV_LIMIT_VALUE } from '../../../convex/exposureDose';
 import { APP_CONFIG } from '@constants/config';
+import { requestNotificationPermission } from '@lib/notifications';
 import { performanceMonitor } from '@utils/performance';
 import {
   generatePerformanceReport,
@@ -30,6 +34,12 @@ export default function ProfileScreen() {
   const userData = useQuery(api.users.get, userId ? {} : 'skip');
   const updatePreferences = useMutation(api.users.updatePreferences);
 
+  // Weekly vibration totals, grouped by the device's local days
+  const stats = useQuery(
+    api.users.getStats,
+    userId ? { timezoneOffsetMinutes: -new Date().getTimezoneOffset() } : 'skip'
+  );
+
   // Local state for preferences
   const [enableVoiceEntry, setEnableVoiceEntry] = useState(
     userData?.preferences?.enableVoiceEntry ?? true
@@ -61,6 +71,21 @@ export default function ProfileScreen() {
     }
   }
 
+  /**
+   * Turn notifications on or off, asking for permission when turning them on
+   */
+  async function handleNotificationsChange(value: boolean) {
+    if (value && !(await requestNotificationPermission())) {
+      Alert.alert(
+        'Notifications Blocked',
+        'Allow notifications for Waldo Health in your device settings to get health check reminders.'
+      );
+      return;
+    }
+    setNotificationsEnabled(value);
+    handlePreferenceChange('notificationsEnabled', value);
+  }
+
   /**
    * Handle sign out
    */
@@ -158,6 +183,109 @@ export default function ProfileScreen() {
           </View>
         </View>
 
+        {/* Cumulative Exposure Register, Health Monitoring, Symptoms and Import */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Exposure History</Text>
+          <View style={styles.settingCard}>
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={() => router.push('/register')}
+              accessibilityRole="button"
+              accessibilityLabel="Open cumulative exposure register"
+            >
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Cumulative Exposure Register</Text>
+                <Text style={styles.settingDescription}>
+                  Lifetime hours per hazard, for occupational disease claims
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+
+            <View style={styles.divider} />
+
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={() => router.push('/health')}
+              accessibilityRole="button"
+              accessibilityLabel="Open health monitoring"
+            >
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Health Monitoring</Text>
+                <Text style={styles.settingDescription}>
+                  Lung function, hearing and blood lead checks due
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+
+            <View style={styles.divider} />
+
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={() => router.push('/symptoms')}
+              accessibilityRole="button"
+              accessibilityLabel="Open symptom journal"
+            >
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Symptom Journal</Text>
+                <Text style={styles.settingDescription}>
+                  Symptoms linked to the exposures behind them
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+
+            <View style={styles.divider} />
+
+            <TouchableOpacity
+              style={styles.settingRow}
+              onPress={() => router.push('/import')}
+              accessibilityRole="button"
+              accessibilityLabel="Import records"
+            >
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Import Records</Text>
+                <Text style={styles.settingDescription}>
+                  From a previous export, another phone or a spreadsheet
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Weekly Vibration Exposure */}
+        {stats && stats.vibrationWeekly.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Vibration Exposure</Text>
+            <View style={styles.infoCard}>
+              {stats.vibrationWeekly.map((week, index) => (
+                <View key={week.weekStart}>
+                  {index > 0 && <View style={styles.divider} />}
+                  <View style={styles.infoRow}>
+                    <Text style={styles.infoLabel}>Week of {format(week.weekStart, 'd MMM')}</Text>
+                    <Text style={styles.infoValue}>{week.points} points</Text>
+                  </View>
+                  <Text style={styles.weekDetail}>
+                    Highest A(8) {week.maxDailyA8} m/s², {week.triggerMinutes} min trigger time
+                  </Text>
+                  {week.daysAboveAction > 0 && (
+                    <Text
+                      style={[styles.weekDetail, week.daysAboveLimit > 0 && styles.weekWarning]}
+                    >
+                      {week.daysAboveAction} day(s) above the {HAV_ACTION_VALUE} m/s² action value
+                      {week.daysAboveLimit > 0
+                        ? `, ${week.daysAboveLimit} above the ${HAV_LIMIT_VALUE} m/s² limit`
+                        : ''}
+                    </Text>
+                  )}
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Preferences */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Preferences</Text>
@@ -212,10 +340,7 @@ export default function ProfileScreen() {
               </View>
               <Switch
                 value={notificationsEnabled}
-                onValueChange={value => {
-                  setNotificationsEnabled(value);
-                  handlePreferenceChange('notificationsEnabled', value);
-                }}
+                onValueChange={handleNotificationsChange}
                 trackColor={{ false: colors.surfaceVariant, true: colors.primaryContainer }}
                 thumbColor={notificationsEnabled ? colors.primary : colors.textSecondary}
               />
@@ -383,6 +508,14 @@ const styles = StyleSheet.create({
     flex: 1,
     textAlign: 'right',
   },
+  weekDetail: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    paddingBottom: spacing.xs,
+  },
+  weekWarning: {
+    color: colors.error,
+  },
   divider: {
     height: 1,
     backgroundColor: colors.border,
@@ -7,6 +7,8 @@
  * 2. ConvexProviderWithClerk - Backend with auth integration
  * 3. PaperProvider - UI components with WCAG AA theme
  * 4. NetworkMonitor - T058: Auto-sync on connectivity
+ *    SyncTransportInitializer - Connects the offline exposure and photo queues to Convex
+ *    HealthReminderInitializer - Schedules reminders for due health monitoring checks
  * 5. VoiceLanguageChecker - T082: Verify voice recognition language support
  * 6. PerformanceMonitor - T116: Track app performance metrics
  */
@@ -15,7 +17,7 @@ import { useEffect } from 'react';
 import { Slot } from 'expo-router';
 import { ClerkProvider, useAuth } from '@clerk/clerk-expo';
 import { ConvexProviderWithClerk } from 'convex/react-clerk';
-import { ConvexReactClient } from 'convex/react';
+import { ConvexReactClient, useConvex, useQuery } from 'convex/react';
 import { PaperProvider } from 'react-native-paper';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import * as SecureStore from 'expo-secure-store';
@@ -24,6 +26,10 @@ import { api } from '../../convex/_generated/api';
 import { NetworkMonitor } from '@components/common/NetworkMonitor';
 import { VoiceLanguageChecker } from '@components/common/VoiceLanguageChecker';
 import { performanceMonitor } from '@utils/performance';
+import { offlineQueue } from '@lib/offlineQueue';
+import { photoQueue } from '@lib/photoQueue';
+import { createConvexPhotoTransport, createConvexSyncTransport } from '@lib/syncTransport';
+import { clearHealthCheckReminders, scheduleHealthCheckReminders } from '@lib/notifications';
 
 // Initialize Convex client
 const convex = new ConvexReactClient(process.env.EXPO_PUBLIC_CONVEX_URL!, {
@@ -67,6 +73,63 @@ function UserInitializer() {
   return null;
 }
 
+/**
+ * Sync Transport Initializer - Lets the offline queues reach Convex
+ * Photos waiting on an exposure are retried whenever the exposure queue changes
+ */
+function SyncTransportInitializer() {
+  const convexClient = useConvex();
+
+  useEffect(() => {
+    offlineQueue.setTransport(createConvexSyncTransport(convexClient));
+    photoQueue.setTransport(createConvexPhotoTransport(convexClient));
+
+    const unsubscribe = offlineQueue.addListener(() => {
+      if (photoQueue.getPendingCount() > 0) {
+        photoQueue.processQueue();
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      offlineQueue.setTransport(null);
+      photoQueue.setTransport(null);
+    };
+  }, [convexClient]);
+
+  return null;
+}
+
+/**
+ * Health Reminder Initializer - Keeps local reminders in step with the monitoring schedule
+ * Honours the notificationsEnabled preference and clears the reminders on sign-out
+ */
+function HealthReminderInitializer() {
+  const { isLoaded, isSignedIn } = useAuth();
+  const user = useQuery(api.users.get, isSignedIn ? {} : 'skip');
+  const schedule = useQuery(api.healthChecks.getSchedule, user ? {} : 'skip');
+  const enabled = user?.preferences.notificationsEnabled ?? false;
+
+  useEffect(() => {
+    if (isLoaded && !isSignedIn) {
+      clearHealthCheckReminders().catch(err => {
+        console.error('Failed to clear health check reminders:', err);
+      });
+    }
+  }, [isLoaded, isSignedIn]);
+
+  useEffect(() => {
+    if (schedule === undefined) {
+      return;
+    }
+    scheduleHealthCheckReminders(schedule, enabled).catch(err => {
+      console.error('Failed to schedule health check reminders:', err);
+    });
+  }, [schedule, enabled]);
+
+  return null;
+}
+
 export default function RootLayout() {
   // T116: Track app start time
   useEffect(() => {
@@ -86,6 +149,8 @@ export default function RootLayout() {
         <SafeAreaProvider>
           <PaperProvider>
             <UserInitializer />
+            <SyncTransportInitializer />
+            <HealthReminderInitializer />
             <NetworkMonitor />
             <VoiceLanguageChecker />
             <Slot />
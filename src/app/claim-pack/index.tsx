@@ -0,0 +1,445 @@
+/**
+ * Claim Pack Screen
+ * Guided builder for the PDF bundle a worker files with an ACC claim
+ *
+ * Steps:
+ * - Pick the exposures the claim is about
+ * - Symptom and medical notes, optionally copied from the symptom journal
+ * - Personal statement for the sworn statement page
+ * - Employer details, prefilled from the profile
+ * - Review and generate the PDF
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, FlatList, ScrollView, Alert } from 'react-native';
+import { Text, Appbar, Checkbox, TextInput, Chip } from 'react-native-paper';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useConvex, useQuery } from 'convex/react';
+import { useUser } from '@clerk/clerk-expo';
+import { format } from 'date-fns';
+import * as Sharing from 'expo-sharing';
+import { api } from '../../../convex/_generated/api';
+import { Doc } from '../../../convex/_generated/dataModel';
+import {
+  ClaimPackDetails,
+  EMPTY_CLAIM_PACK_DETAILS,
+  EmployerDetails,
+  claimPackProblems,
+} from '../../../convex/claimPack';
+import { bodySystemLabel } from '../../../convex/symptomJournal';
+import { ExposureForExport, generateClaimPackPDF } from '@lib/pdf';
+import { fetchAllExposures, fetchChainIntegrity, fetchPhotoUrls } from '@lib/exportData';
+import { useSymptoms } from '@hooks/useSymptoms';
+import { useHaptics } from '@hooks/useHaptics';
+import { FormProgress } from '@components/forms/FormProgress';
+import { Button } from '@components/common/Button';
+import { Card } from '@components/common/Card';
+import { EmptyState } from '@components/common/EmptyState';
+import { LoadingSpinner } from '@components/common/LoadingSpinner';
+import { getExposureTypeById } from '@constants/exposureTypes';
+import { colors, spacing } from '@constants/theme';
+
+const STEPS = [
+  { id: 'exposures', label: 'Exposures', description: 'Pick the exposures' },
+  { id: 'notes', label: 'Notes', description: 'Symptoms and medical notes' },
+  { id: 'statement', label: 'Statement', description: 'Your personal statement' },
+  { id: 'employer', label: 'Employer', description: 'Employer details' },
+  { id: 'review', label: 'Review', description: 'Check and generate' },
+];
+
+export default function ClaimPackScreen() {
+  const router = useRouter();
+  const convex = useConvex();
+  const { user } = useUser();
+  const { success, error: errorHaptic } = useHaptics();
+  const convexUser = useQuery(api.users.get);
+  const { symptoms } = useSymptoms();
+
+  const [exposures, setExposures] = useState<Doc<'exposures'>[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [details, setDetails] = useState<ClaimPackDetails>(EMPTY_CLAIM_PACK_DETAILS);
+  const [currentStep, setCurrentStep] = useState(0);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // A failed page blocks the claim pack, so it is never built from part of the records
+  useEffect(() => {
+    let cancelled = false;
+    setExposures(null);
+    setLoadError(null);
+
+    fetchAllExposures(convex, () => cancelled)
+      .then(all => {
+        if (!cancelled) {
+          setExposures(all);
+        }
+      })
+      .catch(error => {
+        console.error('Error fetching exposures:', error);
+        if (!cancelled) {
+          setLoadError(
+            error instanceof Error ? error.message : 'Your exposures could not be loaded.'
+          );
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [convex, loadAttempt]);
+
+  // Prefill the employer from the profile once it loads
+  useEffect(() => {
+    if (convexUser?.employer) {
+      setDetails(current =>
+        current.employer.name
+          ? current
+          : { ...current, employer: { ...current.employer, name: convexUser.employer ?? '' } }
+      );
+    }
+  }, [convexUser?.employer]);
+
+  const selected = (exposures ?? []).filter(exposure => selectedIds.includes(exposure._id));
+  const problems = claimPackProblems(details, selected.length);
+
+  function toggleExposure(id: string) {
+    setSelectedIds(current =>
+      current.includes(id) ? current.filter(item => item !== id) : [...current, id]
+    );
+  }
+
+  function updateEmployer(field: keyof EmployerDetails, value: string) {
+    setDetails(current => ({ ...current, employer: { ...current.employer, [field]: value } }));
+  }
+
+  // Journal entries linked to the selected exposures, as one line each
+  function copySymptomsFromJournal() {
+    const linked = (symptoms ?? [])
+      .filter(symptom => symptom.exposureIds.some(id => selectedIds.includes(id)))
+      .sort((a, b) => a.onsetAt - b.onsetAt);
+
+    if (linked.length === 0) {
+      Alert.alert('No Linked Symptoms', 'None of the selected exposures have journal symptoms.');
+      return;
+    }
+
+    const lines = linked.map(
+      symptom =>
+        `${format(symptom.onsetAt, 'd MMM yyyy')}: ${symptom.symptom} (${symptom.severity}, ${bodySystemLabel(symptom.bodySystem)})${symptom.notes ? ` - ${symptom.notes}` : ''}`
+    );
+    setDetails(current => ({
+      ...current,
+      symptomNotes: [current.symptomNotes.trim(), lines.join('\n')].filter(Boolean).join('\n\n'),
+    }));
+  }
+
+  async function handleGenerate() {
+    if (!convexUser || problems.length > 0) {
+      return;
+    }
+
+    try {
+      setIsGenerating(true);
+      const photoUrlsMap = await fetchPhotoUrls(convex, selected);
+      const integrity = await fetchChainIntegrity(convex, selected);
+      const uri = await generateClaimPackPDF(
+        // Severity is stored as a string, always one of the three levels
+        selected as ExposureForExport[],
+        {
+          name: convexUser.name || user?.fullName || null,
+          email: convexUser.email || user?.primaryEmailAddress?.emailAddress || '',
+          phoneNumber: convexUser.phoneNumber,
+          occupation: convexUser.occupation,
+          employer: convexUser.employer,
+        },
+        details,
+        photoUrlsMap,
+        integrity
+      );
+
+      success();
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(uri, {
+          mimeType: 'application/pdf',
+          dialogTitle: 'Share ACC Claim Pack',
+          UTI: 'com.adobe.pdf',
+        });
+      } else {
+        Alert.alert('Claim Pack Ready', 'Sharing is not available on this device.');
+      }
+    } catch (error) {
+      console.error('Claim pack error:', error);
+      errorHaptic();
+      Alert.alert('Export Failed', 'The claim pack could not be generated. Please try again.');
+    } finally {
+      setIsGenerating(false);
+    }
+  }
+
+  function renderStep() {
+    switch (STEPS[currentStep].id) {
+      case 'exposures':
+        return (
+          <FlatList
+            data={exposures ?? []}
+            keyExtractor={item => item._id}
+            contentContainerStyle={styles.content}
+            ListHeaderComponent={() => (
+              <View style={styles.listHeader}>
+                <Text variant="bodyMedium" style={styles.secondary}>
+                  {selectedIds.length} selected
+                </Text>
+                <Button
+                  title={selectedIds.length === exposures?.length ? 'Clear All' : 'Select All'}
+                  variant="text"
+                  onPress={() =>
+                    setSelectedIds(
+                      selectedIds.length === exposures?.length
+                        ? []
+                        : (exposures ?? []).map(exposure => exposure._id)
+                    )
+                  }
+                />
+              </View>
+            )}
+            renderItem={({ item }) => (
+              <Checkbox.Item
+                label={`${getExposureTypeById(item.exposureType)?.label ?? item.exposureType} · ${format(item.timestamp, 'MMM d, yyyy')}${
+                  item.location.siteName ? ` · ${item.location.siteName}` : ''
+                }`}
+                status={selectedIds.includes(item._id) ? 'checked' : 'unchecked'}
+                onPress={() => toggleExposure(item._id)}
+                mode="android"
+                position="leading"
+                labelStyle={styles.checkboxLabel}
+              />
+            )}
+            ListEmptyComponent={() => (
+              <EmptyState
+                icon="document-text-outline"
+                title="No exposures recorded"
+                description="Log the exposures behind your claim before building a claim pack"
+              />
+            )}
+          />
+        );
+
+      case 'notes':
+        return (
+          <ScrollView contentContainerStyle={styles.content}>
+            <Text variant="bodyMedium" style={styles.secondary}>
+              Describe your symptoms and any medical care: GP visits, tests, diagnoses and
+              treatment.
+            </Text>
+            <View style={styles.chips}>
+              <Chip icon="book-open-outline" onPress={copySymptomsFromJournal}>
+                Copy from symptom journal
+              </Chip>
+            </View>
+            <TextInput
+              label="Symptoms"
+              value={details.symptomNotes}
+              onChangeText={text => setDetails(current => ({ ...current, symptomNotes: text }))}
+              mode="outlined"
+              multiline
+              numberOfLines={6}
+              accessibilityLabel="Symptom notes"
+            />
+            <TextInput
+              label="Medical Notes"
+              value={details.medicalNotes}
+              onChangeText={text => setDetails(current => ({ ...current, medicalNotes: text }))}
+              mode="outlined"
+              multiline
+              numberOfLines={6}
+              accessibilityLabel="Medical notes"
+            />
+          </ScrollView>
+        );
+
+      case 'statement':
+        return (
+          <ScrollView contentContainerStyle={styles.content}>
+            <Text variant="bodyMedium" style={styles.secondary}>
+              In your own words: the work you did, what you were exposed to, the protection you had
+              and how your health has changed. The statement is printed above a declaration for you
+              to sign in front of a witness.
+            </Text>
+            <TextInput
+              label="Personal Statement"
+              value={details.statement}
+              onChangeText={text => setDetails(current => ({ ...current, statement: text }))}
+              mode="outlined"
+              multiline
+              numberOfLines={12}
+              accessibilityLabel="Personal statement"
+            />
+          </ScrollView>
+        );
+
+      case 'employer':
+        return (
+          <ScrollView contentContainerStyle={styles.content}>
+            <TextInput
+              label="Employer"
+              value={details.employer.name}
+              onChangeText={text => updateEmployer('name', text)}
+              mode="outlined"
+              accessibilityLabel="Employer name"
+            />
+            <TextInput
+              label="Contact (Optional)"
+              value={details.employer.contact}
+              onChangeText={text => updateEmployer('contact', text)}
+              mode="outlined"
+              placeholder="Name, phone or email"
+              accessibilityLabel="Employer contact"
+            />
+            <TextInput
+              label="Address (Optional)"
+              value={details.employer.address}
+              onChangeText={text => updateEmployer('address', text)}
+              mode="outlined"
+              multiline
+              accessibilityLabel="Employer address"
+            />
+          </ScrollView>
+        );
+
+      default:
+        return (
+          <ScrollView contentContainerStyle={styles.content}>
+            <Card>
+              <View style={styles.review}>
+                <Text variant="titleMedium" style={styles.title}>
+                  Claim Pack
+                </Text>
+                <Text variant="bodyMedium">
+                  {selected.length} exposure{selected.length !== 1 ? 's' : ''} ·{' '}
+                  {selected.reduce(
+                    (count, exposure) => count + (exposure.photoIds?.length ?? 0),
+                    0
+                  )}{' '}
+                  photos
+                </Text>
+                <Text variant="bodyMedium">Employer: {details.employer.name || 'Not set'}</Text>
+                <Text variant="bodySmall" style={styles.secondary}>
+                  Index, sworn statement, chronology, cumulative totals, symptom and medical notes,
+                  exposure records and photo appendix
+                </Text>
+              </View>
+            </Card>
+            {problems.map(problem => (
+              <Text key={problem} variant="bodyMedium" style={styles.problem}>
+                {problem}
+              </Text>
+            ))}
+            <Button
+              title="Generate Claim Pack"
+              icon="file-pdf-box"
+              onPress={handleGenerate}
+              loading={isGenerating}
+              disabled={isGenerating || problems.length > 0}
+              fullWidth
+            />
+          </ScrollView>
+        );
+    }
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => router.back()} />
+        <Appbar.Content title="ACC Claim Pack" />
+      </Appbar.Header>
+
+      <FormProgress steps={STEPS} currentStep={currentStep} compact={true} />
+
+      <View style={styles.step}>
+        {loadError ? (
+          <EmptyState
+            icon="cloud-offline-outline"
+            title="Could not load your exposures"
+            description={loadError}
+            ctaLabel="Try Again"
+            onCtaPress={() => setLoadAttempt(attempt => attempt + 1)}
+          />
+        ) : exposures === null ? (
+          <LoadingSpinner message="Loading exposures..." />
+        ) : (
+          renderStep()
+        )}
+      </View>
+
+      <View style={styles.footer}>
+        <Button
+          title="Back"
+          variant="outline"
+          onPress={() => setCurrentStep(step => step - 1)}
+          disabled={currentStep === 0 || isGenerating}
+          style={styles.footerButton}
+        />
+        <Button
+          title="Next"
+          onPress={() => setCurrentStep(step => step + 1)}
+          disabled={
+            currentStep === STEPS.length - 1 || (currentStep === 0 && selectedIds.length === 0)
+          }
+          style={styles.footerButton}
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  step: {
+    flex: 1,
+  },
+  content: {
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  listHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  checkboxLabel: {
+    color: colors.text,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  review: {
+    gap: spacing.xs,
+  },
+  title: {
+    color: colors.text,
+  },
+  secondary: {
+    color: colors.textSecondary,
+  },
+  problem: {
+    color: colors.error,
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    padding: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  footerButton: {
+    flex: 1,
+  },
+});
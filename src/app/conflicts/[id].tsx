@@ -0,0 +1,299 @@
+/**
+ * Conflict Resolution Screen
+ * Resolve an offline edit that clashes with an edit made on another device
+ *
+ * Features:
+ * - Local and server value side by side for each clashing field
+ * - Pick local, server or a manual value per field
+ * - Retry or discard items that ran out of sync retries
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Text, Appbar, SegmentedButtons, TextInput } from 'react-native-paper';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { format } from 'date-fns';
+import { useSyncConflicts } from '@hooks/useSyncConflicts';
+import { Button } from '@components/common/Button';
+import { Card } from '@components/common/Card';
+import { FieldConflict, MergeField, MergeValues } from '@lib/merge';
+import { FIELD_LABELS, formatFieldValue } from '@lib/exposureFields';
+import { colors, spacing } from '@constants/theme';
+
+type Choice = 'local' | 'server' | 'manual';
+
+// Free-text fields that can take a manually entered value
+const MANUAL_FIELDS: MergeField[] = [
+  'workActivity',
+  'notes',
+  'chemicalName',
+  'sdsReference',
+  'controlMeasures',
+  'bloodLeadTestReference',
+  'voiceTranscription',
+];
+
+export default function ConflictResolutionScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { getConflict, resolveConflict, retryConflict, discardConflict } = useSyncConflicts();
+  const conflict = getConflict(id as string);
+
+  const [choices, setChoices] = useState<Partial<Record<MergeField, Choice>>>({});
+  const [manualValues, setManualValues] = useState<Partial<Record<MergeField, string>>>({});
+
+  if (!conflict) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <Appbar.Header>
+          <Appbar.BackAction onPress={() => router.back()} />
+          <Appbar.Content title="Conflict" />
+        </Appbar.Header>
+        <View style={styles.errorContainer}>
+          <Text variant="headlineSmall" style={styles.errorText}>
+            Conflict not found
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const clientId = conflict.id;
+  const allChosen = conflict.fields.every(field => choices[field.field] !== undefined);
+
+  /**
+   * Build the resolved value for each clashing field and requeue
+   */
+  function handleResolve() {
+    const values: Partial<Record<MergeField, unknown>> = {};
+    for (const field of conflict!.fields) {
+      const choice = choices[field.field];
+      if (choice === 'local') {
+        values[field.field] = field.local;
+      } else if (choice === 'server') {
+        values[field.field] = field.server;
+      } else if (choice === 'manual') {
+        const manual = manualValues[field.field]?.trim() ?? '';
+        // Optional text fields store an empty value as null
+        values[field.field] = manual || (field.field === 'workActivity' ? '' : null);
+      }
+    }
+
+    resolveConflict(clientId, values as Partial<MergeValues>);
+    router.back();
+  }
+
+  /**
+   * Retry an item that ran out of sync attempts
+   */
+  function handleRetry() {
+    retryConflict(clientId);
+    router.back();
+  }
+
+  /**
+   * Drop the local edit and keep the server version
+   */
+  function handleDiscard() {
+    Alert.alert(
+      'Discard Local Changes',
+      'Your offline changes to this exposure will be lost. This action cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => {
+            discardConflict(clientId);
+            router.back();
+          },
+        },
+      ]
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => router.back()} />
+        <Appbar.Content title="Resolve Conflict" />
+      </Appbar.Header>
+
+      <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+        <Card>
+          <Text variant="titleMedium" style={styles.sectionTitle}>
+            {conflict.draft.workActivity || 'Untitled exposure'}
+          </Text>
+          <Text variant="bodyMedium" style={styles.secondary}>
+            {format(conflict.draft.timestamp, 'EEEE, MMMM d, yyyy h:mm a')}
+          </Text>
+          {conflict.error && (
+            <Text variant="bodyMedium" style={styles.reason}>
+              {conflict.error}
+            </Text>
+          )}
+        </Card>
+
+        {conflict.fields.map(field => (
+          <FieldConflictCard
+            key={field.field}
+            conflict={field}
+            choice={choices[field.field]}
+            manualValue={manualValues[field.field] ?? ''}
+            onChoiceChange={choice => setChoices(prev => ({ ...prev, [field.field]: choice }))}
+            onManualValueChange={text =>
+              setManualValues(prev => ({ ...prev, [field.field]: text }))
+            }
+          />
+        ))}
+
+        <View style={styles.actions}>
+          {conflict.fields.length > 0 ? (
+            <Button
+              title="Save Resolution"
+              onPress={handleResolve}
+              disabled={!allChosen}
+              icon="check"
+              accessibilityHint="Sync the exposure with the values you picked"
+            />
+          ) : (
+            <Button title="Retry Sync" onPress={handleRetry} icon="sync" />
+          )}
+          <Button
+            title="Discard Local Changes"
+            onPress={handleDiscard}
+            variant="outline"
+            icon="delete"
+          />
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+interface FieldConflictCardProps {
+  conflict: FieldConflict;
+  choice: Choice | undefined;
+  manualValue: string;
+  onChoiceChange: (choice: Choice) => void;
+  onManualValueChange: (text: string) => void;
+}
+
+/**
+ * One clashing field with its local and server values
+ */
+function FieldConflictCard({
+  conflict,
+  choice,
+  manualValue,
+  onChoiceChange,
+  onManualValueChange,
+}: FieldConflictCardProps) {
+  const allowManual = MANUAL_FIELDS.includes(conflict.field);
+  const label = FIELD_LABELS[conflict.field];
+
+  const buttons = [
+    { value: 'local', label: 'This device' },
+    { value: 'server', label: 'Server' },
+    ...(allowManual ? [{ value: 'manual', label: 'Manual' }] : []),
+  ];
+
+  return (
+    <Card>
+      <Text variant="titleMedium" style={styles.sectionTitle}>
+        {label}
+      </Text>
+
+      <View style={styles.valueRow}>
+        <Text variant="labelLarge" style={styles.valueLabel}>
+          This device
+        </Text>
+        <Text variant="bodyLarge" style={styles.value}>
+          {formatFieldValue(conflict.field, conflict.local)}
+        </Text>
+      </View>
+      <View style={styles.valueRow}>
+        <Text variant="labelLarge" style={styles.valueLabel}>
+          Server
+        </Text>
+        <Text variant="bodyLarge" style={styles.value}>
+          {formatFieldValue(conflict.field, conflict.server)}
+        </Text>
+      </View>
+
+      <SegmentedButtons
+        value={choice ?? ''}
+        onValueChange={value => onChoiceChange(value as Choice)}
+        buttons={buttons}
+        style={styles.choice}
+      />
+
+      {choice === 'manual' && (
+        <TextInput
+          mode="outlined"
+          label={label}
+          value={manualValue}
+          onChangeText={onManualValueChange}
+          multiline
+          style={styles.manualInput}
+        />
+      )}
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  errorContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: spacing.xl,
+  },
+  errorText: {
+    color: colors.error,
+    textAlign: 'center',
+  },
+  sectionTitle: {
+    color: colors.text,
+    marginBottom: spacing.sm,
+  },
+  secondary: {
+    color: colors.textSecondary,
+  },
+  reason: {
+    color: colors.warning,
+    marginTop: spacing.sm,
+  },
+  valueRow: {
+    marginBottom: spacing.sm,
+  },
+  valueLabel: {
+    color: colors.textSecondary,
+  },
+  value: {
+    color: colors.text,
+  },
+  choice: {
+    marginTop: spacing.sm,
+  },
+  manualInput: {
+    marginTop: spacing.sm,
+  },
+  actions: {
+    gap: spacing.md,
+    marginTop: spacing.md,
+    marginBottom: spacing.xl,
+  },
+});
@@ -0,0 +1,90 @@
+/**
+ * Sync Conflicts Screen
+ * Lists offline edits that could not be synced automatically
+ *
+ * Features:
+ * - Field clashes with edits made on another device
+ * - Items that ran out of sync retries
+ * - Navigation to per-item resolution
+ */
+
+import React from 'react';
+import { View, StyleSheet, FlatList } from 'react-native';
+import { Text, Appbar } from 'react-native-paper';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { format } from 'date-fns';
+import { useSyncConflicts } from '@hooks/useSyncConflicts';
+import { Card } from '@components/common/Card';
+import { EmptyState } from '@components/common/EmptyState';
+import { colors, spacing } from '@constants/theme';
+
+export default function SyncConflictsScreen() {
+  const router = useRouter();
+  const { conflicts } = useSyncConflicts();
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => router.back()} />
+        <Appbar.Content title="Sync Conflicts" />
+      </Appbar.Header>
+
+      <FlatList
+        data={conflicts}
+        keyExtractor={item => item.id}
+        contentContainerStyle={styles.listContent}
+        renderItem={({ item }) => (
+          <Card
+            onPress={() => router.push(`/conflicts/${item.id}`)}
+            accessibilityLabel={`Resolve ${item.draft.workActivity}`}
+          >
+            <View style={styles.item}>
+              <Text variant="titleMedium" style={styles.title}>
+                {item.draft.workActivity || 'Untitled exposure'}
+              </Text>
+              <Text variant="bodySmall" style={styles.secondary}>
+                {format(item.draft.timestamp, 'MMM d, yyyy h:mm a')}
+              </Text>
+              <Text variant="bodyMedium" style={styles.reason}>
+                {item.fields.length > 0
+                  ? `${item.fields.length} field${item.fields.length !== 1 ? 's' : ''} edited on another device`
+                  : item.error || 'Sync failed'}
+              </Text>
+            </View>
+          </Card>
+        )}
+        ListEmptyComponent={() => (
+          <EmptyState
+            icon="checkmark-circle-outline"
+            title="No conflicts"
+            description="All offline changes have been synced"
+          />
+        )}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  item: {
+    gap: spacing.xs,
+  },
+  title: {
+    color: colors.text,
+  },
+  secondary: {
+    color: colors.textSecondary,
+  },
+  reason: {
+    color: colors.warning,
+  },
+});
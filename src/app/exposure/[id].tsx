@@ -6,6 +6,7 @@
  * - Display all exposure fields
  * - Photo gallery
  * - Edit capability
+ * - Revision history
  * - Delete with confirmation
  * - Sync status indicator
  * - Location map preview
@@ -17,28 +18,43 @@ import { Text, Appbar, Chip, IconButton } from 'react-native-paper';
 import { useRouter, useLocalSearchParams } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { format } from 'date-fns';
-import { useExposure } from '@hooks/useExposures';
+import { useExposure, useDailyTWA } from '@hooks/useExposures';
 import { LoadingSpinner } from '@components/common/LoadingSpinner';
 import { SkeletonText } from '@components/common/SkeletonText';
 import { SkeletonCard } from '@components/common/SkeletonCard';
 import { Button } from '@components/common/Button';
 import { Card } from '@components/common/Card';
+import { NoiseDoseSummary } from '@components/exposure/NoiseDoseSummary';
+import { VibrationDoseSummary } from '@components/exposure/VibrationDoseSummary';
+import { TWASummary, TWAUnitMismatch } from '@components/exposure/TWASummary';
+import { SymptomItem } from '@components/health/SymptomItem';
+import { useExposureSymptoms } from '@hooks/useSymptoms';
 import { EXPOSURE_TYPES, PPE_TYPES } from '@constants/exposureTypes';
 import { colors, spacing } from '@constants/theme';
+import { twaUnitMismatch } from '../../../convex/exposureDose';
+import { CONCENTRATION_UNIT_LABELS } from '../../../convex/exposureStandards';
 import { Id } from '../../../convex/_generated/dataModel';
 
 export default function ExposureDetailScreen() {
   const router = useRouter();
   const { id } = useLocalSearchParams<{ id: string }>();
   const { exposure, isLoading } = useExposure(id as Id<'exposures'>);
+  const twa = useDailyTWA(exposure?.concentration ? [exposure] : []).get(id as string);
+  const symptoms = useExposureSymptoms(id as Id<'exposures'>);
   const [isDeleting, setIsDeleting] = useState(false);
 
   /**
    * Handle edit exposure
    */
   function handleEdit() {
-    // TODO: Navigate to edit screen
-    Alert.alert('Edit', 'Edit functionality coming soon');
+    router.push(`/exposure/edit/${id}`);
+  }
+
+  /**
+   * Show revision history
+   */
+  function handleHistory() {
+    router.push(`/exposure/history/${id}`);
   }
 
   /**
@@ -133,6 +149,7 @@ export default function ExposureDetailScreen() {
   const exposureType = EXPOSURE_TYPES[exposure.exposureType.toUpperCase()];
   const severityColor = colors.severity[exposure.severity as 'low' | 'medium' | 'high'];
   const syncIcon = getSyncIcon(exposure.syncStatus);
+  const unitMismatch = twaUnitMismatch(exposure);
 
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
@@ -140,6 +157,7 @@ export default function ExposureDetailScreen() {
         <Appbar.BackAction onPress={() => router.back()} />
         <Appbar.Content title="Exposure Details" />
         <Appbar.Action icon="share" onPress={handleShare} />
+        <Appbar.Action icon="history" onPress={handleHistory} accessibilityLabel="History" />
         <Appbar.Action icon="pencil" onPress={handleEdit} />
         <Appbar.Action icon="delete" onPress={handleDelete} />
       </Appbar.Header>
@@ -293,6 +311,75 @@ export default function ExposureDetailScreen() {
           </Card>
         )}
 
+        {/* Airborne Concentration and daily TWA */}
+        {exposure.concentration && (
+          <Card>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Airborne Concentration
+            </Text>
+            <Text variant="bodyLarge" style={styles.fieldValue}>
+              {exposure.concentration.value}{' '}
+              {CONCENTRATION_UNIT_LABELS[exposure.concentration.unit]} (
+              {exposure.concentration.source})
+            </Text>
+            {twa && <TWASummary result={twa} />}
+            {unitMismatch && (
+              <TWAUnitMismatch standard={unitMismatch} unit={exposure.concentration.unit} />
+            )}
+          </Card>
+        )}
+
+        {/* Daily Noise Dose */}
+        {exposure.noiseSegments && exposure.noiseSegments.length > 0 && (
+          <Card>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Daily Noise Dose
+            </Text>
+            {exposure.noiseSegments.map((segment, index) => (
+              <Text key={index} variant="bodyLarge" style={styles.fieldValue}>
+                {segment.levelDbA} dB(A) for {segment.durationMinutes} min
+              </Text>
+            ))}
+            {exposure.noisePeakDbC && (
+              <Text variant="bodyLarge" style={styles.fieldValue}>
+                Peak {exposure.noisePeakDbC} dB(C)
+              </Text>
+            )}
+            <NoiseDoseSummary
+              segments={exposure.noiseSegments}
+              peakDbC={exposure.noisePeakDbC ?? null}
+            />
+          </Card>
+        )}
+
+        {/* Daily Vibration Exposure */}
+        {exposure.vibrationTools && exposure.vibrationTools.length > 0 && (
+          <Card>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Daily Vibration Exposure
+            </Text>
+            {exposure.vibrationTools.map((tool, index) => (
+              <Text key={index} variant="bodyLarge" style={styles.fieldValue}>
+                {tool.tool} at {tool.magnitude} m/s²
+                {tool.source === 'catalogue' ? ' (typical)' : ''} for {tool.triggerMinutes} min
+              </Text>
+            ))}
+            <VibrationDoseSummary tools={exposure.vibrationTools} />
+          </Card>
+        )}
+
+        {/* Blood-Lead Test Reference */}
+        {exposure.bloodLeadTestReference && (
+          <Card>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Blood-Lead Test Reference
+            </Text>
+            <Text variant="bodyLarge" style={styles.fieldValue}>
+              {exposure.bloodLeadTestReference}
+            </Text>
+          </Card>
+        )}
+
         {/* SDS Reference */}
         {exposure.sdsReference && (
           <Card>
@@ -341,6 +428,32 @@ export default function ExposureDetailScreen() {
           </Card>
         )}
 
+        {/* Linked Symptoms */}
+        <Card>
+          <View style={styles.symptomsHeader}>
+            <Text variant="titleMedium" style={styles.sectionTitle}>
+              Symptoms
+            </Text>
+            <Button
+              title="Log Symptom"
+              onPress={() => router.push(`/symptoms/new?exposureId=${id}`)}
+              variant="text"
+              icon="plus"
+            />
+          </View>
+          {symptoms && symptoms.length > 0 ? (
+            <View style={styles.symptomList}>
+              {symptoms.map(symptom => (
+                <SymptomItem key={symptom._id} symptom={symptom} />
+              ))}
+            </View>
+          ) : (
+            <Text variant="bodyMedium" style={styles.metadataValue}>
+              No symptoms linked to this exposure
+            </Text>
+          )}
+        </Card>
+
         {/* Metadata */}
         <Card>
           <Text variant="titleMedium" style={styles.sectionTitle}>
@@ -416,6 +529,14 @@ const styles = StyleSheet.create({
     padding: spacing.md,
     gap: spacing.md,
   },
+  symptomsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  symptomList: {
+    gap: spacing.md,
+  },
   errorContainer: {
     flex: 1,
     alignItems: 'center',
@@ -0,0 +1,178 @@
+/**
+ * Edit Exposure Screen
+ * Edit an existing exposure record with the shared ExposureForm
+ *
+ * Features:
+ * - Form prefilled from the stored record
+ * - Saves through exposures.update, which keeps a revision of the old values
+ * - Offline edits are queued with their base version for three-way merging
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import { Text, Appbar } from 'react-native-paper';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useMutation } from 'convex/react';
+import { api } from '../../../../convex/_generated/api';
+import { Id } from '../../../../convex/_generated/dataModel';
+import { useExposure } from '@hooks/useExposures';
+import { useOfflineSync } from '@hooks/useOfflineSync';
+import { useHaptics } from '@hooks/useHaptics';
+import { ExposureForm } from '@components/exposure/ExposureForm';
+import { LoadingSpinner } from '@components/common/LoadingSpinner';
+import { Button } from '@components/common/Button';
+import { offlineQueue } from '@lib/offlineQueue';
+import { toMergeValues, MergeValues } from '@lib/merge';
+import type { ExposureDraft } from '@/types/exposure';
+import { colors, spacing } from '@constants/theme';
+
+export default function EditExposureScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { exposure, isLoading } = useExposure(id as Id<'exposures'>);
+  const { isOnline } = useOfflineSync();
+  const { success, error: errorHaptic } = useHaptics();
+  const updateExposure = useMutation(api.exposures.update);
+
+  const [formData, setFormData] = useState<Partial<ExposureDraft> | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Prefill once, later server updates must not overwrite what the user is typing
+  useEffect(() => {
+    if (exposure && !formData) {
+      setFormData(toMergeValues(exposure as MergeValues));
+    }
+  }, [exposure, formData]);
+
+  function handleChange<K extends keyof ExposureDraft>(field: K, value: ExposureDraft[K]) {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  }
+
+  /**
+   * Save changed fields, or queue the edit when offline
+   */
+  async function handleSave() {
+    if (!exposure || !formData) return;
+
+    if (!formData.workActivity?.trim()) {
+      Alert.alert('Missing Information', 'Please describe the work activity');
+      return;
+    }
+
+    const changes = {
+      duration: formData.duration!,
+      severity: formData.severity!,
+      ppe: formData.ppe || [],
+      workActivity: formData.workActivity.trim(),
+      notes: formData.notes?.trim() || null,
+      chemicalName: formData.chemicalName?.trim() || null,
+      sdsReference: formData.sdsReference?.trim() || null,
+      controlMeasures: formData.controlMeasures?.trim() || null,
+      vibrationTools: formData.vibrationTools ?? null,
+      bloodLeadTestReference: formData.bloodLeadTestReference?.trim() || null,
+      noiseSegments: formData.noiseSegments ?? null,
+      noisePeakDbC: formData.noisePeakDbC ?? null,
+      concentration: formData.concentration ?? null,
+    };
+
+    setIsSaving(true);
+    try {
+      if (!isOnline) {
+        // Base version lets the sync merge this edit with changes made elsewhere
+        const base = toMergeValues(exposure as MergeValues);
+        offlineQueue.add(
+          { ...base, ...changes, clientId: exposure.clientId, photos: [] },
+          { values: base, updatedAt: exposure.updatedAt }
+        );
+        success();
+        Alert.alert('Saved Offline', 'Your changes will sync when you are back online');
+        router.back();
+        return;
+      }
+
+      await updateExposure({ id: exposure._id, ...changes });
+      success();
+      router.back();
+    } catch (err) {
+      console.error('Error updating exposure:', err);
+      errorHaptic();
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to save changes');
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (isLoading) {
+    return <LoadingSpinner message="Loading exposure..." />;
+  }
+
+  if (!exposure || !formData) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <Appbar.Header>
+          <Appbar.BackAction onPress={() => router.back()} />
+          <Appbar.Content title="Edit Exposure" />
+        </Appbar.Header>
+        <View style={styles.errorContainer}>
+          <Text variant="headlineSmall" style={styles.errorText}>
+            Exposure not found
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => router.back()} />
+        <Appbar.Content title="Edit Exposure" />
+      </Appbar.Header>
+
+      <View style={styles.content}>
+        <ExposureForm
+          exposureType={exposure.exposureType}
+          formData={formData}
+          onChange={handleChange}
+        />
+      </View>
+
+      <View style={styles.actions}>
+        <Button
+          title="Save Changes"
+          onPress={handleSave}
+          loading={isSaving}
+          icon="content-save"
+          accessibilityHint="Save your changes, the previous values are kept in the history"
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    flex: 1,
+    padding: spacing.md,
+  },
+  actions: {
+    padding: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  errorContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: spacing.xl,
+  },
+  errorText: {
+    color: colors.error,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,117 @@
+/**
+ * Exposure History Screen
+ * Revision history of an exposure record
+ *
+ * Features:
+ * - Every edit, sync overwrite, deletion and migration, newest first
+ * - Previous and new value of each changed field
+ * - Editor and time of each change
+ */
+
+import React from 'react';
+import { View, StyleSheet, FlatList } from 'react-native';
+import { Text, Appbar } from 'react-native-paper';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useQuery } from 'convex/react';
+import { format } from 'date-fns';
+import { api } from '../../../../convex/_generated/api';
+import { Id } from '../../../../convex/_generated/dataModel';
+import { Card } from '@components/common/Card';
+import { EmptyState } from '@components/common/EmptyState';
+import { LoadingSpinner } from '@components/common/LoadingSpinner';
+import { getFieldLabel, formatFieldValue } from '@lib/exposureFields';
+import { colors, spacing } from '@constants/theme';
+
+const SOURCE_LABELS: Record<string, string> = {
+  edit: 'Edited',
+  sync: 'Synced from offline edit',
+  delete: 'Deleted',
+  migration: 'Updated to current exposure type and PPE ids',
+};
+
+export default function ExposureHistoryScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const revisions = useQuery(api.exposures.getRevisions, {
+    exposureId: id as Id<'exposures'>,
+  });
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => router.back()} />
+        <Appbar.Content title="History" />
+      </Appbar.Header>
+
+      {revisions === undefined ? (
+        <LoadingSpinner message="Loading history..." />
+      ) : (
+        <FlatList
+          data={revisions}
+          keyExtractor={item => item._id}
+          contentContainerStyle={styles.listContent}
+          renderItem={({ item }) => (
+            <Card>
+              <Text variant="titleMedium" style={styles.title}>
+                {SOURCE_LABELS[item.source] || item.source}
+              </Text>
+              <Text variant="bodySmall" style={styles.secondary}>
+                {format(item.editedAt, 'MMM d, yyyy h:mm a')}
+                {item.editorName && ` by ${item.editorName}`}
+              </Text>
+
+              {item.changedFields.map(field => (
+                <View key={field} style={styles.change}>
+                  <Text variant="labelLarge" style={styles.secondary}>
+                    {getFieldLabel(field)}
+                  </Text>
+                  <Text variant="bodyMedium" style={styles.previous}>
+                    {formatFieldValue(field, item.previousValues[field])}
+                  </Text>
+                  <Text variant="bodyMedium" style={styles.value}>
+                    {formatFieldValue(field, item.newValues[field])}
+                  </Text>
+                </View>
+              ))}
+            </Card>
+          )}
+          ListEmptyComponent={() => (
+            <EmptyState
+              icon="time-outline"
+              title="No changes"
+              description="This exposure has not been edited since it was recorded"
+            />
+          )}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  title: {
+    color: colors.text,
+  },
+  secondary: {
+    color: colors.textSecondary,
+  },
+  change: {
+    marginTop: spacing.md,
+  },
+  previous: {
+    color: colors.textSecondary,
+    textDecorationLine: 'line-through',
+  },
+  value: {
+    color: colors.text,
+  },
+});
@@ -0,0 +1,174 @@
+/**
+ * Health Monitoring Screen
+ * Health checks due from the exposure history and the checks already completed
+ *
+ * Features:
+ * - Upcoming and overdue checks, tap to log one
+ * - History of completed checks with their outcome and result
+ * - Delete a check logged by mistake
+ */
+
+import React from 'react';
+import { View, StyleSheet, FlatList, Alert } from 'react-native';
+import { Text, Appbar, IconButton } from 'react-native-paper';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useMutation, useQuery } from 'convex/react';
+import { format } from 'date-fns';
+import { api } from '../../../convex/_generated/api';
+import { Id } from '../../../convex/_generated/dataModel';
+import { healthCheckLabel } from '../../../convex/healthMonitoring';
+import { useHealthMonitoring } from '@hooks/useHealthMonitoring';
+import { HealthCheckSchedule } from '@components/health/HealthCheckSchedule';
+import { Card } from '@components/common/Card';
+import { EmptyState } from '@components/common/EmptyState';
+import { LoadingSpinner } from '@components/common/LoadingSpinner';
+import { colors, spacing } from '@constants/theme';
+
+const OUTCOME_LABELS: Record<string, string> = {
+  normal: 'Normal',
+  abnormal: 'Abnormal',
+  referred: 'Referred',
+};
+
+export default function HealthMonitoringScreen() {
+  const router = useRouter();
+  const schedule = useHealthMonitoring();
+  const checks = useQuery(api.healthChecks.list);
+  const removeCheck = useMutation(api.healthChecks.remove);
+
+  const handleDelete = (id: Id<'healthChecks'>, label: string) => {
+    Alert.alert('Delete Health Check', `Delete this ${label.toLowerCase()}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          removeCheck({ id }).catch(error => {
+            console.error('Failed to delete health check:', error);
+            Alert.alert('Delete Failed', 'The health check could not be deleted.');
+          });
+        },
+      },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => router.back()} />
+        <Appbar.Content title="Health Monitoring" />
+        <Appbar.Action
+          icon="plus"
+          onPress={() => router.push('/health/log')}
+          accessibilityLabel="Log a health check"
+        />
+      </Appbar.Header>
+
+      {schedule === undefined || checks === undefined ? (
+        <LoadingSpinner message="Loading health checks..." />
+      ) : (
+        <FlatList
+          data={checks}
+          keyExtractor={item => item._id}
+          contentContainerStyle={styles.listContent}
+          ListHeaderComponent={() => (
+            <View style={styles.header}>
+              {schedule.length > 0 ? (
+                <HealthCheckSchedule
+                  checks={schedule}
+                  onLogCheck={checkType => router.push(`/health/log?checkType=${checkType}`)}
+                />
+              ) : (
+                <Text variant="bodyMedium" style={styles.secondary}>
+                  No health monitoring is due for your recorded exposures
+                </Text>
+              )}
+              {checks.length > 0 && (
+                <Text variant="titleMedium" style={styles.title}>
+                  Completed Checks
+                </Text>
+              )}
+            </View>
+          )}
+          renderItem={({ item }) => {
+            const label = healthCheckLabel(item.checkType);
+            return (
+              <Card>
+                <View style={styles.item}>
+                  <View style={styles.itemDetails}>
+                    <Text variant="titleMedium" style={styles.title}>
+                      {label}
+                    </Text>
+                    <Text variant="bodySmall" style={styles.secondary}>
+                      {format(item.completedAt, 'MMM d, yyyy')}
+                      {item.provider ? ` · ${item.provider}` : ''}
+                    </Text>
+                    <Text
+                      variant="bodyMedium"
+                      style={item.outcome === 'normal' ? styles.normal : styles.abnormal}
+                    >
+                      {OUTCOME_LABELS[item.outcome] ?? item.outcome}
+                      {item.result ? `: ${item.result}` : ''}
+                    </Text>
+                    {item.notes && (
+                      <Text variant="bodySmall" style={styles.secondary}>
+                        {item.notes}
+                      </Text>
+                    )}
+                  </View>
+                  <IconButton
+                    icon="delete-outline"
+                    onPress={() => handleDelete(item._id, label)}
+                    accessibilityLabel={`Delete ${label}`}
+                  />
+                </View>
+              </Card>
+            );
+          }}
+          ListEmptyComponent={() => (
+            <EmptyState
+              icon="medkit-outline"
+              title="No checks logged"
+              description="Log lung function, hearing and blood lead tests as you complete them"
+            />
+          )}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  header: {
+    gap: spacing.md,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  itemDetails: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+  title: {
+    color: colors.text,
+  },
+  secondary: {
+    color: colors.textSecondary,
+  },
+  normal: {
+    color: colors.successText,
+  },
+  abnormal: {
+    color: colors.warningText,
+  },
+});
@@ -0,0 +1,189 @@
+/**
+ * Log Health Check Screen
+ * Record a completed health monitoring check and its result
+ *
+ * Features:
+ * - Check type, preselected from the schedule
+ * - Date of the check, outcome and result as reported by the provider
+ * - Completing a check moves the next one out by the rule's interval
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Text, Appbar, SegmentedButtons, TextInput, HelperText } from 'react-native-paper';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useMutation } from 'convex/react';
+import { format, isValid, parse } from 'date-fns';
+import { api } from '../../../convex/_generated/api';
+import {
+  MONITORING_RULES,
+  HealthCheckOutcome,
+  HealthCheckType,
+} from '../../../convex/healthMonitoring';
+import { Button } from '@components/common/Button';
+import { colors, spacing } from '@constants/theme';
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+const RESULT_PLACEHOLDERS: Record<HealthCheckType, string> = {
+  lung_function: 'e.g. FEV1 92% predicted, FVC 95% predicted',
+  audiometry: 'e.g. No shift from baseline',
+  blood_lead: 'e.g. 0.4 µmol/L',
+};
+
+export default function LogHealthCheckScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ checkType?: string }>();
+  const createCheck = useMutation(api.healthChecks.create);
+
+  const [checkType, setCheckType] = useState<HealthCheckType>(
+    MONITORING_RULES.find(rule => rule.checkType === params.checkType)?.checkType ??
+      MONITORING_RULES[0].checkType
+  );
+  const [dateText, setDateText] = useState(format(new Date(), DATE_FORMAT));
+  const [outcome, setOutcome] = useState<HealthCheckOutcome>('normal');
+  const [result, setResult] = useState('');
+  const [provider, setProvider] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const completedAt = parse(dateText, DATE_FORMAT, new Date());
+  const dateError = !isValid(completedAt)
+    ? 'Enter the date as YYYY-MM-DD'
+    : completedAt.getTime() > Date.now()
+      ? 'Check date cannot be in the future'
+      : null;
+
+  const handleSave = async () => {
+    if (dateError) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await createCheck({
+        checkType,
+        completedAt: completedAt.getTime(),
+        outcome,
+        result: result || null,
+        provider: provider || null,
+        notes: notes || null,
+      });
+      router.back();
+    } catch (error) {
+      console.error('Failed to log health check:', error);
+      Alert.alert('Save Failed', 'The health check could not be saved. Please try again.');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => router.back()} />
+        <Appbar.Content title="Log Health Check" />
+      </Appbar.Header>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.field}>
+          <Text variant="titleSmall" style={styles.label}>
+            Check
+          </Text>
+          <SegmentedButtons
+            value={checkType}
+            onValueChange={value => setCheckType(value as HealthCheckType)}
+            buttons={MONITORING_RULES.map(rule => ({
+              value: rule.checkType,
+              label: rule.shortLabel,
+              accessibilityLabel: rule.label,
+            }))}
+          />
+        </View>
+
+        <View>
+          <TextInput
+            label="Date of check"
+            value={dateText}
+            onChangeText={setDateText}
+            mode="outlined"
+            placeholder="YYYY-MM-DD"
+            error={!!dateError}
+            accessibilityLabel="Date of check"
+          />
+          <HelperText type="error" visible={!!dateError}>
+            {dateError}
+          </HelperText>
+        </View>
+
+        <View style={styles.field}>
+          <Text variant="titleSmall" style={styles.label}>
+            Outcome
+          </Text>
+          <SegmentedButtons
+            value={outcome}
+            onValueChange={value => setOutcome(value as HealthCheckOutcome)}
+            buttons={[
+              { value: 'normal', label: 'Normal' },
+              { value: 'abnormal', label: 'Abnormal' },
+              { value: 'referred', label: 'Referred' },
+            ]}
+          />
+        </View>
+
+        <TextInput
+          label="Result (Optional)"
+          value={result}
+          onChangeText={setResult}
+          mode="outlined"
+          placeholder={RESULT_PLACEHOLDERS[checkType]}
+          accessibilityLabel="Result"
+        />
+
+        <TextInput
+          label="Provider (Optional)"
+          value={provider}
+          onChangeText={setProvider}
+          mode="outlined"
+          placeholder="Clinic or occupational health nurse"
+          accessibilityLabel="Provider"
+        />
+
+        <TextInput
+          label="Notes (Optional)"
+          value={notes}
+          onChangeText={setNotes}
+          mode="outlined"
+          multiline
+          numberOfLines={3}
+          accessibilityLabel="Notes"
+        />
+
+        <Button
+          title="Save Health Check"
+          onPress={handleSave}
+          loading={isSaving}
+          disabled={isSaving || !!dateError}
+          fullWidth
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  field: {
+    gap: spacing.xs,
+  },
+  label: {
+    color: colors.text,
+  },
+});
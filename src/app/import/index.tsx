@@ -0,0 +1,414 @@
+/**
+ * Import Screen
+ * Brings in exposures from a previous export or a spreadsheet
+ *
+ * Steps:
+ * - Pick a JSON export or a CSV file
+ * - Map the spreadsheet's columns to exposure fields (CSV only)
+ * - Preview the rows with their errors and duplicates, then queue the new ones
+ *
+ * Imported records go through the offline queue with fresh clientIds, so they sync
+ * in the background like records logged on this phone.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, FlatList, ScrollView, Alert, TouchableOpacity } from 'react-native';
+import { Text, Appbar, Chip } from 'react-native-paper';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useConvex } from 'convex/react';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system/legacy';
+import uuid from 'react-native-uuid';
+import {
+  ColumnMapping,
+  FingerprintFields,
+  IMPORT_FIELDS,
+  ImportFile,
+  buildImportPreview,
+  missingImportFields,
+  readImportFile,
+  setColumnField,
+  suggestColumnMapping,
+} from '@lib/exposureImport';
+import { fetchAllExposures } from '@lib/exportData';
+import { offlineQueue } from '@lib/offlineQueue';
+import { useHaptics } from '@hooks/useHaptics';
+import { FormProgress } from '@components/forms/FormProgress';
+import { Button } from '@components/common/Button';
+import { Card } from '@components/common/Card';
+import { LoadingSpinner } from '@components/common/LoadingSpinner';
+import { colors, spacing } from '@constants/theme';
+
+const STEPS = [
+  { id: 'file', label: 'File', description: 'Pick a file' },
+  { id: 'columns', label: 'Columns', description: 'Match the columns' },
+  { id: 'preview', label: 'Preview', description: 'Check and import' },
+];
+
+// Rows with errors listed in the preview, the rest are only counted
+const MAX_LISTED_ERRORS = 50;
+
+export default function ImportScreen() {
+  const router = useRouter();
+  const convex = useConvex();
+  const { success, error: errorHaptic } = useHaptics();
+
+  const [existing, setExisting] = useState<FingerprintFields[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [expandedColumn, setExpandedColumn] = useState<number | null>(null);
+  const [currentStep, setCurrentStep] = useState(0);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Records already held, on the server or waiting in the queue, for duplicate checks
+  // Without them every row would look new, so importing waits for a successful fetch
+  useEffect(() => {
+    let cancelled = false;
+    setExisting(null);
+    setLoadError(null);
+
+    fetchAllExposures(convex, () => cancelled)
+      .then(all => {
+        if (!cancelled) {
+          setExisting([...all, ...offlineQueue.getAll().map(item => item.draft)]);
+        }
+      })
+      .catch(error => {
+        console.error('Error fetching exposures:', error);
+        if (!cancelled) {
+          setLoadError(
+            error instanceof Error ? error.message : 'Your records could not be loaded.'
+          );
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [convex, loadAttempt]);
+
+  const rows = useMemo(
+    () => (file && existing ? buildImportPreview(file, mapping, existing) : []),
+    [file, mapping, existing]
+  );
+  const ready = rows.filter(row => row.status === 'ready');
+  const duplicates = rows.filter(row => row.status === 'duplicate');
+  const invalid = rows.filter(row => row.status === 'invalid');
+  const missing = file?.kind === 'csv' ? missingImportFields(mapping) : [];
+
+  async function pickFile() {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/csv', 'text/comma-separated-values', 'text/plain'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) {
+        return;
+      }
+
+      const asset = result.assets[0];
+      const text = await FileSystem.readAsStringAsync(asset.uri);
+      const imported = readImportFile(text);
+      setFile(imported);
+      setFileName(asset.name);
+      setMapping(imported.kind === 'csv' ? suggestColumnMapping(imported.headers) : []);
+      setExpandedColumn(null);
+    } catch (error) {
+      console.error('Import file error:', error);
+      errorHaptic();
+      Alert.alert(
+        'Cannot Read File',
+        error instanceof Error ? error.message : 'The file could not be read.'
+      );
+    }
+  }
+
+  function handleImport() {
+    if (ready.length === 0) {
+      return;
+    }
+
+    setIsImporting(true);
+    offlineQueue.addAll(ready.map(row => ({ ...row.draft, clientId: uuid.v4() as string })));
+    success();
+    setIsImporting(false);
+
+    Alert.alert(
+      'Import Started',
+      `${ready.length} record${ready.length !== 1 ? 's are' : ' is'} queued and will sync in the background.`,
+      [{ text: 'OK', onPress: () => router.back() }]
+    );
+  }
+
+  // JSON exports need no column mapping
+  function goNext() {
+    setCurrentStep(step => (step === 0 && file?.kind === 'json' ? 2 : step + 1));
+  }
+
+  function goBack() {
+    setCurrentStep(step => (step === 2 && file?.kind === 'json' ? 0 : step - 1));
+  }
+
+  function fieldLabel(index: number): string {
+    return IMPORT_FIELDS.find(field => field.key === mapping[index])?.label ?? 'Ignored';
+  }
+
+  function renderStep() {
+    switch (STEPS[currentStep].id) {
+      case 'file':
+        return (
+          <ScrollView contentContainerStyle={styles.content}>
+            <Text variant="bodyMedium" style={styles.secondary}>
+              Import a JSON export from Waldo Health, a CSV exported from the app, or your own
+              spreadsheet saved as CSV. Photos are not imported.
+            </Text>
+            <Button title="Choose File" icon="file-import-outline" onPress={pickFile} fullWidth />
+            {file && (
+              <Card>
+                <View style={styles.review}>
+                  <Text variant="titleMedium" style={styles.title}>
+                    {fileName}
+                  </Text>
+                  <Text variant="bodyMedium">
+                    {file.kind === 'json'
+                      ? `JSON export · ${file.exposures.length} exposures`
+                      : `CSV · ${file.rows.length} rows · ${file.headers.length} columns`}
+                  </Text>
+                </View>
+              </Card>
+            )}
+          </ScrollView>
+        );
+
+      case 'columns':
+        return (
+          <FlatList
+            data={file?.kind === 'csv' ? file.headers : []}
+            keyExtractor={(_, index) => String(index)}
+            contentContainerStyle={styles.content}
+            ListHeaderComponent={() => (
+              <View style={styles.review}>
+                <Text variant="bodyMedium" style={styles.secondary}>
+                  Match each column to an exposure field. Columns left as Ignored are not imported.
+                </Text>
+                {missing.length > 0 && (
+                  <Text variant="bodyMedium" style={styles.problem}>
+                    Still needed: {missing.join(', ')}
+                  </Text>
+                )}
+              </View>
+            )}
+            renderItem={({ item: header, index }) => (
+              <Card>
+                <TouchableOpacity
+                  onPress={() => setExpandedColumn(expandedColumn === index ? null : index)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Column ${header}, imported as ${fieldLabel(index)}`}
+                >
+                  <Text variant="titleSmall" style={styles.title}>
+                    {header || `Column ${index + 1}`}
+                  </Text>
+                  <Text variant="bodySmall" style={styles.secondary} numberOfLines={1}>
+                    e.g. {(file?.kind === 'csv' && file.rows[0][index]) || '(empty)'}
+                  </Text>
+                  <Text
+                    variant="bodyMedium"
+                    style={mapping[index] ? styles.mapped : styles.secondary}
+                  >
+                    → {fieldLabel(index)}
+                  </Text>
+                </TouchableOpacity>
+                {expandedColumn === index && (
+                  <View style={styles.chips}>
+                    <Chip
+                      selected={mapping[index] === null}
+                      onPress={() => setMapping(current => setColumnField(current, index, null))}
+                    >
+                      Ignore
+                    </Chip>
+                    {IMPORT_FIELDS.map(field => (
+                      <Chip
+                        key={field.key}
+                        selected={mapping[index] === field.key}
+                        onPress={() =>
+                          setMapping(current => setColumnField(current, index, field.key))
+                        }
+                      >
+                        {field.label}
+                      </Chip>
+                    ))}
+                  </View>
+                )}
+              </Card>
+            )}
+          />
+        );
+
+      default:
+        return (
+          <FlatList
+            data={invalid.slice(0, MAX_LISTED_ERRORS)}
+            keyExtractor={item => String(item.row)}
+            contentContainerStyle={styles.content}
+            ListHeaderComponent={() => (
+              <View style={styles.header}>
+                <Card>
+                  <View style={styles.review}>
+                    <Text variant="titleMedium" style={styles.title}>
+                      {rows.length} rows
+                    </Text>
+                    <Text variant="bodyMedium">{ready.length} ready to import</Text>
+                    <Text variant="bodyMedium">{duplicates.length} already recorded, skipped</Text>
+                    <Text variant="bodyMedium" style={invalid.length > 0 && styles.problem}>
+                      {invalid.length} with errors, skipped
+                    </Text>
+                  </View>
+                </Card>
+                <Button
+                  title={`Import ${ready.length} Record${ready.length !== 1 ? 's' : ''}`}
+                  icon="database-import-outline"
+                  onPress={handleImport}
+                  loading={isImporting}
+                  disabled={isImporting || ready.length === 0}
+                  fullWidth
+                />
+                {invalid.length > MAX_LISTED_ERRORS && (
+                  <Text variant="bodySmall" style={styles.secondary}>
+                    Showing the first {MAX_LISTED_ERRORS} rows with errors
+                  </Text>
+                )}
+              </View>
+            )}
+            renderItem={({ item }) => (
+              <View style={styles.errorRow}>
+                <Text variant="titleSmall" style={styles.title}>
+                  Row {item.row}
+                </Text>
+                {item.errors.map(error => (
+                  <Text key={error} variant="bodySmall" style={styles.problem}>
+                    {error}
+                  </Text>
+                ))}
+              </View>
+            )}
+          />
+        );
+    }
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => router.back()} />
+        <Appbar.Content title="Import Records" />
+      </Appbar.Header>
+
+      <FormProgress steps={STEPS} currentStep={currentStep} compact={true} />
+
+      <View style={styles.step}>
+        {loadError ? (
+          <View style={styles.content}>
+            <Text variant="titleMedium" style={styles.problem}>
+              Could not load your records
+            </Text>
+            <Text variant="bodyMedium" style={styles.secondary}>
+              {loadError}
+            </Text>
+            <Text variant="bodyMedium" style={styles.secondary}>
+              Importing needs them to skip records you already have.
+            </Text>
+            <Button
+              title="Try Again"
+              icon="refresh"
+              onPress={() => setLoadAttempt(attempt => attempt + 1)}
+              fullWidth
+            />
+          </View>
+        ) : existing === null ? (
+          <LoadingSpinner message="Loading your records..." />
+        ) : (
+          renderStep()
+        )}
+      </View>
+
+      <View style={styles.footer}>
+        <Button
+          title="Back"
+          variant="outline"
+          onPress={goBack}
+          disabled={currentStep === 0 || isImporting}
+          style={styles.footerButton}
+        />
+        <Button
+          title="Next"
+          onPress={goNext}
+          disabled={
+            currentStep === STEPS.length - 1 ||
+            !file ||
+            existing === null ||
+            (currentStep === 1 && missing.length > 0)
+          }
+          style={styles.footerButton}
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  step: {
+    flex: 1,
+  },
+  content: {
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  header: {
+    gap: spacing.md,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+  review: {
+    gap: spacing.xs,
+  },
+  title: {
+    color: colors.text,
+  },
+  secondary: {
+    color: colors.textSecondary,
+  },
+  mapped: {
+    color: colors.primary,
+  },
+  problem: {
+    color: colors.error,
+  },
+  errorRow: {
+    gap: spacing.xs,
+    paddingBottom: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    padding: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  footerButton: {
+    flex: 1,
+  },
+});
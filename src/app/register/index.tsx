@@ -0,0 +1,177 @@
+/**
+ * Exposure Register Screen
+ * Cumulative lifetime exposure per hazard agent across the user's whole history
+ *
+ * Features:
+ * - Total hours and hours without adequate PPE per agent
+ * - First and last exposure dates and number of sites
+ * - Employers from the profile
+ * - Export of the register as a standalone PDF
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet, FlatList, Alert } from 'react-native';
+import { Text, Appbar } from 'react-native-paper';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useQuery } from 'convex/react';
+import { useUser } from '@clerk/clerk-expo';
+import { format } from 'date-fns';
+import * as Sharing from 'expo-sharing';
+import { api } from '../../../convex/_generated/api';
+import { generateRegisterPDF } from '@lib/pdf';
+import { getExposureTypeById } from '@constants/exposureTypes';
+import { Card } from '@components/common/Card';
+import { EmptyState } from '@components/common/EmptyState';
+import { LoadingSpinner } from '@components/common/LoadingSpinner';
+import { colors, spacing } from '@constants/theme';
+
+export default function ExposureRegisterScreen() {
+  const router = useRouter();
+  const { user } = useUser();
+  const convexUser = useQuery(api.users.get);
+  const register = useQuery(api.exposures.getRegister);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    if (!register || !convexUser) {
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+      const uri = await generateRegisterPDF(register, {
+        name: convexUser.name || user?.fullName || null,
+        email: convexUser.email || user?.primaryEmailAddress?.emailAddress || '',
+        phoneNumber: convexUser.phoneNumber,
+        occupation: convexUser.occupation,
+        employer: convexUser.employer,
+      });
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(uri, {
+          mimeType: 'application/pdf',
+          dialogTitle: 'Share Exposure Register',
+          UTI: 'com.adobe.pdf',
+        });
+      } else {
+        Alert.alert('Export Complete', 'Sharing is not available on this device.');
+      }
+    } catch (error) {
+      console.error('Register export error:', error);
+      Alert.alert('Export Failed', 'The register could not be exported. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => router.back()} />
+        <Appbar.Content title="Exposure Register" />
+        <Appbar.Action
+          icon="file-pdf-box"
+          onPress={handleExport}
+          disabled={!register || register.entries.length === 0 || isExporting}
+          accessibilityLabel="Export register as PDF"
+        />
+      </Appbar.Header>
+
+      {register === undefined ? (
+        <LoadingSpinner message="Loading register..." />
+      ) : (
+        <FlatList
+          data={register.entries}
+          keyExtractor={item => `${item.exposureType}:${item.substance ?? ''}`}
+          contentContainerStyle={styles.listContent}
+          ListHeaderComponent={() => (
+            <View style={styles.header}>
+              <Text variant="bodyMedium" style={styles.secondary}>
+                {register.exposureCount} exposure{register.exposureCount !== 1 ? 's' : ''} recorded
+              </Text>
+              <Text variant="bodyMedium" style={styles.secondary}>
+                Employers:{' '}
+                {register.employers.length > 0 ? register.employers.join(', ') : 'Not recorded'}
+              </Text>
+            </View>
+          )}
+          renderItem={({ item }) => (
+            <Card>
+              <View style={styles.item}>
+                <Text variant="titleMedium" style={styles.title}>
+                  {getExposureTypeById(item.exposureType)?.label ?? item.exposureType}
+                  {item.substance ? ` · ${item.substance}` : ''}
+                </Text>
+                <Row label="Total hours" value={`${item.totalHours} h`} />
+                <Row
+                  label="Without adequate PPE"
+                  value={
+                    item.hoursWithoutAdequatePPE === null
+                      ? 'Not applicable'
+                      : `${item.hoursWithoutAdequatePPE} h`
+                  }
+                  highlight={!!item.hoursWithoutAdequatePPE}
+                />
+                <Row label="First exposure" value={format(item.firstExposure, 'MMM d, yyyy')} />
+                <Row label="Last exposure" value={format(item.lastExposure, 'MMM d, yyyy')} />
+                <Row label="Sites" value={`${item.siteCount}`} />
+                <Row label="Exposures" value={`${item.exposureCount}`} />
+              </View>
+            </Card>
+          )}
+          ListEmptyComponent={() => (
+            <EmptyState
+              icon="document-text-outline"
+              title="No exposures yet"
+              description="Your lifetime exposure totals will appear here"
+            />
+          )}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+function Row({ label, value, highlight }: { label: string; value: string; highlight?: boolean }) {
+  return (
+    <View style={styles.row}>
+      <Text variant="bodyMedium" style={styles.secondary}>
+        {label}
+      </Text>
+      <Text variant="bodyMedium" style={highlight ? styles.warning : styles.title}>
+        {value}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  header: {
+    gap: spacing.xs,
+  },
+  item: {
+    gap: spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  title: {
+    color: colors.text,
+  },
+  secondary: {
+    color: colors.textSecondary,
+  },
+  warning: {
+    color: colors.warningText,
+  },
+});
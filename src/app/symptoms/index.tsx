@@ -0,0 +1,115 @@
+/**
+ * Symptom Journal Screen
+ * Symptoms and health events in order of onset
+ *
+ * Features:
+ * - Each entry with its linked exposures
+ * - Quick entry of a new symptom
+ * - Delete an entry logged by mistake
+ */
+
+import React from 'react';
+import { View, StyleSheet, FlatList, Alert } from 'react-native';
+import { Text, Appbar, IconButton } from 'react-native-paper';
+import { useRouter } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Id } from '../../../convex/_generated/dataModel';
+import { useSymptoms } from '@hooks/useSymptoms';
+import { SymptomItem } from '@components/health/SymptomItem';
+import { Card } from '@components/common/Card';
+import { EmptyState } from '@components/common/EmptyState';
+import { LoadingSpinner } from '@components/common/LoadingSpinner';
+import { colors, spacing } from '@constants/theme';
+
+export default function SymptomJournalScreen() {
+  const router = useRouter();
+  const { symptoms, deleteSymptom } = useSymptoms();
+
+  const handleDelete = (id: Id<'symptoms'>, name: string) => {
+    Alert.alert('Delete Symptom', `Delete "${name}" from your journal?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          deleteSymptom(id).catch(error => {
+            console.error('Failed to delete symptom:', error);
+            Alert.alert('Delete Failed', 'The symptom could not be deleted.');
+          });
+        },
+      },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => router.back()} />
+        <Appbar.Content title="Symptom Journal" />
+        <Appbar.Action
+          icon="plus"
+          onPress={() => router.push('/symptoms/new')}
+          accessibilityLabel="Log a symptom"
+        />
+      </Appbar.Header>
+
+      {symptoms === undefined ? (
+        <LoadingSpinner message="Loading symptoms..." />
+      ) : (
+        <FlatList
+          data={symptoms}
+          keyExtractor={item => item._id}
+          contentContainerStyle={styles.listContent}
+          renderItem={({ item }) => (
+            <Card>
+              <View style={styles.item}>
+                <View style={styles.itemDetails}>
+                  <SymptomItem symptom={item} />
+                  <Text variant="bodySmall" style={styles.secondary}>
+                    {item.exposureIds.length > 0
+                      ? `Linked to ${item.exposureIds.length} exposure${item.exposureIds.length !== 1 ? 's' : ''}`
+                      : 'Not linked to an exposure'}
+                  </Text>
+                </View>
+                <IconButton
+                  icon="delete-outline"
+                  onPress={() => handleDelete(item._id, item.symptom)}
+                  accessibilityLabel={`Delete ${item.symptom}`}
+                />
+              </View>
+            </Card>
+          )}
+          ListEmptyComponent={() => (
+            <EmptyState
+              icon="medkit-outline"
+              title="No symptoms logged"
+              description="Record coughs, rashes, headaches or ringing ears and link them to the exposures behind them"
+            />
+          )}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContent: {
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  itemDetails: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+  secondary: {
+    color: colors.textSecondary,
+  },
+});
@@ -0,0 +1,271 @@
+/**
+ * New Symptom Screen
+ * Quick entry of a symptom or health event and the exposures it may stem from
+ *
+ * Features:
+ * - Body system and common symptoms as one-tap chips
+ * - Severity and onset time
+ * - Optional photos through PhotoCapture (e.g. a rash)
+ * - Links to one or more recent exposures, preselected from the exposure detail page
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { Text, Appbar, Chip, SegmentedButtons, TextInput, HelperText } from 'react-native-paper';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useQuery } from 'convex/react';
+import { format, isValid, parse, subHours, subDays } from 'date-fns';
+import { api } from '../../../convex/_generated/api';
+import { Id } from '../../../convex/_generated/dataModel';
+import { BODY_SYSTEMS, MAX_SYMPTOM_PHOTOS, SymptomSeverity } from '../../../convex/symptomJournal';
+import { useSymptoms } from '@hooks/useSymptoms';
+import { useHaptics } from '@hooks/useHaptics';
+import { PhotoCapture } from '@components/exposure/PhotoCapture';
+import { Button } from '@components/common/Button';
+import { getExposureTypeById } from '@constants/exposureTypes';
+import { colors, spacing } from '@constants/theme';
+
+const ONSET_FORMAT = 'yyyy-MM-dd HH:mm';
+
+// Recent exposures offered as links
+const RECENT_EXPOSURE_COUNT = 20;
+
+export default function NewSymptomScreen() {
+  const router = useRouter();
+  const params = useLocalSearchParams<{ exposureId?: string }>();
+  const { createSymptom } = useSymptoms();
+  const { success, error: errorHaptic } = useHaptics();
+  const recent = useQuery(api.exposures.list, {
+    paginationOpts: { numItems: RECENT_EXPOSURE_COUNT, cursor: null },
+  });
+
+  const [bodySystem, setBodySystem] = useState(BODY_SYSTEMS[0].id);
+  const [symptom, setSymptom] = useState('');
+  const [severity, setSeverity] = useState<SymptomSeverity>('mild');
+  const [onsetText, setOnsetText] = useState(format(new Date(), ONSET_FORMAT));
+  const [notes, setNotes] = useState('');
+  const [photoUris, setPhotoUris] = useState<string[]>([]);
+  const [exposureIds, setExposureIds] = useState<Id<'exposures'>[]>(
+    params.exposureId ? [params.exposureId as Id<'exposures'>] : []
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const system = BODY_SYSTEMS.find(item => item.id === bodySystem) ?? BODY_SYSTEMS[0];
+  const onsetAt = parse(onsetText, ONSET_FORMAT, new Date());
+  const onsetError = !isValid(onsetAt)
+    ? 'Enter the time as YYYY-MM-DD HH:mm'
+    : onsetAt.getTime() > Date.now()
+      ? 'Onset cannot be in the future'
+      : null;
+
+  function toggleExposure(id: Id<'exposures'>) {
+    setExposureIds(current =>
+      current.includes(id) ? current.filter(item => item !== id) : [...current, id]
+    );
+  }
+
+  async function handleSave() {
+    if (!symptom.trim()) {
+      Alert.alert('Missing Symptom', 'Describe the symptom or pick a common one');
+      return;
+    }
+    if (onsetError) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await createSymptom({
+        symptom,
+        bodySystem,
+        severity,
+        onsetAt: onsetAt.getTime(),
+        notes: notes || null,
+        exposureIds,
+        photoUris,
+      });
+      success();
+      router.back();
+    } catch (error) {
+      console.error('Failed to save symptom:', error);
+      errorHaptic();
+      Alert.alert(
+        'Save Failed',
+        'The symptom could not be saved. Check your connection and try again.'
+      );
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <Appbar.Header>
+        <Appbar.BackAction onPress={() => router.back()} />
+        <Appbar.Content title="Log Symptom" />
+      </Appbar.Header>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.field}>
+          <Text variant="titleSmall" style={styles.label}>
+            Body System
+          </Text>
+          <View style={styles.chips}>
+            {BODY_SYSTEMS.map(item => (
+              <Chip
+                key={item.id}
+                icon={item.icon}
+                selected={item.id === bodySystem}
+                onPress={() => setBodySystem(item.id)}
+                accessibilityLabel={item.label}
+              >
+                {item.label}
+              </Chip>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.field}>
+          {system.commonSymptoms.length > 0 && (
+            <View style={styles.chips}>
+              {system.commonSymptoms.map(name => (
+                <Chip
+                  key={name}
+                  mode="outlined"
+                  selected={name === symptom}
+                  onPress={() => setSymptom(name)}
+                >
+                  {name}
+                </Chip>
+              ))}
+            </View>
+          )}
+          <TextInput
+            label="Symptom"
+            value={symptom}
+            onChangeText={setSymptom}
+            mode="outlined"
+            placeholder="e.g. Cough, rash, headache"
+            maxLength={100}
+            accessibilityLabel="Symptom"
+          />
+        </View>
+
+        <View style={styles.field}>
+          <Text variant="titleSmall" style={styles.label}>
+            Severity
+          </Text>
+          <SegmentedButtons
+            value={severity}
+            onValueChange={value => setSeverity(value as SymptomSeverity)}
+            buttons={[
+              { value: 'mild', label: 'Mild' },
+              { value: 'moderate', label: 'Moderate' },
+              { value: 'severe', label: 'Severe' },
+            ]}
+          />
+        </View>
+
+        <View style={styles.field}>
+          <Text variant="titleSmall" style={styles.label}>
+            When did it start?
+          </Text>
+          <View style={styles.chips}>
+            <Chip onPress={() => setOnsetText(format(new Date(), ONSET_FORMAT))}>Now</Chip>
+            <Chip onPress={() => setOnsetText(format(subHours(new Date(), 1), ONSET_FORMAT))}>
+              1 hour ago
+            </Chip>
+            <Chip onPress={() => setOnsetText(format(subHours(new Date(), 3), ONSET_FORMAT))}>
+              3 hours ago
+            </Chip>
+            <Chip onPress={() => setOnsetText(format(subDays(new Date(), 1), ONSET_FORMAT))}>
+              Yesterday
+            </Chip>
+          </View>
+          <TextInput
+            label="Onset"
+            value={onsetText}
+            onChangeText={setOnsetText}
+            mode="outlined"
+            placeholder="YYYY-MM-DD HH:mm"
+            error={!!onsetError}
+            accessibilityLabel="Onset time"
+          />
+          <HelperText type="error" visible={!!onsetError}>
+            {onsetError}
+          </HelperText>
+        </View>
+
+        <View style={styles.field}>
+          <Text variant="titleSmall" style={styles.label}>
+            Linked Exposures
+          </Text>
+          <Text variant="bodySmall" style={styles.secondary}>
+            Pick the exposures you think caused this symptom
+          </Text>
+          <View style={styles.chips}>
+            {recent?.page.map(exposure => (
+              <Chip
+                key={exposure._id}
+                mode="outlined"
+                selected={exposureIds.includes(exposure._id)}
+                onPress={() => toggleExposure(exposure._id)}
+              >
+                {getExposureTypeById(exposure.exposureType)?.label ?? exposure.exposureType} ·{' '}
+                {format(exposure.timestamp, 'd MMM')}
+              </Chip>
+            ))}
+          </View>
+        </View>
+
+        <TextInput
+          label="Notes (Optional)"
+          value={notes}
+          onChangeText={setNotes}
+          mode="outlined"
+          multiline
+          numberOfLines={3}
+          accessibilityLabel="Notes"
+        />
+
+        <PhotoCapture
+          onPhotosChange={photos => setPhotoUris(photos.map(photo => photo.localUri))}
+          maxPhotos={MAX_SYMPTOM_PHOTOS}
+        />
+
+        <Button
+          title="Save Symptom"
+          onPress={handleSave}
+          loading={isSaving}
+          disabled={isSaving || !!onsetError}
+          fullWidth
+        />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  field: {
+    gap: spacing.xs,
+  },
+  label: {
+    color: colors.text,
+  },
+  secondary: {
+    color: colors.textSecondary,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+});
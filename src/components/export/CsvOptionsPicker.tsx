@@ -0,0 +1,166 @@
+/**
+ * CsvOptionsPicker Component
+ * Pick the columns, date format and encoding of a CSV export
+ *
+ * Features:
+ * - NZ or ISO 8601 dates as chips
+ * - UTF-8 byte order mark for Excel
+ * - Columns toggled on and off, written in a fixed order
+ */
+
+import React from 'react';
+import { View, StyleSheet, Text, TouchableOpacity, Switch } from 'react-native';
+import { colors, spacing } from '@constants/theme';
+import { CSV_COLUMNS, CSV_DATE_FORMATS, CsvOptions, toggleCsvColumn } from '../../../convex/csv';
+
+interface CsvOptionsPickerProps {
+  options: CsvOptions;
+  onChange: (options: CsvOptions) => void;
+  onReset: () => void;
+  showColumns: boolean; // The summary has fixed columns
+  disabled?: boolean;
+}
+
+export function CsvOptionsPicker({
+  options,
+  onChange,
+  onReset,
+  showColumns,
+  disabled = false,
+}: CsvOptionsPickerProps) {
+  return (
+    <View>
+      <Text style={styles.label}>Dates</Text>
+      <View style={styles.chips}>
+        {CSV_DATE_FORMATS.map(item => (
+          <TouchableOpacity
+            key={item.id}
+            style={[styles.chip, options.dateFormat === item.id && styles.chipSelected]}
+            onPress={() => onChange({ ...options, dateFormat: item.id })}
+            disabled={disabled}
+            accessibilityRole="button"
+            accessibilityState={{ selected: options.dateFormat === item.id }}
+          >
+            <Text
+              style={[styles.chipText, options.dateFormat === item.id && styles.chipTextSelected]}
+            >
+              {item.label} ({item.example})
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.row}>
+        <View style={styles.rowInfo}>
+          <Text style={styles.rowLabel}>Excel Compatible</Text>
+          <Text style={styles.rowDescription}>
+            Adds a UTF-8 byte order mark so Excel shows macrons and symbols correctly
+          </Text>
+        </View>
+        <Switch
+          value={options.includeBom}
+          onValueChange={includeBom => onChange({ ...options, includeBom })}
+          disabled={disabled}
+          trackColor={{ false: colors.surfaceVariant, true: colors.primaryLight }}
+          thumbColor={options.includeBom ? colors.primary : colors.textSecondary}
+          accessibilityLabel="Excel compatible"
+        />
+      </View>
+
+      {showColumns && (
+        <>
+          <Text style={[styles.label, styles.columnsLabel]}>
+            Columns ({options.columns.length} of {CSV_COLUMNS.length})
+          </Text>
+          {CSV_COLUMNS.map(column => {
+            const enabled = options.columns.includes(column.key);
+            return (
+              <View key={column.key} style={styles.row}>
+                <Text style={[styles.rowLabel, !enabled && styles.rowDisabled]}>
+                  {column.header}
+                </Text>
+                <Switch
+                  value={enabled}
+                  onValueChange={() => onChange(toggleCsvColumn(options, column.key))}
+                  disabled={disabled || (enabled && options.columns.length === 1)}
+                  trackColor={{ false: colors.surfaceVariant, true: colors.primaryLight }}
+                  thumbColor={enabled ? colors.primary : colors.textSecondary}
+                  accessibilityLabel={`Include ${column.header}`}
+                />
+              </View>
+            );
+          })}
+        </>
+      )}
+
+      <TouchableOpacity onPress={onReset} disabled={disabled} accessibilityRole="button">
+        <Text style={styles.resetText}>Reset to defaults</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: spacing.sm,
+  },
+  columnsLabel: {
+    marginTop: spacing.md,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  rowLabel: {
+    fontSize: 15,
+    color: colors.text,
+  },
+  rowDisabled: {
+    color: colors.textSecondary,
+  },
+  rowDescription: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  resetText: {
+    marginTop: spacing.md,
+    fontSize: 14,
+    color: colors.primary,
+  },
+});
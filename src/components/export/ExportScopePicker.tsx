@@ -0,0 +1,339 @@
+/**
+ * ExportScopePicker Component
+ * Narrow an export to the exposures it should cover
+ *
+ * Features:
+ * - Date range presets or custom dd/MM/yyyy dates
+ * - Exposure type, severity and saved site chips
+ * - Records picked by hand from those matching the filters
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, Text, TouchableOpacity, Switch, TextInput } from 'react-native';
+import { endOfDay, format, isValid, parse, startOfDay } from 'date-fns';
+import { colors, spacing } from '@constants/theme';
+import { getExposureTypeById } from '@constants/exposureTypes';
+import { Doc } from '../../../convex/_generated/dataModel';
+import {
+  applyExportScope,
+  DATE_RANGE_PRESETS,
+  ExportScope,
+  presetDateRange,
+  ScopeSite,
+  Severity,
+} from '../../../convex/exportScope';
+
+interface ExportScopePickerProps {
+  scope: ExportScope;
+  onChange: (scope: ExportScope) => void;
+  onReset: () => void;
+  exposures: Doc<'exposures'>[]; // Every loaded exposure
+  sites: ScopeSite[];
+  disabled?: boolean;
+}
+
+const SEVERITIES: { id: Severity; label: string }[] = [
+  { id: 'low', label: 'Low' },
+  { id: 'medium', label: 'Medium' },
+  { id: 'high', label: 'High' },
+];
+
+const DATE_PATTERN = 'dd/MM/yyyy';
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+}
+
+function formatDay(timestamp: number | null): string {
+  return timestamp === null ? '' : format(timestamp, DATE_PATTERN);
+}
+
+export function ExportScopePicker({
+  scope,
+  onChange,
+  onReset,
+  exposures,
+  sites,
+  disabled = false,
+}: ExportScopePickerProps) {
+  const [fromText, setFromText] = useState(formatDay(scope.dateFrom));
+  const [toText, setToText] = useState(formatDay(scope.dateTo));
+
+  // Presets replace the typed dates
+  useEffect(() => {
+    setFromText(formatDay(scope.dateFrom));
+    setToText(formatDay(scope.dateTo));
+  }, [scope.dateFrom, scope.dateTo]);
+
+  const types = [...new Set(exposures.map(exposure => exposure.exposureType as string))].sort();
+  const matching = applyExportScope(exposures, { ...scope, exposureIds: null }, sites);
+
+  // Empty text clears the date, unreadable text puts the previous date back
+  function commitDate(field: 'dateFrom' | 'dateTo', text: string) {
+    if (!text.trim()) {
+      onChange({ ...scope, [field]: null });
+      return;
+    }
+    const day = parse(text.trim(), DATE_PATTERN, new Date());
+    if (!isValid(day)) {
+      setFromText(formatDay(scope.dateFrom));
+      setToText(formatDay(scope.dateTo));
+      return;
+    }
+    onChange({
+      ...scope,
+      [field]: field === 'dateFrom' ? startOfDay(day).getTime() : endOfDay(day).getTime(),
+    });
+  }
+
+  function renderChip(key: string, label: string, selected: boolean, onPress: () => void) {
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[styles.chip, selected && styles.chipSelected]}
+        onPress={onPress}
+        disabled={disabled}
+        accessibilityRole="button"
+        accessibilityState={{ selected }}
+      >
+        <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View>
+      <Text style={styles.label}>Date Range</Text>
+      <View style={styles.chips}>
+        {DATE_RANGE_PRESETS.map(preset => {
+          const range = presetDateRange(preset.id);
+          return renderChip(
+            preset.id,
+            preset.label,
+            range.dateFrom === scope.dateFrom && range.dateTo === scope.dateTo,
+            () => onChange({ ...scope, ...range })
+          );
+        })}
+      </View>
+      <View style={styles.dates}>
+        <TextInput
+          style={styles.dateInput}
+          value={fromText}
+          onChangeText={setFromText}
+          onEndEditing={() => commitDate('dateFrom', fromText)}
+          placeholder="From (dd/mm/yyyy)"
+          placeholderTextColor={colors.textSecondary}
+          editable={!disabled}
+          accessibilityLabel="Export from date"
+        />
+        <TextInput
+          style={styles.dateInput}
+          value={toText}
+          onChangeText={setToText}
+          onEndEditing={() => commitDate('dateTo', toText)}
+          placeholder="To (dd/mm/yyyy)"
+          placeholderTextColor={colors.textSecondary}
+          editable={!disabled}
+          accessibilityLabel="Export to date"
+        />
+      </View>
+
+      {types.length > 1 && (
+        <>
+          <Text style={styles.label}>Exposure Types</Text>
+          <View style={styles.chips}>
+            {types.map(type =>
+              renderChip(
+                type,
+                getExposureTypeById(type)?.label ?? type,
+                scope.exposureTypes.includes(type),
+                () => onChange({ ...scope, exposureTypes: toggle(scope.exposureTypes, type) })
+              )
+            )}
+          </View>
+        </>
+      )}
+
+      <Text style={styles.label}>Severity</Text>
+      <View style={styles.chips}>
+        {SEVERITIES.map(severity =>
+          renderChip(severity.id, severity.label, scope.severities.includes(severity.id), () =>
+            onChange({ ...scope, severities: toggle(scope.severities, severity.id) })
+          )
+        )}
+      </View>
+
+      {sites.length > 0 && (
+        <>
+          <Text style={styles.label}>Sites</Text>
+          <View style={styles.chips}>
+            {sites.map(site =>
+              renderChip(site._id, site.siteName, scope.siteIds.includes(site._id), () =>
+                onChange({ ...scope, siteIds: toggle(scope.siteIds, site._id) })
+              )
+            )}
+          </View>
+        </>
+      )}
+
+      <View style={styles.row}>
+        <View style={styles.rowInfo}>
+          <Text style={styles.rowLabel}>Choose Records</Text>
+          <Text style={styles.rowDescription}>
+            Pick the records to export from those matching the filters
+          </Text>
+        </View>
+        <Switch
+          value={scope.exposureIds !== null}
+          onValueChange={enabled =>
+            onChange({
+              ...scope,
+              exposureIds: enabled ? matching.map(exposure => exposure._id) : null,
+            })
+          }
+          disabled={disabled}
+          trackColor={{ false: colors.surfaceVariant, true: colors.primaryLight }}
+          thumbColor={scope.exposureIds !== null ? colors.primary : colors.textSecondary}
+          accessibilityLabel="Choose records"
+        />
+      </View>
+
+      {scope.exposureIds !== null &&
+        matching.map(exposure => {
+          const selected = scope.exposureIds!.includes(exposure._id);
+          return (
+            <TouchableOpacity
+              key={exposure._id}
+              style={styles.record}
+              onPress={() =>
+                onChange({ ...scope, exposureIds: toggle(scope.exposureIds!, exposure._id) })
+              }
+              disabled={disabled}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: selected }}
+            >
+              <View style={[styles.checkbox, selected && styles.checkboxSelected]}>
+                {selected && <Text style={styles.checkmark}>✓</Text>}
+              </View>
+              <Text style={styles.recordText} numberOfLines={1}>
+                {getExposureTypeById(exposure.exposureType)?.label ?? exposure.exposureType} ·{' '}
+                {format(exposure.timestamp, 'd MMM yyyy')}
+                {exposure.location.siteName ? ` · ${exposure.location.siteName}` : ''}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+
+      <TouchableOpacity onPress={onReset} disabled={disabled} accessibilityRole="button">
+        <Text style={styles.resetText}>Clear filters</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text,
+    marginTop: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  dates: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  dateInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    fontSize: 14,
+    color: colors.text,
+    backgroundColor: colors.surface,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+    marginTop: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  rowInfo: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  rowLabel: {
+    fontSize: 15,
+    color: colors.text,
+  },
+  rowDescription: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  record: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 4,
+    borderWidth: 2,
+    borderColor: colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: spacing.sm,
+  },
+  checkboxSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+  checkmark: {
+    fontSize: 12,
+    color: '#fff',
+  },
+  recordText: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text,
+  },
+  resetText: {
+    marginTop: spacing.md,
+    fontSize: 14,
+    color: colors.primary,
+  },
+});
@@ -0,0 +1,251 @@
+/**
+ * TemplatePicker Component
+ * Pick, edit and save the template of a PDF export
+ *
+ * Features:
+ * - Built-in and saved templates as chips
+ * - Sections toggled on and off and moved up or down
+ * - Edits saved as a new named template
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, TouchableOpacity, Switch, TextInput } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing } from '@constants/theme';
+import {
+  EXPORT_SECTIONS,
+  ExportTemplate,
+  moveSection,
+  toggleSection,
+} from '../../../convex/exportTemplates';
+
+interface TemplatePickerProps {
+  templates: ExportTemplate[];
+  template: ExportTemplate;
+  isModified: boolean;
+  onSelect: (id: string) => void;
+  onChange: (template: ExportTemplate) => void;
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+  disabled?: boolean;
+}
+
+export function TemplatePicker({
+  templates,
+  template,
+  isModified,
+  onSelect,
+  onChange,
+  onSave,
+  onDelete,
+  disabled = false,
+}: TemplatePickerProps) {
+  const [name, setName] = useState('');
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      return;
+    }
+    onSave(name);
+    setName('');
+  };
+
+  return (
+    <View>
+      <View style={styles.chips}>
+        {templates.map(item => (
+          <TouchableOpacity
+            key={item.id}
+            style={[styles.chip, item.id === template.id && styles.chipSelected]}
+            onPress={() => onSelect(item.id)}
+            disabled={disabled}
+            accessibilityRole="button"
+            accessibilityState={{ selected: item.id === template.id }}
+          >
+            <Text style={[styles.chipText, item.id === template.id && styles.chipTextSelected]}>
+              {item.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.description}>
+        {template.description}
+        {isModified ? ' (edited)' : ''}
+      </Text>
+
+      {template.sections.map((section, index) => {
+        const info = EXPORT_SECTIONS.find(item => item.id === section.id);
+        return (
+          <View key={section.id} style={styles.sectionRow}>
+            <Switch
+              value={section.enabled}
+              onValueChange={() => onChange(toggleSection(template, section.id))}
+              disabled={disabled}
+              trackColor={{ false: colors.surfaceVariant, true: colors.primaryLight }}
+              thumbColor={section.enabled ? colors.primary : colors.textSecondary}
+              accessibilityLabel={`Include ${info?.label}`}
+            />
+            <View style={styles.sectionInfo}>
+              <Text style={[styles.sectionLabel, !section.enabled && styles.sectionDisabled]}>
+                {info?.label}
+              </Text>
+              <Text style={styles.sectionDescription}>{info?.description}</Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => onChange(moveSection(template, section.id, -1))}
+              disabled={disabled || index === 0}
+              accessibilityLabel={`Move ${info?.label} up`}
+              style={styles.moveButton}
+            >
+              <Ionicons
+                name="chevron-up"
+                size={20}
+                color={index === 0 ? colors.textDisabled : colors.textSecondary}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => onChange(moveSection(template, section.id, 1))}
+              disabled={disabled || index === template.sections.length - 1}
+              accessibilityLabel={`Move ${info?.label} down`}
+              style={styles.moveButton}
+            >
+              <Ionicons
+                name="chevron-down"
+                size={20}
+                color={
+                  index === template.sections.length - 1
+                    ? colors.textDisabled
+                    : colors.textSecondary
+                }
+              />
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+
+      <View style={styles.saveRow}>
+        <TextInput
+          style={styles.nameInput}
+          value={name}
+          onChangeText={setName}
+          placeholder="Template name"
+          placeholderTextColor={colors.textSecondary}
+          editable={!disabled}
+          maxLength={40}
+          accessibilityLabel="Template name"
+        />
+        <TouchableOpacity
+          style={[styles.saveButton, !name.trim() && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={disabled || !name.trim()}
+          accessibilityRole="button"
+        >
+          <Text style={styles.saveButtonText}>Save Template</Text>
+        </TouchableOpacity>
+      </View>
+
+      {!template.builtIn && (
+        <TouchableOpacity
+          onPress={() => onDelete(template.id)}
+          disabled={disabled}
+          accessibilityRole="button"
+        >
+          <Text style={styles.deleteText}>Delete "{template.name}"</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  chipSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text,
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  description: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  sectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  sectionInfo: {
+    flex: 1,
+    marginLeft: spacing.sm,
+  },
+  sectionLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text,
+  },
+  sectionDisabled: {
+    color: colors.textSecondary,
+  },
+  sectionDescription: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  moveButton: {
+    padding: spacing.xs,
+  },
+  saveRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  nameInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: spacing.md,
+    fontSize: 14,
+    color: colors.text,
+    backgroundColor: colors.surface,
+  },
+  saveButton: {
+    justifyContent: 'center',
+    paddingHorizontal: spacing.md,
+    borderRadius: 8,
+    backgroundColor: colors.primary,
+  },
+  saveButtonDisabled: {
+    backgroundColor: colors.textDisabled,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  deleteText: {
+    marginTop: spacing.md,
+    fontSize: 14,
+    color: colors.error,
+  },
+});
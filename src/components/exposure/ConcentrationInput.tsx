@@ -0,0 +1,127 @@
+/**
+ * ConcentrationInput Component
+ * Measured or estimated airborne concentration of an exposure
+ *
+ * Features:
+ * - Value in mg/m³ or ppm, defaulting to the unit of the matching standard
+ * - Measured (air monitoring) or estimated source
+ * - WES-TWA of the substance, when the app knows it
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, SegmentedButtons } from 'react-native-paper';
+import { colors, spacing } from '@constants/theme';
+import type { Concentration } from '../../../convex/exposureDose';
+import {
+  findExposureStandard,
+  ConcentrationUnit,
+  CONCENTRATION_UNIT_LABELS,
+} from '../../../convex/exposureStandards';
+
+interface ConcentrationInputProps {
+  exposureType: string;
+  chemicalName: string | null;
+  concentration: Concentration | null;
+  onChange: (concentration: Concentration | null) => void;
+}
+
+export function ConcentrationInput({
+  exposureType,
+  chemicalName,
+  concentration,
+  onChange,
+}: ConcentrationInputProps) {
+  const standard = findExposureStandard(exposureType, chemicalName);
+
+  // Kept as typed so partial decimals like "0.0" are not reformatted mid-entry
+  const [valueText, setValueText] = useState(concentration?.value.toString() ?? '');
+  const [unit, setUnit] = useState<ConcentrationUnit>(
+    concentration?.unit ?? standard?.unit ?? 'mg/m3'
+  );
+  const [source, setSource] = useState<Concentration['source']>(
+    concentration?.source ?? 'measured'
+  );
+
+  function report(text: string, nextUnit: ConcentrationUnit, nextSource: Concentration['source']) {
+    const value = parseFloat(text);
+    onChange(value > 0 ? { value, unit: nextUnit, source: nextSource } : null);
+  }
+
+  return (
+    <View>
+      <Text variant="titleSmall" style={styles.label}>
+        Airborne Concentration (Optional)
+      </Text>
+      <Text variant="bodySmall" style={styles.hint}>
+        {standard
+          ? `WES-TWA for ${standard.substance.toLowerCase()}: ${standard.twa} ${CONCENTRATION_UNIT_LABELS[standard.unit]}`
+          : 'No Workplace Exposure Standard is bundled for this substance'}
+      </Text>
+
+      <TextInput
+        label="Concentration"
+        value={valueText}
+        onChangeText={text => {
+          setValueText(text);
+          report(text, unit, source);
+        }}
+        keyboardType="decimal-pad"
+        mode="outlined"
+        placeholder="From air monitoring or an estimate"
+        accessibilityLabel="Airborne concentration"
+      />
+
+      <SegmentedButtons
+        value={unit}
+        onValueChange={value => {
+          setUnit(value as ConcentrationUnit);
+          report(valueText, value as ConcentrationUnit, source);
+        }}
+        buttons={[
+          { value: 'mg/m3', label: CONCENTRATION_UNIT_LABELS['mg/m3'] },
+          { value: 'ppm', label: CONCENTRATION_UNIT_LABELS.ppm },
+        ]}
+        style={styles.segments}
+      />
+
+      <SegmentedButtons
+        value={source}
+        onValueChange={value => {
+          setSource(value as Concentration['source']);
+          report(valueText, unit, value as Concentration['source']);
+        }}
+        buttons={[
+          { value: 'measured', label: 'Measured' },
+          { value: 'estimated', label: 'Estimated' },
+        ]}
+        style={styles.segments}
+      />
+
+      {standard && unit !== standard.unit && (
+        <Text variant="bodySmall" style={styles.warning}>
+          The standard is in {CONCENTRATION_UNIT_LABELS[standard.unit]}, so no TWA can be calculated
+          in {CONCENTRATION_UNIT_LABELS[unit]}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    marginBottom: spacing.xs,
+    color: colors.text,
+  },
+  hint: {
+    marginBottom: spacing.sm,
+    color: colors.textSecondary,
+  },
+  segments: {
+    marginTop: spacing.sm,
+  },
+  warning: {
+    marginTop: spacing.sm,
+    color: colors.warningText,
+  },
+});
@@ -9,6 +9,9 @@
  * - Timestamp
  * - Location
  * - Severity indicator
+ * - Daily noise dose for noise exposures
+ * - Daily vibration A(8) for vibration exposures
+ * - Daily WES-TWA, highlighted when approaching or over the standard
  * - Sync status
  *
  * Performance Optimizations (T117):
@@ -23,10 +26,20 @@ import { View, StyleSheet, Image, Alert, Modal, Pressable } from 'react-native';
 import { Text, IconButton } from 'react-native-paper';
 import { Ionicons } from '@expo/vector-icons';
 import { Card } from '@components/common/Card';
+import { NoiseDoseSummary } from '@components/exposure/NoiseDoseSummary';
+import { VibrationDoseSummary } from '@components/exposure/VibrationDoseSummary';
+import { TWASummary, TWAUnitMismatch } from '@components/exposure/TWASummary';
 import { EXPOSURE_TYPES } from '@constants/exposureTypes';
 import { colors, spacing } from '@constants/theme';
 import { format } from 'date-fns';
 import { useHaptics } from '@hooks/useHaptics';
+import { twaUnitMismatch } from '../../../convex/exposureDose';
+import type {
+  Concentration,
+  DailyTWA,
+  NoiseSegment,
+  VibrationToolUse,
+} from '../../../convex/exposureDose';
 
 interface ExposureCardProps {
   exposure: {
@@ -42,222 +55,281 @@ interface ExposureCardProps {
     severity: 'low' | 'medium' | 'high';
     syncStatus: string;
     photoIds: any[];
+    noiseSegments?: NoiseSegment[] | null;
+    noisePeakDbC?: number | null;
+    vibrationTools?: VibrationToolUse[] | null;
+    chemicalName?: string | null;
+    concentration?: Concentration | null;
   };
   thumbnailUri?: string | null;
+  twa?: DailyTWA; // Daily TWA of the exposure's substance, when it has a concentration
   onPress: () => void;
   onEdit?: () => void; // T076: Optional edit handler
   onDelete?: () => void; // T076: Optional delete handler
 }
 
 // T117: Wrap with React.memo for performance
-export const ExposureCard = React.memo(function ExposureCard({
-  exposure,
-  thumbnailUri,
-  onPress,
-  onEdit,
-  onDelete
-}: ExposureCardProps) {
-  const { medium } = useHaptics(); // T076: Haptic feedback for long press
-  const [showMenu, setShowMenu] = useState(false);
+export const ExposureCard = React.memo(
+  function ExposureCard({
+    exposure,
+    thumbnailUri,
+    twa,
+    onPress,
+    onEdit,
+    onDelete,
+  }: ExposureCardProps) {
+    const { medium } = useHaptics(); // T076: Haptic feedback for long press
+    const [showMenu, setShowMenu] = useState(false);
 
-  // T076: Handle long press to show context menu
-  const handleLongPress = useCallback(() => {
-    medium(); // Haptic feedback on long press
-    setShowMenu(true);
-  }, [medium]);
+    // T076: Handle long press to show context menu
+    const handleLongPress = useCallback(() => {
+      medium(); // Haptic feedback on long press
+      setShowMenu(true);
+    }, [medium]);
 
-  // T117: Memoize expensive calculations
-  const exposureType = useMemo(
-    () => EXPOSURE_TYPES[exposure.exposureType.toUpperCase()],
-    [exposure.exposureType]
-  );
+    // T117: Memoize expensive calculations
+    const exposureType = useMemo(
+      () => EXPOSURE_TYPES[exposure.exposureType.toUpperCase()],
+      [exposure.exposureType]
+    );
 
-  const severityColor = useMemo(
-    () => getSeverityColor(exposure.severity),
-    [exposure.severity]
-  );
+    const severityColor = useMemo(() => getSeverityColor(exposure.severity), [exposure.severity]);
 
-  const syncIcon = useMemo(
-    () => getSyncIcon(exposure.syncStatus),
-    [exposure.syncStatus]
-  );
+    const syncIcon = useMemo(() => getSyncIcon(exposure.syncStatus), [exposure.syncStatus]);
 
-  const formattedDate = useMemo(
-    () => format(exposure.timestamp, 'MMM d, yyyy h:mm a'),
-    [exposure.timestamp]
-  );
+    const formattedDate = useMemo(
+      () => format(exposure.timestamp, 'MMM d, yyyy h:mm a'),
+      [exposure.timestamp]
+    );
 
-  const accessibilityLabel = useMemo(
-    () => `${exposureType?.label || 'Exposure'} on ${format(exposure.timestamp, 'MMM d, yyyy')}`,
-    [exposureType, exposure.timestamp]
-  );
+    const unitMismatch = useMemo(
+      () =>
+        twaUnitMismatch({
+          exposureType: exposure.exposureType,
+          chemicalName: exposure.chemicalName ?? null,
+          concentration: exposure.concentration,
+        }),
+      [exposure.exposureType, exposure.chemicalName, exposure.concentration]
+    );
 
-  return (
-    <>
-      <Card
-        onPress={onPress}
-        onLongPress={handleLongPress} // T076: Long press to show menu
-        accessibilityLabel={accessibilityLabel}
-        accessibilityHint="Tap to view details, long press for options"
-      >
-        <View style={styles.container}>
-        {/* Thumbnail or placeholder */}
-        <View style={styles.thumbnailContainer}>
-          {thumbnailUri ? (
-            <Image
-              source={{ uri: thumbnailUri }}
-              style={styles.thumbnail}
-              accessibilityLabel="Exposure photo"
-              // T117: Performance optimizations
-              resizeMode="cover"
-              resizeMethod="resize"
-            />
-          ) : (
-            <View style={[styles.thumbnail, styles.placeholderThumbnail]}>
-              <Ionicons
-                name={exposure.photoIds.length > 0 ? 'camera' : 'document-text'}
-                size={32}
-                color={colors.icon.muted}
-                accessibilityLabel={exposure.photoIds.length > 0 ? 'Photo icon' : 'Document icon'}
-              />
-            </View>
-          )}
-          {exposure.photoIds.length > 1 && (
-            <View style={styles.photoCountBadge}>
-              <Text style={styles.photoCountText}>{exposure.photoIds.length}</Text>
-            </View>
-          )}
-        </View>
+    const accessibilityLabel = useMemo(
+      () => `${exposureType?.label || 'Exposure'} on ${format(exposure.timestamp, 'MMM d, yyyy')}`,
+      [exposureType, exposure.timestamp]
+    );
 
-        {/* Content */}
-        <View style={styles.content}>
-          {/* Header: Type and sync status */}
-          <View style={styles.header}>
-            <View style={styles.typeContainer}>
-              <View
-                style={[styles.severityIndicator, { backgroundColor: severityColor }]}
-                accessibilityLabel={`${exposure.severity} severity`}
-              />
-              <Text variant="titleMedium" style={styles.typeLabel} numberOfLines={1}>
-                {exposureType?.label || exposure.exposureType}
-              </Text>
+    return (
+      <>
+        <Card
+          onPress={onPress}
+          onLongPress={handleLongPress} // T076: Long press to show menu
+          style={
+            twa?.status === 'exceeds'
+              ? styles.exceedsWES
+              : twa?.status === 'approaching'
+                ? styles.approachingWES
+                : undefined
+          }
+          accessibilityLabel={accessibilityLabel}
+          accessibilityHint="Tap to view details, long press for options"
+        >
+          <View style={styles.container}>
+            {/* Thumbnail or placeholder */}
+            <View style={styles.thumbnailContainer}>
+              {thumbnailUri ? (
+                <Image
+                  source={{ uri: thumbnailUri }}
+                  style={styles.thumbnail}
+                  accessibilityLabel="Exposure photo"
+                  // T117: Performance optimizations
+                  resizeMode="cover"
+                  resizeMethod="resize"
+                />
+              ) : (
+                <View style={[styles.thumbnail, styles.placeholderThumbnail]}>
+                  <Ionicons
+                    name={exposure.photoIds.length > 0 ? 'camera' : 'document-text'}
+                    size={32}
+                    color={colors.icon.muted}
+                    accessibilityLabel={
+                      exposure.photoIds.length > 0 ? 'Photo icon' : 'Document icon'
+                    }
+                  />
+                </View>
+              )}
+              {exposure.photoIds.length > 1 && (
+                <View style={styles.photoCountBadge}>
+                  <Text style={styles.photoCountText}>{exposure.photoIds.length}</Text>
+                </View>
+              )}
             </View>
-            <IconButton
-              icon={syncIcon}
-              size={20}
-              iconColor={
-                exposure.syncStatus === 'synced'
-                  ? colors.success
-                  : exposure.syncStatus === 'syncing'
-                    ? colors.syncing
-                    : colors.offline
-              }
-              accessibilityLabel={`Sync status: ${exposure.syncStatus}`}
-            />
-          </View>
 
-          {/* T117: Use memoized formatted date */}
-          <Text variant="bodySmall" style={styles.timestamp}>
-            {formattedDate}
-          </Text>
+            {/* Content */}
+            <View style={styles.content}>
+              {/* Header: Type and sync status */}
+              <View style={styles.header}>
+                <View style={styles.typeContainer}>
+                  <View
+                    style={[styles.severityIndicator, { backgroundColor: severityColor }]}
+                    accessibilityLabel={`${exposure.severity} severity`}
+                  />
+                  <Text variant="titleMedium" style={styles.typeLabel} numberOfLines={1}>
+                    {exposureType?.label || exposure.exposureType}
+                  </Text>
+                </View>
+                <IconButton
+                  icon={syncIcon}
+                  size={20}
+                  iconColor={
+                    exposure.syncStatus === 'synced'
+                      ? colors.success
+                      : exposure.syncStatus === 'syncing'
+                        ? colors.syncing
+                        : colors.offline
+                  }
+                  accessibilityLabel={`Sync status: ${exposure.syncStatus}`}
+                />
+              </View>
 
-          {/* Location */}
-          {(exposure.location.siteName || exposure.location.address) && (
-            <View style={styles.locationContainer}>
-              <Ionicons name="location" size={14} color={colors.icon.secondary} style={styles.locationIcon} />
-              <Text
-                variant="bodySmall"
-                style={styles.location}
-                numberOfLines={1}
-                accessibilityLabel={`Location: ${exposure.location.siteName || exposure.location.address}`}
-              >
-                {exposure.location.siteName || exposure.location.address}
+              {/* T117: Use memoized formatted date */}
+              <Text variant="bodySmall" style={styles.timestamp}>
+                {formattedDate}
               </Text>
+
+              {/* Location */}
+              {(exposure.location.siteName || exposure.location.address) && (
+                <View style={styles.locationContainer}>
+                  <Ionicons
+                    name="location"
+                    size={14}
+                    color={colors.icon.secondary}
+                    style={styles.locationIcon}
+                  />
+                  <Text
+                    variant="bodySmall"
+                    style={styles.location}
+                    numberOfLines={1}
+                    accessibilityLabel={`Location: ${exposure.location.siteName || exposure.location.address}`}
+                  >
+                    {exposure.location.siteName || exposure.location.address}
+                  </Text>
+                </View>
+              )}
+
+              {/* Daily noise dose */}
+              {exposure.noiseSegments && (
+                <NoiseDoseSummary
+                  segments={exposure.noiseSegments}
+                  peakDbC={exposure.noisePeakDbC ?? null}
+                  compact
+                />
+              )}
+
+              {/* Daily vibration exposure */}
+              {exposure.vibrationTools && (
+                <VibrationDoseSummary tools={exposure.vibrationTools} compact />
+              )}
+
+              {/* Daily TWA against the Workplace Exposure Standard */}
+              {twa && <TWASummary result={twa} compact />}
+              {unitMismatch && exposure.concentration && (
+                <TWAUnitMismatch
+                  standard={unitMismatch}
+                  unit={exposure.concentration.unit}
+                  compact
+                />
+              )}
             </View>
-          )}
-        </View>
-      </View>
-    </Card>
+          </View>
+        </Card>
 
-    {/* T076: Context menu modal */}
-    <Modal
-      visible={showMenu}
-      transparent={true}
-      animationType="fade"
-      onRequestClose={() => setShowMenu(false)}
-    >
-      <Pressable style={styles.modalOverlay} onPress={() => setShowMenu(false)}>
-        <View style={styles.contextMenu}>
-          <Pressable
-            style={styles.menuItem}
-            onPress={() => {
-              setShowMenu(false);
-              onPress();
-            }}
-            accessibilityRole="button"
-            accessibilityLabel="View details"
-          >
-            <Ionicons name="eye" size={20} color={colors.icon.primary} />
-            <Text style={styles.menuItemText}>View</Text>
-          </Pressable>
+        {/* T076: Context menu modal */}
+        <Modal
+          visible={showMenu}
+          transparent={true}
+          animationType="fade"
+          onRequestClose={() => setShowMenu(false)}
+        >
+          <Pressable style={styles.modalOverlay} onPress={() => setShowMenu(false)}>
+            <View style={styles.contextMenu}>
+              <Pressable
+                style={styles.menuItem}
+                onPress={() => {
+                  setShowMenu(false);
+                  onPress();
+                }}
+                accessibilityRole="button"
+                accessibilityLabel="View details"
+              >
+                <Ionicons name="eye" size={20} color={colors.icon.primary} />
+                <Text style={styles.menuItemText}>View</Text>
+              </Pressable>
 
-          {onEdit && (
-            <Pressable
-              style={styles.menuItem}
-              onPress={() => {
-                setShowMenu(false);
-                onEdit();
-              }}
-              accessibilityRole="button"
-              accessibilityLabel="Edit exposure"
-            >
-              <Ionicons name="create" size={20} color={colors.icon.primary} />
-              <Text style={styles.menuItemText}>Edit</Text>
-            </Pressable>
-          )}
+              {onEdit && (
+                <Pressable
+                  style={styles.menuItem}
+                  onPress={() => {
+                    setShowMenu(false);
+                    onEdit();
+                  }}
+                  accessibilityRole="button"
+                  accessibilityLabel="Edit exposure"
+                >
+                  <Ionicons name="create" size={20} color={colors.icon.primary} />
+                  <Text style={styles.menuItemText}>Edit</Text>
+                </Pressable>
+              )}
 
-          {onDelete && (
-            <Pressable
-              style={[styles.menuItem, styles.menuItemDanger]}
-              onPress={() => {
-                setShowMenu(false);
-                onDelete();
-              }}
-              accessibilityRole="button"
-              accessibilityLabel="Delete exposure"
-            >
-              <Ionicons name="trash" size={20} color={colors.error} />
-              <Text style={[styles.menuItemText, styles.menuItemTextDanger]}>Delete</Text>
-            </Pressable>
-          )}
+              {onDelete && (
+                <Pressable
+                  style={[styles.menuItem, styles.menuItemDanger]}
+                  onPress={() => {
+                    setShowMenu(false);
+                    onDelete();
+                  }}
+                  accessibilityRole="button"
+                  accessibilityLabel="Delete exposure"
+                >
+                  <Ionicons name="trash" size={20} color={colors.error} />
+                  <Text style={[styles.menuItemText, styles.menuItemTextDanger]}>Delete</Text>
+                </Pressable>
+              )}
 
-          <Pressable
-            style={[styles.menuItem, styles.menuItemCancel]}
-            onPress={() => setShowMenu(false)}
-            accessibilityRole="button"
-            accessibilityLabel="Cancel"
-          >
-            <Text style={styles.menuItemText}>Cancel</Text>
+              <Pressable
+                style={[styles.menuItem, styles.menuItemCancel]}
+                onPress={() => setShowMenu(false)}
+                accessibilityRole="button"
+                accessibilityLabel="Cancel"
+              >
+                <Text style={styles.menuItemText}>Cancel</Text>
+              </Pressable>
+            </View>
           </Pressable>
-        </View>
-      </Pressable>
-    </Modal>
-  </>
-  );
-}, (prevProps, nextProps) => {
-  // T117: Custom comparison function for React.memo
-  // Only re-render if these props change
-  return (
-    prevProps.exposure._id === nextProps.exposure._id &&
-    prevProps.exposure.exposureType === nextProps.exposure.exposureType &&
-    prevProps.exposure.timestamp === nextProps.exposure.timestamp &&
-    prevProps.exposure.severity === nextProps.exposure.severity &&
-    prevProps.exposure.syncStatus === nextProps.exposure.syncStatus &&
-    prevProps.exposure.photoIds.length === nextProps.exposure.photoIds.length &&
-    prevProps.thumbnailUri === nextProps.thumbnailUri &&
-    prevProps.exposure.location?.siteName === nextProps.exposure.location?.siteName
-  );
-});
+        </Modal>
+      </>
+    );
+  },
+  (prevProps, nextProps) => {
+    // T117: Custom comparison function for React.memo
+    // Only re-render if these props change
+    return (
+      prevProps.exposure._id === nextProps.exposure._id &&
+      prevProps.exposure.exposureType === nextProps.exposure.exposureType &&
+      prevProps.exposure.timestamp === nextProps.exposure.timestamp &&
+      prevProps.exposure.severity === nextProps.exposure.severity &&
+      prevProps.exposure.syncStatus === nextProps.exposure.syncStatus &&
+      prevProps.exposure.photoIds.length === nextProps.exposure.photoIds.length &&
+      prevProps.thumbnailUri === nextProps.thumbnailUri &&
+      prevProps.twa?.twa === nextProps.twa?.twa &&
+      prevProps.twa?.status === nextProps.twa?.status &&
+      prevProps.twa?.skippedExposureIds.length === nextProps.twa?.skippedExposureIds.length &&
+      prevProps.exposure.concentration === nextProps.exposure.concentration &&
+      prevProps.exposure.noiseSegments === nextProps.exposure.noiseSegments &&
+      prevProps.exposure.noisePeakDbC === nextProps.exposure.noisePeakDbC &&
+      prevProps.exposure.vibrationTools === nextProps.exposure.vibrationTools &&
+      prevProps.exposure.location?.siteName === nextProps.exposure.location?.siteName
+    );
+  }
+);
 
 /**
  * Get severity color
@@ -287,6 +359,14 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: spacing.md,
   },
+  approachingWES: {
+    borderLeftWidth: 4,
+    borderLeftColor: colors.warningBorder,
+  },
+  exceedsWES: {
+    borderLeftWidth: 4,
+    borderLeftColor: colors.error,
+  },
   thumbnailContainer: {
     position: 'relative',
   },
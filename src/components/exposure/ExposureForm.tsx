@@ -23,8 +23,12 @@ import { useRouter } from 'expo-router';
 import { useQuery } from 'convex/react';
 import { api } from '../../../convex/_generated/api';
 import { ExposureDraft } from '@types/exposure';
+import { NoiseSegmentsInput } from '@components/exposure/NoiseSegmentsInput';
+import { VibrationToolsInput } from '@components/exposure/VibrationToolsInput';
+import { ConcentrationInput } from '@components/exposure/ConcentrationInput';
 import { PPE_TYPES, EXPOSURE_TYPES } from '@constants/exposureTypes';
 import { colors, spacing } from '@constants/theme';
+import { CONCENTRATION_EXPOSURE_TYPES } from '../../../convex/exposureStandards';
 
 interface ExposureFormProps {
   exposureType: string | null;
@@ -213,6 +217,54 @@ export function ExposureForm({ exposureType, formData, onChange }: ExposureFormP
         </View>
       )}
 
+      {/* Airborne concentration (conditional) */}
+      {exposureType && CONCENTRATION_EXPOSURE_TYPES.includes(exposureType) && (
+        <View style={styles.section}>
+          <ConcentrationInput
+            exposureType={exposureType}
+            chemicalName={formData.chemicalName || null}
+            concentration={formData.concentration ?? null}
+            onChange={value => onChange('concentration', value)}
+          />
+        </View>
+      )}
+
+      {/* Vibration (conditional) */}
+      {exposureType === 'vibration' && (
+        <View style={styles.section}>
+          <VibrationToolsInput
+            tools={formData.vibrationTools || []}
+            onChange={tools => onChange('vibrationTools', tools)}
+          />
+        </View>
+      )}
+
+      {/* Noise levels and daily dose (conditional) */}
+      {exposureType === 'noise' && (
+        <View style={styles.section}>
+          <NoiseSegmentsInput
+            segments={formData.noiseSegments || []}
+            peakDbC={formData.noisePeakDbC ?? null}
+            onChangeSegments={segments => onChange('noiseSegments', segments)}
+            onChangePeak={peak => onChange('noisePeakDbC', peak)}
+          />
+        </View>
+      )}
+
+      {/* Blood-Lead Test Reference (conditional) */}
+      {exposureType === 'lead' && (
+        <View style={styles.section}>
+          <TextInput
+            label="Blood-Lead Test Reference"
+            value={formData.bloodLeadTestReference || ''}
+            onChangeText={text => onChange('bloodLeadTestReference', text)}
+            mode="outlined"
+            placeholder="Lab reference of your latest blood-lead test"
+            accessibilityLabel="Blood-lead test reference"
+          />
+        </View>
+      )}
+
       {/* SDS Reference */}
       <View style={styles.section}>
         <TextInput
@@ -41,6 +41,7 @@ export function ExposureTypeSelector({ selectedType, onSelect }: ExposureTypeSel
     respiratory: 'Respiratory Hazards',
     skin: 'Skin Hazards',
     noise: 'Noise Hazards',
+    physical: 'Physical Hazards',
     environmental: 'Environmental Hazards',
   };
 
@@ -61,8 +61,16 @@ export interface FilterBarProps {
  */
 const EXPOSURE_TYPE_FILTER_OPTIONS = [
   { value: 'silica_dust', label: 'Silica Dust', icon: 'cloud-outline' as keyof typeof Ionicons.glyphMap },
-  { value: 'asbestos_a', label: 'Asbestos A', icon: 'warning' as keyof typeof Ionicons.glyphMap },
-  { value: 'asbestos_b', label: 'Asbestos B', icon: 'warning-outline' as keyof typeof Ionicons.glyphMap },
+  {
+    value: 'asbestos_class_a',
+    label: 'Asbestos Class A',
+    icon: 'warning' as keyof typeof Ionicons.glyphMap,
+  },
+  {
+    value: 'asbestos_class_b',
+    label: 'Asbestos Class B',
+    icon: 'warning-outline' as keyof typeof Ionicons.glyphMap,
+  },
   { value: 'welding_fumes', label: 'Welding', icon: 'flame' as keyof typeof Ionicons.glyphMap },
   { value: 'hazardous_chemicals', label: 'Chemicals', icon: 'flask' as keyof typeof Ionicons.glyphMap },
   { value: 'noise', label: 'Noise', icon: 'volume-high' as keyof typeof Ionicons.glyphMap },
@@ -0,0 +1,97 @@
+/**
+ * NoiseDoseSummary Component
+ * Daily noise dose of a noise exposure against the NZ exposure standard
+ *
+ * Displays:
+ * - LEX,8h in dB(A) and percentage of the allowed daily dose
+ * - Warnings when the 85 dB(A) or 140 dB(C) peak limit is exceeded
+ * - Compact single line for list cards
+ */
+
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing } from '@constants/theme';
+import {
+  calculateNoiseDose,
+  NoiseSegment,
+  NOISE_LEX_LIMIT_DBA,
+  NOISE_PEAK_LIMIT_DBC,
+} from '../../../convex/exposureDose';
+
+interface NoiseDoseSummaryProps {
+  segments: NoiseSegment[];
+  peakDbC: number | null;
+  compact?: boolean;
+}
+
+export function NoiseDoseSummary({ segments, peakDbC, compact = false }: NoiseDoseSummaryProps) {
+  const dose = calculateNoiseDose(segments, peakDbC);
+  if (!dose) {
+    return null;
+  }
+
+  const exceeded = dose.exceedsLex || dose.exceedsPeak;
+  const color = exceeded ? colors.error : colors.textSecondary;
+  const summary = `LEX,8h ${dose.lexDbA} dB(A) · ${dose.dosePercent}% of daily dose`;
+
+  if (compact) {
+    return (
+      <View style={styles.compact} accessibilityLabel={summary}>
+        <Ionicons name={exceeded ? 'warning' : 'volume-high'} size={14} color={color} />
+        <Text variant="bodySmall" style={{ color }} numberOfLines={1}>
+          {summary}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, exceeded && styles.exceeded]}>
+      <Text variant="titleMedium" style={styles.value}>
+        {dose.lexDbA} dB(A) LEX,8h
+      </Text>
+      <Text variant="bodyMedium" style={styles.secondary}>
+        {dose.dosePercent}% of the allowed daily dose
+      </Text>
+      {dose.exceedsLex && (
+        <Text variant="bodyMedium" style={styles.warning}>
+          Exceeds the {NOISE_LEX_LIMIT_DBA} dB(A) exposure standard
+        </Text>
+      )}
+      {dose.exceedsPeak && (
+        <Text variant="bodyMedium" style={styles.warning}>
+          Peak of {peakDbC} dB(C) exceeds the {NOISE_PEAK_LIMIT_DBC} dB(C) limit
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  compact: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  container: {
+    marginTop: spacing.md,
+    padding: spacing.md,
+    borderRadius: 8,
+    backgroundColor: colors.surfaceVariant,
+    gap: spacing.xs,
+  },
+  exceeded: {
+    backgroundColor: colors.errorBackground,
+  },
+  value: {
+    color: colors.text,
+  },
+  secondary: {
+    color: colors.textSecondary,
+  },
+  warning: {
+    color: colors.error,
+  },
+});
@@ -0,0 +1,153 @@
+/**
+ * NoiseSegmentsInput Component
+ * Noise levels across a shift, with the resulting daily dose
+ *
+ * Features:
+ * - One dB(A) level + duration row per part of the shift
+ * - Optional peak level in dB(C)
+ * - Live LEX,8h and percentage of the allowed daily dose
+ * - Flags exceedances of the 85 dB(A) and 140 dB(C) limits
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, IconButton } from 'react-native-paper';
+import { Button } from '@components/common/Button';
+import { NoiseDoseSummary } from '@components/exposure/NoiseDoseSummary';
+import { colors, spacing } from '@constants/theme';
+import type { NoiseSegment } from '../../../convex/exposureDose';
+
+interface NoiseSegmentsInputProps {
+  segments: NoiseSegment[];
+  peakDbC: number | null;
+  onChangeSegments: (segments: NoiseSegment[]) => void;
+  onChangePeak: (peakDbC: number | null) => void;
+}
+
+// Rows as typed, so partial entries are not reformatted mid-entry
+interface SegmentText {
+  level: string;
+  minutes: string;
+}
+
+export function NoiseSegmentsInput({
+  segments,
+  peakDbC,
+  onChangeSegments,
+  onChangePeak,
+}: NoiseSegmentsInputProps) {
+  const [rows, setRows] = useState<SegmentText[]>(() =>
+    segments.length > 0
+      ? segments.map(segment => ({
+          level: segment.levelDbA.toString(),
+          minutes: segment.durationMinutes.toString(),
+        }))
+      : [{ level: '', minutes: '' }]
+  );
+  const [peakText, setPeakText] = useState(peakDbC?.toString() ?? '');
+
+  /**
+   * Keep the typed rows and report the complete ones
+   */
+  function updateRows(next: SegmentText[]) {
+    setRows(next);
+    onChangeSegments(
+      next
+        .map(row => ({
+          levelDbA: parseFloat(row.level),
+          durationMinutes: parseInt(row.minutes, 10),
+        }))
+        .filter(segment => segment.levelDbA > 0 && segment.durationMinutes > 0)
+    );
+  }
+
+  function updateRow(index: number, field: keyof SegmentText, value: string) {
+    updateRows(rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  }
+
+  return (
+    <View>
+      <Text variant="titleSmall" style={styles.label}>
+        Noise Levels
+      </Text>
+      <Text variant="bodySmall" style={styles.hint}>
+        Add the level and time for each part of the shift, from a meter, app or the tool's label
+      </Text>
+
+      {rows.map((row, index) => (
+        <View key={index} style={styles.row}>
+          <TextInput
+            label="dB(A)"
+            value={row.level}
+            onChangeText={text => updateRow(index, 'level', text)}
+            keyboardType="decimal-pad"
+            mode="outlined"
+            style={styles.rowField}
+            accessibilityLabel={`Noise level ${index + 1} in decibels`}
+          />
+          <TextInput
+            label="Minutes"
+            value={row.minutes}
+            onChangeText={text => updateRow(index, 'minutes', text)}
+            keyboardType="number-pad"
+            mode="outlined"
+            style={styles.rowField}
+            accessibilityLabel={`Noise level ${index + 1} duration in minutes`}
+          />
+          <IconButton
+            icon="close"
+            onPress={() => updateRows(rows.filter((_, i) => i !== index))}
+            disabled={rows.length === 1}
+            accessibilityLabel={`Remove noise level ${index + 1}`}
+          />
+        </View>
+      ))}
+
+      <Button
+        title="Add Level"
+        variant="outline"
+        icon="plus"
+        onPress={() => updateRows([...rows, { level: '', minutes: '' }])}
+        accessibilityHint="Add another noise level for a different part of the shift"
+      />
+
+      <TextInput
+        label="Peak dB(C) (optional)"
+        value={peakText}
+        onChangeText={text => {
+          setPeakText(text);
+          onChangePeak(parseFloat(text) || null);
+        }}
+        keyboardType="decimal-pad"
+        mode="outlined"
+        style={styles.peak}
+        accessibilityLabel="Peak noise level in C-weighted decibels"
+      />
+
+      <NoiseDoseSummary segments={segments} peakDbC={peakDbC} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    marginBottom: spacing.xs,
+    color: colors.text,
+  },
+  hint: {
+    marginBottom: spacing.sm,
+    color: colors.textSecondary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  rowField: {
+    flex: 1,
+  },
+  peak: {
+    marginTop: spacing.md,
+  },
+});
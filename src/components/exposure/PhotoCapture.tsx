@@ -23,9 +23,10 @@ import { useCamera } from '@hooks/useCamera';
 import { Button } from '@components/common/Button';
 import { isAIDetectionEnabled } from '@constants/config';
 import { colors, spacing } from '@constants/theme';
+import type { PhotoLocal } from '../../types/photo';
 
 interface PhotoCaptureProps {
-  onPhotosChange: (photoUris: string[]) => void;
+  onPhotosChange: (photos: PhotoLocal[]) => void;
   onAIScanRequest?: (photoUri: string, photoIndex: number) => void;
   maxPhotos?: number;
   aiScanEnabled?: boolean;
@@ -102,7 +103,7 @@ export function PhotoCapture({
 
   // T117: Memoize callback to prevent re-creating on every render
   const handlePhotosChange = useCallback(() => {
-    onPhotosChange(photos.map(p => p.localUri));
+    onPhotosChange(photos);
   }, [photos, onPhotosChange]);
 
   // Update parent when photos change
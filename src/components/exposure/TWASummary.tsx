@@ -0,0 +1,162 @@
+/**
+ * TWASummary Component
+ * Daily 8-hour TWA of an airborne substance against its Workplace Exposure Standard
+ *
+ * Displays:
+ * - TWA behind the respirator worn and the WES-TWA
+ * - Percentage of the WES, highlighted from half the WES and above it
+ * - Exposures that day left out for being recorded in another unit
+ * - Compact single line for list cards
+ */
+
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing } from '@constants/theme';
+import type { DailyTWA } from '../../../convex/exposureDose';
+import {
+  CONCENTRATION_UNIT_LABELS,
+  ConcentrationUnit,
+  ExposureStandard,
+} from '../../../convex/exposureStandards';
+
+interface TWASummaryProps {
+  result: DailyTWA;
+  compact?: boolean;
+}
+
+export function TWASummary({ result, compact = false }: TWASummaryProps) {
+  const unit = CONCENTRATION_UNIT_LABELS[result.standard.unit];
+  const color =
+    result.status === 'exceeds'
+      ? colors.error
+      : result.status === 'approaching'
+        ? colors.warningText
+        : colors.textSecondary;
+  const skipped = result.skippedExposureIds.length;
+  const summary = `TWA ${result.twa} ${unit} · ${result.percentOfWes}% of WES${
+    skipped > 0 ? ` · ${skipped} left out` : ''
+  }`;
+
+  if (compact) {
+    return (
+      <View style={styles.compact} accessibilityLabel={summary}>
+        <Ionicons
+          name={result.status === 'below' ? 'cloud-outline' : 'warning'}
+          size={14}
+          color={color}
+        />
+        <Text variant="bodySmall" style={{ color }} numberOfLines={1}>
+          {summary}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View
+      style={[
+        styles.container,
+        result.status === 'approaching' && styles.approaching,
+        result.status === 'exceeds' && styles.exceeds,
+      ]}
+    >
+      <Text variant="titleMedium" style={styles.value}>
+        {result.twa} {unit} 8-hour TWA
+      </Text>
+      <Text variant="bodyMedium" style={styles.secondary}>
+        {result.percentOfWes}% of the {result.standard.twa} {unit} WES-TWA for{' '}
+        {result.standard.substance.toLowerCase()}
+      </Text>
+      <Text variant="bodySmall" style={styles.secondary}>
+        Across {result.exposureIds.length} exposure{result.exposureIds.length !== 1 ? 's' : ''} that
+        day, reduced by the respirator worn
+      </Text>
+      {skipped > 0 && (
+        <Text variant="bodySmall" style={styles.secondary}>
+          {skipped} exposure{skipped !== 1 ? 's' : ''} that day recorded in another unit than {unit}{' '}
+          left out
+        </Text>
+      )}
+      {result.status === 'exceeds' && (
+        <Text variant="bodyMedium" style={styles.exceedsText}>
+          Exceeds the Workplace Exposure Standard
+        </Text>
+      )}
+      {result.status === 'approaching' && (
+        <Text variant="bodyMedium" style={styles.approachingText}>
+          Approaching the Workplace Exposure Standard
+        </Text>
+      )}
+    </View>
+  );
+}
+
+interface TWAUnitMismatchProps {
+  standard: ExposureStandard;
+  unit: ConcentrationUnit; // Unit the concentration was recorded in
+  compact?: boolean;
+}
+
+/**
+ * Why an exposure has no TWA: its concentration is in another unit than the WES-TWA
+ */
+export function TWAUnitMismatch({ standard, unit, compact = false }: TWAUnitMismatchProps) {
+  const message = `No TWA: recorded in ${CONCENTRATION_UNIT_LABELS[unit]}, the WES is in ${
+    CONCENTRATION_UNIT_LABELS[standard.unit]
+  }`;
+
+  if (compact) {
+    return (
+      <View style={styles.compact} accessibilityLabel={message}>
+        <Ionicons name="information-circle-outline" size={14} color={colors.textSecondary} />
+        <Text variant="bodySmall" style={styles.secondary} numberOfLines={1}>
+          {message}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text variant="bodyMedium" style={styles.secondary}>
+        {message}. Record it in {CONCENTRATION_UNIT_LABELS[standard.unit]} to include it in the
+        8-hour TWA for {standard.substance.toLowerCase()}.
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  compact: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  container: {
+    marginTop: spacing.md,
+    padding: spacing.md,
+    borderRadius: 8,
+    backgroundColor: colors.surfaceVariant,
+    gap: spacing.xs,
+  },
+  approaching: {
+    backgroundColor: colors.warningBackground,
+  },
+  exceeds: {
+    backgroundColor: colors.errorBackground,
+  },
+  value: {
+    color: colors.text,
+  },
+  secondary: {
+    color: colors.textSecondary,
+  },
+  approachingText: {
+    color: colors.warningText,
+  },
+  exceedsText: {
+    color: colors.error,
+  },
+});
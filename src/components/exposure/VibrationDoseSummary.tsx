@@ -0,0 +1,118 @@
+/**
+ * VibrationDoseSummary Component
+ * Daily hand-arm vibration exposure of a vibration exposure
+ *
+ * Displays:
+ * - Daily A(8) in m/s² and exposure points
+ * - Partial A(8) of each tool
+ * - Warnings above the 2.5 m/s² action value and 5 m/s² limit value
+ * - Compact single line for list cards
+ */
+
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing } from '@constants/theme';
+import {
+  calculateVibrationDose,
+  VibrationToolUse,
+  HAV_ACTION_VALUE,
+  HAV_LIMIT_VALUE,
+} from '../../../convex/exposureDose';
+
+interface VibrationDoseSummaryProps {
+  tools: VibrationToolUse[];
+  compact?: boolean;
+}
+
+export function VibrationDoseSummary({ tools, compact = false }: VibrationDoseSummaryProps) {
+  const dose = calculateVibrationDose(tools);
+  if (!dose) {
+    return null;
+  }
+
+  const color = dose.exceedsLimit
+    ? colors.error
+    : dose.exceedsAction
+      ? colors.warningText
+      : colors.textSecondary;
+  const summary = `A(8) ${dose.a8} m/s² · ${dose.points} points`;
+
+  if (compact) {
+    return (
+      <View style={styles.compact} accessibilityLabel={summary}>
+        <Ionicons name={dose.exceedsAction ? 'warning' : 'pulse'} size={14} color={color} />
+        <Text variant="bodySmall" style={{ color }} numberOfLines={1}>
+          {summary}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View
+      style={[
+        styles.container,
+        dose.exceedsAction && styles.aboveAction,
+        dose.exceedsLimit && styles.aboveLimit,
+      ]}
+    >
+      <Text variant="titleMedium" style={styles.value}>
+        {dose.a8} m/s² A(8)
+      </Text>
+      <Text variant="bodyMedium" style={styles.secondary}>
+        {dose.points} exposure points (100 at the action value)
+      </Text>
+      {dose.partials.map((partial, index) => (
+        <Text key={index} variant="bodySmall" style={styles.secondary}>
+          {partial.tool}: {partial.a8} m/s²
+        </Text>
+      ))}
+      {dose.exceedsLimit ? (
+        <Text variant="bodyMedium" style={styles.limit}>
+          Exceeds the {HAV_LIMIT_VALUE} m/s² exposure limit value
+        </Text>
+      ) : (
+        dose.exceedsAction && (
+          <Text variant="bodyMedium" style={styles.action}>
+            Exceeds the {HAV_ACTION_VALUE} m/s² exposure action value
+          </Text>
+        )
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  compact: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  container: {
+    marginTop: spacing.md,
+    padding: spacing.md,
+    borderRadius: 8,
+    backgroundColor: colors.surfaceVariant,
+    gap: spacing.xs,
+  },
+  aboveAction: {
+    backgroundColor: colors.warningBackground,
+  },
+  aboveLimit: {
+    backgroundColor: colors.errorBackground,
+  },
+  value: {
+    color: colors.text,
+  },
+  secondary: {
+    color: colors.textSecondary,
+  },
+  action: {
+    color: colors.warningText,
+  },
+  limit: {
+    color: colors.error,
+  },
+});
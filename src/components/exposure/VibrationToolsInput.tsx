@@ -0,0 +1,188 @@
+/**
+ * VibrationToolsInput Component
+ * Vibrating tools used across a shift, with the resulting daily A(8)
+ *
+ * Features:
+ * - Tool catalogue with typical magnitudes to prefill a row
+ * - Measured or declared magnitude overrides the catalogue value
+ * - Trigger time per tool
+ * - Live A(8) against the action and limit values
+ */
+
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, TextInput, IconButton, Chip } from 'react-native-paper';
+import { Button } from '@components/common/Button';
+import { VibrationDoseSummary } from '@components/exposure/VibrationDoseSummary';
+import { VIBRATION_TOOLS } from '@constants/vibrationTools';
+import { colors, spacing } from '@constants/theme';
+import type { VibrationToolUse } from '../../../convex/exposureDose';
+
+interface VibrationToolsInputProps {
+  tools: VibrationToolUse[];
+  onChange: (tools: VibrationToolUse[]) => void;
+}
+
+// Rows as typed, so partial entries are not reformatted mid-entry
+interface ToolText {
+  tool: string;
+  magnitude: string;
+  minutes: string;
+  source: VibrationToolUse['source'];
+}
+
+const EMPTY_ROW: ToolText = { tool: '', magnitude: '', minutes: '', source: 'measured' };
+
+export function VibrationToolsInput({ tools, onChange }: VibrationToolsInputProps) {
+  const [rows, setRows] = useState<ToolText[]>(() =>
+    tools.length > 0
+      ? tools.map(tool => ({
+          tool: tool.tool,
+          magnitude: tool.magnitude.toString(),
+          minutes: tool.triggerMinutes.toString(),
+          source: tool.source,
+        }))
+      : [EMPTY_ROW]
+  );
+
+  /**
+   * Keep the typed rows and report the complete ones
+   */
+  function updateRows(next: ToolText[]) {
+    setRows(next);
+    onChange(
+      next
+        .map(row => ({
+          tool: row.tool.trim(),
+          magnitude: parseFloat(row.magnitude),
+          triggerMinutes: parseInt(row.minutes, 10),
+          source: row.source,
+        }))
+        .filter(tool => tool.tool && tool.magnitude > 0 && tool.triggerMinutes > 0)
+    );
+  }
+
+  function updateRow(index: number, changes: Partial<ToolText>) {
+    updateRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  }
+
+  /**
+   * Fill the last empty row from the catalogue, or add a new one
+   */
+  function addCatalogueTool(label: string, magnitude: number) {
+    const row: ToolText = {
+      tool: label,
+      magnitude: magnitude.toString(),
+      minutes: '',
+      source: 'catalogue',
+    };
+    const last = rows[rows.length - 1];
+    const isEmpty = last && !last.tool && !last.magnitude && !last.minutes;
+    updateRows(isEmpty ? [...rows.slice(0, -1), row] : [...rows, row]);
+  }
+
+  return (
+    <View>
+      <Text variant="titleSmall" style={styles.label}>
+        Vibrating Tools
+      </Text>
+      <Text variant="bodySmall" style={styles.hint}>
+        Pick a tool for its typical vibration, or enter the measured or declared m/s². Trigger time
+        is how long the tool was actually running in your hands.
+      </Text>
+
+      <View style={styles.catalogue}>
+        {VIBRATION_TOOLS.map(tool => (
+          <Chip
+            key={tool.id}
+            onPress={() => addCatalogueTool(tool.label, tool.magnitude)}
+            style={styles.chip}
+            accessibilityLabel={`Add ${tool.label}, typically ${tool.magnitude} metres per second squared`}
+          >
+            {tool.label}
+          </Chip>
+        ))}
+      </View>
+
+      {rows.map((row, index) => (
+        <View key={index} style={styles.toolRow}>
+          <TextInput
+            label="Tool"
+            value={row.tool}
+            onChangeText={text => updateRow(index, { tool: text })}
+            mode="outlined"
+            accessibilityLabel={`Tool ${index + 1} name`}
+          />
+          <View style={styles.row}>
+            <TextInput
+              label={row.source === 'catalogue' ? 'm/s² (typical)' : 'm/s²'}
+              value={row.magnitude}
+              onChangeText={text => updateRow(index, { magnitude: text, source: 'measured' })}
+              keyboardType="decimal-pad"
+              mode="outlined"
+              style={styles.rowField}
+              accessibilityLabel={`Tool ${index + 1} vibration in metres per second squared`}
+            />
+            <TextInput
+              label="Trigger min"
+              value={row.minutes}
+              onChangeText={text => updateRow(index, { minutes: text })}
+              keyboardType="number-pad"
+              mode="outlined"
+              style={styles.rowField}
+              accessibilityLabel={`Tool ${index + 1} trigger time in minutes`}
+            />
+            <IconButton
+              icon="close"
+              onPress={() => updateRows(rows.filter((_, i) => i !== index))}
+              disabled={rows.length === 1}
+              accessibilityLabel={`Remove tool ${index + 1}`}
+            />
+          </View>
+        </View>
+      ))}
+
+      <Button
+        title="Add Tool"
+        variant="outline"
+        icon="plus"
+        onPress={() => updateRows([...rows, EMPTY_ROW])}
+        accessibilityHint="Add another tool used during the shift"
+      />
+
+      <VibrationDoseSummary tools={tools} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    marginBottom: spacing.xs,
+    color: colors.text,
+  },
+  hint: {
+    marginBottom: spacing.sm,
+    color: colors.textSecondary,
+  },
+  catalogue: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginBottom: spacing.md,
+  },
+  chip: {
+    marginBottom: spacing.xs,
+  },
+  toolRow: {
+    marginBottom: spacing.md,
+    gap: spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  rowField: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,114 @@
+/**
+ * HealthCheckSchedule Component
+ * Health monitoring checks due from the user's exposure history
+ *
+ * Displays:
+ * - Each check with its due date, overdue checks highlighted
+ * - The exposures that call for it
+ * - Tap through to log the completed check
+ */
+
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity } from 'react-native';
+import { Text } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { colors, spacing } from '@constants/theme';
+import { getExposureTypeById } from '@constants/exposureTypes';
+import type { DueHealthCheck } from '@hooks/useHealthMonitoring';
+import type { HealthCheckType } from '../../../convex/healthMonitoring';
+
+interface HealthCheckScheduleProps {
+  checks: DueHealthCheck[];
+  onLogCheck: (checkType: HealthCheckType) => void;
+}
+
+const STATUS_LABELS: Record<DueHealthCheck['status'], string> = {
+  overdue: 'Overdue since',
+  due_soon: 'Due',
+  upcoming: 'Due',
+};
+
+export function HealthCheckSchedule({ checks, onLogCheck }: HealthCheckScheduleProps) {
+  return (
+    <View style={styles.container}>
+      {checks.map(check => {
+        const color =
+          check.status === 'overdue'
+            ? colors.error
+            : check.status === 'due_soon'
+              ? colors.warningText
+              : colors.textSecondary;
+        const exposures = check.exposureTypes
+          .map(id => getExposureTypeById(id)?.label ?? id)
+          .join(', ');
+
+        return (
+          <TouchableOpacity
+            key={check.checkType}
+            style={[
+              styles.item,
+              check.status === 'overdue' && styles.overdue,
+              check.status === 'due_soon' && styles.dueSoon,
+            ]}
+            onPress={() => onLogCheck(check.checkType)}
+            accessibilityLabel={`${check.label}, ${STATUS_LABELS[check.status].toLowerCase()} ${format(check.dueAt, 'd MMM yyyy')}`}
+            accessibilityHint="Log a completed check"
+          >
+            <Ionicons
+              name={check.status === 'upcoming' ? 'calendar-outline' : 'alert-circle'}
+              size={24}
+              color={color}
+            />
+            <View style={styles.details}>
+              <Text variant="titleSmall" style={styles.title}>
+                {check.label}
+              </Text>
+              <Text variant="bodySmall" style={{ color }}>
+                {STATUS_LABELS[check.status]} {format(check.dueAt, 'd MMM yyyy')}
+              </Text>
+              <Text variant="bodySmall" style={styles.secondary} numberOfLines={1}>
+                For {exposures}
+              </Text>
+            </View>
+            <Ionicons name="add-circle-outline" size={24} color={colors.primary} />
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.sm,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    padding: spacing.md,
+    borderRadius: 12,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  overdue: {
+    backgroundColor: colors.errorBackground,
+    borderColor: colors.errorBorder,
+  },
+  dueSoon: {
+    backgroundColor: colors.warningBackground,
+    borderColor: colors.warningBorder,
+  },
+  details: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    color: colors.text,
+  },
+  secondary: {
+    color: colors.textSecondary,
+  },
+});
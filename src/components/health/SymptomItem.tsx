@@ -0,0 +1,100 @@
+/**
+ * SymptomItem Component
+ * One symptom journal entry
+ *
+ * Displays:
+ * - Symptom, body system and severity
+ * - Onset time
+ * - Photo thumbnails
+ */
+
+import React from 'react';
+import { View, StyleSheet, Image } from 'react-native';
+import { Text } from 'react-native-paper';
+import { Ionicons } from '@expo/vector-icons';
+import { format } from 'date-fns';
+import { colors, spacing } from '@constants/theme';
+import { BODY_SYSTEMS, bodySystemLabel } from '../../../convex/symptomJournal';
+import type { Symptom } from '@hooks/useSymptoms';
+
+interface SymptomItemProps {
+  symptom: Symptom;
+}
+
+const SEVERITY_COLORS: Record<string, string> = {
+  mild: colors.textSecondary,
+  moderate: colors.warningText,
+  severe: colors.error,
+};
+
+export function SymptomItem({ symptom }: SymptomItemProps) {
+  const system = BODY_SYSTEMS.find(item => item.id === symptom.bodySystem);
+  const severityColor = SEVERITY_COLORS[symptom.severity] ?? colors.textSecondary;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Ionicons name={system?.icon ?? 'medkit-outline'} size={20} color={colors.primary} />
+        <Text variant="titleSmall" style={styles.title}>
+          {symptom.symptom}
+        </Text>
+        <Text variant="labelMedium" style={{ color: severityColor }}>
+          {symptom.severity.charAt(0).toUpperCase() + symptom.severity.slice(1)}
+        </Text>
+      </View>
+      <Text variant="bodySmall" style={styles.secondary}>
+        {bodySystemLabel(symptom.bodySystem)} · began{' '}
+        {format(symptom.onsetAt, 'MMM d, yyyy h:mm a')}
+      </Text>
+      {symptom.notes && (
+        <Text variant="bodyMedium" style={styles.notes}>
+          {symptom.notes}
+        </Text>
+      )}
+      {symptom.photoUrls.length > 0 && (
+        <View style={styles.photos}>
+          {symptom.photoUrls.map((url, index) => (
+            <Image
+              key={url}
+              source={{ uri: url }}
+              style={styles.photo}
+              accessibilityLabel={`Symptom photo ${index + 1}`}
+            />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.xs,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  title: {
+    flex: 1,
+    color: colors.text,
+  },
+  secondary: {
+    color: colors.textSecondary,
+  },
+  notes: {
+    color: colors.text,
+  },
+  photos: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  photo: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+  },
+});
@@ -1,16 +1,20 @@
 /**
  * Exposure Types and PPE Constants
- * Defines all 12 exposure types and 8 PPE categories for the app
+ * Display metadata for the exposure types and PPE in convex/taxonomy.ts
  *
  * Based on NZ construction industry standards and ACC requirements
  */
 
+import type { ExposureTypeId, PPEId } from '../../convex/taxonomy';
+
+export type ExposureCategory = 'respiratory' | 'skin' | 'noise' | 'physical' | 'environmental';
+
 export interface ExposureTypeDefinition {
-  id: string;
+  id: ExposureTypeId;
   label: string;
-  category: 'respiratory' | 'skin' | 'noise' | 'environmental';
+  category: ExposureCategory;
   description: string;
-  commonPPE: string[];
+  commonPPE: PPEId[];
   iconName: string; // Maps to assets/exposure-icons/
   educationalTags: string[];
 }
@@ -21,34 +25,34 @@ export const EXPOSURE_TYPES: Record<string, ExposureTypeDefinition> = {
     label: 'Silica Dust',
     category: 'respiratory',
     description: 'Crystalline silica dust from cutting, grinding, or drilling concrete/stone',
-    commonPPE: ['P2_RESPIRATOR', 'SAFETY_GLASSES', 'GLOVES'],
+    commonPPE: ['p2_respirator', 'safety_glasses', 'gloves'],
     iconName: 'silica-dust',
     educationalTags: ['silica', 'respiratory', 'dust'],
   },
-  ASBESTOS_A: {
-    id: 'asbestos_a',
-    label: 'Asbestos Type A',
+  ASBESTOS_CLASS_A: {
+    id: 'asbestos_class_a',
+    label: 'Asbestos Class A',
     category: 'respiratory',
-    description: 'Type A asbestos work (non-friable asbestos in good condition)',
-    commonPPE: ['P2_RESPIRATOR', 'DISPOSABLE_COVERALLS', 'GLOVES', 'SAFETY_GLASSES'],
+    description: 'Class A asbestos removal (friable asbestos, licensed work)',
+    commonPPE: ['powered_respirator', 'disposable_coveralls', 'gloves', 'safety_glasses'],
     iconName: 'asbestos-a',
-    educationalTags: ['asbestos', 'respiratory', 'carcinogen'],
+    educationalTags: ['asbestos', 'respiratory', 'carcinogen', 'licensed'],
   },
-  ASBESTOS_B: {
-    id: 'asbestos_b',
-    label: 'Asbestos Type B',
+  ASBESTOS_CLASS_B: {
+    id: 'asbestos_class_b',
+    label: 'Asbestos Class B',
     category: 'respiratory',
-    description: 'Type B asbestos work (friable asbestos or large quantities)',
-    commonPPE: ['POWERED_RESPIRATOR', 'DISPOSABLE_COVERALLS', 'GLOVES', 'SAFETY_GLASSES'],
+    description: 'Class B asbestos removal (non-friable asbestos)',
+    commonPPE: ['p2_respirator', 'disposable_coveralls', 'gloves', 'safety_glasses'],
     iconName: 'asbestos-b',
-    educationalTags: ['asbestos', 'respiratory', 'carcinogen', 'licensed'],
+    educationalTags: ['asbestos', 'respiratory', 'carcinogen'],
   },
   HAZARDOUS_CHEMICALS: {
     id: 'hazardous_chemicals',
     label: 'Hazardous Chemicals',
     category: 'skin',
     description: 'Exposure to hazardous substances (acids, solvents, adhesives, etc.)',
-    commonPPE: ['GLOVES', 'SAFETY_GLASSES', 'RESPIRATOR', 'PROTECTIVE_CLOTHING'],
+    commonPPE: ['gloves', 'safety_glasses', 'respirator', 'protective_clothing'],
     iconName: 'chemicals',
     educationalTags: ['chemicals', 'skin', 'respiratory'],
   },
@@ -57,7 +61,7 @@ export const EXPOSURE_TYPES: Record<string, ExposureTypeDefinition> = {
     label: 'Excessive Noise',
     category: 'noise',
     description: 'Noise levels above 85 dB(A) over 8 hours',
-    commonPPE: ['HEARING_PROTECTION'],
+    commonPPE: ['hearing_protection'],
     iconName: 'noise',
     educationalTags: ['noise', 'hearing', 'ppe'],
   },
@@ -66,7 +70,7 @@ export const EXPOSURE_TYPES: Record<string, ExposureTypeDefinition> = {
     label: 'Meth Contamination',
     category: 'respiratory',
     description: 'Methamphetamine contaminated environments',
-    commonPPE: ['P2_RESPIRATOR', 'DISPOSABLE_COVERALLS', 'GLOVES', 'SAFETY_GLASSES'],
+    commonPPE: ['p2_respirator', 'disposable_coveralls', 'gloves', 'safety_glasses'],
     iconName: 'meth',
     educationalTags: ['meth', 'respiratory', 'contamination'],
   },
@@ -75,7 +79,7 @@ export const EXPOSURE_TYPES: Record<string, ExposureTypeDefinition> = {
     label: 'Mould Exposure',
     category: 'respiratory',
     description: 'Mould growth in buildings or damp environments',
-    commonPPE: ['P2_RESPIRATOR', 'GLOVES', 'SAFETY_GLASSES'],
+    commonPPE: ['p2_respirator', 'gloves', 'safety_glasses'],
     iconName: 'mould',
     educationalTags: ['mould', 'respiratory', 'biological'],
   },
@@ -84,7 +88,7 @@ export const EXPOSURE_TYPES: Record<string, ExposureTypeDefinition> = {
     label: 'Contaminated Soils',
     category: 'environmental',
     description: 'Soils contaminated with heavy metals, petroleum, or other hazards',
-    commonPPE: ['GLOVES', 'SAFETY_BOOTS', 'PROTECTIVE_CLOTHING', 'RESPIRATOR'],
+    commonPPE: ['gloves', 'safety_boots', 'protective_clothing', 'respirator'],
     iconName: 'contaminated-soil',
     educationalTags: ['soil', 'environmental', 'contamination'],
   },
@@ -102,7 +106,7 @@ export const EXPOSURE_TYPES: Record<string, ExposureTypeDefinition> = {
     label: 'Welding Fumes',
     category: 'respiratory',
     description: 'Metal fumes and gases from welding processes',
-    commonPPE: ['WELDING_RESPIRATOR', 'WELDING_HELMET', 'GLOVES', 'PROTECTIVE_CLOTHING'],
+    commonPPE: ['welding_respirator', 'welding_helmet', 'gloves', 'protective_clothing'],
     iconName: 'welding-fumes',
     educationalTags: ['welding', 'respiratory', 'fumes'],
   },
@@ -111,7 +115,7 @@ export const EXPOSURE_TYPES: Record<string, ExposureTypeDefinition> = {
     label: 'Biological Hazards',
     category: 'environmental',
     description: 'Bacteria, viruses, or other biological agents',
-    commonPPE: ['GLOVES', 'RESPIRATOR', 'PROTECTIVE_CLOTHING', 'SAFETY_GLASSES'],
+    commonPPE: ['gloves', 'respirator', 'protective_clothing', 'safety_glasses'],
     iconName: 'biological',
     educationalTags: ['biological', 'health', 'contamination'],
   },
@@ -120,16 +124,52 @@ export const EXPOSURE_TYPES: Record<string, ExposureTypeDefinition> = {
     label: 'Radiation Exposure',
     category: 'environmental',
     description: 'Ionizing or non-ionizing radiation sources',
-    commonPPE: ['PROTECTIVE_CLOTHING'],
+    commonPPE: ['protective_clothing'],
     iconName: 'radiation',
     educationalTags: ['radiation', 'environmental', 'safety'],
   },
+  VIBRATION: {
+    id: 'vibration',
+    label: 'Vibration',
+    category: 'physical',
+    description: 'Hand-arm or whole-body vibration from power tools and plant',
+    commonPPE: ['anti_vibration_gloves', 'hearing_protection'],
+    iconName: 'vibration',
+    educationalTags: ['vibration', 'hav', 'physical'],
+  },
+  LEAD: {
+    id: 'lead',
+    label: 'Lead',
+    category: 'respiratory',
+    description: 'Lead dust or fumes from old paint, sanding, cutting or hot work',
+    commonPPE: ['p2_respirator', 'disposable_coveralls', 'gloves'],
+    iconName: 'lead',
+    educationalTags: ['lead', 'respiratory', 'health-monitoring'],
+  },
+  COLD_EXPOSURE: {
+    id: 'cold_exposure',
+    label: 'Cold Exposure',
+    category: 'environmental',
+    description: 'Working in cold, wet or windy conditions or in chillers and freezers',
+    commonPPE: ['thermal_clothing', 'gloves'],
+    iconName: 'cold-exposure',
+    educationalTags: ['cold', 'environmental', 'health'],
+  },
+  CONFINED_SPACE: {
+    id: 'confined_space',
+    label: 'Confined Space',
+    category: 'environmental',
+    description: 'Work in tanks, pits, ceiling voids, manholes or other enclosed spaces',
+    commonPPE: ['gas_detector', 'safety_harness', 'respirator'],
+    iconName: 'confined-space',
+    educationalTags: ['confined-space', 'environmental', 'atmosphere'],
+  },
 };
 
 export interface PPEDefinition {
-  id: string;
+  id: PPEId;
   label: string;
-  category: 'respiratory' | 'eye' | 'hand' | 'body' | 'hearing' | 'foot';
+  category: 'respiratory' | 'eye' | 'head' | 'hand' | 'body' | 'hearing' | 'foot';
   description: string;
 }
 
@@ -140,6 +180,24 @@ export const PPE_TYPES: Record<string, PPEDefinition> = {
     category: 'respiratory',
     description: 'Filters at least 94% of airborne particles',
   },
+  P3_RESPIRATOR: {
+    id: 'p3_respirator',
+    label: 'P3 Respirator',
+    category: 'respiratory',
+    description: 'Filters at least 99.95% of airborne particles',
+  },
+  HALF_FACE_RESPIRATOR: {
+    id: 'half_face_respirator',
+    label: 'Half-Face Respirator',
+    category: 'respiratory',
+    description: 'Reusable half-face mask with replaceable filters',
+  },
+  FULL_FACE_RESPIRATOR: {
+    id: 'full_face_respirator',
+    label: 'Full-Face Respirator',
+    category: 'respiratory',
+    description: 'Full-face mask with replaceable filters and eye protection',
+  },
   POWERED_RESPIRATOR: {
     id: 'powered_respirator',
     label: 'Powered Air Respirator',
@@ -170,6 +228,12 @@ export const PPE_TYPES: Record<string, PPEDefinition> = {
     category: 'eye',
     description: 'Auto-darkening welding helmet',
   },
+  HARD_HAT: {
+    id: 'hard_hat',
+    label: 'Hard Hat',
+    category: 'head',
+    description: 'Protective helmet against falling objects',
+  },
   GLOVES: {
     id: 'gloves',
     label: 'Gloves',
@@ -188,6 +252,12 @@ export const PPE_TYPES: Record<string, PPEDefinition> = {
     category: 'body',
     description: 'General protective clothing',
   },
+  HI_VIS_CLOTHING: {
+    id: 'hi_vis_clothing',
+    label: 'Hi-Vis Clothing',
+    category: 'body',
+    description: 'High-visibility vest or clothing',
+  },
   HEARING_PROTECTION: {
     id: 'hearing_protection',
     label: 'Hearing Protection',
@@ -200,6 +270,30 @@ export const PPE_TYPES: Record<string, PPEDefinition> = {
     category: 'foot',
     description: 'Steel-toe safety boots',
   },
+  ANTI_VIBRATION_GLOVES: {
+    id: 'anti_vibration_gloves',
+    label: 'Anti-Vibration Gloves',
+    category: 'hand',
+    description: 'Gloves with vibration-damping padding',
+  },
+  THERMAL_CLOTHING: {
+    id: 'thermal_clothing',
+    label: 'Thermal Clothing',
+    category: 'body',
+    description: 'Insulated layers for cold conditions',
+  },
+  SAFETY_HARNESS: {
+    id: 'safety_harness',
+    label: 'Safety Harness',
+    category: 'body',
+    description: 'Full-body harness for fall arrest or confined space rescue',
+  },
+  GAS_DETECTOR: {
+    id: 'gas_detector',
+    label: 'Gas Detector',
+    category: 'respiratory',
+    description: 'Personal monitor for oxygen and toxic or flammable gases',
+  },
 };
 
 // Helper functions
@@ -212,7 +306,7 @@ export const getPPEById = (id: string): PPEDefinition | undefined => {
 };
 
 export const getExposureTypesByCategory = (
-  category: 'respiratory' | 'skin' | 'noise' | 'environmental'
+  category: ExposureCategory
 ): ExposureTypeDefinition[] => {
   return Object.values(EXPOSURE_TYPES).filter(type => type.category === category);
 };
@@ -16,14 +16,18 @@ export const EXPOSURE_TYPE_ICONS: Record<string, keyof typeof Ionicons.glyphMap>
   silica_dust: 'cloud-outline',
   asbestos_class_a: 'warning',
   asbestos_class_b: 'warning-outline',
-  welding_fumes: 'flame',
   hazardous_chemicals: 'flask',
   noise: 'volume-high',
-  vibration: 'pulse',
-  heat_stress: 'thermometer',
-  cold_exposure: 'snow',
+  meth_contamination: 'alert-circle-outline',
+  mould: 'leaf-outline',
   contaminated_soils: 'earth',
+  heat_stress: 'thermometer',
+  welding_fumes: 'flame',
+  biological_hazards: 'bug-outline',
+  radiation: 'radio-outline',
+  vibration: 'pulse',
   lead: 'beaker',
+  cold_exposure: 'snow',
   confined_space: 'contract',
 };
 
@@ -53,6 +53,7 @@ export const colors = {
     respiratory: '#2196F3',
     skin: '#9C27B0',
     noise: '#FF5722',
+    physical: '#795548',
     environmental: '#4CAF50',
   },
 
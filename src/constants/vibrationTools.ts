@@ -0,0 +1,29 @@
+/**
+ * Vibration Tool Catalogue
+ * Typical hand-arm vibration magnitudes of common construction tools
+ *
+ * Values are typical in-use magnitudes from HSE hand-arm vibration guidance.
+ * A measured value or the manufacturer's declared value should be used when known.
+ */
+
+export interface VibrationToolDefinition {
+  id: string;
+  label: string;
+  magnitude: number; // Typical vibration magnitude in m/s²
+}
+
+export const VIBRATION_TOOLS: VibrationToolDefinition[] = [
+  { id: 'road_breaker', label: 'Road Breaker', magnitude: 12 },
+  { id: 'demolition_hammer', label: 'Demolition Hammer', magnitude: 15 },
+  { id: 'hammer_drill', label: 'Hammer Drill', magnitude: 9 },
+  { id: 'chipping_hammer', label: 'Chipping Hammer', magnitude: 18 },
+  { id: 'needle_scaler', label: 'Needle Scaler', magnitude: 10 },
+  { id: 'scabbler', label: 'Scabbler', magnitude: 20 },
+  { id: 'angle_grinder', label: 'Angle Grinder', magnitude: 4 },
+  { id: 'concrete_saw', label: 'Concrete Saw', magnitude: 6 },
+  { id: 'reciprocating_saw', label: 'Reciprocating Saw', magnitude: 8 },
+  { id: 'orbital_sander', label: 'Orbital Sander', magnitude: 7 },
+  { id: 'impact_wrench', label: 'Impact Wrench', magnitude: 6 },
+  { id: 'plate_compactor', label: 'Plate Compactor', magnitude: 8 },
+  { id: 'chainsaw', label: 'Chainsaw', magnitude: 6 },
+];
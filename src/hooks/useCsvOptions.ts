@@ -0,0 +1,35 @@
+/**
+ * useCsvOptions Hook
+ * Columns, date format and BOM of CSV exports, remembered on the device
+ */
+
+import { useState, useCallback } from 'react';
+import { storageHelpers, StorageKeys } from '@lib/storage';
+import { CsvOptions, DEFAULT_CSV_OPTIONS, normalizeCsvColumns } from '../../convex/csv';
+
+interface UseCsvOptionsResult {
+  options: CsvOptions;
+  setOptions: (options: CsvOptions) => void;
+  resetOptions: () => void;
+}
+
+function loadOptions(): CsvOptions {
+  const saved = storageHelpers.get<CsvOptions>(StorageKeys.CSV_OPTIONS);
+  if (!saved) {
+    return DEFAULT_CSV_OPTIONS;
+  }
+  return { ...DEFAULT_CSV_OPTIONS, ...saved, columns: normalizeCsvColumns(saved.columns ?? []) };
+}
+
+export function useCsvOptions(): UseCsvOptionsResult {
+  const [options, setState] = useState<CsvOptions>(loadOptions);
+
+  const setOptions = useCallback((next: CsvOptions) => {
+    setState(next);
+    storageHelpers.set(StorageKeys.CSV_OPTIONS, next);
+  }, []);
+
+  const resetOptions = useCallback(() => setOptions(DEFAULT_CSV_OPTIONS), [setOptions]);
+
+  return { options, setOptions, resetOptions };
+}
@@ -0,0 +1,100 @@
+/**
+ * useExportTemplates Hook
+ * Built-in and saved PDF export templates, remembering the one last picked
+ */
+
+import { useState, useCallback } from 'react';
+import { storageHelpers, StorageKeys } from '@lib/storage';
+import {
+  BUILT_IN_TEMPLATES,
+  DEFAULT_TEMPLATE,
+  ExportTemplate,
+  normalizeTemplate,
+} from '../../convex/exportTemplates';
+
+interface UseExportTemplatesResult {
+  templates: ExportTemplate[];
+  template: ExportTemplate; // Picked template with any unsaved edits
+  isModified: boolean;
+  selectTemplate: (id: string) => void;
+  editTemplate: (template: ExportTemplate) => void;
+  saveTemplate: (name: string) => ExportTemplate;
+  deleteTemplate: (id: string) => void;
+}
+
+function loadSavedTemplates(): ExportTemplate[] {
+  return (storageHelpers.get<ExportTemplate[]>(StorageKeys.EXPORT_TEMPLATES) ?? []).map(
+    normalizeTemplate
+  );
+}
+
+/**
+ * Templates are kept on the device, edits apply to the next export until saved as a template
+ */
+export function useExportTemplates(): UseExportTemplatesResult {
+  const [saved, setSaved] = useState<ExportTemplate[]>(loadSavedTemplates);
+  const templates = [...BUILT_IN_TEMPLATES, ...saved];
+
+  const [template, setTemplate] = useState<ExportTemplate>(() => {
+    const id = storageHelpers.get<string>(StorageKeys.EXPORT_TEMPLATE_ID);
+    return (
+      [...BUILT_IN_TEMPLATES, ...loadSavedTemplates()].find(t => t.id === id) ?? DEFAULT_TEMPLATE
+    );
+  });
+
+  const original = templates.find(t => t.id === template.id);
+  const isModified = JSON.stringify(original?.sections) !== JSON.stringify(template.sections);
+
+  const selectTemplate = useCallback(
+    (id: string) => {
+      const next = [...BUILT_IN_TEMPLATES, ...saved].find(t => t.id === id);
+      if (next) {
+        setTemplate(next);
+        storageHelpers.set(StorageKeys.EXPORT_TEMPLATE_ID, id);
+      }
+    },
+    [saved]
+  );
+
+  const saveTemplate = useCallback(
+    (name: string) => {
+      const created: ExportTemplate = {
+        id: `custom-${Date.now()}`,
+        name: name.trim(),
+        description: 'Saved template',
+        sections: template.sections,
+        builtIn: false,
+      };
+      const next = [...saved, created];
+      setSaved(next);
+      setTemplate(created);
+      storageHelpers.set(StorageKeys.EXPORT_TEMPLATES, next);
+      storageHelpers.set(StorageKeys.EXPORT_TEMPLATE_ID, created.id);
+      return created;
+    },
+    [saved, template]
+  );
+
+  const deleteTemplate = useCallback(
+    (id: string) => {
+      const next = saved.filter(t => t.id !== id);
+      setSaved(next);
+      storageHelpers.set(StorageKeys.EXPORT_TEMPLATES, next);
+      if (template.id === id) {
+        setTemplate(DEFAULT_TEMPLATE);
+        storageHelpers.set(StorageKeys.EXPORT_TEMPLATE_ID, DEFAULT_TEMPLATE.id);
+      }
+    },
+    [saved, template.id]
+  );
+
+  return {
+    templates,
+    template,
+    isModified,
+    selectTemplate,
+    editTemplate: setTemplate,
+    saveTemplate,
+    deleteTemplate,
+  };
+}
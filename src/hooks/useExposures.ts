@@ -11,20 +11,26 @@
  */
 
 import { useState } from 'react';
-import { useQuery, useMutation } from 'convex/react';
+import { useQuery, useMutation, usePaginatedQuery } from 'convex/react';
 import { api } from '../../convex/_generated/api';
 import { Id } from '../../convex/_generated/dataModel';
-import { ExposureDraft } from '@types/exposure';
+import { ExposureDraft, ExposureFilters } from '@types/exposure';
 import { offlineQueue } from '@lib/offlineQueue';
+import { photoQueue } from '@lib/photoQueue';
+import { draftToCreateArgs } from '@lib/syncTransport';
+import { dailyTWAByExposure, DailyTWA } from '../../convex/exposureDose';
 import uuid from 'react-native-uuid';
 
+// Exposures fetched per page
+const PAGE_SIZE = 50;
+
 interface UseExposuresResult {
   // Query state
   exposures: any[] | undefined;
   isLoading: boolean;
   error: Error | null;
   hasMore: boolean;
-  nextCursor: string | null;
+  isLoadingMore: boolean;
 
   // Actions
   createExposure: (draft: Omit<ExposureDraft, 'clientId'>) => Promise<Id<'exposures'> | null>;
@@ -40,11 +46,14 @@ interface UseExposuresResult {
  * Manages exposure data with Convex and offline support
  */
 export function useExposures(): UseExposuresResult {
-  const [cursor, setCursor] = useState<string | null>(null);
   const [error, setError] = useState<Error | null>(null);
 
-  // Query exposures list
-  const result = useQuery(api.exposures.list, { limit: 50, cursor: cursor || undefined });
+  // Query exposures list, further pages are appended as they load
+  const {
+    results,
+    status,
+    loadMore: loadMorePages,
+  } = usePaginatedQuery(api.exposures.list, {}, { initialNumItems: PAGE_SIZE });
 
   // Mutations
   const createMutation = useMutation(api.exposures.create);
@@ -69,32 +78,22 @@ export function useExposures(): UseExposuresResult {
         clientId,
       };
 
-      // Try to create in Convex
+      // Try to create in Convex, null when queued for sync
+      let exposureId: Id<'exposures'> | null = null;
       try {
-        const exposureId = await createMutation({
-          clientId,
-          exposureType: draft.exposureType,
-          timestamp: draft.timestamp,
-          duration: draft.duration,
-          location: draft.location,
-          severity: draft.severity,
-          ppe: draft.ppe,
-          workActivity: draft.workActivity,
-          notes: draft.notes,
-          chemicalName: draft.chemicalName,
-          sdsReference: draft.sdsReference,
-          controlMeasures: draft.controlMeasures,
-          photoIds: [], // Photos uploaded separately
-          voiceTranscription: draft.voiceTranscription,
-        });
-
-        return exposureId;
+        exposureId = await createMutation(draftToCreateArgs(exposureDraft));
       } catch (networkError) {
         // If network error, add to offline queue
         console.warn('Network error, adding to offline queue:', networkError);
         offlineQueue.add(exposureDraft);
-        return null; // Return null to indicate queued for sync
       }
+
+      // Photos upload once the exposure exists server-side, found by its clientId
+      exposureDraft.photos.forEach(photo =>
+        photoQueue.add({ ...photo, exposureClientId: clientId })
+      );
+
+      return exposureId;
     } catch (err) {
       console.error('Error creating exposure:', err);
       setError(err instanceof Error ? err : new Error('Failed to create exposure'));
@@ -136,32 +135,33 @@ export function useExposures(): UseExposuresResult {
   function getExposure(id: Id<'exposures'>): any | undefined {
     // Note: This should use a separate query in production
     // For now, find in the list
-    return result?.exposures?.find((e: any) => e._id === id);
+    return results.find((e: any) => e._id === id);
   }
 
   /**
-   * Load more exposures (pagination)
+   * Load the next page (infinite scroll)
+   * Ignored while a page is loading or once every page is loaded
    */
   function loadMore() {
-    if (result?.nextCursor) {
-      setCursor(result.nextCursor);
+    if (status === 'CanLoadMore') {
+      loadMorePages(PAGE_SIZE);
     }
   }
 
   /**
-   * Refresh list (reset cursor)
+   * Refresh list
+   * Loaded pages are reactive, so this only clears the last error
    */
   function refresh() {
-    setCursor(null);
     setError(null);
   }
 
   return {
-    exposures: result?.exposures,
-    isLoading: result === undefined,
+    exposures: status === 'LoadingFirstPage' ? undefined : results,
+    isLoading: status === 'LoadingFirstPage',
     error,
-    hasMore: result?.hasMore ?? false,
-    nextCursor: result?.nextCursor ?? null,
+    hasMore: status === 'CanLoadMore',
+    isLoadingMore: status === 'LoadingMore',
     createExposure,
     updateExposure,
     deleteExposure,
@@ -182,3 +182,47 @@ export function useExposure(id: Id<'exposures'> | null) {
     isLoading: exposure === undefined,
   };
 }
+
+/**
+ * Hook for the server-side filtered and searched exposure list
+ * Pass null to skip the query when no filters are active
+ */
+export function useExposureSearch(filters: ExposureFilters | null) {
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.exposures.search,
+    filters ? { filters } : 'skip',
+    { initialNumItems: PAGE_SIZE }
+  );
+
+  return {
+    exposures: status === 'LoadingFirstPage' ? undefined : results,
+    isLoading: status === 'LoadingFirstPage',
+    isLoadingMore: status === 'LoadingMore',
+    hasMore: status === 'CanLoadMore',
+    loadMore: () => {
+      if (status === 'CanLoadMore') {
+        loadMore(PAGE_SIZE);
+      }
+    },
+  };
+}
+
+/**
+ * Hook for the daily WES-TWA of the days holding the given exposures
+ * Returns each exposure's TWA by exposure ID, empty until loaded
+ */
+export function useDailyTWA(exposures: { timestamp: number }[]): Map<string, DailyTWA> {
+  const timestamps = exposures.map(exposure => exposure.timestamp);
+  const results = useQuery(
+    api.exposures.getDailyTWA,
+    timestamps.length > 0
+      ? {
+          from: Math.min(...timestamps),
+          to: Math.max(...timestamps),
+          timezoneOffsetMinutes: -new Date().getTimezoneOffset(),
+        }
+      : 'skip'
+  );
+
+  return dailyTWAByExposure(results ?? []);
+}
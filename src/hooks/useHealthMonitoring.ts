@@ -0,0 +1,30 @@
+/**
+ * useHealthMonitoring Hook
+ * Health monitoring checks due from the user's exposure history
+ */
+
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import {
+  scheduledCheckStatus,
+  ScheduledCheck,
+  ScheduledCheckStatus,
+} from '../../convex/healthMonitoring';
+
+export interface DueHealthCheck extends ScheduledCheck {
+  status: ScheduledCheckStatus;
+}
+
+/**
+ * Hook for the monitoring schedule with each check's current status
+ * Returns undefined while loading
+ */
+export function useHealthMonitoring(): DueHealthCheck[] | undefined {
+  const schedule = useQuery(api.healthChecks.getSchedule);
+  if (schedule === undefined) {
+    return undefined;
+  }
+
+  const now = Date.now();
+  return schedule.map(check => ({ ...check, status: scheduledCheckStatus(check.dueAt, now) }));
+}
@@ -73,7 +73,9 @@ export function useOfflineSync(): UseOfflineSyncResult {
   const updateQueueCounts = useCallback(() => {
     setExposureQueueCount(offlineQueue.count());
     setPhotoQueueCount(photoQueue.getPendingCount());
-    setProblematicItemsCount(offlineQueue.getProblematicItems().length);
+    setProblematicItemsCount(
+      offlineQueue.getProblematicItems().length + offlineQueue.getConflicts().length
+    );
   }, []);
 
   // Listen to queue changes
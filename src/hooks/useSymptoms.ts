@@ -0,0 +1,89 @@
+/**
+ * useSymptoms Hook
+ * React hook for the symptom journal
+ *
+ * Handles:
+ * - Querying the journal, or the symptoms linked to one exposure
+ * - Uploading symptom photos and creating the entry
+ * - Deleting entries
+ */
+
+import { useQuery, useMutation } from 'convex/react';
+import * as FileSystem from 'expo-file-system/legacy';
+import { api } from '../../convex/_generated/api';
+import { Doc, Id } from '../../convex/_generated/dataModel';
+import { base64ToBytes } from '@lib/camera';
+
+export type Symptom = Doc<'symptoms'> & { photoUrls: string[] };
+
+export interface SymptomDraft {
+  symptom: string;
+  bodySystem: string;
+  severity: string;
+  onsetAt: number;
+  notes: string | null;
+  exposureIds: Id<'exposures'>[];
+  photoUris: string[]; // Local URIs from PhotoCapture
+}
+
+/**
+ * Hook for the whole journal, most recent onset first
+ */
+export function useSymptoms() {
+  const symptoms = useQuery(api.symptoms.list) as Symptom[] | undefined;
+  const generateUploadUrl = useMutation(api.symptoms.generatePhotoUploadUrl);
+  const createMutation = useMutation(api.symptoms.create);
+  const removeMutation = useMutation(api.symptoms.remove);
+
+  /**
+   * Upload the photos, then create the entry
+   * Symptoms need a connection: unlike exposures they are not queued offline
+   */
+  async function createSymptom(draft: SymptomDraft): Promise<Id<'symptoms'>> {
+    const photos: { uploadId: Id<'symptomUploads'>; storageId: Id<'_storage'> }[] = [];
+    for (const uri of draft.photoUris) {
+      const base64 = await FileSystem.readAsStringAsync(uri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      const { uploadId, uploadUrl } = await generateUploadUrl();
+      const response = await fetch(uploadUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'image/jpeg' },
+        body: base64ToBytes(base64),
+      });
+      if (!response.ok) {
+        throw new Error(`Photo upload failed with status ${response.status}`);
+      }
+
+      // Convex storage responds with the new storage ID
+      const { storageId } = (await response.json()) as { storageId: Id<'_storage'> };
+      photos.push({ uploadId, storageId });
+    }
+
+    return await createMutation({
+      symptom: draft.symptom,
+      bodySystem: draft.bodySystem,
+      severity: draft.severity,
+      onsetAt: draft.onsetAt,
+      notes: draft.notes,
+      exposureIds: draft.exposureIds,
+      photos,
+    });
+  }
+
+  return {
+    symptoms,
+    isLoading: symptoms === undefined,
+    createSymptom,
+    deleteSymptom: (id: Id<'symptoms'>) => removeMutation({ id }),
+  };
+}
+
+/**
+ * Hook for the symptoms linked to one exposure, in order of onset
+ */
+export function useExposureSymptoms(exposureId: Id<'exposures'> | null): Symptom[] | undefined {
+  return useQuery(api.symptoms.listByExposure, exposureId ? { exposureId } : 'skip') as
+    | Symptom[]
+    | undefined;
+}
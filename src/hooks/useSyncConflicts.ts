@@ -0,0 +1,47 @@
+/**
+ * useSyncConflicts Hook
+ * React hook exposing offline queue items that need manual resolution
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { offlineQueue, SyncConflict } from '@lib/offlineQueue';
+import { MergeValues } from '@lib/merge';
+
+interface UseSyncConflictsResult {
+  conflicts: SyncConflict[];
+  getConflict: (clientId: string) => SyncConflict | null;
+  resolveConflict: (clientId: string, values: Partial<MergeValues>) => void;
+  retryConflict: (clientId: string) => void;
+  discardConflict: (clientId: string) => void;
+}
+
+/**
+ * Subscribes to the conflicts store of the offline queue
+ */
+export function useSyncConflicts(): UseSyncConflictsResult {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>(() => offlineQueue.getConflicts());
+
+  useEffect(() => {
+    const unsubscribe = offlineQueue.addListener(() => {
+      setConflicts(offlineQueue.getConflicts());
+    });
+
+    // Pick up changes made before the listener was attached
+    setConflicts(offlineQueue.getConflicts());
+
+    return unsubscribe;
+  }, []);
+
+  const getConflict = useCallback(
+    (clientId: string) => conflicts.find(conflict => conflict.id === clientId) || null,
+    [conflicts]
+  );
+
+  return {
+    conflicts,
+    getConflict,
+    resolveConflict: (clientId, values) => offlineQueue.resolveConflict(clientId, values),
+    retryConflict: clientId => offlineQueue.retryConflict(clientId),
+    discardConflict: clientId => offlineQueue.discardConflict(clientId),
+  };
+}
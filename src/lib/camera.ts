@@ -6,10 +6,12 @@
  * - Capture photos with device camera
  * - Preserve EXIF metadata (GPS, timestamp, device info)
  * - Resize/compress images for upload
+ * - Hash photo content so uploads can be de-duplicated
  */
 
 import * as ImageManipulator from 'expo-image-manipulator';
-import * as FileSystem from 'expo-file-system';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Crypto from 'expo-crypto';
 import { PhotoLocal } from '../types/photo';
 
 /**
@@ -95,6 +97,9 @@ export async function processPhoto(
     const fileSize =
       processedFileInfo.exists && 'size' in processedFileInfo ? processedFileInfo.size : 0;
 
+    // Hash the processed file, which is what gets uploaded
+    const contentHash = await hashPhoto(manipResult.uri);
+
     return {
       localUri: manipResult.uri,
       fileName,
@@ -103,6 +108,7 @@ export async function processPhoto(
       width: manipResult.width,
       height: manipResult.height,
       exif,
+      contentHash,
     };
   } catch (error) {
     console.error('Error processing photo:', error);
@@ -110,6 +116,33 @@ export async function processPhoto(
   }
 }
 
+/**
+ * SHA-256 of a photo file as lowercase hex
+ * Identical files hash the same, letting the server skip duplicate uploads
+ */
+export async function hashPhoto(uri: string): Promise<string> {
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  const digest = await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, base64ToBytes(base64));
+
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Decode base64 file content read through expo-file-system
+ */
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
 /**
  * Get image dimensions from URI
  */
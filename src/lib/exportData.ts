@@ -0,0 +1,131 @@
+/**
+ * Export Data
+ * Fetches the records an export is built from
+ *
+ * Shared by the export tab and the claim pack builder. Photos, proofs and symptoms
+ * are optional: each returns an empty result on failure so the export still goes ahead.
+ */
+
+import { ConvexReactClient } from 'convex/react';
+import type { FunctionReturnType } from 'convex/server';
+import { api } from '../../convex/_generated/api';
+import type { Doc } from '../../convex/_generated/dataModel';
+import type { PhotoMetadata } from '../../convex/structuredExport';
+import type { ChainIntegrity, RecordProof, SymptomForExport } from './pdf';
+
+// Largest page accepted by exposures.list and hashChain.getProofs
+export const EXPORT_PAGE_SIZE = 100;
+
+/**
+ * Fetch every exposure, page by page, newest first
+ * Stops early when isCancelled returns true
+ */
+export async function fetchAllExposures(
+  convex: ConvexReactClient,
+  isCancelled: () => boolean = () => false
+): Promise<Doc<'exposures'>[]> {
+  const exposures: Doc<'exposures'>[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page: FunctionReturnType<typeof api.exposures.list> = await convex.query(
+      api.exposures.list,
+      { paginationOpts: { numItems: EXPORT_PAGE_SIZE, cursor } }
+    );
+    exposures.push(...page.page);
+    cursor = page.isDone ? null : page.continueCursor;
+  } while (cursor && !isCancelled());
+
+  return exposures;
+}
+
+/**
+ * Fetch the URLs of the exposures' photos, keyed by photo ID
+ */
+export async function fetchPhotoUrls(
+  convex: ConvexReactClient,
+  exposures: Pick<Doc<'exposures'>, 'photoIds'>[]
+): Promise<Map<string, string>> {
+  const photoIds = exposures.flatMap(exposure => exposure.photoIds);
+  const photoUrlsMap = new Map<string, string>();
+
+  try {
+    for (let i = 0; i < photoIds.length; i += EXPORT_PAGE_SIZE) {
+      const batch = await convex.query(api.photos.getPhotoUrls, {
+        photoIds: photoIds.slice(i, i + EXPORT_PAGE_SIZE),
+      });
+      batch.forEach(photo => {
+        if (photo.url) {
+          photoUrlsMap.set(photo.photoId, photo.url);
+        }
+      });
+    }
+  } catch (error) {
+    console.error('Error fetching photo URLs:', error);
+    // Continue without photos rather than failing completely
+  }
+
+  return photoUrlsMap;
+}
+
+/**
+ * Verify the hash chain and fetch the proof of each exported record
+ */
+export async function fetchChainIntegrity(
+  convex: ConvexReactClient,
+  exposures: Pick<Doc<'exposures'>, '_id'>[]
+): Promise<ChainIntegrity | null> {
+  try {
+    const chain = await convex.query(api.hashChain.verifyChain, {});
+    const proofs = new Map<string, RecordProof>();
+
+    for (let i = 0; i < exposures.length; i += EXPORT_PAGE_SIZE) {
+      const batch = await convex.query(api.hashChain.getProofs, {
+        exposureIds: exposures.slice(i, i + EXPORT_PAGE_SIZE).map(exp => exp._id),
+      });
+      batch.forEach(proof => proofs.set(proof.exposureId, proof));
+    }
+
+    return { head: chain.head, valid: chain.valid, proofs };
+  } catch (error) {
+    console.error('Error verifying hash chain:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetch the symptom journal for the symptoms timeline
+ */
+export async function fetchSymptoms(convex: ConvexReactClient): Promise<SymptomForExport[]> {
+  try {
+    return await convex.query(api.symptoms.list, {});
+  } catch (error) {
+    console.error('Error fetching symptoms:', error);
+    return [];
+  }
+}
+
+/**
+ * Fetch the metadata of the exposures' photos for the JSON and FHIR exports, keyed by photo ID
+ */
+export async function fetchPhotoMetadata(
+  convex: ConvexReactClient,
+  exposures: Pick<Doc<'exposures'>, 'photoIds'>[]
+): Promise<Map<string, PhotoMetadata>> {
+  const photoIds = exposures.flatMap(exposure => exposure.photoIds);
+  const metadata = new Map<string, PhotoMetadata>();
+
+  try {
+    for (let i = 0; i < photoIds.length; i += EXPORT_PAGE_SIZE) {
+      const batch = await convex.query(api.photos.getPhotoUrls, {
+        photoIds: photoIds.slice(i, i + EXPORT_PAGE_SIZE),
+      });
+      batch.forEach(photo => metadata.set(photo.photoId, photo));
+    }
+  } catch (error) {
+    console.error('Error fetching photo metadata:', error);
+    // Continue without photos rather than failing completely
+  }
+
+  return metadata;
+}
@@ -0,0 +1,79 @@
+/**
+ * Exposure Field Display
+ * Labels and human-readable values for exposure fields shown one at a time,
+ * as in sync conflicts and revision history
+ */
+
+import { format } from 'date-fns';
+import { MergeField, MergeValues } from './merge';
+import { formatConcentration, formatVibrationTools } from '../../convex/exposureDose';
+
+export const FIELD_LABELS: Record<MergeField | 'isDeleted', string> = {
+  exposureType: 'Exposure Type',
+  timestamp: 'Date & Time',
+  duration: 'Duration',
+  location: 'Location',
+  severity: 'Severity',
+  ppe: 'PPE Worn',
+  workActivity: 'Work Activity',
+  notes: 'Additional Notes',
+  chemicalName: 'Chemical Name',
+  sdsReference: 'SDS Reference',
+  controlMeasures: 'Control Measures',
+  vibrationTools: 'Vibration Tools',
+  bloodLeadTestReference: 'Blood-Lead Test Reference',
+  noiseSegments: 'Noise Levels',
+  noisePeakDbC: 'Peak Noise Level',
+  concentration: 'Airborne Concentration',
+  voiceTranscription: 'Voice Notes',
+  isDeleted: 'Deleted',
+};
+
+/**
+ * Label for a field name, falling back to the raw name for unknown fields
+ */
+export function getFieldLabel(field: string): string {
+  return FIELD_LABELS[field as keyof typeof FIELD_LABELS] ?? field;
+}
+
+/**
+ * Human-readable value for an exposure field
+ */
+export function formatFieldValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '(empty)';
+  }
+
+  switch (field) {
+    case 'timestamp':
+      return format(value as number, 'MMM d, yyyy h:mm a');
+    case 'duration': {
+      const duration = value as MergeValues['duration'];
+      return `${duration.hours}h ${duration.minutes}m`;
+    }
+    case 'location': {
+      const location = value as MergeValues['location'];
+      return (
+        location.siteName ||
+        location.address ||
+        `${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)}`
+      );
+    }
+    case 'vibrationTools':
+      return formatVibrationTools(value as NonNullable<MergeValues['vibrationTools']>);
+    case 'noiseSegments':
+      return (value as NonNullable<MergeValues['noiseSegments']>)
+        .map(segment => `${segment.levelDbA} dB(A) for ${segment.durationMinutes}m`)
+        .join(', ');
+    case 'noisePeakDbC':
+      return `${value} dB(C)`;
+    case 'concentration':
+      return formatConcentration(value as NonNullable<MergeValues['concentration']>);
+    case 'ppe':
+      return (value as string[]).length > 0 ? (value as string[]).join(', ') : '(none)';
+    case 'isDeleted':
+      return value ? 'Yes' : 'No';
+    default:
+      return String(value);
+  }
+}
@@ -0,0 +1,564 @@
+/**
+ * Exposure Import
+ * Turns a previous JSON export or a spreadsheet into exposure drafts
+ *
+ * Accepts the JSON document described by docs/schemas/exposure-export-v1.schema.json
+ * and CSVs in the generateCSV column layout. Other spreadsheets are read through a
+ * column mapping. Every row is checked with validateExposure, and rows matching an
+ * existing record (or an earlier row) are flagged as duplicates so they are not
+ * imported twice.
+ */
+
+import { isValid, parse, parseISO } from 'date-fns';
+import { ExposureDraft } from '../types/exposure';
+import { validateExposure } from './validation';
+import { CSV_COLUMNS, formatExposureType } from '../../convex/csv';
+import { ExposureRecord as ExportedExposure } from '../../convex/structuredExport';
+import { EXPOSURE_TYPE_IDS, normalizeExposureType, normalizePPE } from '../../convex/taxonomy';
+import type { Concentration, VibrationToolUse } from '../../convex/exposureDose';
+
+// A draft before it is given a clientId on import
+export type ImportDraft = Omit<ExposureDraft, 'clientId'>;
+
+export type ImportFile =
+  | { kind: 'csv'; headers: string[]; rows: string[][] }
+  | { kind: 'json'; exposures: ExportedExposure[] };
+
+export type ImportFieldKey =
+  | 'exposureType'
+  | 'date'
+  | 'time'
+  | 'durationHours'
+  | 'durationMinutes'
+  | 'severity'
+  | 'latitude'
+  | 'longitude'
+  | 'address'
+  | 'siteName'
+  | 'workActivity'
+  | 'ppe'
+  | 'notes'
+  | 'chemicalName'
+  | 'sdsReference'
+  | 'controlMeasures'
+  | 'vibrationTools'
+  | 'bloodLeadTestReference'
+  | 'noisePeak'
+  | 'concentration';
+
+export interface ImportField {
+  key: ImportFieldKey;
+  label: string;
+  required: boolean;
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: 'exposureType', label: 'Exposure Type', required: true },
+  { key: 'date', label: 'Date', required: true },
+  { key: 'time', label: 'Time', required: false },
+  { key: 'durationHours', label: 'Duration (hours)', required: false },
+  { key: 'durationMinutes', label: 'Duration (minutes)', required: false },
+  { key: 'severity', label: 'Severity', required: true },
+  { key: 'latitude', label: 'Latitude', required: true },
+  { key: 'longitude', label: 'Longitude', required: true },
+  { key: 'address', label: 'Location Address', required: false },
+  { key: 'siteName', label: 'Site Name', required: false },
+  { key: 'workActivity', label: 'Work Activity', required: true },
+  { key: 'ppe', label: 'PPE Used', required: false },
+  { key: 'notes', label: 'Notes', required: false },
+  { key: 'chemicalName', label: 'Chemical Name', required: false },
+  { key: 'sdsReference', label: 'SDS Reference', required: false },
+  { key: 'controlMeasures', label: 'Control Measures', required: false },
+  { key: 'vibrationTools', label: 'Vibration Tools', required: false },
+  { key: 'bloodLeadTestReference', label: 'Blood-Lead Test Reference', required: false },
+  { key: 'noisePeak', label: 'Noise Peak (dB(C))', required: false },
+  { key: 'concentration', label: 'Concentration', required: false },
+];
+
+// Field of each column header, by position; null columns are ignored
+export type ColumnMapping = (ImportFieldKey | null)[];
+
+// Headers used by other logbooks and spreadsheets, after normalizeHeader
+const HEADER_ALIASES: Record<string, ImportFieldKey> = {
+  exposuretypecode: 'exposureType',
+  type: 'exposureType',
+  hazard: 'exposureType',
+  exposure: 'exposureType',
+  day: 'date',
+  starttime: 'time',
+  hours: 'durationHours',
+  duration: 'durationHours',
+  minutes: 'durationMinutes',
+  lat: 'latitude',
+  lng: 'longitude',
+  lon: 'longitude',
+  long: 'longitude',
+  location: 'address',
+  site: 'siteName',
+  activity: 'workActivity',
+  task: 'workActivity',
+  ppe: 'ppe',
+  comments: 'notes',
+  chemical: 'chemicalName',
+  sds: 'sdsReference',
+  controls: 'controlMeasures',
+};
+
+const SEVERITY_ALIASES: Record<string, ImportDraft['severity']> = {
+  low: 'low',
+  medium: 'medium',
+  moderate: 'medium',
+  high: 'high',
+};
+
+// Dates written by generateCSV first, then common spreadsheet forms
+const DATE_TIME_PATTERNS = [
+  "yyyy-MM-dd'T'HH:mm",
+  "yyyy-MM-dd'T'HH:mm:ss",
+  'yyyy-MM-dd HH:mm',
+  'dd/MM/yyyy HH:mm',
+  'd/M/yyyy H:mm',
+];
+const DATE_PATTERNS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'd/M/yyyy', 'dd-MM-yyyy', 'd MMM yyyy'];
+const TIME_PATTERNS = ['HH:mm', 'H:mm', 'HH:mm:ss', 'h:mm a', 'h:mma', 'h a'];
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Rows of an RFC 4180 CSV, skipping blank lines and a leading byte order mark
+ */
+export function parseCSV(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+/**
+ * Read an import file as a JSON export or a CSV
+ * Throws when a JSON file is not a version 1 exposure export
+ */
+export function readImportFile(text: string): ImportFile {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+
+  if (trimmed.startsWith('{')) {
+    let document: unknown;
+    try {
+      document = JSON.parse(trimmed);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+    if (typeof document !== 'object' || document === null) {
+      throw new Error('The file is not a Waldo Health JSON export');
+    }
+    if ('resourceType' in document && document.resourceType === 'Bundle') {
+      throw new Error('FHIR bundles cannot be imported, use a JSON export instead');
+    }
+    if (
+      !('schemaVersion' in document) ||
+      typeof document.schemaVersion !== 'string' ||
+      !('exposures' in document) ||
+      !Array.isArray(document.exposures)
+    ) {
+      throw new Error('The file is not a Waldo Health JSON export');
+    }
+    if (document.schemaVersion.split('.')[0] !== '1') {
+      throw new Error(`Export version ${document.schemaVersion} is not supported`);
+    }
+    return { kind: 'json', exposures: document.exposures };
+  }
+
+  const [headers, ...rows] = parseCSV(trimmed);
+  if (!headers || rows.length === 0) {
+    throw new Error('The file has no rows to import');
+  }
+  return { kind: 'csv', headers: headers.map(header => header.trim()), rows };
+}
+
+/**
+ * Field of each header, matched by generateCSV header, field label or a common alias
+ * Each field is given to the first column that matches it
+ */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const byHeader = new Map<string, ImportFieldKey>();
+  IMPORT_FIELDS.forEach(field => {
+    byHeader.set(normalizeHeader(field.label), field.key);
+    byHeader.set(normalizeHeader(field.key), field.key);
+  });
+  CSV_COLUMNS.forEach(column => {
+    const field = IMPORT_FIELDS.find(item => item.key === column.key);
+    if (field) {
+      byHeader.set(normalizeHeader(column.header), field.key);
+    }
+  });
+
+  const used = new Set<ImportFieldKey>();
+  return headers.map(header => {
+    const key = normalizeHeader(header);
+    const field = byHeader.get(key) ?? HEADER_ALIASES[key] ?? null;
+    if (!field || used.has(field)) {
+      return null;
+    }
+    used.add(field);
+    return field;
+  });
+}
+
+/**
+ * Give a column a field, taking the field away from any other column
+ */
+export function setColumnField(
+  mapping: ColumnMapping,
+  index: number,
+  field: ImportFieldKey | null
+): ColumnMapping {
+  return mapping.map((current, i) => (i === index ? field : current === field ? null : current));
+}
+
+/**
+ * Required fields no column is mapped to; the duration needs hours or minutes
+ */
+export function missingImportFields(mapping: ColumnMapping): string[] {
+  const missing = IMPORT_FIELDS.filter(field => field.required && !mapping.includes(field.key)).map(
+    field => field.label
+  );
+  if (!mapping.includes('durationHours') && !mapping.includes('durationMinutes')) {
+    missing.push('Duration');
+  }
+  return missing;
+}
+
+const EXPOSURE_TYPE_BY_LABEL = new Map<string, string>(
+  EXPOSURE_TYPE_IDS.map(id => [formatExposureType(id).toLowerCase(), id])
+);
+
+function parseExposureType(value: string): string {
+  return normalizeExposureType(value) ?? EXPOSURE_TYPE_BY_LABEL.get(value.toLowerCase()) ?? value;
+}
+
+function parsePPE(value: string): string[] {
+  if (/^(none|nil|-)?$/i.test(value)) {
+    return [];
+  }
+  return value
+    .split(/[;,]/)
+    .map(item => item.trim())
+    .filter(Boolean)
+    .map(item => normalizePPE(item) ?? item);
+}
+
+function parseNumber(value: string | undefined): number {
+  return value === undefined || value.trim() === '' ? NaN : Number(value.trim());
+}
+
+function parseTimestamp(date: string, time: string | undefined): number | null {
+  // ISO 8601 with a UTC offset is an exact instant
+  if (/T.*(Z|[+-]\d{2}:?\d{2})$/.test(date)) {
+    const instant = parseISO(date);
+    return isValid(instant) ? instant.getTime() : null;
+  }
+
+  const dateTime = DATE_TIME_PATTERNS.map(pattern => parse(date, pattern, new Date(0))).find(
+    isValid
+  );
+  if (dateTime) {
+    return dateTime.getTime();
+  }
+
+  const day = DATE_PATTERNS.map(pattern => parse(date, pattern, new Date(0))).find(isValid);
+  if (!day) {
+    return null;
+  }
+  if (!time) {
+    return day.getTime();
+  }
+  const withTime = TIME_PATTERNS.map(pattern => parse(time, pattern, day)).find(isValid);
+  return withTime ? withTime.getTime() : null;
+}
+
+/**
+ * Total minutes of "1.5", "1:30" or "1h 30m" hours, or of a minutes value
+ */
+function parseDurationMinutes(hours: string | undefined, minutes: string | undefined): number {
+  const hoursText = hours?.trim() ?? '';
+  const clock = hoursText.match(/^(\d+):(\d{1,2})$/);
+  const spelled = hoursText.match(/^(?:(\d+(?:\.\d+)?)\s*h\w*)?\s*(?:(\d+)\s*m\w*)?$/i);
+
+  let total = 0;
+  if (clock) {
+    total = Number(clock[1]) * 60 + Number(clock[2]);
+  } else if (hoursText && !isNaN(Number(hoursText))) {
+    total = Number(hoursText) * 60;
+  } else if (hoursText && spelled && (spelled[1] || spelled[2])) {
+    total = Number(spelled[1] ?? 0) * 60 + Number(spelled[2] ?? 0);
+  } else if (hoursText) {
+    return NaN;
+  }
+  if (minutes?.trim()) {
+    total += parseNumber(minutes);
+  }
+  return Math.round(total);
+}
+
+function toDuration(totalMinutes: number): ImportDraft['duration'] {
+  return { hours: Math.floor(totalMinutes / 60), minutes: totalMinutes % 60 };
+}
+
+/**
+ * Concentration as written by formatConcentration, e.g. "0.08 mg/m³ (measured)"
+ * Estimated unless the text says it was measured
+ */
+function parseConcentration(value: string): Concentration | null | undefined {
+  if (!value) {
+    return null;
+  }
+  const match = value.match(/^([\d.]+)\s*(mg\/m³|mg\/m3|ppm)\s*(?:\((measured|estimated)\))?$/i);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    value: Number(match[1]),
+    unit: match[2].toLowerCase() === 'ppm' ? 'ppm' : 'mg/m3',
+    source: match[3]?.toLowerCase() === 'measured' ? 'measured' : 'estimated',
+  };
+}
+
+/**
+ * Tools as written by formatVibrationTools, e.g. "Breaker 12 m/s² for 60 min; Grinder 4 m/s² for 30 min"
+ * The CSV does not say where a magnitude came from, so tools are read as catalogue values
+ */
+function parseVibrationTools(value: string): VibrationToolUse[] | null | undefined {
+  if (!value) {
+    return null;
+  }
+  const tools = value
+    .split(';')
+    .map(part => part.trim().match(/^(.+?)\s+([\d.]+)\s*m\/s(?:²|2)\s+for\s+([\d.]+)\s*min$/i));
+  if (tools.some(match => !match)) {
+    return undefined;
+  }
+  return tools.map(match => ({
+    tool: match![1],
+    magnitude: Number(match![2]),
+    triggerMinutes: Number(match![3]),
+    source: 'catalogue' as const,
+  }));
+}
+
+interface ParsedRow {
+  draft: ImportDraft;
+  errors: string[];
+}
+
+/**
+ * Draft of one spreadsheet row through the column mapping
+ */
+export function csvRowToDraft(row: string[], mapping: ColumnMapping): ParsedRow {
+  const cell = (field: ImportFieldKey): string | undefined => {
+    const index = mapping.indexOf(field);
+    return index === -1 ? undefined : (row[index] ?? '').trim();
+  };
+  const text = (field: ImportFieldKey): string | null => cell(field) || null;
+  const errors: string[] = [];
+
+  const timestamp = parseTimestamp(cell('date') ?? '', cell('time'));
+  if (timestamp === null) {
+    errors.push('Date or time is missing or not recognised');
+  }
+  const totalMinutes = parseDurationMinutes(cell('durationHours'), cell('durationMinutes'));
+  if (isNaN(totalMinutes)) {
+    errors.push('Duration is not recognised');
+  }
+  const concentration = parseConcentration(cell('concentration') ?? '');
+  if (concentration === undefined) {
+    errors.push('Concentration is not recognised, use e.g. "0.08 mg/m³ (measured)"');
+  }
+  const vibrationTools = parseVibrationTools(cell('vibrationTools') ?? '');
+  if (vibrationTools === undefined) {
+    errors.push('Vibration tools are not recognised, use e.g. "Breaker 12 m/s² for 60 min"');
+  }
+  const severity = cell('severity')?.toLowerCase() ?? '';
+  const noisePeak = cell('noisePeak') ? parseNumber(cell('noisePeak')) : null;
+  if (noisePeak !== null && isNaN(noisePeak)) {
+    errors.push('Noise peak is not a number');
+  }
+
+  const draft: ImportDraft = {
+    timestamp: timestamp ?? NaN,
+    exposureType: parseExposureType(cell('exposureType') ?? ''),
+    duration: isNaN(totalMinutes) ? { hours: 0, minutes: 0 } : toDuration(totalMinutes),
+    location: {
+      latitude: parseNumber(cell('latitude')),
+      longitude: parseNumber(cell('longitude')),
+      accuracy: null,
+      address: text('address'),
+      siteName: text('siteName'),
+    },
+    severity: SEVERITY_ALIASES[severity] ?? (severity as ImportDraft['severity']),
+    ppe: parsePPE(cell('ppe') ?? ''),
+    workActivity: cell('workActivity') ?? '',
+    notes: text('notes'),
+    chemicalName: text('chemicalName'),
+    sdsReference: text('sdsReference'),
+    controlMeasures: text('controlMeasures'),
+    vibrationTools: vibrationTools ?? null,
+    bloodLeadTestReference: text('bloodLeadTestReference'),
+    noiseSegments: null,
+    noisePeakDbC: noisePeak,
+    concentration: concentration ?? null,
+    photos: [],
+    voiceTranscription: null,
+  };
+
+  return { draft, errors };
+}
+
+/**
+ * Draft of one exposure from a JSON export
+ * Photos are not in the export, only their metadata, so none are imported
+ */
+export function jsonRecordToDraft(record: ExportedExposure): ParsedRow {
+  const errors: string[] = [];
+  const timestamp = typeof record?.startedAt === 'string' ? Date.parse(record.startedAt) : NaN;
+  if (isNaN(timestamp)) {
+    errors.push('Start time is missing or not recognised');
+  }
+  const totalMinutes = Math.round(Number(record?.durationMinutes));
+  if (isNaN(totalMinutes)) {
+    errors.push('Duration is missing');
+  }
+  const location = record?.location ?? ({} as Partial<ExportedExposure['location']>);
+
+  const draft: ImportDraft = {
+    timestamp,
+    exposureType: parseExposureType(String(record?.exposureType ?? '')),
+    duration: isNaN(totalMinutes) ? { hours: 0, minutes: 0 } : toDuration(totalMinutes),
+    location: {
+      latitude: Number(location.latitude ?? NaN),
+      longitude: Number(location.longitude ?? NaN),
+      accuracy: location.accuracy ?? null,
+      address: location.address ?? null,
+      siteName: location.siteName ?? null,
+    },
+    severity: record?.severity as ImportDraft['severity'],
+    ppe: Array.isArray(record?.ppe) ? record.ppe.map(ppe => normalizePPE(ppe) ?? ppe) : [],
+    workActivity: record?.workActivity ?? '',
+    notes: record?.notes ?? null,
+    chemicalName: record?.chemicalName ?? null,
+    sdsReference: record?.sdsReference ?? null,
+    controlMeasures: record?.controlMeasures ?? null,
+    vibrationTools: record?.vibrationTools ?? null,
+    bloodLeadTestReference: record?.bloodLeadTestReference ?? null,
+    noiseSegments: record?.noiseSegments ?? null,
+    noisePeakDbC: record?.noisePeakDbC ?? null,
+    concentration: record?.concentration ?? null,
+    photos: [],
+    voiceTranscription: null,
+  };
+
+  return { draft, errors };
+}
+
+// Fields of a stored exposure or queued draft compared for duplicates
+export interface FingerprintFields {
+  timestamp: number;
+  exposureType: string;
+  duration: { hours: number; minutes: number };
+  location: { latitude: number; longitude: number };
+  severity: string;
+  workActivity: string;
+}
+
+/**
+ * Content key of a record, matching records that survive a CSV round trip
+ * Times to the minute, places to ~10 m and durations to the minute
+ */
+export function exposureFingerprint(exposure: FingerprintFields): string {
+  return [
+    Math.floor(exposure.timestamp / 60000),
+    exposure.exposureType,
+    exposure.duration.hours * 60 + exposure.duration.minutes,
+    exposure.location.latitude.toFixed(4),
+    exposure.location.longitude.toFixed(4),
+    exposure.severity,
+    exposure.workActivity.trim().toLowerCase(),
+  ].join('|');
+}
+
+export type ImportRowStatus = 'ready' | 'duplicate' | 'invalid';
+
+export interface ImportRow {
+  row: number; // 1-based, not counting the CSV header
+  draft: ImportDraft;
+  status: ImportRowStatus;
+  errors: string[];
+}
+
+/**
+ * Every row of the file, validated and checked against the existing records
+ * existing holds the user's exposures and drafts still in the offline queue
+ */
+export function buildImportPreview(
+  file: ImportFile,
+  mapping: ColumnMapping,
+  existing: FingerprintFields[]
+): ImportRow[] {
+  const parsed =
+    file.kind === 'json'
+      ? file.exposures.map(jsonRecordToDraft)
+      : file.rows.map(row => csvRowToDraft(row, mapping));
+  const seen = new Set(existing.map(exposureFingerprint));
+
+  return parsed.map(({ draft, errors: parseErrors }, index) => {
+    const validation = validateExposure({ ...draft, clientId: '' });
+    const errors = [...parseErrors, ...validation.errors.map(error => error.message)];
+    if (errors.length > 0) {
+      return { row: index + 1, draft, status: 'invalid', errors };
+    }
+
+    const fingerprint = exposureFingerprint(draft);
+    if (seen.has(fingerprint)) {
+      return { row: index + 1, draft, status: 'duplicate', errors };
+    }
+    seen.add(fingerprint);
+    return { row: index + 1, draft, status: 'ready', errors };
+  });
+}
@@ -0,0 +1,126 @@
+/**
+ * Exposure Merge
+ * Three-way merge of an offline edit against the server copy
+ *
+ * Each field is compared between the base version (the server copy the edit
+ * started from), the local edit and the current server version:
+ * - Changed on one side only: that side wins
+ * - Changed on both sides to the same value: no clash
+ * - Changed on both sides to different values: clash, the user decides
+ */
+
+import { ExposureDraft } from '../types/exposure';
+
+// Fields the user can edit, and therefore the only ones that can clash
+export const MERGE_FIELDS = [
+  'exposureType',
+  'timestamp',
+  'duration',
+  'location',
+  'severity',
+  'ppe',
+  'workActivity',
+  'notes',
+  'chemicalName',
+  'sdsReference',
+  'controlMeasures',
+  'vibrationTools',
+  'bloodLeadTestReference',
+  'noiseSegments',
+  'noisePeakDbC',
+  'concentration',
+  'voiceTranscription',
+] as const;
+
+export type MergeField = (typeof MERGE_FIELDS)[number];
+
+export type MergeValues = Pick<ExposureDraft, MergeField>;
+
+// Server version of a record at a point in time
+export interface ExposureSnapshot {
+  values: MergeValues;
+  updatedAt: number;
+}
+
+// A field edited differently on this device and on the server
+export interface FieldConflict {
+  field: MergeField;
+  base: unknown; // undefined when there is no base version
+  local: unknown;
+  server: unknown;
+}
+
+export interface MergeResult {
+  merged: ExposureDraft; // Clashing fields keep the local value
+  conflicts: FieldConflict[];
+}
+
+/**
+ * Pick the mergeable fields from a draft or stored exposure
+ */
+export function toMergeValues(record: MergeValues): MergeValues {
+  return Object.fromEntries(MERGE_FIELDS.map(field => [field, record[field]])) as MergeValues;
+}
+
+/**
+ * Structural equality for exposure field values (primitives, arrays, plain objects)
+ */
+export function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => isSameValue(item, b[index]))
+    );
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  return [...keys].every(key => isSameValue(aRecord[key], bRecord[key]));
+}
+
+/**
+ * Merge a local edit with the server version
+ * Without a base version every differing field is treated as a clash
+ */
+export function threeWayMerge(
+  base: MergeValues | null,
+  local: ExposureDraft,
+  server: MergeValues
+): MergeResult {
+  const merged: ExposureDraft = { ...local };
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of MERGE_FIELDS) {
+    const localValue = local[field];
+    const serverValue = server[field];
+
+    if (isSameValue(localValue, serverValue)) {
+      continue;
+    }
+
+    const localChanged = !base || !isSameValue(base[field], localValue);
+    const serverChanged = !base || !isSameValue(base[field], serverValue);
+
+    if (!localChanged) {
+      (merged as Record<MergeField, unknown>)[field] = serverValue;
+    } else if (serverChanged) {
+      conflicts.push({
+        field,
+        base: base ? base[field] : undefined,
+        local: localValue,
+        server: serverValue,
+      });
+    }
+  }
+
+  return { merged, conflicts };
+}
@@ -0,0 +1,96 @@
+/**
+ * Local Notifications
+ * Reminders for health monitoring checks that are due
+ *
+ * Features:
+ * - One reminder per check, two weeks before it falls due
+ * - Overdue checks are reminded the next morning
+ * - Reminders are rescheduled whenever the schedule changes and cleared when
+ *   notifications are turned off in the profile or the user signs out
+ * - Permission is asked for when notifications are turned on, not at launch
+ */
+
+import * as Notifications from 'expo-notifications';
+import type { ScheduledCheck } from '../../convex/healthMonitoring';
+
+const IDENTIFIER_PREFIX = 'health-check-';
+const REMINDER_LEAD_DAYS = 14;
+const REMINDER_HOUR = 9;
+
+/**
+ * Local time of the reminder for a check: the lead time before it is due, at 9am,
+ * or the next 9am when that has passed
+ */
+export function reminderTime(dueAt: number, now: number): number {
+  const reminder = new Date(dueAt - REMINDER_LEAD_DAYS * 24 * 60 * 60 * 1000);
+  reminder.setHours(REMINDER_HOUR, 0, 0, 0);
+  if (reminder.getTime() > now) {
+    return reminder.getTime();
+  }
+
+  const next = new Date(now);
+  next.setHours(REMINDER_HOUR, 0, 0, 0);
+  if (next.getTime() <= now) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next.getTime();
+}
+
+/**
+ * Ask for permission to show notifications, when not already granted
+ */
+export async function requestNotificationPermission(): Promise<boolean> {
+  const { granted } = await Notifications.getPermissionsAsync();
+  if (granted) {
+    return true;
+  }
+  return (await Notifications.requestPermissionsAsync()).granted;
+}
+
+/**
+ * Cancel every scheduled health check reminder
+ */
+export async function clearHealthCheckReminders(): Promise<void> {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter(request => request.identifier.startsWith(IDENTIFIER_PREFIX))
+      .map(request => Notifications.cancelScheduledNotificationAsync(request.identifier))
+  );
+}
+
+/**
+ * Replace the scheduled health check reminders
+ * Does nothing beyond clearing them when notifications are disabled or not permitted
+ */
+export async function scheduleHealthCheckReminders(
+  checks: ScheduledCheck[],
+  enabled: boolean
+): Promise<void> {
+  await clearHealthCheckReminders();
+
+  if (!enabled || checks.length === 0) {
+    return;
+  }
+
+  const { granted } = await Notifications.getPermissionsAsync();
+  if (!granted) {
+    return;
+  }
+
+  const now = Date.now();
+  for (const check of checks) {
+    await Notifications.scheduleNotificationAsync({
+      identifier: `${IDENTIFIER_PREFIX}${check.checkType}`,
+      content: {
+        title: check.dueAt < now ? `${check.label} overdue` : `${check.label} due soon`,
+        body: 'Your exposure history calls for health monitoring. Book a check and log the result in Waldo Health.',
+        data: { checkType: check.checkType },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: new Date(reminderTime(check.dueAt, now)),
+      },
+    });
+  }
+}
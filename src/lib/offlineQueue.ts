@@ -6,25 +6,82 @@
  * - Persistent queue using MMKV
  * - Auto-retry with exponential backoff
  * - Network status monitoring
- * - Conflict resolution
+ * - Field-level conflict resolution (three-way merge, see ./merge)
+ *
+ * The actual network call is delegated to an ExposureSyncTransport so the
+ * queue can be exercised against a fake Convex client in tests.
  */
 
 import { ExposureDraft } from '../types/exposure';
 import { storageHelpers, StorageKeys } from './storage';
+import {
+  ExposureSnapshot,
+  FieldConflict,
+  MergeValues,
+  threeWayMerge,
+  toMergeValues,
+} from './merge';
 import NetInfo from '@react-native-community/netinfo';
 
+const MAX_ATTEMPTS = 5;
+const SYNC_BATCH_SIZE = 50; // Matches the server-side syncBatch limit
+
 export interface QueuedExposure {
   id: string; // clientId
   draft: ExposureDraft;
   attemptCount: number;
   lastAttempt: number | null;
   createdAt: number;
+  updatedAt: number; // Local edit time, used for last-writer-wins on the server
+  base: ExposureSnapshot | null; // Server version an edit started from, null for new records
   error: string | null;
 }
 
-class OfflineQueueManager {
+// Item that exhausted its retries and needs manual resolution
+export interface SyncConflict {
+  id: string; // clientId
+  draft: ExposureDraft;
+  attemptCount: number;
+  error: string | null;
+  createdAt: number;
+  updatedAt: number;
+  base: ExposureSnapshot | null;
+  fields: FieldConflict[]; // Clashing fields, empty when the item just ran out of retries
+  movedAt: number;
+}
+
+// Per-item outcome of exposures.syncBatch
+export type ExposureBatchResult =
+  | { clientId: string; status: 'created'; id: string }
+  | { clientId: string; status: 'duplicate'; id: string; updated: boolean }
+  | { clientId: string; status: 'invalid'; field: string; message: string }
+  | {
+      clientId: string;
+      status: 'conflict';
+      id: string;
+      server: MergeValues;
+      serverUpdatedAt: number;
+    };
+
+export interface ExposureBatchItem {
+  draft: ExposureDraft;
+  updatedAt: number;
+  baseUpdatedAt?: number; // Lets the server detect edits made elsewhere since the base
+}
+
+/**
+ * Transport used to push queued exposures to the backend
+ * syncBatch must be idempotent on each draft.clientId
+ */
+export interface ExposureSyncTransport {
+  syncBatch(items: ExposureBatchItem[]): Promise<ExposureBatchResult[]>;
+}
+
+export class OfflineQueueManager {
   private queue: QueuedExposure[] = [];
-  private isProcessing = false;
+  private conflicts: SyncConflict[] = [];
+  private transport: ExposureSyncTransport | null = null;
+  private processing: Promise<void> | null = null;
   private listeners: Set<() => void> = new Set();
 
   constructor() {
@@ -33,11 +90,22 @@ class OfflineQueueManager {
   }
 
   /**
-   * Load queue from storage on initialization
+   * Load queue and conflicts from storage on initialization
    */
   private loadQueue(): void {
     const stored = storageHelpers.get<QueuedExposure[]>(StorageKeys.EXPOSURE_QUEUE);
-    this.queue = stored || [];
+    // Items persisted before updatedAt existed fall back to their queue time
+    this.queue = (stored || []).map(item => ({
+      ...item,
+      updatedAt: item.updatedAt ?? item.createdAt,
+      base: item.base ?? null,
+    }));
+    const conflicts = storageHelpers.get<SyncConflict[]>(StorageKeys.SYNC_CONFLICTS);
+    this.conflicts = (conflicts || []).map(conflict => ({
+      ...conflict,
+      base: conflict.base ?? null,
+      fields: conflict.fields ?? [],
+    }));
   }
 
   /**
@@ -48,12 +116,31 @@ class OfflineQueueManager {
     this.notifyListeners();
   }
 
+  /**
+   * Save conflicts to storage
+   */
+  private saveConflicts(): void {
+    storageHelpers.set(StorageKeys.SYNC_CONFLICTS, this.conflicts);
+    this.notifyListeners();
+  }
+
+  /**
+   * Set the transport used to sync queued exposures
+   * Called once the Convex client is available
+   */
+  setTransport(transport: ExposureSyncTransport | null): void {
+    this.transport = transport;
+    if (transport && this.queue.length > 0) {
+      this.processQueue();
+    }
+  }
+
   /**
    * Setup network listener to auto-process queue when online
    */
   private setupNetworkListener(): void {
     NetInfo.addEventListener(state => {
-      if (state.isConnected && this.queue.length > 0 && !this.isProcessing) {
+      if (state.isConnected && this.queue.length > 0 && !this.processing) {
         this.processQueue();
       }
     });
@@ -61,18 +148,31 @@ class OfflineQueueManager {
 
   /**
    * Add exposure to queue
+   * Pass the server version when queueing an edit of an existing record
+   * A later edit of a record still queued replaces it, keeping the original base
+   * until a sync of the replaced edit returns the server version to rebase on
    */
-  add(draft: ExposureDraft): void {
+  add(draft: ExposureDraft, base: ExposureSnapshot | null = null): void {
+    const now = Date.now();
+    const index = this.queue.findIndex(item => item.id === draft.clientId);
+    const existing = index !== -1 ? this.queue[index] : null;
     const queueItem: QueuedExposure = {
       id: draft.clientId,
       draft,
       attemptCount: 0,
       lastAttempt: null,
-      createdAt: Date.now(),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      base: existing ? existing.base : base,
       error: null,
     };
 
-    this.queue.push(queueItem);
+    // A new object, so an in-flight sync of the old entry does not remove this one
+    if (existing) {
+      this.queue[index] = queueItem;
+    } else {
+      this.queue.push(queueItem);
+    }
     this.saveQueue();
 
     // Try to process immediately if online
@@ -83,6 +183,32 @@ class OfflineQueueManager {
     });
   }
 
+  /**
+   * Add new exposures to the queue in one write, as when importing a file
+   */
+  addAll(drafts: ExposureDraft[]): void {
+    const now = Date.now();
+    this.queue.push(
+      ...drafts.map(draft => ({
+        id: draft.clientId,
+        draft,
+        attemptCount: 0,
+        lastAttempt: null,
+        createdAt: now,
+        updatedAt: now,
+        base: null,
+        error: null,
+      }))
+    );
+    this.saveQueue();
+
+    NetInfo.fetch().then(state => {
+      if (state.isConnected) {
+        this.processQueue();
+      }
+    });
+  }
+
   /**
    * Remove exposure from queue (after successful sync)
    */
@@ -98,6 +224,7 @@ class OfflineQueueManager {
     const index = this.queue.findIndex(item => item.id === clientId);
     if (index !== -1) {
       this.queue[index].draft = draft;
+      this.queue[index].updatedAt = Date.now();
       this.queue[index].error = null;
       this.saveQueue();
     }
@@ -126,72 +253,257 @@ class OfflineQueueManager {
 
   /**
    * Process queue - sync all pending exposures
+   * Concurrent callers share the in-flight run
    */
-  async processQueue(): Promise<void> {
-    if (this.isProcessing || this.queue.length === 0) {
-      return;
+  processQueue(): Promise<void> {
+    if (this.processing) {
+      return this.processing;
+    }
+
+    if (this.queue.length === 0) {
+      return Promise.resolve();
     }
 
-    this.isProcessing = true;
+    if (!this.transport) {
+      console.warn('No sync transport configured, skipping queue processing');
+      return Promise.resolve();
+    }
+
+    this.processing = this.runQueue().finally(() => {
+      this.processing = null;
+    });
+    return this.processing;
+  }
 
+  /**
+   * Sync queued items in order
+   */
+  private async runQueue(): Promise<void> {
     try {
       // Check network status
       const netInfo = await NetInfo.fetch();
       if (!netInfo.isConnected) {
         console.warn('No network connection, skipping queue processing');
-        this.isProcessing = false;
         return;
       }
 
-      // Process items in order
-      for (const item of [...this.queue]) {
-        await this.processItem(item);
+      // Send items that are past their backoff window, oldest first
+      const due = this.queue.filter(item => this.isDue(item));
+      const merged: QueuedExposure[] = [];
+      for (let i = 0; i < due.length; i += SYNC_BATCH_SIZE) {
+        merged.push(...(await this.processBatch(due.slice(i, i + SYNC_BATCH_SIZE))));
+      }
+
+      // Push auto-merged edits straight away, rebased on the server version
+      for (let i = 0; i < merged.length; i += SYNC_BATCH_SIZE) {
+        await this.processBatch(merged.slice(i, i + SYNC_BATCH_SIZE));
       }
     } catch (error) {
       console.error('Queue processing error:', error);
-    } finally {
-      this.isProcessing = false;
     }
   }
 
   /**
-   * Process single queue item
+   * Exponential backoff - don't retry too frequently
    */
-  private async processItem(item: QueuedExposure): Promise<void> {
-    try {
-      // TODO: Implement actual sync logic with Convex mutation
-      // For now, this is a placeholder that will be implemented in Phase 3
-
-      // Exponential backoff - don't retry too frequently
-      const minWaitTime = Math.pow(2, item.attemptCount) * 1000; // 1s, 2s, 4s, 8s...
-      const timeSinceLastAttempt = item.lastAttempt ? Date.now() - item.lastAttempt : Infinity;
+  private isDue(item: QueuedExposure): boolean {
+    const minWaitTime = Math.pow(2, item.attemptCount) * 1000; // 1s, 2s, 4s, 8s...
+    const timeSinceLastAttempt = item.lastAttempt ? Date.now() - item.lastAttempt : Infinity;
+    return timeSinceLastAttempt >= minWaitTime;
+  }
 
-      if (timeSinceLastAttempt < minWaitTime) {
-        return; // Too soon to retry
-      }
+  /**
+   * Sync a batch of queue items in one round trip
+   * Resolves each item from the per-item results and keeps only the failed ones
+   * Returns the items that were auto-merged with a newer server version
+   */
+  private async processBatch(items: QueuedExposure[]): Promise<QueuedExposure[]> {
+    const transport = this.transport;
+    if (!transport) {
+      return [];
+    }
 
-      // Update attempt count
+    // Update attempt counts
+    const now = Date.now();
+    items.forEach(item => {
       item.attemptCount++;
-      item.lastAttempt = Date.now();
-      this.saveQueue();
-
-      // Simulate sync (replace with actual Convex mutation)
-      console.log(`Syncing exposure ${item.id}...`);
+      item.lastAttempt = now;
+    });
+    this.saveQueue();
 
-      // On success, remove from queue
-      // this.remove(item.id);
+    let results: ExposureBatchResult[];
+    try {
+      // clientId makes each upsert idempotent, so a retry after a lost response is safe
+      results = await transport.syncBatch(
+        items.map(item => ({
+          draft: item.draft,
+          updatedAt: item.updatedAt,
+          baseUpdatedAt: item.base?.updatedAt,
+        }))
+      );
     } catch (error) {
-      console.error(`Failed to sync exposure ${item.id}:`, error);
-      item.error = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Failed to sync batch of ${items.length} exposures:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      items.forEach(item => this.recordFailure(item, message));
+      this.saveQueue();
+      return [];
+    }
 
-      // Give up after 5 attempts
-      if (item.attemptCount >= 5) {
-        console.error(`Max retries reached for exposure ${item.id}, moving to conflicts`);
-        // TODO: Move to conflicts for manual resolution
+    const resultsByClientId = new Map(results.map(result => [result.clientId, result]));
+    const synced = new Set<QueuedExposure>();
+    const merged: QueuedExposure[] = [];
+
+    for (const item of items) {
+      const result = resultsByClientId.get(item.id);
+      // A later edit queued while this one was in flight, see add()
+      const replacement = this.queue.find(queued => queued.id === item.id && queued !== item);
+      if (!result) {
+        this.recordFailure(item, 'Missing from sync response');
+      } else if (result.status === 'invalid') {
+        // Retrying cannot fix a draft the server rejects, so it goes to the user now
+        item.error = `${result.field}: ${result.message}`;
+        this.moveToConflicts(item);
+      } else if (result.status === 'conflict') {
+        const target = replacement ?? item;
+        if (
+          this.mergeWithServer(target, { values: result.server, updatedAt: result.serverUpdatedAt })
+        ) {
+          merged.push(target);
+        }
+      } else {
+        if (result.status === 'duplicate' && !result.updated) {
+          // Server already holds this version or a newer edit from another device
+          console.warn(`Exposure ${item.id} superseded by server version ${result.id}`);
+        } else if (replacement) {
+          replacement.base = { values: toMergeValues(item.draft), updatedAt: item.updatedAt };
+        }
+        synced.add(item);
       }
+    }
+
+    // Server state is now authoritative for synced items, remove them from queue
+    this.queue = this.queue.filter(item => !synced.has(item));
+    this.saveQueue();
+    return merged;
+  }
+
+  /**
+   * Three-way merge a queued edit with a server version edited elsewhere
+   * Clean merges are rebased on the server version and stay queued;
+   * clashing fields move the item to conflicts for the user to resolve
+   */
+  private mergeWithServer(item: QueuedExposure, server: ExposureSnapshot): boolean {
+    const { merged, conflicts } = threeWayMerge(
+      item.base?.values ?? null,
+      item.draft,
+      server.values
+    );
+
+    item.draft = merged;
+    item.base = server;
+    item.updatedAt = Date.now();
+    item.lastAttempt = null;
+    item.error = null;
+
+    if (conflicts.length > 0) {
+      item.error = `Edited on another device: ${conflicts.map(c => c.field).join(', ')}`;
+      this.moveToConflicts(item, conflicts);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Record a failed attempt, giving up after max attempts
+   */
+  private recordFailure(item: QueuedExposure, message: string): void {
+    item.error = message;
 
+    if (item.attemptCount >= MAX_ATTEMPTS) {
+      console.error(`Max retries reached for exposure ${item.id}, moving to conflicts`);
+      this.moveToConflicts(item);
+    }
+  }
+
+  /**
+   * Move item out of the queue into the persisted conflicts store
+   * Nothing moves when a later edit of the record is queued, as that edit supersedes it
+   */
+  private moveToConflicts(item: QueuedExposure, fields: FieldConflict[] = []): void {
+    this.queue = this.queue.filter(queued => queued !== item);
+    if (this.queue.some(queued => queued.id === item.id)) {
       this.saveQueue();
+      return;
+    }
+    this.conflicts = this.conflicts.filter(conflict => conflict.id !== item.id);
+    this.conflicts.push({
+      id: item.id,
+      draft: item.draft,
+      attemptCount: item.attemptCount,
+      error: item.error,
+      createdAt: item.createdAt,
+      updatedAt: item.updatedAt,
+      base: item.base,
+      fields,
+      movedAt: Date.now(),
+    });
+    storageHelpers.set(StorageKeys.EXPOSURE_QUEUE, this.queue);
+    this.saveConflicts();
+  }
+
+  /**
+   * Get all items that need manual resolution
+   */
+  getConflicts(): SyncConflict[] {
+    return [...this.conflicts];
+  }
+
+  /**
+   * Requeue a conflict with a fresh attempt count
+   * Optionally replaces the draft with a corrected version
+   */
+  retryConflict(clientId: string, draft?: ExposureDraft): void {
+    const conflict = this.conflicts.find(item => item.id === clientId);
+    if (!conflict) {
+      return;
+    }
+
+    this.conflicts = this.conflicts.filter(item => item.id !== clientId);
+    this.queue.push({
+      id: conflict.id,
+      draft: draft ?? conflict.draft,
+      attemptCount: 0,
+      lastAttempt: null,
+      createdAt: conflict.createdAt,
+      updatedAt: draft ? Date.now() : conflict.updatedAt,
+      base: conflict.base,
+      error: null,
+    });
+    storageHelpers.set(StorageKeys.SYNC_CONFLICTS, this.conflicts);
+    this.saveQueue();
+    this.processQueue();
+  }
+
+  /**
+   * Resolve clashing fields with the values the user picked and requeue
+   * The edit is rebased on the server version the clash was detected against
+   */
+  resolveConflict(clientId: string, values: Partial<MergeValues>): void {
+    const conflict = this.conflicts.find(item => item.id === clientId);
+    if (!conflict) {
+      return;
     }
+
+    this.retryConflict(clientId, { ...conflict.draft, ...values });
+  }
+
+  /**
+   * Discard a conflict without syncing it
+   */
+  discardConflict(clientId: string): void {
+    this.conflicts = this.conflicts.filter(item => item.id !== clientId);
+    this.saveConflicts();
   }
 
   /**
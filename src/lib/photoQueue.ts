@@ -8,20 +8,61 @@
  * - Auto-retry with exponential backoff
  * - Network-aware uploads (WiFi preference)
  * - Parallel uploads with concurrency limit
+ * - Waits for the parent exposure to sync before uploading
+ * - Resumable chunked uploads that continue where a dropped connection left off
+ * - Duplicate photos skipped by content hash
+ *
+ * Network calls go through a PhotoUploadTransport so the upload flow can be
+ * exercised against a fake Convex client in tests.
  */
 
-import { PhotoUploadQueueItem } from '../types/photo';
+import { PhotoExif, PhotoUploadQueueItem } from '../types/photo';
 import { storageHelpers, StorageKeys } from './storage';
 import NetInfo from '@react-native-community/netinfo';
-import * as FileSystem from 'expo-file-system';
 
 const MAX_CONCURRENT_UPLOADS = 2;
 const MAX_RETRY_COUNT = 5;
 const WIFI_ONLY_SIZE_THRESHOLD = 5 * 1024 * 1024; // 5MB
+export const UPLOAD_CHUNK_SIZE = 256 * 1024; // Small enough to finish between 3G dropouts
+
+// Outcome of photos.startUpload
+export type StartUploadResult =
+  | { status: 'duplicate'; photoId: string }
+  | { status: 'started'; uploadId: string; receivedBytes: number };
+
+/**
+ * Transport used to upload queued photos
+ * Mirrors the resumable upload functions in convex/photos.ts
+ */
+export interface PhotoUploadTransport {
+  // Convex exposure id for a clientId, or null while the exposure is not synced yet
+  resolveExposureId(exposureClientId: string): Promise<string | null>;
+  // Start or resume an upload, or skip it when the server already has the file
+  startUpload(args: {
+    exposureId: string;
+    localUri: string;
+    contentHash: string | null; // Computed by the transport when missing
+    fileName: string;
+    fileSize: number;
+    mimeType: string;
+    width: number;
+    height: number;
+    exif: PhotoExif | null;
+  }): Promise<StartUploadResult>;
+  // Bytes the server already has, or null when the upload no longer exists
+  getReceivedBytes(uploadId: string): Promise<number | null>;
+  // Send one chunk of the file and return the bytes the server now has
+  uploadChunk(uploadId: string, localUri: string, offset: number, length: number): Promise<number>;
+  // Assemble the chunks into a photo appended to the exposure's photoIds
+  completeUpload(uploadId: string): Promise<string>;
+}
 
-class PhotoQueueManager {
+export class PhotoQueueManager {
   private queue: PhotoUploadQueueItem[] = [];
+  private transport: PhotoUploadTransport | null = null;
   private activeUploads: Set<string> = new Set();
+  private processing: Promise<void> | null = null;
+  private rerunRequested = false;
   private listeners: Set<(queue: PhotoUploadQueueItem[]) => void> = new Set();
 
   constructor() {
@@ -34,7 +75,13 @@ class PhotoQueueManager {
    */
   private loadQueue(): void {
     const stored = storageHelpers.get<PhotoUploadQueueItem[]>(StorageKeys.PHOTO_QUEUE);
-    this.queue = stored || [];
+    // Items persisted before exposureId existed resolve it again on upload
+    this.queue = (stored || []).map(item => ({
+      ...item,
+      exposureId: item.exposureId ?? null,
+      contentHash: item.contentHash ?? null,
+      uploadId: item.uploadId ?? null,
+    }));
   }
 
   /**
@@ -45,6 +92,17 @@ class PhotoQueueManager {
     this.notifyListeners();
   }
 
+  /**
+   * Set the transport used to upload queued photos
+   * Called once the Convex client is available
+   */
+  setTransport(transport: PhotoUploadTransport | null): void {
+    this.transport = transport;
+    if (transport && this.queue.length > 0) {
+      this.processQueue();
+    }
+  }
+
   /**
    * Setup network listener for auto-upload
    */
@@ -62,12 +120,21 @@ class PhotoQueueManager {
   add(
     item: Omit<
       PhotoUploadQueueItem,
-      'id' | 'uploadStatus' | 'uploadProgress' | 'retryCount' | 'lastAttempt' | 'createdAt'
+      | 'id'
+      | 'exposureId'
+      | 'uploadId'
+      | 'uploadStatus'
+      | 'uploadProgress'
+      | 'retryCount'
+      | 'lastAttempt'
+      | 'createdAt'
     >
   ): string {
     const queueItem: PhotoUploadQueueItem = {
       ...item,
       id: `photo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      exposureId: null,
+      uploadId: null,
       uploadStatus: 'pending',
       uploadProgress: 0,
       retryCount: 0,
@@ -147,8 +214,33 @@ class PhotoQueueManager {
 
   /**
    * Process upload queue
+   * Concurrent callers share the in-flight run, which runs again for photos they added
    */
-  async processQueue(): Promise<void> {
+  processQueue(): Promise<void> {
+    if (this.processing) {
+      this.rerunRequested = true;
+      return this.processing;
+    }
+
+    if (!this.transport) {
+      return Promise.resolve();
+    }
+
+    this.processing = (async () => {
+      do {
+        this.rerunRequested = false;
+        await this.runQueue();
+      } while (this.rerunRequested);
+    })().finally(() => {
+      this.processing = null;
+    });
+    return this.processing;
+  }
+
+  /**
+   * Upload pending photos whose exposure has synced
+   */
+  private async runQueue(): Promise<void> {
     // Check network
     const netInfo = await NetInfo.fetch();
     if (!netInfo.isConnected) {
@@ -175,12 +267,57 @@ class PhotoQueueManager {
       return true;
     });
 
-    // Upload with concurrency limit
-    const toUpload = uploadable.slice(0, MAX_CONCURRENT_UPLOADS - this.activeUploads.size);
+    // Only photos whose exposure exists server-side can upload
+    const ready = await this.resolveParents(uploadable);
+
+    // Upload with concurrency limit, each slot taking the next photo as its upload finishes
+    const slots = Math.max(0, MAX_CONCURRENT_UPLOADS - this.activeUploads.size);
+    await Promise.all(
+      Array.from({ length: slots }, async () => {
+        for (let item = ready.shift(); item; item = ready.shift()) {
+          await this.uploadPhoto(item);
+        }
+      })
+    );
+  }
 
-    for (const item of toUpload) {
-      this.uploadPhoto(item);
+  /**
+   * Resolve each item's parent exposure to its Convex ID
+   * Items whose exposure has not synced yet are left pending without using a retry
+   */
+  private async resolveParents(items: PhotoUploadQueueItem[]): Promise<PhotoUploadQueueItem[]> {
+    const transport = this.transport;
+    if (!transport) {
+      return [];
     }
+
+    const resolved = new Map<string, string | null>();
+    const ready: PhotoUploadQueueItem[] = [];
+
+    for (const item of items) {
+      if (!item.exposureId) {
+        // Photos of the same exposure share one lookup
+        if (!resolved.has(item.exposureClientId)) {
+          try {
+            resolved.set(
+              item.exposureClientId,
+              await transport.resolveExposureId(item.exposureClientId)
+            );
+          } catch (error) {
+            console.error(`Failed to resolve exposure ${item.exposureClientId}:`, error);
+            resolved.set(item.exposureClientId, null);
+          }
+        }
+        item.exposureId = resolved.get(item.exposureClientId) ?? null;
+      }
+
+      if (item.exposureId) {
+        ready.push(item);
+      }
+    }
+
+    this.saveQueue();
+    return ready;
   }
 
   /**
@@ -196,29 +333,72 @@ class PhotoQueueManager {
       }
     }
 
-    // Mark as uploading
+    const transport = this.transport;
+    const exposureId = item.exposureId;
+    if (!transport || !exposureId) {
+      return;
+    }
+
     this.activeUploads.add(item.id);
-    this.updateStatus(item.id, 'uploading');
-    item.retryCount++;
-    item.lastAttempt = Date.now();
-    this.saveQueue();
 
     try {
-      // Verify file exists
-      const fileInfo = await FileSystem.getInfoAsync(item.localUri);
-      if (!fileInfo.exists) {
-        throw new Error('Photo file not found');
+      // Mark as uploading
+      item.uploadStatus = 'uploading';
+      item.retryCount++;
+      item.lastAttempt = Date.now();
+      this.saveQueue();
+
+      // Ask the server how far a previous attempt got
+      let uploadId = item.uploadId;
+      let receivedBytes = uploadId ? await transport.getReceivedBytes(uploadId) : null;
+
+      if (uploadId === null || receivedBytes === null) {
+        const started = await transport.startUpload({
+          exposureId,
+          localUri: item.localUri,
+          contentHash: item.contentHash,
+          fileName: item.fileName,
+          fileSize: item.fileSize,
+          mimeType: item.mimeType,
+          width: item.width,
+          height: item.height,
+          exif: item.exif,
+        });
+
+        // Server already has this file, nothing to send
+        if (started.status === 'duplicate') {
+          this.remove(item.id);
+          return;
+        }
+
+        uploadId = started.uploadId;
+        receivedBytes = started.receivedBytes;
+        item.uploadId = uploadId;
+        this.saveQueue();
       }
 
-      // TODO: Implement actual upload to Convex storage
-      // This is a placeholder that will be implemented in Phase 3
-      console.log(`Uploading photo ${item.id}...`);
+      this.updateProgress(item.id, this.toProgress(receivedBytes, item.fileSize));
+
+      // Continue from the first byte the server doesn't have
+      while (receivedBytes < item.fileSize) {
+        const length = Math.min(UPLOAD_CHUNK_SIZE, item.fileSize - receivedBytes);
+        const nextReceivedBytes = await transport.uploadChunk(
+          uploadId,
+          item.localUri,
+          receivedBytes,
+          length
+        );
+        if (nextReceivedBytes <= receivedBytes) {
+          throw new Error('Upload made no progress');
+        }
+        receivedBytes = nextReceivedBytes;
+        this.updateProgress(item.id, this.toProgress(receivedBytes, item.fileSize));
+      }
 
-      // Simulate upload with progress
-      // const result = await this.uploadToConvex(item);
+      // Completing appends the photo to the exposure's photoIds server-side
+      await transport.completeUpload(uploadId);
 
-      // On success:
-      // this.remove(item.id);
+      this.remove(item.id);
     } catch (error) {
       console.error(`Photo upload failed for ${item.id}:`, error);
       this.updateStatus(item.id, 'error');
@@ -232,6 +412,13 @@ class PhotoQueueManager {
     }
   }
 
+  /**
+   * Upload progress as a 0-100 percentage
+   */
+  private toProgress(receivedBytes: number, fileSize: number): number {
+    return fileSize > 0 ? Math.round((receivedBytes / fileSize) * 100) : 100;
+  }
+
   /**
    * Retry failed uploads
    */
@@ -68,6 +68,9 @@ export const StorageKeys = {
 
   // User preferences
   USER_PREFERENCES: 'user_preferences',
+  EXPORT_TEMPLATES: 'export_templates',
+  EXPORT_TEMPLATE_ID: 'export_template_id',
+  CSV_OPTIONS: 'csv_options',
 
   // Cached data
   RECENT_LOCATIONS: 'recent_locations',
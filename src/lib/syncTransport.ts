@@ -0,0 +1,126 @@
+/**
+ * Convex Sync Transport
+ * Binds the offline exposure and photo queues to Convex
+ *
+ * Kept separate from the queues so they have no dependency on generated
+ * Convex code and can be tested with a fake transport.
+ */
+
+import { ConvexReactClient } from 'convex/react';
+import * as FileSystem from 'expo-file-system/legacy';
+import { api } from '../../convex/_generated/api';
+import { Id } from '../../convex/_generated/dataModel';
+import { ExposureDraft } from '../types/exposure';
+import { ExposureBatchResult, ExposureSyncTransport, offlineQueue } from './offlineQueue';
+import { PhotoUploadTransport } from './photoQueue';
+import { base64ToBytes, hashPhoto } from './camera';
+
+/**
+ * Map a local draft to the exposures.create mutation arguments
+ */
+export function draftToCreateArgs(draft: ExposureDraft) {
+  return {
+    clientId: draft.clientId,
+    exposureType: draft.exposureType,
+    timestamp: draft.timestamp,
+    duration: draft.duration,
+    location: draft.location,
+    severity: draft.severity,
+    ppe: draft.ppe,
+    workActivity: draft.workActivity,
+    notes: draft.notes,
+    chemicalName: draft.chemicalName,
+    sdsReference: draft.sdsReference,
+    controlMeasures: draft.controlMeasures,
+    vibrationTools: draft.vibrationTools ?? null,
+    bloodLeadTestReference: draft.bloodLeadTestReference ?? null,
+    noiseSegments: draft.noiseSegments ?? null,
+    noisePeakDbC: draft.noisePeakDbC ?? null,
+    concentration: draft.concentration ?? null,
+    photoIds: [], // Photos go through photoQueue once the exposure exists
+    voiceTranscription: draft.voiceTranscription,
+  };
+}
+
+/**
+ * Create a sync transport backed by the Convex client
+ */
+export function createConvexSyncTransport(client: ConvexReactClient): ExposureSyncTransport {
+  return {
+    async syncBatch(items): Promise<ExposureBatchResult[]> {
+      return await client.mutation(api.exposures.syncBatch, {
+        items: items.map(item => ({
+          draft: draftToCreateArgs(item.draft),
+          updatedAt: item.updatedAt,
+          baseUpdatedAt: item.baseUpdatedAt,
+        })),
+      });
+    },
+  };
+}
+
+/**
+ * Create a photo upload transport backed by the Convex client
+ */
+export function createConvexPhotoTransport(client: ConvexReactClient): PhotoUploadTransport {
+  return {
+    async resolveExposureId(exposureClientId) {
+      // Still queued locally, no need to ask the server
+      if (offlineQueue.get(exposureClientId)) {
+        return null;
+      }
+      return await client.query(api.exposures.getIdByClientId, { clientId: exposureClientId });
+    },
+
+    async startUpload({ localUri, contentHash, ...args }) {
+      return await client.mutation(api.photos.startUpload, {
+        ...args,
+        exposureId: args.exposureId as Id<'exposures'>,
+        // Photos queued before capture-time hashing are hashed here
+        contentHash: contentHash ?? (await hashPhoto(localUri)),
+      });
+    },
+
+    async getReceivedBytes(uploadId) {
+      const status = await client.query(api.photos.getUploadStatus, {
+        uploadId: uploadId as Id<'photoUploads'>,
+      });
+      return status ? status.receivedBytes : null;
+    },
+
+    async uploadChunk(uploadId, localUri, offset, length) {
+      const base64 = await FileSystem.readAsStringAsync(localUri, {
+        encoding: FileSystem.EncodingType.Base64,
+        position: offset,
+        length,
+      });
+
+      const uploadUrl = await client.mutation(api.photos.generateChunkUploadUrl, {
+        uploadId: uploadId as Id<'photoUploads'>,
+      });
+      const response = await fetch(uploadUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: base64ToBytes(base64),
+      });
+      if (!response.ok) {
+        throw new Error(`Chunk upload failed with status ${response.status}`);
+      }
+
+      // Convex storage responds with the new storage ID
+      const { storageId } = (await response.json()) as { storageId: Id<'_storage'> };
+      const { receivedBytes } = await client.mutation(api.photos.recordChunk, {
+        uploadId: uploadId as Id<'photoUploads'>,
+        offset,
+        storageId,
+      });
+      return receivedBytes;
+    },
+
+    async completeUpload(uploadId) {
+      return await client.action(api.photos.completeUpload, {
+        uploadId: uploadId as Id<'photoUploads'>,
+      });
+    },
+  };
+}
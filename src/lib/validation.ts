@@ -6,7 +6,7 @@
  */
 
 import { ExposureDraft, ExposureValidationResult } from '../types/exposure';
-import { EXPOSURE_TYPES, PPE_TYPES } from '@constants/exposureTypes';
+import { isExposureTypeId, isPPEId } from '../../convex/taxonomy';
 
 /**
  * Validate exposure draft before submission
@@ -20,7 +20,7 @@ export function validateExposure(draft: ExposureDraft): ExposureValidationResult
       field: 'exposureType',
       message: 'Exposure type is required',
     });
-  } else if (!EXPOSURE_TYPES[draft.exposureType]) {
+  } else if (!isExposureTypeId(draft.exposureType)) {
     errors.push({
       field: 'exposureType',
       message: 'Invalid exposure type',
@@ -76,7 +76,7 @@ export function validateExposure(draft: ExposureDraft): ExposureValidationResult
       message: 'PPE must be an array',
     });
   } else {
-    const invalidPPE = draft.ppe.filter(ppe => !PPE_TYPES[ppe]);
+    const invalidPPE = draft.ppe.filter(ppe => !isPPEId(ppe));
     if (invalidPPE.length > 0) {
       errors.push({
         field: 'ppe',
@@ -117,15 +117,56 @@ export function validateExposure(draft: ExposureDraft): ExposureValidationResult
     }
   }
 
+  // Vibrating tools, each with a magnitude in m/s² and trigger time in minutes
+  if (draft.exposureType === 'vibration' && (draft.vibrationTools ?? []).length === 0) {
+    errors.push({
+      field: 'vibrationTools',
+      message: 'At least one tool is required for vibration exposures',
+    });
+  }
+  const invalidTool = (draft.vibrationTools ?? []).find(
+    tool =>
+      !tool.tool.trim() ||
+      tool.magnitude <= 0 ||
+      tool.magnitude > 100 ||
+      tool.triggerMinutes <= 0 ||
+      tool.triggerMinutes > 24 * 60
+  );
+  if (invalidTool) {
+    errors.push({
+      field: 'vibrationTools',
+      message: 'Each tool needs a name, a magnitude up to 100 m/s² and a trigger time',
+    });
+  }
+
+  // Noise levels, in dB(A) with durations in minutes
+  const invalidSegment = (draft.noiseSegments ?? []).find(
+    segment => segment.levelDbA < 40 || segment.levelDbA > 140 || segment.durationMinutes <= 0
+  );
+  if (invalidSegment) {
+    errors.push({
+      field: 'noiseSegments',
+      message: 'Noise levels must be between 40 and 140 dB(A) with a duration',
+    });
+  }
+
+  // Airborne concentration
+  if (draft.concentration && !(draft.concentration.value > 0)) {
+    errors.push({
+      field: 'concentration',
+      message: 'Concentration must be greater than 0',
+    });
+  }
+
   // Photos
-  if (!Array.isArray(draft.photoUris)) {
+  if (!Array.isArray(draft.photos)) {
     errors.push({
-      field: 'photoUris',
+      field: 'photos',
       message: 'Photos must be an array',
     });
-  } else if (draft.photoUris.length > 5) {
+  } else if (draft.photos.length > 5) {
     errors.push({
-      field: 'photoUris',
+      field: 'photos',
       message: 'Maximum 5 photos allowed',
     });
   }
@@ -10,6 +10,7 @@
  */
 
 // No Voice import needed - this file only does parsing
+import type { ExposureTypeId, PPEId } from '../../convex/taxonomy';
 
 /**
  * Initialize voice recognition with NZ English locale
@@ -20,38 +21,47 @@ export async function initializeVoice(): Promise<void> {
 }
 
 /**
- * Exposure type keywords for recognition
+ * Exposure type keywords for recognition, keyed by taxonomy id
+ * Checked in order, so longer phrases that contain a shorter one come first
  */
-const EXPOSURE_TYPE_KEYWORDS: Record<string, string[]> = {
-  silica_dust: ['silica', 'silica dust', 'dust', 'concrete dust', 'stone dust'],
-  asbestos_class_a: ['asbestos class a', 'asbestos class 1', 'friable asbestos'],
+const EXPOSURE_TYPE_KEYWORDS: Partial<Record<ExposureTypeId, string[]>> = {
   asbestos_class_b: ['asbestos class b', 'asbestos class 2', 'non-friable asbestos'],
+  asbestos_class_a: ['asbestos class a', 'asbestos class 1', 'friable asbestos'],
+  lead: ['lead paint', 'lead dust', 'lead fumes', 'lead based', 'lead-based'],
+  silica_dust: ['silica', 'silica dust', 'dust', 'concrete dust', 'stone dust'],
   welding_fumes: ['welding', 'welding fumes', 'weld', 'welding smoke'],
   hazardous_chemicals: ['hazardous chemicals', 'chemicals', 'toxic chemicals', 'chemical spill'],
   noise: ['noise', 'loud noise', 'excessive noise'],
-  vibration: ['vibration', 'vibrating tools', 'hand arm vibration'],
   heat_stress: ['heat stress', 'hot conditions', 'heat exhaustion'],
-  cold_exposure: ['cold exposure', 'cold conditions', 'freezing'],
   contaminated_soils: ['contaminated soil', 'contaminated ground', 'soil contamination'],
-  lead: ['lead', 'lead paint', 'lead dust'],
-  confined_space: ['confined space', 'confined area', 'enclosed space'],
+  meth_contamination: ['meth contamination', 'meth lab', 'meth house'],
+  mould: ['mould', 'mold', 'black mould'],
+  biological_hazards: ['biological hazard', 'sewage', 'bird droppings'],
+  radiation: ['radiation', 'radioactive'],
+  vibration: ['vibration', 'vibrating tools', 'hand arm vibration', 'whole body vibration'],
+  cold_exposure: ['cold exposure', 'cold conditions', 'freezing', 'freezer', 'chiller'],
+  confined_space: ['confined space', 'confined area', 'enclosed space', 'ceiling void'],
 };
 
 /**
- * PPE keywords for recognition
+ * PPE keywords for recognition, keyed by taxonomy id
  */
-const PPE_KEYWORDS: Record<string, string[]> = {
-  P2_RESPIRATOR: ['p2 respirator', 'p2 mask', 'p2', 'respirator'],
-  P3_RESPIRATOR: ['p3 respirator', 'p3 mask', 'p3'],
-  HALF_FACE_RESPIRATOR: ['half face respirator', 'half mask'],
-  FULL_FACE_RESPIRATOR: ['full face respirator', 'full mask'],
-  SAFETY_GLASSES: ['safety glasses', 'safety goggles', 'eye protection'],
-  HARD_HAT: ['hard hat', 'helmet', 'safety helmet'],
-  GLOVES: ['gloves', 'safety gloves', 'chemical gloves', 'work gloves'],
-  STEEL_CAP_BOOTS: ['steel cap boots', 'steel toe boots', 'safety boots'],
-  HI_VIS_CLOTHING: ['hi vis', 'high visibility', 'hi-vis vest'],
-  HEARING_PROTECTION: ['hearing protection', 'ear muffs', 'ear plugs', 'earplugs'],
-  WELDING_MASK: ['welding mask', 'welding helmet', 'welding shield'],
+const PPE_KEYWORDS: Partial<Record<PPEId, string[]>> = {
+  p2_respirator: ['p2 respirator', 'p2 mask', 'p2', 'respirator'],
+  p3_respirator: ['p3 respirator', 'p3 mask', 'p3'],
+  half_face_respirator: ['half face respirator', 'half mask'],
+  full_face_respirator: ['full face respirator', 'full mask'],
+  safety_glasses: ['safety glasses', 'safety goggles', 'eye protection'],
+  hard_hat: ['hard hat', 'helmet', 'safety helmet'],
+  gloves: ['gloves', 'safety gloves', 'chemical gloves', 'work gloves'],
+  safety_boots: ['steel cap boots', 'steel toe boots', 'safety boots'],
+  hi_vis_clothing: ['hi vis', 'high visibility', 'hi-vis vest'],
+  hearing_protection: ['hearing protection', 'ear muffs', 'ear plugs', 'earplugs'],
+  welding_helmet: ['welding mask', 'welding helmet', 'welding shield'],
+  anti_vibration_gloves: ['anti vibration gloves', 'anti-vibration gloves', 'av gloves'],
+  thermal_clothing: ['thermals', 'thermal clothing', 'thermal layers'],
+  safety_harness: ['harness', 'safety harness'],
+  gas_detector: ['gas detector', 'gas monitor', 'gas meter'],
 };
 
 /**
@@ -93,14 +103,14 @@ const WORD_TO_NUMBER: Record<string, number> = {
 /**
  * Parse exposure type from transcript
  */
-export function parseExposureType(transcript: string): string | null {
+export function parseExposureType(transcript: string): ExposureTypeId | null {
   const lowerTranscript = transcript.toLowerCase();
 
   // Check each exposure type's keywords
   for (const [type, keywords] of Object.entries(EXPOSURE_TYPE_KEYWORDS)) {
     for (const keyword of keywords) {
       if (lowerTranscript.includes(keyword)) {
-        return type;
+        return type as ExposureTypeId;
       }
     }
   }
@@ -162,13 +172,13 @@ export function parseDuration(transcript: string): { hours: number; minutes: num
 
 /**
  * Parse PPE from transcript
- * Returns array of PPE type keys
+ * Returns array of PPE taxonomy ids
  */
-export function parsePPE(transcript: string): string[] {
+export function parsePPE(transcript: string): PPEId[] {
   const lowerTranscript = transcript.toLowerCase();
-  const foundPPE: string[] = [];
+  const foundPPE: PPEId[] = [];
 
-  for (const [ppeType, keywords] of Object.entries(PPE_KEYWORDS)) {
+  for (const [ppeType, keywords] of Object.entries(PPE_KEYWORDS) as [PPEId, string[]][]) {
     for (const keyword of keywords) {
       if (lowerTranscript.includes(keyword)) {
         if (!foundPPE.includes(ppeType)) {
@@ -271,10 +281,10 @@ export function parseChemicalName(transcript: string): string | null {
  * Returns structured data for form population
  */
 export interface ParsedExposure {
-  exposureType?: string;
+  exposureType?: ExposureTypeId;
   duration?: { hours: number; minutes: number };
   severity?: 'low' | 'medium' | 'high';
-  ppe?: string[];
+  ppe?: PPEId[];
   workActivity?: string;
   chemicalName?: string;
   notes?: string;
@@ -4,6 +4,8 @@
  */
 
 import { Id } from 'convex/_generated/dataModel';
+import type { Concentration, NoiseSegment, VibrationToolUse } from '../../convex/exposureDose';
+import type { PhotoLocal } from './photo';
 
 export type SyncStatus = 'pending' | 'syncing' | 'synced' | 'error';
 
@@ -35,6 +37,11 @@ export interface ExposureRecord {
   chemicalName: string | null;
   sdsReference: string | null; // Safety Data Sheet reference
   controlMeasures: string | null;
+  vibrationTools?: VibrationToolUse[] | null; // Vibration only, magnitude and trigger time per tool
+  bloodLeadTestReference?: string | null; // Lead only
+  noiseSegments?: NoiseSegment[] | null; // Noise only, dB(A) level per part of the shift
+  noisePeakDbC?: number | null; // Noise only
+  concentration?: Concentration | null; // Airborne substances, behind the daily WES-TWA
   photoIds: Id<'photos'>[];
   syncStatus: SyncStatus;
   voiceTranscription: string | null;
@@ -58,7 +65,12 @@ export interface ExposureDraft {
   chemicalName: string | null;
   sdsReference: string | null;
   controlMeasures: string | null;
-  photoUris: string[]; // Local URIs before upload
+  vibrationTools?: VibrationToolUse[] | null; // Vibration only, magnitude and trigger time per tool
+  bloodLeadTestReference?: string | null; // Lead only
+  noiseSegments?: NoiseSegment[] | null; // Noise only, dB(A) level per part of the shift
+  noisePeakDbC?: number | null; // Noise only
+  concentration?: Concentration | null; // Airborne substances, behind the daily WES-TWA
+  photos: PhotoLocal[]; // Captured photos with their capture-time hash, before upload
   voiceTranscription: string | null;
 }
 
@@ -32,6 +32,7 @@ export interface Photo {
   uploadProgress: number; // 0-100
   retryCount: number;
   uploadedAt: number | null;
+  contentHash?: string; // SHA-256 of the file
   isDeleted: boolean;
   deletedAt: number | null;
   _creationTime: number;
@@ -46,12 +47,14 @@ export interface PhotoLocal {
   width: number;
   height: number;
   exif: PhotoExif | null;
+  contentHash: string | null; // SHA-256 computed at capture time
 }
 
 // Photo upload queue item
 export interface PhotoUploadQueueItem {
   id: string; // UUID
   exposureClientId: string; // Links to exposure clientId
+  exposureId: string | null; // Convex exposure ID, set once the exposure has synced
   localUri: string;
   fileName: string;
   fileSize: number;
@@ -59,6 +62,8 @@ export interface PhotoUploadQueueItem {
   width: number;
   height: number;
   exif: PhotoExif | null;
+  contentHash: string | null; // SHA-256 computed at capture time
+  uploadId: string | null; // Server-side resumable upload, kept across retries
   uploadStatus: UploadStatus;
   uploadProgress: number;
   retryCount: number;